@@ -14,6 +14,10 @@ export const LOGGER_DIRECTORY = process.env.LOGGER_DIRECTORY ||
     ? '/home/logs' 
     : path.join(process.cwd(), 'logs'));
 
+export const TILES_DIRECTORY = process.env.TILES_DIRECTORY || path.join(process.cwd(), 'tiles');
+export const ELEVATION_DIRECTORY = process.env.ELEVATION_DIRECTORY || path.join(process.cwd(), 'elevation');
+export const SYSTEM_CATALOGUE_PATH = process.env.SYSTEM_CATALOGUE_PATH || path.join(process.cwd(), 'data', 'systemCatalogue.json');
+
 export const CLAUDE_API_KEY = process.env.CLAUDE_API_KEY || "";
 
 export const JWT_SECRET = process.env.JWT_SECRET || '';
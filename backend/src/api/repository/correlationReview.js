@@ -0,0 +1,38 @@
+import { query } from "./index.js";
+
+const REVIEW_COLUMNS = `
+  correlation_id, humint_entity_id, sigint_emitter_id, verified, manual_confidence,
+  notes, reviewed_by, updated_at`;
+
+export const selectCorrelationReviews = async () => {
+  return await query(`
+    SELECT ${REVIEW_COLUMNS} FROM correlation_review`
+  );
+}
+
+export const selectCorrelationReviewById = async (correlationId) => {
+  const rows = await query(`
+    SELECT ${REVIEW_COLUMNS} FROM correlation_review WHERE correlation_id = $1`,
+    [correlationId]
+  );
+  return rows[0];
+}
+
+export const upsertCorrelationReview = async (review) => {
+  const rows = await query(`
+    INSERT INTO correlation_review (correlation_id, humint_entity_id, sigint_emitter_id, verified, manual_confidence, notes, reviewed_by)
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    ON CONFLICT (correlation_id) DO UPDATE SET
+      humint_entity_id = COALESCE(EXCLUDED.humint_entity_id, correlation_review.humint_entity_id),
+      sigint_emitter_id = COALESCE(EXCLUDED.sigint_emitter_id, correlation_review.sigint_emitter_id),
+      verified = EXCLUDED.verified,
+      manual_confidence = EXCLUDED.manual_confidence,
+      notes = EXCLUDED.notes,
+      reviewed_by = EXCLUDED.reviewed_by,
+      updated_at = NOW()
+    RETURNING ${REVIEW_COLUMNS}`,
+    [review.correlationId, review.humintEntityId, review.sigintEmitterId, review.verified,
+      review.manualConfidence, review.notes, review.reviewedBy]
+  );
+  return rows[0];
+}
@@ -214,6 +214,9 @@ export const initializeDatabase = async () => {
       logger.info('Dropping existing tables...');
     
       await query('DROP TABLE IF EXISTS account CASCADE');
+      await query('DROP TABLE IF EXISTS sensor CASCADE');
+      await query('DROP TABLE IF EXISTS correlation_review CASCADE');
+      await query('DROP TABLE IF EXISTS tactical_graphics CASCADE');
     
       logger.info('All existing tables dropped successfully.');
     }
@@ -228,6 +231,43 @@ export const initializeDatabase = async () => {
       )
     `);
 
+    await query(`
+      CREATE TABLE IF NOT EXISTS sensor (
+        sensor_id VARCHAR(64) PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        latitude DOUBLE PRECISION NOT NULL,
+        longitude DOUBLE PRECISION NOT NULL,
+        antenna_height REAL NOT NULL,
+        max_range_km REAL NOT NULL,
+        frequency_bands JSONB NOT NULL DEFAULT '[]',
+        status VARCHAR(16) NOT NULL DEFAULT 'operational',
+        notes TEXT NOT NULL DEFAULT '',
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS correlation_review (
+        correlation_id VARCHAR(64) PRIMARY KEY,
+        humint_entity_id TEXT,
+        sigint_emitter_id TEXT,
+        verified BOOLEAN,
+        manual_confidence REAL,
+        notes TEXT NOT NULL DEFAULT '',
+        reviewed_by VARCHAR(255),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS tactical_graphics (
+        analysis_id VARCHAR(128) PRIMARY KEY,
+        graphics JSONB NOT NULL DEFAULT '[]',
+        updated_by VARCHAR(255),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
     await query("SET session_replication_role = 'origin'");
 
     logger.info('Database schema initialized successfully');
@@ -0,0 +1,50 @@
+import { query } from "./index.js";
+
+const SENSOR_COLUMNS = `
+  sensor_id, name, latitude, longitude, antenna_height, max_range_km,
+  frequency_bands, status, notes, updated_at`;
+
+export const selectSensors = async () => {
+  return await query(`
+    SELECT ${SENSOR_COLUMNS} FROM sensor ORDER BY name`
+  );
+}
+
+export const selectSensorById = async (sensorId) => {
+  const rows = await query(`
+    SELECT ${SENSOR_COLUMNS} FROM sensor WHERE sensor_id = $1`,
+    [sensorId]
+  );
+  return rows[0];
+}
+
+export const insertSensor = async (sensor) => {
+  const rows = await query(`
+    INSERT INTO sensor (sensor_id, name, latitude, longitude, antenna_height, max_range_km, frequency_bands, status, notes)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING ${SENSOR_COLUMNS}`,
+    [sensor.id, sensor.name, sensor.latitude, sensor.longitude, sensor.antennaHeight,
+      sensor.maxRangeKm, JSON.stringify(sensor.frequencyBands), sensor.status, sensor.notes]
+  );
+  return rows[0];
+}
+
+export const updateSensor = async (sensorId, sensor) => {
+  const rows = await query(`
+    UPDATE sensor SET name = $2, latitude = $3, longitude = $4, antenna_height = $5, max_range_km = $6,
+      frequency_bands = $7, status = $8, notes = $9, updated_at = NOW()
+    WHERE sensor_id = $1
+    RETURNING ${SENSOR_COLUMNS}`,
+    [sensorId, sensor.name, sensor.latitude, sensor.longitude, sensor.antennaHeight,
+      sensor.maxRangeKm, JSON.stringify(sensor.frequencyBands), sensor.status, sensor.notes]
+  );
+  return rows[0];
+}
+
+export const deleteSensor = async (sensorId) => {
+  const rows = await query(`
+    DELETE FROM sensor WHERE sensor_id = $1 RETURNING sensor_id`,
+    [sensorId]
+  );
+  return rows.length > 0;
+}
@@ -0,0 +1,25 @@
+import { query } from "./index.js";
+
+const GRAPHICS_COLUMNS = `analysis_id, graphics, updated_by, updated_at`;
+
+export const selectTacticalGraphicsByAnalysisId = async (analysisId) => {
+  const rows = await query(`
+    SELECT ${GRAPHICS_COLUMNS} FROM tactical_graphics WHERE analysis_id = $1`,
+    [analysisId]
+  );
+  return rows[0];
+}
+
+export const upsertTacticalGraphics = async (analysisId, graphics, updatedBy) => {
+  const rows = await query(`
+    INSERT INTO tactical_graphics (analysis_id, graphics, updated_by)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (analysis_id) DO UPDATE SET
+      graphics = EXCLUDED.graphics,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = NOW()
+    RETURNING ${GRAPHICS_COLUMNS}`,
+    [analysisId, JSON.stringify(graphics), updatedBy]
+  );
+  return rows[0];
+}
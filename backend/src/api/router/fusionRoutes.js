@@ -2,8 +2,11 @@ import express from 'express';
 import { 
  generateFusedIntelligence,
  getEntityDetails,
- getCorrelationDetails
+ getCorrelationDetails,
+ updateCorrelation,
+ explainCorrelation
 } from '../../controllers/fusionController.js';
+import { authMiddleware } from '../../middleware/authMiddleware.js';
 
 const router = express.Router();
 
@@ -13,4 +16,8 @@ router.get('/entities/:entityId', getEntityDetails);
 
 router.get('/correlations/:correlationId', getCorrelationDetails);
 
+router.get('/correlations/:correlationId/explain', explainCorrelation);
+
+router.patch('/correlations/:correlationId', authMiddleware, updateCorrelation);
+
 export default router;
\ No newline at end of file
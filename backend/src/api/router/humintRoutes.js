@@ -2,8 +2,11 @@ import express from 'express';
 import { 
  analyzeFieldReport, 
  analyzeMultipleReports, 
- exportMilitaryFormat 
+ exportMilitaryFormat,
+ getTacticalGraphics,
+ updateTacticalGraphics
 } from '../../controllers/humintController.js';
+import { authMiddleware } from '../../middleware/authMiddleware.js';
 
 const router = express.Router();
 
@@ -25,4 +28,8 @@ router.post('/analyze-multiple', analyzeMultipleReports);
 router.get('/export/:analysisId/:format', exportMilitaryFormat);
 router.post('/export/:analysisId/:format', exportMilitaryFormat);
 
+// Graphics are shared with every analyst working the analysis, so changes need a signed-in user
+router.get('/:analysisId/graphics', getTacticalGraphics);
+router.put('/:analysisId/graphics', authMiddleware, updateTacticalGraphics);
+
 export default router;
\ No newline at end of file
@@ -7,6 +7,9 @@ import userRoutes from './user.js';
 import fieldReportRoutes from './humintRoutes.js';
 import signalIntelligenceRoutes from './sigintRoutes.js';
 import fusionRoutes from './fusionRoutes.js';
+import tileRoutes from './tileRoutes.js';
+import systemCatalogueRoutes from './systemCatalogueRoutes.js';
+import sensorRoutes from './sensorRoutes.js';
 
 const router = express.Router();
 
@@ -20,6 +23,9 @@ router.use('/user', userRoutes);
 router.use('/field-reports', fieldReportRoutes);
 router.use('/signal-intelligence', signalIntelligenceRoutes);
 router.use('/fusion', fusionRoutes);
+router.use('/tiles', tileRoutes);
+router.use('/system-catalogue', systemCatalogueRoutes);
+router.use('/sensors', sensorRoutes);
 
 router.get('/intelligence/limits', (req, res) => {
   res.json({
@@ -0,0 +1,25 @@
+import express from 'express';
+import {
+ listSensors,
+ getSensor,
+ createSensor,
+ updateSensor,
+ deleteSensor,
+ getSensorCoverage
+} from '../../controllers/sensorController.js';
+import { authMiddleware } from '../../middleware/authMiddleware.js';
+
+const router = express.Router();
+
+router.get('/', listSensors);
+
+// Coverage is computed against the elevation model and is costly, so it needs a signed-in user
+router.get('/coverage', authMiddleware, getSensorCoverage);
+router.get('/:id', getSensor);
+
+// The registry is shared by every collection manager, so changes need a signed-in user
+router.post('/', authMiddleware, createSensor);
+router.put('/:id', authMiddleware, updateSensor);
+router.delete('/:id', authMiddleware, deleteSensor);
+
+export default router;
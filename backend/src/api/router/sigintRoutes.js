@@ -4,8 +4,13 @@ import {
  analyzeSignalData,
  getActiveEmitters,
  getEmitterById,
- getElectronicOrderOfBattle
+ getEmitterCharacteristics,
+ getEmitterTimeSeries,
+ predictEmitterLocations,
+ getElectronicOrderOfBattle,
+ computeCoverage
 } from '../../controllers/sigintController.js';
+import { authMiddleware } from '../../middleware/authMiddleware.js';
 
 const router = express.Router();
 
@@ -26,6 +31,15 @@ router.get('/emitters', getActiveEmitters);
 
 router.get('/emitters/:emitterId', getEmitterById);
 
+router.get('/emitters/:emitterId/characteristics', getEmitterCharacteristics);
+
+router.get('/emitters/:emitterId/timeseries', getEmitterTimeSeries);
+
+router.post('/emitters/:emitterId/predict', predictEmitterLocations);
+
 router.get('/eob', getElectronicOrderOfBattle);
 
+// Coverage is computed against the elevation model and is costly, so it needs a signed-in user
+router.post('/coverage', authMiddleware, computeCoverage);
+
 export default router;
\ No newline at end of file
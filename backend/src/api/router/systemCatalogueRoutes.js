@@ -0,0 +1,23 @@
+import express from 'express';
+import {
+ listSystems,
+ getSystem,
+ createSystem,
+ updateSystem,
+ deleteSystem,
+ importSystems
+} from '../../controllers/systemCatalogueController.js';
+import { authMiddleware } from '../../middleware/authMiddleware.js';
+
+const router = express.Router();
+
+router.get('/', listSystems);
+router.get('/:id', getSystem);
+
+// Changes to the catalogue alter classification for everyone, so they need a signed-in user
+router.post('/import', authMiddleware, importSystems);
+router.post('/', authMiddleware, createSystem);
+router.put('/:id', authMiddleware, updateSystem);
+router.delete('/:id', authMiddleware, deleteSystem);
+
+export default router;
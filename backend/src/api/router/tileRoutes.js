@@ -0,0 +1,13 @@
+import express from 'express';
+import {
+ listTilesets,
+ getTile
+} from '../../controllers/tileController.js';
+
+const router = express.Router();
+
+router.get('/', listTilesets);
+
+router.get('/:tilesetId/:z/:x/:y', getTile);
+
+export default router;
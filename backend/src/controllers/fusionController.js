@@ -31,14 +31,25 @@ export const generateFusedIntelligence = async (req, res, next) => {
       }
     }
     
+    const focusArea = parseFocusArea(parsedOptions.focusArea);
+    if (parsedOptions.focusArea && !focusArea) {
+      return res.status(400).json({
+        error: 'Invalid focus area',
+        details: 'focusArea needs northEast and southWest [lat, lng] corners and, optionally, a polygon of at least three vertices'
+      });
+    }
+    
+    const maxEntities = parseInt(parsedOptions.maxEntities, 10);
+    
     // Call the fusion service with all parameters including the sigintAnalysisId
     const fusionResults = await fusionService.generateFusedIntelligence({
       reportId: humintAnalysisId,
       sigintAnalysisId: sigintAnalysisId, // Pass the SIGINT analysis ID for proper retrieval
       timeWindow: parsedOptions.timeWindow || 24,
-      area: parsedOptions.area,
+      area: focusArea || parsedOptions.area,
       includePredictions: parsedOptions.includePredictions !== false,
-      correlationThreshold: parsedOptions.correlationThreshold || 0.65
+      correlationThreshold: parsedOptions.correlationThreshold || 0.65,
+      maxEntities: maxEntities > 0 ? maxEntities : undefined
     });
     
     // Construct the full response
@@ -60,7 +71,11 @@ export const generateFusedIntelligence = async (req, res, next) => {
       },
       fusedEntities: fusionResults.fusedEntities,
       correlations: fusionResults.correlations,
-      predictions: fusionResults.predictions || []
+      predictions: fusionResults.predictions || [],
+      scope: {
+        focusArea: focusArea ? parsedOptions.focusArea : null,
+        maxEntities: maxEntities > 0 ? maxEntities : null
+      }
     };
     
     logger.info('Intelligence fusion completed', {
@@ -84,6 +99,26 @@ export const generateFusedIntelligence = async (req, res, next) => {
   }
 };
 
+// Helper function to turn a client focus area into the bounding box the fusion service filters on
+function parseFocusArea(focusArea) {
+  if (!focusArea || typeof focusArea !== 'object') return null;
+  
+  const isLatLng = (point) => Array.isArray(point) && point.length >= 2 &&
+    point.slice(0, 2).every(value => typeof value === 'number' && !isNaN(value));
+  
+  const { northEast, southWest, polygon } = focusArea;
+  if (!isLatLng(northEast) || !isLatLng(southWest)) return null;
+  if (polygon !== undefined && (!Array.isArray(polygon) || polygon.length < 3 || !polygon.every(isLatLng))) return null;
+  
+  return {
+    north: Math.max(northEast[0], southWest[0]),
+    south: Math.min(northEast[0], southWest[0]),
+    east: Math.max(northEast[1], southWest[1]),
+    west: Math.min(northEast[1], southWest[1]),
+    ...(polygon ? { polygon } : {})
+  };
+}
+
 // Helper function to calculate overall confidence based on fusion results
 function calculateOverallConfidence(fusionResults) {
   if (!fusionResults.fusedEntities || fusionResults.fusedEntities.length === 0) {
@@ -200,4 +235,106 @@ export const getCorrelationDetails = async (req, res, next) => {
     
     next(error);
   }
-};
\ No newline at end of file
+};
+
+// Helper function to list what is wrong with an analyst's review of a correlation
+function validateCorrelationReview(body) {
+  const errors = [];
+  const { verified, manualConfidence, notes } = body || {};
+  
+  if (verified === undefined && manualConfidence === undefined && notes === undefined) {
+    errors.push('Provide at least one of verified, manualConfidence or notes');
+  }
+  if (verified !== undefined && verified !== null && typeof verified !== 'boolean') {
+    errors.push('verified must be true, false or null');
+  }
+  if (manualConfidence !== undefined && manualConfidence !== null &&
+      (typeof manualConfidence !== 'number' || !Number.isFinite(manualConfidence) || manualConfidence < 0 || manualConfidence > 1)) {
+    errors.push('manualConfidence must be a number between 0 and 1, or null');
+  }
+  if (notes !== undefined && (typeof notes !== 'string' || notes.length > 2000)) {
+    errors.push('notes must be text of up to 2000 characters');
+  }
+  
+  return errors;
+}
+
+export const updateCorrelation = async (req, res, next) => {
+  try {
+    const { correlationId } = req.params;
+    
+    const errors = validateCorrelationReview(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid correlation review',
+        details: errors
+      });
+    }
+    
+    const { verified, manualConfidence, notes } = req.body;
+    const correlation = await fusionService.updateCorrelationReview(
+      correlationId,
+      { verified, manualConfidence, notes },
+      req.user?.email || req.user?.id || null
+    );
+    
+    if (!correlation) {
+      return res.status(404).json({
+        error: 'Correlation not found',
+        details: `No correlation found with ID: ${correlationId}. Run the fusion analysis again and retry.`
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      correlation
+    });
+  } catch (error) {
+    logger.error('Failed to update correlation', { 
+      error: error.message,
+      stack: error.stack,
+      correlationId: req.params.correlationId
+    });
+    
+    next(error);
+  }
+};
+
+export const explainCorrelation = async (req, res, next) => {
+  try {
+    const { correlationId } = req.params;
+    const { method } = req.query;
+    
+    if (method !== undefined && method !== 'llm' && method !== 'template') {
+      return res.status(400).json({
+        error: 'Invalid explanation method',
+        details: 'method must be llm or template'
+      });
+    }
+    
+    const explanation = await fusionService.explainCorrelation(
+      correlationId,
+      method ? { useLLM: method === 'llm' } : {}
+    );
+    
+    if (!explanation) {
+      return res.status(404).json({
+        error: 'Correlation not found',
+        details: `No correlation found with ID: ${correlationId}. Run the fusion analysis again and retry.`
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      explanation
+    });
+  } catch (error) {
+    logger.error('Failed to explain correlation', { 
+      error: error.message,
+      stack: error.stack,
+      correlationId: req.params.correlationId
+    });
+    
+    next(error);
+  }
+};
@@ -1,4 +1,11 @@
-import { processFieldReport, validateMultipleReports } from '../services/humintService/humintService.js';
+import {
+  processFieldReport,
+  validateMultipleReports,
+  generateMilitaryFormatReport,
+  getTacticalGraphics as getStoredTacticalGraphics,
+  saveTacticalGraphics
+} from '../services/humintService/humintService.js';
+import { SUPPORTED_MILITARY_FORMATS } from '../services/humintService/formatters/militaryFormats.js';
 import { logger } from '../api/logger/logger.js';
 
 export const analyzeFieldReport = async (req, res, next) => {
@@ -110,32 +117,163 @@ export const analyzeMultipleReports = async (req, res, next) => {
 
 export const exportMilitaryFormat = async (req, res, next) => {
   try {
-    const { analysisId, format = 'INTSUM' } = req.params;
-    const { customOptions = {} } = req.body;
+    const { analysisId } = req.params;
+    const format = (req.params.format || 'INTSUM').toUpperCase();
+    const { customOptions = {} } = req.body || {};
     
-    // PLACEHOLDER
-    
-    const supportedFormats = ['INTSUM', 'INTREP', 'NATO', 'SITREP'];
-    
-    if (!supportedFormats.includes(format)) {
+    if (!SUPPORTED_MILITARY_FORMATS.includes(format)) {
       return res.status(400).json({
         error: 'Unsupported export format',
-        details: `Format must be one of: ${supportedFormats.join(', ')}`,
-        supportedFormats
+        details: `Format must be one of: ${SUPPORTED_MILITARY_FORMATS.join(', ')}`,
+        supportedFormats: SUPPORTED_MILITARY_FORMATS
       });
     }
     
-    // PLACEHOLDER
-
-    const exportData = {
-      format,
+    logger.info('Military format export requested', {
+      userId: req.user?.id || 'unauthenticated',
       analysisId,
-      timestamp: new Date().toISOString(),
-      content: "This is a placeholder for the exported content in " + format + " format",
-    };
+      format
+    });
+    
+    const exportData = await generateMilitaryFormatReport(analysisId, format, customOptions);
+    
+    if (!exportData) {
+      return res.status(404).json({
+        error: 'Analysis not found',
+        details: `No stored analysis found with ID: ${analysisId}`
+      });
+    }
     
     return res.status(200).json(exportData);
   } catch (error) {
+    logger.error('Military format export failed', {
+      analysisId: req.params.analysisId,
+      format: req.params.format,
+      error: error.message,
+      stack: error.stack
+    });
+    
+    next(error);
+  }
+};
+
+const TACTICAL_GRAPHIC_GEOMETRIES = {
+  nai: 'polygon',
+  tai: 'polygon',
+  objective: 'polygon',
+  phaseLine: 'line',
+  boundary: 'line',
+  point: 'point'
+};
+
+const MIN_GRAPHIC_POINTS = { point: 1, line: 2, polygon: 3 };
+
+// Upper bounds so one save cannot store an unbounded document
+const MAX_TACTICAL_GRAPHICS = 500;
+const MAX_GRAPHIC_POINTS = 1000;
+
+const isLatLng = (point) =>
+  Array.isArray(point) && point.length === 2 &&
+  Number.isFinite(point[0]) && point[0] >= -90 && point[0] <= 90 &&
+  Number.isFinite(point[1]) && point[1] >= -180 && point[1] <= 180;
+
+// Helper function to list what is wrong with a set of tactical graphics
+function validateTacticalGraphics(graphics) {
+  if (!Array.isArray(graphics)) {
+    return ['graphics must be an array'];
+  }
+  if (graphics.length > MAX_TACTICAL_GRAPHICS) {
+    return [`At most ${MAX_TACTICAL_GRAPHICS} graphics can be saved with an analysis`];
+  }
+  
+  const errors = [];
+  graphics.forEach((graphic, index) => {
+    const label = `graphics[${index}]`;
+    if (!graphic || typeof graphic !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    
+    const { id, kind, geometry, name, coordinates, color, dashed, remarks } = graphic;
+    if (typeof id !== 'string' || !id || id.length > 64) {
+      errors.push(`${label}: id must be text of up to 64 characters`);
+    }
+    if (!TACTICAL_GRAPHIC_GEOMETRIES[kind] || TACTICAL_GRAPHIC_GEOMETRIES[kind] !== geometry) {
+      errors.push(`${label}: kind must be one of ${Object.keys(TACTICAL_GRAPHIC_GEOMETRIES).join(', ')} with its matching geometry`);
+    }
+    if (typeof name !== 'string' || name.length > 200) {
+      errors.push(`${label}: name must be text of up to 200 characters`);
+    }
+    if (!Array.isArray(coordinates) || coordinates.length > MAX_GRAPHIC_POINTS || !coordinates.every(isLatLng) ||
+        coordinates.length < (MIN_GRAPHIC_POINTS[geometry] || 1)) {
+      errors.push(`${label}: coordinates must be up to ${MAX_GRAPHIC_POINTS} [latitude, longitude] pairs, enough for a ${geometry}`);
+    }
+    if (typeof color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(color)) {
+      errors.push(`${label}: color must be a hex color such as #3b82f6`);
+    }
+    if (typeof dashed !== 'boolean') {
+      errors.push(`${label}: dashed must be true or false`);
+    }
+    if (remarks !== undefined && (typeof remarks !== 'string' || remarks.length > 2000)) {
+      errors.push(`${label}: remarks must be text of up to 2000 characters`);
+    }
+  });
+  
+  return errors;
+}
+
+export const getTacticalGraphics = async (req, res, next) => {
+  try {
+    const result = await getStoredTacticalGraphics(req.params.analysisId);
+    
+    return res.status(200).json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    logger.error('Failed to load tactical graphics', {
+      error: error.message,
+      stack: error.stack,
+      analysisId: req.params.analysisId
+    });
+    
     next(error);
   }
-};
\ No newline at end of file
+};
+
+export const updateTacticalGraphics = async (req, res, next) => {
+  try {
+    const { analysisId } = req.params;
+    const { graphics } = req.body || {};
+    
+    if (analysisId.length > 128) {
+      return res.status(400).json({
+        error: 'Invalid analysis ID',
+        details: 'Analysis IDs are at most 128 characters'
+      });
+    }
+    
+    const errors = validateTacticalGraphics(graphics);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid tactical graphics',
+        details: errors
+      });
+    }
+    
+    const result = await saveTacticalGraphics(analysisId, graphics, req.user?.email || req.user?.id || null);
+    
+    return res.status(200).json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    logger.error('Failed to save tactical graphics', {
+      error: error.message,
+      stack: error.stack,
+      analysisId: req.params.analysisId
+    });
+    
+    next(error);
+  }
+};
@@ -0,0 +1,142 @@
+import { logger } from '../api/logger/logger.js';
+import sensorService, { DEFAULT_EMITTER_ALTITUDE } from '../services/sensorService.js';
+
+export const listSensors = async (req, res, next) => {
+  try {
+    const sensors = await sensorService.listSensors();
+
+    return res.json({
+      success: true,
+      sensors
+    });
+  } catch (error) {
+    logger.error('Error listing sensors', {
+      error: error.message,
+      stack: error.stack
+    });
+    next(error);
+  }
+};
+
+export const getSensor = async (req, res, next) => {
+  try {
+    const sensor = await sensorService.getSensor(req.params.id);
+
+    if (!sensor) {
+      return res.status(404).json({ error: 'Sensor not found' });
+    }
+
+    return res.json({
+      success: true,
+      sensor
+    });
+  } catch (error) {
+    logger.error('Error retrieving sensor', {
+      error: error.message,
+      id: req.params.id
+    });
+    next(error);
+  }
+};
+
+export const createSensor = async (req, res, next) => {
+  try {
+    const { sensor, errors, conflict } = await sensorService.createSensor(req.body);
+
+    if (errors) {
+      return res.status(400).json({
+        error: 'Invalid sensor entry',
+        details: errors
+      });
+    }
+
+    if (conflict) {
+      return res.status(409).json({ error: conflict });
+    }
+
+    return res.status(201).json({
+      success: true,
+      sensor
+    });
+  } catch (error) {
+    logger.error('Error registering sensor', {
+      error: error.message,
+      stack: error.stack
+    });
+    next(error);
+  }
+};
+
+export const updateSensor = async (req, res, next) => {
+  try {
+    const result = await sensorService.updateSensor(req.params.id, req.body);
+
+    if (!result) {
+      return res.status(404).json({ error: 'Sensor not found' });
+    }
+
+    if (result.errors) {
+      return res.status(400).json({
+        error: 'Invalid sensor entry',
+        details: result.errors
+      });
+    }
+
+    return res.json({
+      success: true,
+      sensor: result.sensor
+    });
+  } catch (error) {
+    logger.error('Error updating sensor', {
+      error: error.message,
+      id: req.params.id
+    });
+    next(error);
+  }
+};
+
+export const deleteSensor = async (req, res, next) => {
+  try {
+    if (!(await sensorService.deleteSensor(req.params.id))) {
+      return res.status(404).json({ error: 'Sensor not found' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    logger.error('Error removing sensor', {
+      error: error.message,
+      id: req.params.id
+    });
+    next(error);
+  }
+};
+
+export const getSensorCoverage = async (req, res, next) => {
+  try {
+    const emitterAltitude = req.query.emitterAltitude !== undefined
+      ? Number(req.query.emitterAltitude)
+      : DEFAULT_EMITTER_ALTITUDE;
+
+    if (!Number.isFinite(emitterAltitude) || emitterAltitude < 0) {
+      return res.status(400).json({
+        error: 'Invalid emitter altitude',
+        details: 'emitterAltitude must be a height above ground in meters'
+      });
+    }
+
+    const coverage = await sensorService.computeSensorCoverage(emitterAltitude);
+
+    return res.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      emitterAltitude,
+      coverage
+    });
+  } catch (error) {
+    logger.error('Error computing sensor coverage', {
+      error: error.message,
+      stack: error.stack
+    });
+    next(error);
+  }
+};
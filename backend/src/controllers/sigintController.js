@@ -1,5 +1,5 @@
 import { logger } from '../api/logger/logger.js';
-import sigintService from '../services/sigintService/index.js';
+import sigintService, { DEFAULT_TARGET_ALTITUDE, TIME_SERIES_RESOLUTIONS } from '../services/sigintService/index.js';
 import fs from 'fs';
 import path from 'path';
 
@@ -349,6 +349,118 @@ export const getEmitterById = async (req, res, next) => {
  }
 };
 
+export const getEmitterCharacteristics = async (req, res, next) => {
+ try {
+   const { emitterId } = req.params;
+   
+   const characteristics = sigintService.getEmitterCharacteristics(emitterId);
+   
+   if (!characteristics) {
+     return res.status(404).json({
+       error: 'Emitter not found',
+       details: `No emitter found with ID: ${emitterId}`
+     });
+   }
+   
+   return res.status(200).json(characteristics);
+ } catch (error) {
+   logger.error('Failed to get emitter characteristics', { 
+     error: error.message,
+     stack: error.stack,
+     emitterId: req.params.emitterId
+   });
+   
+   next(error);
+ }
+};
+
+const parseTimeParam = (value) => {
+ if (value === undefined || value === '') return null;
+ const time = new Date(value);
+ return isNaN(time.getTime()) ? undefined : time;
+};
+
+export const getEmitterTimeSeries = async (req, res, next) => {
+ try {
+   const { emitterId } = req.params;
+   const { resolution = 'raw' } = req.query;
+   const startTime = parseTimeParam(req.query.startTime);
+   const endTime = parseTimeParam(req.query.endTime);
+   
+   if (!Object.prototype.hasOwnProperty.call(TIME_SERIES_RESOLUTIONS, resolution)) {
+     return res.status(400).json({
+       error: 'Invalid resolution',
+       details: `resolution must be one of ${Object.keys(TIME_SERIES_RESOLUTIONS).join(', ')}`
+     });
+   }
+   
+   if (startTime === undefined || endTime === undefined || (startTime && endTime && startTime > endTime)) {
+     return res.status(400).json({
+       error: 'Invalid time window',
+       details: 'startTime and endTime must be ISO 8601 times with startTime before endTime'
+     });
+   }
+   
+   const timeSeries = sigintService.getEmitterTimeSeries(emitterId, { startTime, endTime, resolution });
+   
+   if (!timeSeries) {
+     return res.status(404).json({
+       error: 'Emitter not found',
+       details: `No emitter found with ID: ${emitterId}`
+     });
+   }
+   
+   return res.status(200).json(timeSeries);
+ } catch (error) {
+   logger.error('Failed to get emitter time series', { 
+     error: error.message,
+     stack: error.stack,
+     emitterId: req.params.emitterId
+   });
+   
+   next(error);
+ }
+};
+
+// Bounds on prediction requests; beyond a day a velocity vector says little
+const MAX_PREDICTION_MINUTES = 24 * 60;
+const MAX_PREDICTION_INTERVALS = 48;
+
+export const predictEmitterLocations = async (req, res, next) => {
+ try {
+   const { emitterId } = req.params;
+   const { timeframe = 60, intervals = 6, confidenceLevel = 0.9 } = req.body || {};
+   
+   if (!Number.isFinite(timeframe) || timeframe <= 0 || timeframe > MAX_PREDICTION_MINUTES ||
+       !Number.isInteger(intervals) || intervals < 1 || intervals > MAX_PREDICTION_INTERVALS ||
+       !Number.isFinite(confidenceLevel) || confidenceLevel < 0.5 || confidenceLevel >= 1) {
+     return res.status(400).json({
+       error: 'Invalid prediction options',
+       details: `timeframe must be 1-${MAX_PREDICTION_MINUTES} minutes, intervals 1-${MAX_PREDICTION_INTERVALS} and confidenceLevel between 0.5 and 1`
+     });
+   }
+   
+   const prediction = sigintService.predictEmitterLocations(emitterId, { timeframe, intervals, confidenceLevel });
+   
+   if (!prediction) {
+     return res.status(404).json({
+       error: 'Emitter not found',
+       details: `No located emitter found with ID: ${emitterId}`
+     });
+   }
+   
+   return res.status(200).json(prediction);
+ } catch (error) {
+   logger.error('Failed to predict emitter locations', { 
+     error: error.message,
+     stack: error.stack,
+     emitterId: req.params.emitterId
+   });
+   
+   next(error);
+ }
+};
+
 export const getElectronicOrderOfBattle = async (req, res, next) => {
  try {
    const eob = sigintService.getElectronicOrderOfBattle();
@@ -365,4 +477,52 @@ export const getElectronicOrderOfBattle = async (req, res, next) => {
    
    next(error);
  }
-};
\ No newline at end of file
+};
+
+// Upper bounds that keep a single coverage request to a few seconds of work
+const MAX_COVERAGE_ELEMENTS = 20;
+const MAX_COVERAGE_RANGE = 600000;
+
+const isValidCoverageElement = (element) =>
+ element && typeof element.id === 'string' &&
+ Number.isFinite(element.latitude) && Math.abs(element.latitude) <= 90 &&
+ Number.isFinite(element.longitude) && Math.abs(element.longitude) <= 180 &&
+ Number.isFinite(element.range) && element.range > 0 && element.range <= MAX_COVERAGE_RANGE &&
+ (element.antennaHeight === undefined || (Number.isFinite(element.antennaHeight) && element.antennaHeight >= 0));
+
+export const computeCoverage = async (req, res, next) => {
+ try {
+   const { elements, targetAltitude = DEFAULT_TARGET_ALTITUDE } = req.body || {};
+
+   if (!Array.isArray(elements) || elements.length === 0 || elements.length > MAX_COVERAGE_ELEMENTS ||
+       !elements.every(isValidCoverageElement)) {
+     return res.status(400).json({
+       error: 'Invalid air defence elements',
+       details: `Provide 1-${MAX_COVERAGE_ELEMENTS} elements, each with an id, latitude, longitude and range in meters`
+     });
+   }
+
+   if (!Number.isFinite(targetAltitude) || targetAltitude < 0) {
+     return res.status(400).json({
+       error: 'Invalid target altitude',
+       details: 'targetAltitude must be a height above ground in meters'
+     });
+   }
+
+   const coverage = await sigintService.computeCoverage(elements, targetAltitude);
+
+   return res.status(200).json({
+     success: true,
+     timestamp: new Date().toISOString(),
+     targetAltitude,
+     coverage
+   });
+ } catch (error) {
+   logger.error('Failed to compute radar coverage', {
+     error: error.message,
+     stack: error.stack
+   });
+
+   next(error);
+ }
+};
@@ -0,0 +1,145 @@
+import { logger } from '../api/logger/logger.js';
+import systemCatalogueService from '../services/systemCatalogueService.js';
+
+export const listSystems = async (req, res, next) => {
+  try {
+    const systems = systemCatalogueService.listSystems();
+
+    return res.json({
+      success: true,
+      systems
+    });
+  } catch (error) {
+    logger.error('Error listing system catalogue', {
+      error: error.message,
+      stack: error.stack
+    });
+    next(error);
+  }
+};
+
+export const getSystem = async (req, res, next) => {
+  try {
+    const system = systemCatalogueService.getSystem(req.params.id);
+
+    if (!system) {
+      return res.status(404).json({ error: 'System not found' });
+    }
+
+    return res.json({
+      success: true,
+      system
+    });
+  } catch (error) {
+    logger.error('Error retrieving catalogue system', {
+      error: error.message,
+      id: req.params.id
+    });
+    next(error);
+  }
+};
+
+export const createSystem = async (req, res, next) => {
+  try {
+    const { system, errors } = systemCatalogueService.createSystem(req.body);
+
+    if (errors) {
+      return res.status(400).json({
+        error: 'Invalid system entry',
+        details: errors
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      system
+    });
+  } catch (error) {
+    logger.error('Error creating catalogue system', {
+      error: error.message,
+      stack: error.stack
+    });
+    next(error);
+  }
+};
+
+export const updateSystem = async (req, res, next) => {
+  try {
+    const result = systemCatalogueService.updateSystem(req.params.id, req.body);
+
+    if (!result) {
+      return res.status(404).json({ error: 'System not found' });
+    }
+
+    if (result.errors) {
+      return res.status(400).json({
+        error: 'Invalid system entry',
+        details: result.errors
+      });
+    }
+
+    return res.json({
+      success: true,
+      system: result.system
+    });
+  } catch (error) {
+    logger.error('Error updating catalogue system', {
+      error: error.message,
+      id: req.params.id
+    });
+    next(error);
+  }
+};
+
+export const deleteSystem = async (req, res, next) => {
+  try {
+    if (!systemCatalogueService.deleteSystem(req.params.id)) {
+      return res.status(404).json({ error: 'System not found' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    logger.error('Error deleting catalogue system', {
+      error: error.message,
+      id: req.params.id
+    });
+    next(error);
+  }
+};
+
+export const importSystems = async (req, res, next) => {
+  try {
+    // Accept an exported file as is, or a bare list of entries
+    const systems = Array.isArray(req.body) ? req.body : req.body?.systems;
+    const replace = req.query.mode === 'replace';
+
+    if (!Array.isArray(systems) || systems.length === 0) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: 'Expected a non-empty systems array'
+      });
+    }
+
+    const { added, updated, errors } = systemCatalogueService.importSystems(systems, replace);
+
+    if (errors) {
+      return res.status(400).json({
+        error: 'Invalid system entries',
+        details: errors
+      });
+    }
+
+    return res.json({
+      success: true,
+      added,
+      updated,
+      systems: systemCatalogueService.listSystems()
+    });
+  } catch (error) {
+    logger.error('Error importing system catalogue', {
+      error: error.message,
+      stack: error.stack
+    });
+    next(error);
+  }
+};
@@ -0,0 +1,52 @@
+import { logger } from '../api/logger/logger.js';
+import tileService from '../services/tileService.js';
+
+// Tiles rarely change once generated; let browsers and proxies keep them for a day
+const TILE_CACHE_SECONDS = 86400;
+
+export const listTilesets = async (req, res, next) => {
+  try {
+    const tilesets = tileService.listTilesets();
+
+    logger.info('Tilesets listed', { count: tilesets.length });
+
+    return res.json({
+      success: true,
+      tilesets
+    });
+  } catch (error) {
+    logger.error('Error listing tilesets', {
+      error: error.message,
+      stack: error.stack
+    });
+    next(error);
+  }
+};
+
+export const getTile = async (req, res, next) => {
+  try {
+    const { tilesetId } = req.params;
+    const z = Number(req.params.z);
+    const x = Number(req.params.x);
+    // Accept both "/{y}" and "/{y}.png" style URLs
+    const y = Number(String(req.params.y).replace(/\.\w+$/, ''));
+
+    const tile = tileService.getTile(tilesetId, z, x, y);
+
+    if (!tile) {
+      return res.status(404).end();
+    }
+
+    res.set({
+      'Content-Type': tile.contentType,
+      'Cache-Control': `public, max-age=${TILE_CACHE_SECONDS}`
+    });
+    return res.send(tile.data);
+  } catch (error) {
+    logger.error('Error serving tile', {
+      error: error.message,
+      params: req.params
+    });
+    next(error);
+  }
+};
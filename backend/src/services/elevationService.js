@@ -0,0 +1,382 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { logger } from '../api/logger/logger.js';
+import { ELEVATION_DIRECTORY } from '../../config.js';
+
+// Samples terrain height from elevation models in the local elevation directory so coverage
+// can be computed without internet access. Two formats are read:
+// - SRTM .hgt tiles named after their south-west corner (N48E037.hgt), 1 or 3 arc-second
+// - single-band GeoTIFFs in geographic (WGS84) coordinates, uncompressed or deflate-compressed
+
+// Loaded rasters are large; keep only the most recently used ones in memory
+const MAX_LOADED_TILES = 8;
+
+const HGT_NAME_PATTERN = /^([NS])(\d{2})([EW])(\d{3})\.hgt$/i;
+const HGT_VOID = -32768;
+
+// Heights outside what the Earth's surface reaches are fill values, e.g. -3.4028235e38
+// in float rasters, even when the file does not declare them as no data
+const MIN_ELEVATION = -12000;
+const MAX_ELEVATION = 9000;
+
+const TIFF_TAGS = {
+ imageWidth: 256,
+ imageLength: 257,
+ bitsPerSample: 258,
+ compression: 259,
+ stripOffsets: 273,
+ samplesPerPixel: 277,
+ rowsPerStrip: 278,
+ stripByteCounts: 279,
+ predictor: 317,
+ tileWidth: 322,
+ tileLength: 323,
+ tileOffsets: 324,
+ tileByteCounts: 325,
+ sampleFormat: 339,
+ modelPixelScale: 33550,
+ modelTiepoint: 33922,
+ gdalNoData: 42113
+};
+
+// Bytes per value for the TIFF field types that carry numbers
+const TIFF_TYPE_SIZES = { 1: 1, 2: 1, 3: 2, 4: 4, 11: 4, 12: 8 };
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_DEFLATE = [8, 32946];
+
+// Tile descriptors, discovered once and refreshed by listElevationTiles()
+let tileIndex = null;
+// Decoded rasters by file path, in least- to most-recently used order
+const loadedTiles = new Map();
+
+// GDAL stores no data as text, so a float raster's fill value rarely matches it exactly
+const isNoData = (value, noData) =>
+ !Number.isFinite(value) ||
+ value < MIN_ELEVATION || value > MAX_ELEVATION ||
+ (noData !== null && Math.abs(value - noData) <= Math.max(Math.abs(noData) * 1e-6, 1e-3));
+
+const readBytes = (fd, offset, length) => {
+ const buffer = Buffer.alloc(length);
+ fs.readSync(fd, buffer, 0, length, offset);
+ return buffer;
+};
+
+const describeHgt = (fileName, filePath) => {
+ const match = fileName.match(HGT_NAME_PATTERN);
+ if (!match) return null;
+
+ // 1 arc-second tiles are 3601 samples square, 3 arc-second tiles 1201
+ const size = Math.round(Math.sqrt(fs.statSync(filePath).size / 2));
+ if (size !== 3601 && size !== 1201) {
+   logger.warn('Skipping HGT tile with unexpected size', { fileName, size });
+   return null;
+ }
+
+ const south = parseInt(match[2], 10) * (match[1].toUpperCase() === 'S' ? -1 : 1);
+ const west = parseInt(match[4], 10) * (match[3].toUpperCase() === 'W' ? -1 : 1);
+
+ return {
+   id: fileName,
+   format: 'hgt',
+   path: filePath,
+   width: size,
+   height: size,
+   // Samples sit on the grid lines, so the outer ones lie exactly on the tile edges
+   north: south + 1,
+   south,
+   west,
+   east: west + 1,
+   cellSize: 1 / (size - 1)
+ };
+};
+
+// Read the first image directory of a TIFF into a tag → values map
+const readTiffDirectory = (fd) => {
+ const header = readBytes(fd, 0, 8);
+ const byteOrder = header.toString('ascii', 0, 2);
+ if (byteOrder !== 'II' && byteOrder !== 'MM') {
+   throw new Error('Not a TIFF file');
+ }
+
+ const little = byteOrder === 'II';
+ const u16 = (buffer, offset) => little ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset);
+ const u32 = (buffer, offset) => little ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset);
+
+ if (u16(header, 2) !== 42) {
+   throw new Error('BigTIFF files are not supported');
+ }
+
+ const directoryOffset = u32(header, 4);
+ const entryCount = u16(readBytes(fd, directoryOffset, 2), 0);
+ const entries = readBytes(fd, directoryOffset + 2, entryCount * 12);
+ const tags = {};
+
+ for (let index = 0; index < entryCount; index++) {
+   const entry = index * 12;
+   const tag = u16(entries, entry);
+   const type = u16(entries, entry + 2);
+   const count = u32(entries, entry + 4);
+   const size = TIFF_TYPE_SIZES[type];
+   if (!size) continue;
+
+   const data = size * count <= 4
+     ? entries.subarray(entry + 8, entry + 8 + size * count)
+     : readBytes(fd, u32(entries, entry + 8), size * count);
+
+   if (type === 2) {
+     tags[tag] = data.toString('ascii').replace(/\0+$/, '');
+     continue;
+   }
+
+   tags[tag] = Array.from({ length: count }, (_, position) => {
+     const offset = position * size;
+     switch (type) {
+       case 1: return data[offset];
+       case 3: return u16(data, offset);
+       case 4: return u32(data, offset);
+       case 11: return little ? data.readFloatLE(offset) : data.readFloatBE(offset);
+       default: return little ? data.readDoubleLE(offset) : data.readDoubleBE(offset);
+     }
+   });
+ }
+
+ return { little, tags };
+};
+
+const describeGeoTiff = (fileName, filePath) => {
+ const fd = fs.openSync(filePath, 'r');
+ try {
+   const { little, tags } = readTiffDirectory(fd);
+   const scale = tags[TIFF_TAGS.modelPixelScale];
+   const tiepoint = tags[TIFF_TAGS.modelTiepoint];
+
+   if (!scale || !tiepoint) {
+     logger.warn('Skipping GeoTIFF without georeferencing', { fileName });
+     return null;
+   }
+   // Cell sizes of a degree or more mean a projected grid, which is not supported
+   if (scale[0] >= 1 || scale[1] >= 1) {
+     logger.warn('Skipping GeoTIFF that is not in geographic coordinates', { fileName });
+     return null;
+   }
+
+   const compression = tags[TIFF_TAGS.compression]?.[0] ?? COMPRESSION_NONE;
+   if (compression !== COMPRESSION_NONE && !COMPRESSION_DEFLATE.includes(compression)) {
+     logger.warn('Skipping GeoTIFF with unsupported compression', { fileName, compression });
+     return null;
+   }
+
+   const width = tags[TIFF_TAGS.imageWidth][0];
+   const height = tags[TIFF_TAGS.imageLength][0];
+   const [, , , originX, originY] = tiepoint;
+   const noData = parseFloat(tags[TIFF_TAGS.gdalNoData]);
+
+   return {
+     id: fileName,
+     format: 'geotiff',
+     path: filePath,
+     width,
+     height,
+     // Cell values cover their whole pixel; sample at the pixel centres
+     north: originY - scale[1] / 2,
+     south: originY - scale[1] * (height - 0.5),
+     west: originX + scale[0] / 2,
+     east: originX + scale[0] * (width - 0.5),
+     cellSize: scale[0],
+     cellHeight: scale[1],
+     little,
+     tags,
+     noData: Number.isFinite(noData) ? noData : null
+   };
+ } finally {
+   fs.closeSync(fd);
+ }
+};
+
+/**
+ * List the elevation tiles available in the elevation directory
+ */
+export const listElevationTiles = () => {
+ tileIndex = [];
+ if (!fs.existsSync(ELEVATION_DIRECTORY)) {
+   return tileIndex;
+ }
+
+ fs.readdirSync(ELEVATION_DIRECTORY, { withFileTypes: true })
+   .filter(entry => entry.isFile())
+   .forEach(entry => {
+     const filePath = path.join(ELEVATION_DIRECTORY, entry.name);
+     try {
+       const tile = /\.hgt$/i.test(entry.name)
+         ? describeHgt(entry.name, filePath)
+         : /\.tiff?$/i.test(entry.name) ? describeGeoTiff(entry.name, filePath) : null;
+       if (tile) tileIndex.push(tile);
+     } catch (error) {
+       logger.error('Failed to read elevation tile', { file: entry.name, error: error.message });
+     }
+   });
+
+ logger.info('Elevation tiles indexed', { count: tileIndex.length });
+ return tileIndex.map(({ id, format, north, south, east, west, cellSize }) =>
+   ({ id, format, bounds: [west, south, east, north], cellSize }));
+};
+
+const getTileIndex = () => {
+ if (!tileIndex) listElevationTiles();
+ return tileIndex;
+};
+
+const decodeHgt = (tile) => {
+ const data = fs.readFileSync(tile.path);
+ const values = new Float32Array(tile.width * tile.height);
+
+ for (let index = 0; index < values.length; index++) {
+   const value = data.readInt16BE(index * 2);
+   values[index] = value === HGT_VOID ? NaN : value;
+ }
+ return values;
+};
+
+const decodeGeoTiff = (tile) => {
+ const { tags, little, width, height } = tile;
+ const bits = tags[TIFF_TAGS.bitsPerSample]?.[0] ?? 16;
+ const format = tags[TIFF_TAGS.sampleFormat]?.[0] ?? 1;
+ const predictor = tags[TIFF_TAGS.predictor]?.[0] ?? 1;
+ const compression = tags[TIFF_TAGS.compression]?.[0] ?? COMPRESSION_NONE;
+
+ if ((tags[TIFF_TAGS.samplesPerPixel]?.[0] ?? 1) !== 1) {
+   throw new Error('Only single-band elevation rasters are supported');
+ }
+ if (predictor !== 1 && !(predictor === 2 && format !== 3)) {
+   throw new Error(`Unsupported TIFF predictor ${predictor}`);
+ }
+
+ const bytes = bits / 8;
+ const readValue = {
+   '8:1': (buffer, offset) => buffer.readUInt8(offset),
+   '16:1': (buffer, offset) => little ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset),
+   '16:2': (buffer, offset) => little ? buffer.readInt16LE(offset) : buffer.readInt16BE(offset),
+   '32:1': (buffer, offset) => little ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset),
+   '32:2': (buffer, offset) => little ? buffer.readInt32LE(offset) : buffer.readInt32BE(offset),
+   '32:3': (buffer, offset) => little ? buffer.readFloatLE(offset) : buffer.readFloatBE(offset),
+   '64:3': (buffer, offset) => little ? buffer.readDoubleLE(offset) : buffer.readDoubleBE(offset)
+ }[`${bits}:${format}`];
+ if (!readValue) {
+   throw new Error(`Unsupported sample type: ${bits}-bit format ${format}`);
+ }
+
+ // Strips are blocks as wide as the image
+ const isTiled = !!tags[TIFF_TAGS.tileOffsets];
+ const blockWidth = isTiled ? tags[TIFF_TAGS.tileWidth][0] : width;
+ const blockHeight = isTiled ? tags[TIFF_TAGS.tileLength][0] : (tags[TIFF_TAGS.rowsPerStrip]?.[0] ?? height);
+ const offsets = tags[isTiled ? TIFF_TAGS.tileOffsets : TIFF_TAGS.stripOffsets];
+ const byteCounts = tags[isTiled ? TIFF_TAGS.tileByteCounts : TIFF_TAGS.stripByteCounts];
+ const blocksAcross = Math.ceil(width / blockWidth);
+
+ const file = fs.readFileSync(tile.path);
+ const values = new Float32Array(width * height).fill(NaN);
+
+ offsets.forEach((offset, blockIndex) => {
+   const raw = file.subarray(offset, offset + byteCounts[blockIndex]);
+   const block = compression === COMPRESSION_NONE ? raw : zlib.inflateSync(raw);
+   const top = Math.floor(blockIndex / blocksAcross) * blockHeight;
+   const left = (blockIndex % blocksAcross) * blockWidth;
+
+   for (let row = 0; row < blockHeight && top + row < height; row++) {
+     let previous = 0;
+     for (let column = 0; column < blockWidth; column++) {
+       let value = readValue(block, (row * blockWidth + column) * bytes);
+       // Horizontal differencing stores each value as the change from its left neighbour
+       if (predictor === 2) {
+         value = column === 0 ? value : previous + value;
+         if (bits === 16) value = format === 2 ? (value << 16) >> 16 : value & 0xffff;
+         previous = value;
+       }
+       if (left + column < width) {
+         values[(top + row) * width + left + column] = isNoData(value, tile.noData) ? NaN : value;
+       }
+     }
+   }
+ });
+
+ return values;
+};
+
+const loadTile = (tile) => {
+ if (loadedTiles.has(tile.path)) {
+   const values = loadedTiles.get(tile.path);
+   loadedTiles.delete(tile.path);
+   loadedTiles.set(tile.path, values);
+   return values;
+ }
+
+ let values = null;
+ try {
+   values = tile.format === 'hgt' ? decodeHgt(tile) : decodeGeoTiff(tile);
+ } catch (error) {
+   logger.error('Failed to decode elevation tile', { id: tile.id, error: error.message });
+ }
+
+ loadedTiles.set(tile.path, values);
+ if (loadedTiles.size > MAX_LOADED_TILES) {
+   loadedTiles.delete(loadedTiles.keys().next().value);
+ }
+ return values;
+};
+
+const findTile = (latitude, longitude) =>
+ getTileIndex().find(tile =>
+   latitude <= tile.north && latitude >= tile.south && longitude >= tile.west && longitude <= tile.east);
+
+/**
+ * Check whether any elevation tile covers a point
+ */
+export const hasElevationData = (latitude, longitude) => !!findTile(latitude, longitude);
+
+/**
+ * Terrain height at a point, interpolated between the surrounding samples
+ * @returns {number|null} Height above sea level in meters, or null where no tile covers the point
+ */
+export const getElevation = (latitude, longitude) => {
+ const tile = findTile(latitude, longitude);
+ if (!tile) return null;
+
+ const values = loadTile(tile);
+ if (!values) return null;
+
+ const row = (tile.north - latitude) / (tile.cellHeight || tile.cellSize);
+ const column = (longitude - tile.west) / tile.cellSize;
+ const top = Math.min(Math.floor(row), tile.height - 2);
+ const left = Math.min(Math.floor(column), tile.width - 2);
+ const dy = row - top;
+ const dx = column - left;
+
+ const sample = (r, c) => values[r * tile.width + c];
+ const corners = [
+   [sample(top, left), (1 - dx) * (1 - dy)],
+   [sample(top, left + 1), dx * (1 - dy)],
+   [sample(top + 1, left), (1 - dx) * dy],
+   [sample(top + 1, left + 1), dx * dy]
+ ].filter(([value]) => !Number.isNaN(value));
+
+ // Voids are filled from whichever neighbours hold data
+ const weight = corners.reduce((total, [, w]) => total + w, 0);
+ if (corners.length === 0 || weight === 0) {
+   return corners.length > 0 ? corners[0][0] : null;
+ }
+ return corners.reduce((total, [value, w]) => total + value * w, 0) / weight;
+};
+
+/**
+ * Size of the finest elevation cell covering a point, in degrees
+ */
+export const getElevationResolution = (latitude, longitude) => findTile(latitude, longitude)?.cellSize ?? null;
+
+export default {
+ listElevationTiles,
+ hasElevationData,
+ getElevation,
+ getElevationResolution
+};
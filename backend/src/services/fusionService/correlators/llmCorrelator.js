@@ -1,8 +1,9 @@
 // services/fusionService/correlators/llmCorrelator.js
 import { logger } from '../../../api/logger/logger.js';
 import { callClaudeAPI } from '../../claudeService.js';
-import { buildCorrelationPrompt } from '../utils/promptBuilder.js';
+import { buildCorrelationPrompt, buildCorrelationExplanationPrompt } from '../utils/promptBuilder.js';
 import { parseCorrelationResponse } from '../utils/responseParser.js';
+import { correlateSemanticContent } from './semanticCorrelator.js';
 
 /**
  * Use LLM to semantically correlate HUMINT and SIGINT entities
@@ -91,6 +92,119 @@ export function fallbackCorrelation(humintEntity, sigintEntity) {
   };
 }
 
+/**
+ * Use LLM to explain in plain language why a HUMINT entity and a SIGINT emitter were
+ * (or were not) fused. Falls back to the template explanation if the LLM fails.
+ * @param {Object} correlation - Correlation result, with any analyst review
+ * @param {boolean} fused - Whether the pair was fused into one entity
+ * @returns {Promise<Object>} - Narrative, factor sentences and the source of the narrative
+ */
+export async function explainCorrelationUsingLLM(correlation, fused) {
+  const template = fallbackCorrelationExplanation(correlation, fused);
+  
+  try {
+    const prompt = buildCorrelationExplanationPrompt(correlation, fused);
+    const response = await callClaudeAPI(prompt, 'claude-3-5-sonnet-20240620');
+    const narrative = (response.content || '').trim();
+    
+    if (!narrative) {
+      throw new Error('Empty explanation');
+    }
+    
+    return { ...template, narrative, source: 'llm' };
+  } catch (error) {
+    logger.error('Error in LLM correlation explanation', {
+      error: error.message,
+      correlationId: correlation.id
+    });
+    
+    return template;
+  }
+}
+
+/**
+ * Deterministic explanation of a correlation, built from the spatial, temporal and
+ * semantic correlator outputs, for when the LLM is not available
+ * @param {Object} correlation - Correlation result, with any analyst review
+ * @param {boolean} fused - Whether the pair was fused into one entity
+ * @returns {Object} - Narrative, factor sentences and the source of the narrative
+ */
+export function fallbackCorrelationExplanation(correlation, fused) {
+  const { humintEntity = {}, sigintEntity = {}, review } = correlation;
+  const spatial = correlation.spatialCorrelation || { score: 0, reason: 'Not calculated' };
+  const temporal = correlation.temporalCorrelation || { score: 0, reason: 'Not calculated' };
+  
+  // Promising pairs skip the LLM during fusion, so score their descriptions here
+  const semantic = correlation.semanticCorrelation?.reason === 'Not performed'
+    ? correlateSemanticContent(humintEntity, sigintEntity)
+    : correlation.semanticCorrelation || { score: 0, reason: 'Not calculated' };
+  
+  const factors = [
+    {
+      factor: 'spatial',
+      score: spatial.score,
+      text: typeof spatial.distance === 'number'
+        ? `The report and the emitter fix are ${formatMeters(spatial.distance)} apart: ${lowerFirst(spatial.reason)}.`
+        : `${spatial.reason}.`
+    },
+    {
+      factor: 'temporal',
+      score: temporal.score,
+      text: typeof temporal.timeDifference === 'number'
+        ? `The report and the intercept are ${formatMinutes(temporal.timeDifference)} apart: ${lowerFirst(temporal.reason)}.`
+        : `${temporal.reason}.`
+    },
+    {
+      factor: 'semantic',
+      score: semantic.score,
+      text: semantic.commonTerms?.length
+        ? `Both descriptions mention ${semantic.commonTerms.slice(0, 5).join(', ')}.`
+        : `${semantic.reason}.`
+    }
+  ];
+  
+  const ranked = [...factors].sort((a, b) => b.score - a.score);
+  const strongest = ranked[0];
+  const weakest = ranked[ranked.length - 1];
+  const humintLabel = humintEntity.description || humintEntity.location?.name || correlation.humintEntityId || 'HUMINT report';
+  const sigintLabel = [sigintEntity.subtype, sigintEntity.emitterId].filter(Boolean).join(' ') || correlation.sigintEmitterId || 'SIGINT emitter';
+  
+  const sentences = [
+    `${humintLabel} (HUMINT) and ${sigintLabel} (SIGINT) score ${percent(correlation.score)} as the same entity ` +
+      `(${correlation.confidence} confidence) and ${fused ? 'were fused' : 'were kept apart'}.`,
+    `The link rests mainly on ${strongest.factor} evidence (${percent(strongest.score)}); ` +
+      `${weakest.factor} evidence is the weakest (${percent(weakest.score)}).`
+  ];
+  
+  if (review?.verified === true) sentences.push('An analyst confirmed the link.');
+  if (review?.verified === false) sentences.push('An analyst rejected the link.');
+  if (review && review.manualConfidence !== null && review.manualConfidence !== undefined) {
+    sentences.push(`An analyst re-weighted the score from ${percent(correlation.automaticScore)} to ${percent(review.manualConfidence)}.`);
+  }
+  if (review?.notes) sentences.push(`Analyst notes: ${review.notes}`);
+  
+  return {
+    narrative: sentences.join(' '),
+    factors,
+    labels: { humint: humintLabel, sigint: sigintLabel },
+    source: 'template'
+  };
+}
+
+const percent = (value) => `${Math.round((value || 0) * 100)}%`;
+
+const lowerFirst = (text) => text.charAt(0).toLowerCase() + text.slice(1);
+
+function formatMeters(meters) {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+function formatMinutes(minutes) {
+  if (minutes < 60) return `${Math.round(minutes)} minutes`;
+  if (minutes < 48 * 60) return `${(minutes / 60).toFixed(1)} hours`;
+  return `${(minutes / (24 * 60)).toFixed(1)} days`;
+}
+
 /**
  * Extract simple keywords from text
  * @param {string} text - Text to extract keywords from
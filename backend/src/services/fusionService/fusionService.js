@@ -1,20 +1,34 @@
 // services/fusionService/fusionService.js
+import crypto from 'crypto';
 import { logger } from '../../api/logger/logger.js';
+import {
+  selectCorrelationReviews,
+  selectCorrelationReviewById,
+  upsertCorrelationReview
+} from '../../api/repository/correlationReview.js';
 import humintService from '../humintService/index.js';
 import sigintService from '../sigintService/index.js';
 import { generateCacheKey, getCachedResult, setCacheResult } from '../humintService/utils/caching.js';
 import { FusedEntity, CorrelationResult, FusedIntelligenceProduct } from './models/fusedEntity.js';
 import { correlateByLocation } from './correlators/spatialCorrelator.js';
 import { correlateByTime } from './correlators/temporalCorrelator.js';
-import { correlateUsingLLM } from './correlators/llmCorrelator.js';
+import {
+  correlateUsingLLM,
+  explainCorrelationUsingLLM,
+  fallbackCorrelationExplanation
+} from './correlators/llmCorrelator.js';
 import { combinedConfidenceScore } from './confidence/confidenceFusion.js';
 import { generateFusedPredictions } from './prediction/fusedPredictionEngine.js';
 import { buildFusionReportPrompt } from './utils/promptBuilder.js';
+import { isPointInBounds, isPointInPolygon } from './utils/geoUtils.js';
 import { parseCorrelationResponse } from './utils/responseParser.js';
 import { cache } from '../cacheService.js';
 import HumintAdapter from './integrations/humintAdapter.js';
 import SigintAdapter from './integrations/sigintAdapter.js';
 
+// Correlations kept for review and explanation, across runs and analysts
+const MAX_REMEMBERED_CORRELATIONS = 5000;
+
 /**
  * Fusion Service for integrating and cross-validating HUMINT and SIGINT intelligence
  */
@@ -28,7 +42,7 @@ class FusionService {
     };
     
     this.cache = this.options.cacheEnabled ? cache : null;
-    this.correlatedEntities = new Map(); // Store previously correlated entities
+    this.correlatedEntities = new Map(); // Correlations from recent runs by ID, least recently used first
     
     logger.info('Fusion Service initialized', {
       useLLM: this.options.useLLM,
@@ -41,9 +55,11 @@ class FusionService {
    * Generate cross-validated intelligence by correlating HUMINT and SIGINT
    * @param {Object} params - Parameters for fusion generation
    * @param {string} params.reportId - Optional specific report ID to focus on
-   * @param {string} params.area - Optional geographic area to focus on
+   * @param {string|Object} params.area - Optional geographic area to focus on: a place name,
+   *   a {north, south, east, west} box with an optional polygon, or a {center, radius} circle
    * @param {number} params.timeWindow - Time window in hours to consider (default: 24)
    * @param {boolean} params.includePredictions - Whether to include predictions
+   * @param {number} params.maxEntities - Optional cap on the entities taken from each source
    * @returns {Promise<Object>} - Fused intelligence products
    */
   async generateFusedIntelligence(params = {}) {
@@ -53,21 +69,31 @@ class FusionService {
         area,
         timeWindow = 24,
         includePredictions = true,
-        sigintAnalysisId  // Add this parameter
+        sigintAnalysisId,  // Add this parameter
+        maxEntities
       } = params;
       
+      const areaKey = area && typeof area === 'object' ? JSON.stringify(area) : (area || 'all');
+      
+      // Analyst decisions override the scores, so a new decision must not hit an old cache entry
+      const reviews = await this.loadCorrelationReviews();
+      const lastReviewedAt = [...reviews.values()].reduce(
+        (latest, review) => (review.reviewedAt > latest ? review.reviewedAt : latest), '');
+      const reviewVersion = `${reviews.size}-${lastReviewedAt || 'none'}`;
+      
       logger.info('Generating fused intelligence', {
         reportId: reportId || 'all',
-        area: area || 'all',
+        area: areaKey,
         timeWindow,
-        sigintAnalysisId: sigintAnalysisId || 'none'
+        sigintAnalysisId: sigintAnalysisId || 'none',
+        maxEntities: maxEntities || 'all'
       });
       
       // Generate cache key if caching is enabled
       let cacheKey = null;
       if (this.cache) {
         cacheKey = generateCacheKey(
-          `fusion-${reportId || 'all'}-${area || 'all'}-${timeWindow}-${sigintAnalysisId || 'none'}`,
+          `fusion-${reportId || 'all'}-${areaKey}-${timeWindow}-${sigintAnalysisId || 'none'}-${maxEntities || 'all'}-${reviewVersion}`,
           'intelligence-fusion',
           { includePredictions }
         );
@@ -76,18 +102,26 @@ class FusionService {
         const cachedResult = await getCachedResult(this.cache, cacheKey);
         if (cachedResult) {
           logger.info('Using cached fusion results', { cacheKey });
+          this.rememberCorrelations(cachedResult.correlations || []);
           return cachedResult;
         }
       }
       
       // 1. Fetch HUMINT intelligence
-      const humintData = await this.fetchHumintData(reportId, area, timeWindow);
+      let humintData = await this.fetchHumintData(reportId, area, timeWindow);
       
       // 2. Fetch SIGINT intelligence - pass the analysis ID
-      const sigintData = await this.fetchSigintData(area, timeWindow, sigintAnalysisId);
+      let sigintData = await this.fetchSigintData(area, timeWindow, sigintAnalysisId);
+      
+      // Keep correlation cost bounded on large pictures
+      if (maxEntities > 0) {
+        humintData = humintData.slice(0, maxEntities);
+        sigintData = sigintData.slice(0, maxEntities);
+      }
       
       // 3. Correlate entities across intelligence types
-      const correlations = await this.correlateEntities(humintData, sigintData);
+      const correlations = await this.correlateEntities(humintData, sigintData, reviews);
+      this.rememberCorrelations(correlations);
       
       // 4. Generate fused intelligence products
       const fusedProducts = this.createFusedProducts(humintData, sigintData, correlations);
@@ -98,16 +132,19 @@ class FusionService {
         predictions = await generateFusedPredictions(fusedProducts);
       }
       
+      // Reviewed correlations are returned even when rejected, so the decision can be revisited
+      const significantCorrelations = correlations.filter(c => this.isSignificantCorrelation(c));
+      
       // Build complete result
       const result = {
         timestamp: new Date().toISOString(),
         fusedEntities: fusedProducts,
-        correlations: correlations.filter(c => c.score >= this.options.correlationThreshold),
+        correlations: correlations.filter(c => this.isSignificantCorrelation(c) || c.review),
         predictions,
         stats: {
           humintEntityCount: humintData.length,
           sigintEntityCount: sigintData.length,
-          correlationCount: correlations.filter(c => c.score >= this.options.correlationThreshold).length,
+          correlationCount: significantCorrelations.length,
           predictionCount: predictions.length
         }
       };
@@ -119,7 +156,7 @@ class FusionService {
       
       logger.info('Fused intelligence generation complete', {
         entityCount: fusedProducts.length,
-        correlationCount: correlations.filter(c => c.score >= this.options.correlationThreshold).length,
+        correlationCount: significantCorrelations.length,
         predictionCount: predictions.length
       });
       
@@ -276,7 +313,12 @@ class FusionService {
       });
       
       // Convert tracks to standardized entities
-      const sigintEntities = sigintAdapter.convertTracksToEntities(tracks);
+      let sigintEntities = sigintAdapter.convertTracksToEntities(tracks);
+      
+      // Tracks from a stored analysis are returned unfiltered
+      if (area) {
+        sigintEntities = sigintEntities.filter(entity => this.isEntityInArea(entity, area));
+      }
       
       logger.info('Fetched SIGINT data', { entityCount: sigintEntities.length });
       return sigintEntities;
@@ -290,26 +332,27 @@ class FusionService {
    * Check if an entity is within a specified geographic area
    * @param {Object} entity - Entity to check
    * @param {string|Object} area - Area specification
-   * @returns {boolean} - True if entity is in the area
+   * @returns {boolean} - True if entity is in the area, or has no coordinates to place it by
    */
   isEntityInArea(entity, area) {
-    if (!entity.location || !entity.location.coordinates) {
-      return false;
-    }
-    
     // If area is a string (name), do a simple string match with location name
     if (typeof area === 'string') {
-      return entity.location.name && 
+      return !!entity.location?.name &&
              entity.location.name.toLowerCase().includes(area.toLowerCase());
     }
     
-    // If area is a bounding box
-    if (area.north && area.south && area.east && area.west) {
-      const lat = entity.location.coordinates[0];
-      const lng = entity.location.coordinates[1];
+    // Entities known only by place name cannot be placed inside or outside a drawn area,
+    // so they are kept rather than silently dropped from the picture
+    if (!entity.location || !entity.location.coordinates) {
+      return true;
+    }
+    
+    // If area is a bounding box, optionally narrowed to a polygon drawn inside it
+    if ([area.north, area.south, area.east, area.west].every(edge => typeof edge === 'number')) {
+      const coordinates = entity.location.coordinates.map(Number);
       
-      return lat <= area.north && lat >= area.south && 
-             lng <= area.east && lng >= area.west;
+      return isPointInBounds(coordinates, area) &&
+             (!area.polygon || isPointInPolygon(coordinates, area.polygon));
     }
     
     // If area is a center point and radius (km)
@@ -355,9 +398,10 @@ class FusionService {
    * Correlate entities across HUMINT and SIGINT sources
    * @param {Array} humintEntities - HUMINT entities
    * @param {Array} sigintEntities - SIGINT entities
+   * @param {Map} reviews - Analyst reviews by correlation ID
    * @returns {Promise<Array>} - Correlation results
    */
-  async correlateEntities(humintEntities, sigintEntities) {
+  async correlateEntities(humintEntities, sigintEntities, reviews = new Map()) {
     try {
       logger.info('Correlating entities', { 
         humintCount: humintEntities.length,
@@ -396,10 +440,16 @@ class FusionService {
                               (temporalCorrelation.score * 0.4);
           
           let correlationResult;
+          const pair = {
+            id: this.getCorrelationId(humintEntity, sigintEntity),
+            humintEntityId: this.getEntityId(humintEntity),
+            sigintEmitterId: sigintEntity.emitterId
+          };
           
           // For promising matches or if LLM is disabled, use rule-based approach
           if (initialScore >= 0.7 || !this.options.useLLM) {
             correlationResult = new CorrelationResult({
+              ...pair,
               humintEntity,
               sigintEntity,
               spatialCorrelation,
@@ -418,6 +468,7 @@ class FusionService {
                                  (semanticCorrelation.score * 0.4);
             
             correlationResult = new CorrelationResult({
+              ...pair,
               humintEntity,
               sigintEntity,
               spatialCorrelation,
@@ -428,7 +479,7 @@ class FusionService {
             });
           }
           
-          correlations.push(correlationResult);
+          correlations.push(this.applyCorrelationReview(correlationResult, reviews.get(pair.id)));
         }
       }
       
@@ -474,10 +525,8 @@ class FusionService {
       }
       
     try {
-      // Get high-confidence correlations
-      const significantCorrelations = correlations.filter(
-        c => c.score >= this.options.correlationThreshold
-      );
+      // Get high-confidence correlations, and those an analyst has confirmed
+      const significantCorrelations = correlations.filter(c => this.isSignificantCorrelation(c));
       
       const fusedEntities = [];
       const processedHumintIds = new Set();
@@ -571,6 +620,205 @@ class FusionService {
     }
   }
   
+  /**
+   * ID of a HUMINT-SIGINT pair that stays the same across fusion runs on the same data
+   * @param {Object} humintEntity - HUMINT entity
+   * @param {Object} sigintEntity - SIGINT entity
+   * @returns {string} - Correlation ID
+   */
+  getCorrelationId(humintEntity, sigintEntity) {
+    const key = [
+      this.getEntityId(humintEntity),
+      humintEntity.location?.name || '',
+      humintEntity.description || '',
+      this.getEntityId(sigintEntity)
+    ].join('|');
+    
+    return `corr-${crypto.createHash('sha1').update(key).digest('hex').slice(0, 16)}`;
+  }
+  
+  /**
+   * Whether a correlation fuses its entities: analyst decisions win over the threshold
+   * @param {CorrelationResult} correlation - Correlation result
+   * @returns {boolean}
+   */
+  isSignificantCorrelation(correlation) {
+    if (correlation.review?.verified === true) return true;
+    if (correlation.review?.verified === false) return false;
+    return correlation.score >= this.options.correlationThreshold;
+  }
+  
+  /**
+   * Apply an analyst review to a correlation; a manual confidence replaces the computed score
+   * @param {CorrelationResult} correlation - Correlation result
+   * @param {Object} review - Stored review, if any
+   * @returns {CorrelationResult} - The same correlation
+   */
+  applyCorrelationReview(correlation, review) {
+    const score = review && review.manualConfidence !== null ? review.manualConfidence : correlation.automaticScore;
+    
+    correlation.review = review || null;
+    correlation.score = score;
+    correlation.confidence = this.calculateConfidenceFromScore(score);
+    
+    return correlation;
+  }
+  
+  /**
+   * Keep correlations by ID so that analysts can review and explain them after the run.
+   * Only what an explanation reads is kept, in copies that do not share state with
+   * cached fusion results, and the least recently used are dropped beyond a bound.
+   * @param {Array} correlations - Correlation results
+   */
+  rememberCorrelations(correlations) {
+    correlations.forEach(correlation => {
+      if (!correlation.id) return;
+      
+      this.correlatedEntities.delete(correlation.id);
+      this.correlatedEntities.set(correlation.id, this.summarizeCorrelation(correlation));
+    });
+    
+    for (const id of this.correlatedEntities.keys()) {
+      if (this.correlatedEntities.size <= MAX_REMEMBERED_CORRELATIONS) break;
+      this.correlatedEntities.delete(id);
+    }
+  }
+  
+  /**
+   * The parts of a correlation that reviews and explanations use
+   * @param {CorrelationResult} correlation - Correlation result
+   * @returns {Object} - A detached copy
+   */
+  summarizeCorrelation(correlation) {
+    const pick = (entity, fields) => Object.fromEntries(
+      fields.filter(field => entity?.[field] !== undefined).map(field => [field, entity[field]])
+    );
+    
+    return {
+      id: correlation.id,
+      humintEntityId: correlation.humintEntityId,
+      sigintEmitterId: correlation.sigintEmitterId,
+      humintEntity: pick(correlation.humintEntity, ['type', 'description', 'location', 'timestamp']),
+      sigintEntity: pick(correlation.sigintEntity, ['type', 'subtype', 'emitterId', 'description', 'location', 'timestamp']),
+      spatialCorrelation: correlation.spatialCorrelation,
+      temporalCorrelation: correlation.temporalCorrelation,
+      semanticCorrelation: correlation.semanticCorrelation,
+      score: correlation.score,
+      automaticScore: correlation.automaticScore,
+      confidence: correlation.confidence,
+      review: correlation.review || null
+    };
+  }
+  
+  /**
+   * Stored analyst reviews, by correlation ID. Fusion goes ahead without them if the
+   * database cannot be read.
+   * @returns {Promise<Map>}
+   */
+  async loadCorrelationReviews() {
+    try {
+      const rows = await selectCorrelationReviews();
+      return new Map(rows.map(row => [row.correlation_id, this.reviewFromRow(row)]));
+    } catch (error) {
+      logger.error('Error loading correlation reviews', { error: error.message });
+      return new Map();
+    }
+  }
+  
+  reviewFromRow(row) {
+    return {
+      verified: row.verified,
+      manualConfidence: row.manual_confidence,
+      notes: row.notes || '',
+      reviewedBy: row.reviewed_by,
+      reviewedAt: row.updated_at instanceof Date ? row.updated_at.toISOString() : row.updated_at
+    };
+  }
+  
+  /**
+   * Record an analyst's decision on a correlation; later fusion runs respect it
+   * @param {string} correlationId - ID of the correlation
+   * @param {Object} updates - Any of verified (true confirms, false rejects, null reopens),
+   *   manualConfidence (0-1, null restores the computed score) and notes
+   * @param {string} reviewedBy - Who made the decision
+   * @returns {Promise<Object|null>} - The correlation's IDs and review, or null if the
+   *   correlation is neither from a recent run nor already reviewed
+   */
+  async updateCorrelationReview(correlationId, updates, reviewedBy) {
+    const known = this.correlatedEntities.get(correlationId);
+    const existingRow = await selectCorrelationReviewById(correlationId);
+    if (!known && !existingRow) return null;
+    
+    const existing = existingRow ? this.reviewFromRow(existingRow) : { verified: null, manualConfidence: null, notes: '' };
+    const row = await upsertCorrelationReview({
+      correlationId,
+      humintEntityId: known?.humintEntityId ?? null,
+      sigintEmitterId: known?.sigintEmitterId ?? null,
+      verified: updates.verified !== undefined ? updates.verified : existing.verified,
+      manualConfidence: updates.manualConfidence !== undefined ? updates.manualConfidence : existing.manualConfidence,
+      notes: updates.notes !== undefined ? updates.notes.trim() : existing.notes,
+      reviewedBy
+    });
+    
+    logger.info('Correlation reviewed', { correlationId, verified: row.verified, manualConfidence: row.manual_confidence });
+    
+    const review = this.reviewFromRow(row);
+    if (known) this.rememberCorrelations([this.applyCorrelationReview({ ...known }, review)]);
+    
+    return {
+      id: correlationId,
+      humintEntityId: row.humint_entity_id,
+      sigintEmitterId: row.sigint_emitter_id,
+      review
+    };
+  }
+  
+  /**
+   * Explain in plain language why a HUMINT entity and a SIGINT emitter were fused, or
+   * kept apart, from the correlator outputs and any analyst decision
+   * @param {string} correlationId - ID of the correlation
+   * @param {Object} options - Explanation options
+   * @param {boolean} options.useLLM - Ask the LLM for the narrative; otherwise use the template
+   * @returns {Promise<Object|null>} - The explanation, or null if the correlation is not
+   *   from a recent run
+   */
+  async explainCorrelation(correlationId, { useLLM = this.options.useLLM } = {}) {
+    const correlation = this.correlatedEntities.get(correlationId);
+    if (!correlation) return null;
+    
+    const fused = this.isSignificantCorrelation(correlation);
+    let explanation;
+    
+    if (useLLM) {
+      // A new analyst decision changes the story, so it is part of the key
+      const cacheKey = this.cache && generateCacheKey(
+        `correlation-explanation-${correlationId}-${correlation.score}-${correlation.review?.reviewedAt || 'unreviewed'}`,
+        'correlation-explanation'
+      );
+      
+      explanation = cacheKey && await getCachedResult(this.cache, cacheKey);
+      if (!explanation) {
+        explanation = await explainCorrelationUsingLLM(correlation, fused);
+        if (cacheKey && explanation.source === 'llm') {
+          await setCacheResult(this.cache, cacheKey, explanation);
+        }
+      }
+    } else {
+      explanation = fallbackCorrelationExplanation(correlation, fused);
+    }
+    
+    return {
+      id: correlationId,
+      humintEntityId: correlation.humintEntityId,
+      sigintEmitterId: correlation.sigintEmitterId,
+      score: correlation.score,
+      fused,
+      ...explanation,
+      review: correlation.review || null,
+      generatedAt: new Date().toISOString()
+    };
+  }
+  
   /**
    * Determine the type for a fused entity
    * @param {Object} humintEntity - HUMINT entity
@@ -688,4 +936,6 @@ export default fusionService;
 // Export functions for direct use
 export const correlateEntities = fusionService.correlateEntities.bind(fusionService);
 export const generateFusedIntelligence = fusionService.generateFusedIntelligence.bind(fusionService);
+export const updateCorrelationReview = fusionService.updateCorrelationReview.bind(fusionService);
+export const explainCorrelation = fusionService.explainCorrelation.bind(fusionService);
 export const calculateCombinedConfidence = combinedConfidenceScore;
\ No newline at end of file
@@ -6,5 +6,7 @@ export default fusionService;
 export { 
   correlateEntities,
   generateFusedIntelligence,
+  updateCorrelationReview,
+  explainCorrelation,
   calculateCombinedConfidence
 } from './fusionService.js';
\ No newline at end of file
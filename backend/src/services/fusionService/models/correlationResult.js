@@ -4,6 +4,9 @@
  */
 export class CorrelationResult {
     constructor(data) {
+      this.id = data.id; // stable across fusion runs, so analyst reviews can be matched to it
+      this.humintEntityId = data.humintEntityId;
+      this.sigintEmitterId = data.sigintEmitterId;
       this.humintEntity = data.humintEntity;
       this.sigintEntity = data.sigintEntity;
       this.spatialCorrelation = data.spatialCorrelation || { score: 0, reason: 'Not calculated' };
@@ -12,6 +15,8 @@ export class CorrelationResult {
       this.score = data.score || 0;
       this.confidence = data.confidence || 'low';
       this.timestamp = data.timestamp || new Date().toISOString();
+      this.automaticScore = data.automaticScore ?? this.score; // score before any manual re-weighting
+      this.review = data.review || null; // analyst decision: { verified, manualConfidence, notes, reviewedBy, reviewedAt }
     }
   
     /**
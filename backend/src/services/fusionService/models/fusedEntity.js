@@ -117,6 +117,7 @@ export class FusedEntity {
       description: this.description,
       confidence: this.confidence,
       correlation: this.correlation ? {
+        id: this.correlation.id,
         score: this.correlation.score,
         factors: this.correlation.getPrimaryFactors()
       } : null,
@@ -44,6 +44,32 @@ export function isPointInBounds(point, bounds) {
   return lat <= north && lat >= south && lng <= east && lng >= west;
 }
 
+/**
+ * Check if a point is inside a polygon (ray casting)
+ * @param {Array} point - [lat, lng] coordinates
+ * @param {Array<Array>} polygon - [lat, lng] vertices, implicitly closed
+ * @returns {boolean} - True if point is inside the polygon
+ */
+export function isPointInPolygon(point, polygon) {
+  if (!point || point.length < 2) return false;
+  if (!Array.isArray(polygon) || polygon.length < 3) return false;
+  
+  const [lat, lng] = point;
+  let inside = false;
+  
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    
+    if ((latI > lat) !== (latJ > lat) &&
+        lng < (lngJ - lngI) * (lat - latI) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  
+  return inside;
+}
+
 /**
  * Calculate bearing between two points
  * @param {number} lat1 - Latitude of first point
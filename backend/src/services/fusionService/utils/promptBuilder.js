@@ -69,6 +69,54 @@ Return a correlation score (0-1) and explanation in JSON format.`;
   }
 }
 
+/**
+ * Build a prompt asking for a plain-language rationale of a correlation already scored
+ * @param {Object} correlation - Correlation result, with any analyst review
+ * @param {boolean} fused - Whether the pair was fused into one entity
+ * @returns {string} - Formatted prompt for LLM
+ */
+export function buildCorrelationExplanationPrompt(correlation, fused) {
+  const { humintEntity = {}, sigintEntity = {}, review } = correlation;
+  const factor = (name, result) =>
+    `${name}: ${Math.round((result?.score || 0) * 100)}% - ${result?.reason || 'Not calculated'}`;
+  
+  let decision = 'No analyst has reviewed this correlation.';
+  if (review?.verified === true) decision = 'An analyst confirmed the link.';
+  if (review?.verified === false) decision = 'An analyst rejected the link.';
+  if (review && review.manualConfidence !== null) {
+    decision += ` An analyst re-weighted the score from ${Math.round(correlation.automaticScore * 100)}% to ${Math.round(review.manualConfidence * 100)}%.`;
+  }
+  if (review?.notes) decision += ` Analyst notes: ${review.notes}`;
+  
+  return `You are a military intelligence analyst briefing a commander. Two reports from different sources have been scored as referring to the same entity, and ${fused ? 'they were fused into one entity' : 'they were NOT fused into one entity'}. Explain why, in plain language.
+
+HUMINT REPORT:
+Type: ${humintEntity.type || 'Unknown'}
+Location: ${formatLocation(humintEntity.location)}
+Time: ${formatTime(humintEntity.timestamp)}
+Description: ${humintEntity.description || 'None'}
+
+SIGINT EMITTER:
+Type: ${sigintEntity.type || 'Unknown'}${sigintEntity.subtype ? ', Subtype: ' + sigintEntity.subtype : ''}
+Location: ${formatLocation(sigintEntity.location)}
+Time: ${formatTime(sigintEntity.timestamp)}
+Description: ${sigintEntity.description || 'None'}
+
+CORRELATION FACTORS:
+${factor('Spatial', correlation.spatialCorrelation)}
+${factor('Temporal', correlation.temporalCorrelation)}
+${factor('Semantic', correlation.semanticCorrelation)}
+Overall score: ${Math.round((correlation.score || 0) * 100)}% (${correlation.confidence} confidence)
+
+ANALYST DECISION:
+${decision}
+
+INSTRUCTIONS:
+Write three to five sentences of plain prose, without headings, lists or JSON. Say which factors carry the link and which weaken it, state any analyst decision, and do not claim certainty the scores do not support.
+
+RESPONSE:`;
+}
+
 /**
  * Format location information for the prompt
  * @param {Object} location - Location object
@@ -0,0 +1,384 @@
+// formatters/militaryFormats.js
+
+export const SUPPORTED_MILITARY_FORMATS = ['INTSUM', 'INTREP', 'NATO', 'SITREP'];
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * Format a date as a military date-time group (DDHHMMZMONYY)
+ * @param {Date|string} value - Date to format
+ * @returns {string} - Date-time group, or 'UNK' if the date is invalid
+ */
+export function formatDtg(value) {
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return 'UNK';
+
+  const pad = (n) => String(n).padStart(2, '0');
+  return `${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}Z` +
+    `${MONTHS[date.getUTCMonth()]}${String(date.getUTCFullYear()).slice(-2)}`;
+}
+
+/**
+ * Map a confidence score to an Admiralty (STANAG 2022) source/information grade
+ * @param {string} confidence - high|medium|low|fallback
+ * @returns {string} - Grade such as "B2"
+ */
+export function toAdmiraltyGrade(confidence) {
+  switch ((confidence || '').toLowerCase()) {
+    case 'high': return 'B2';
+    case 'medium': return 'C3';
+    case 'low': return 'D4';
+    default: return 'F6';
+  }
+}
+
+/**
+ * Format a location that may be a string, an object with a name, or coordinates
+ * @param {string|Object} location - Location value from the analysis
+ * @param {Array} coordinates - Optional [lat, lng] pair
+ * @returns {string} - Printable location
+ */
+function formatLocation(location, coordinates) {
+  let name = '';
+  let coords = coordinates;
+
+  if (typeof location === 'string') {
+    name = location;
+  } else if (location && typeof location === 'object') {
+    name = location.name || '';
+    coords = coords || location.coordinates;
+  }
+
+  const lat = Array.isArray(coords) ? parseFloat(coords[0]) : NaN;
+  const lng = Array.isArray(coords) ? parseFloat(coords[1]) : NaN;
+  const coordText = !isNaN(lat) && !isNaN(lng) ? `${lat.toFixed(4)} ${lng.toFixed(4)}` : '';
+
+  if (name && name !== 'Unknown' && coordText) return `${name} (${coordText})`;
+  if (name && name !== 'Unknown') return name;
+  return coordText || 'LOCATION UNKNOWN';
+}
+
+function isKnown(value) {
+  return value !== undefined && value !== null && value !== '' && value !== 'Unknown';
+}
+
+/**
+ * Normalise a stored analysis into the fields every format draws on
+ * @param {Object} analysis - Stored field report analysis
+ * @returns {Object} - Normalised report content
+ */
+function extractReportContent(analysis) {
+  const intelligence = analysis.intelligence || {};
+  const resourceStatus = intelligence.resourceStatus || {};
+
+  const predictions = Array.isArray(intelligence.predictions)
+    ? intelligence.predictions
+    : (intelligence.predictions?.predictions || analysis.predictions || []);
+
+  return {
+    summary: intelligence.summary || '',
+    enemyForces: Array.isArray(intelligence.enemyForces) ? intelligence.enemyForces : [],
+    friendlyForces: Array.isArray(intelligence.friendlyForces) ? intelligence.friendlyForces : [],
+    threats: Array.isArray(intelligence.threats) ? intelligence.threats : [],
+    locations: Array.isArray(intelligence.locations) ? intelligence.locations : [],
+    controlZones: Array.isArray(intelligence.controlZones) ? intelligence.controlZones : [],
+    civilian: intelligence.civilianSituation || null,
+    equipment: Array.isArray(resourceStatus.equipment) ? resourceStatus.equipment : [],
+    shortages: resourceStatus.supplies?.shortages || [],
+    suppliesStatus: resourceStatus.supplies?.status || null,
+    predictions: Array.isArray(predictions) ? predictions : [],
+    reliability: intelligence.reliabilityAssessment?.overallReliability ||
+      analysis.qualityScores?.overall || 'medium'
+  };
+}
+
+function describeEnemyForce(force) {
+  const parts = [];
+  if (isKnown(force.size)) parts.push(String(force.size));
+  if (isKnown(force.type)) parts.push(String(force.type).toUpperCase());
+  const what = parts.length > 0 ? parts.join(' ') : 'ENEMY ELEMENT';
+  const dtg = force.time ? formatDtg(force.time) : null;
+  const when = force.time ? ` AT ${dtg !== 'UNK' ? dtg : force.time}` : '';
+  return `${what} VIC ${formatLocation(force.location, force.coordinates)}${when}. ${force.activity || ''}`.trim();
+}
+
+function describeThreat(threat) {
+  const qualifiers = [threat.severity, threat.immediacy].filter(Boolean).map(q => String(q).toUpperCase());
+  const prefix = qualifiers.length > 0 ? `[${qualifiers.join('/')}] ` : '';
+  const where = threat.location ? ` VIC ${formatLocation(threat.location)}` : '';
+  return `${prefix}${threat.description || 'UNSPECIFIED THREAT'}${where}`;
+}
+
+function describePrediction(prediction) {
+  if (typeof prediction === 'string') return prediction;
+  const name = prediction.name || prediction.description || 'PREDICTED ACTIVITY';
+  const timeframe = prediction.formattedTimeframe || prediction.timeframe;
+  const confidence = prediction.confidenceFormatted || prediction.confidenceLevel || prediction.confidence;
+  const details = [
+    typeof timeframe === 'string' ? `TIMEFRAME: ${timeframe}` : null,
+    confidence !== undefined ? `CONFIDENCE: ${confidence}` : null
+  ].filter(Boolean).join(', ');
+  return details ? `${name} (${details})` : name;
+}
+
+function describeFriendlyForce(force) {
+  const type = isKnown(force.type) ? String(force.type).toUpperCase() : 'FRIENDLY ELEMENT';
+  return force.activity ? `${type}: ${force.activity}` : type;
+}
+
+function describeCivilian(civilian) {
+  if (!civilian) return [];
+  const lines = [];
+  (civilian.populations || []).forEach(pop => {
+    lines.push(`${pop.description || 'CIVILIAN POPULATION'}${pop.location ? ` VIC ${pop.location}` : ''}${pop.status ? ` - ${String(pop.status).toUpperCase()}` : ''}`);
+  });
+  (civilian.infrastructure || []).forEach(infra => {
+    lines.push(`${infra.type || 'INFRASTRUCTURE'} ${infra.status ? String(infra.status).toUpperCase() : ''}${infra.location ? ` VIC ${infra.location}` : ''}${infra.impact ? `: ${infra.impact}` : ''}`.trim());
+  });
+  if (typeof civilian.sentiment === 'string' && civilian.sentiment) {
+    lines.push(`SENTIMENT: ${civilian.sentiment}`);
+  }
+  return lines;
+}
+
+const CONTROL_MEASURE_TYPES = {
+  nai: 'NAI',
+  tai: 'TAI',
+  objective: 'OBJ',
+  phaseLine: 'PL',
+  boundary: 'BDY',
+  point: 'PT'
+};
+
+/**
+ * Keep the analyst-drawn tactical graphics that carry usable coordinates
+ * @param {Array<Object>} graphics - Graphics sent with the export options
+ * @returns {Array<Object>} - Graphics to list as control measures
+ */
+function extractControlMeasures(graphics) {
+  if (!Array.isArray(graphics)) return [];
+
+  return graphics.filter(graphic =>
+    graphic && Array.isArray(graphic.coordinates) && graphic.coordinates.length > 0 &&
+    graphic.coordinates.every(point => Array.isArray(point) && !isNaN(parseFloat(point[0])) && !isNaN(parseFloat(point[1])))
+  );
+}
+
+function formatControlMeasurePoints(graphic, separator) {
+  return graphic.coordinates
+    .map(point => `${parseFloat(point[0]).toFixed(4)} ${parseFloat(point[1]).toFixed(4)}`)
+    .join(separator);
+}
+
+function describeControlMeasure(graphic) {
+  const type = CONTROL_MEASURE_TYPES[graphic.kind] || 'CONTROL MEASURE';
+  const name = graphic.name || type;
+  const coords = formatControlMeasurePoints(graphic, ', ');
+  const remarks = graphic.remarks ? ` - ${graphic.remarks}` : '';
+  return `${name.toUpperCase()} (${type}): ${coords}${remarks}`;
+}
+
+function controlMeasuresSection(content) {
+  return content.controlMeasures.length > 0
+    ? [{ heading: 'CONTROL MEASURES', lines: content.controlMeasures.map(describeControlMeasure) }]
+    : [];
+}
+
+function orNil(lines) {
+  return lines.length > 0 ? lines : ['NIL.'];
+}
+
+/**
+ * Render numbered sections as a plain-text message body
+ * @param {Array<Object>} header - Header lines
+ * @param {Array<Object>} sections - Sections with heading and lines
+ * @returns {string} - Message text
+ */
+function renderText(header, sections) {
+  const body = sections.map((section, index) => {
+    const lines = section.lines.map((line, lineIndex) =>
+      section.lines.length > 1 ? `   ${String.fromCharCode(97 + (lineIndex % 26))}. ${line}` : `   ${line}`
+    );
+    return `${index + 1}. ${section.heading}\n${lines.join('\n')}`;
+  });
+
+  return [...header, '', ...body, '', 'BT'].join('\n');
+}
+
+function buildHeader(type, analysis, options) {
+  const now = new Date();
+  const classification = (options.classification || 'RESTRICTED').toUpperCase();
+  const serial = options.serialNumber || '001';
+  const periodStart = options.periodStart || analysis.timestamp || now;
+  const periodEnd = options.periodEnd || now;
+
+  return {
+    classification,
+    dtg: formatDtg(now),
+    lines: [
+      classification,
+      `DTG: ${formatDtg(now)}`,
+      `FROM: ${(options.originator || 'S2 INTELLIGENCE CELL').toUpperCase()}`,
+      `TO: ${(options.recipient || 'HIGHER HQ G2').toUpperCase()}`,
+      `SUBJ: ${type} NO. ${serial}`,
+      `PERIOD: ${formatDtg(periodStart)} TO ${formatDtg(periodEnd)}`,
+      `REF: FIELD REPORT ${analysis.reportId || 'UNKNOWN'} / ANALYSIS ${analysis.analysisId}`
+    ]
+  };
+}
+
+/**
+ * Intelligence Summary - periodic overview of the enemy situation
+ */
+function buildIntsum(content) {
+  return [
+    { heading: 'GENERAL ENEMY SITUATION', lines: [content.summary || `${content.enemyForces.length} ENEMY ELEMENT(S) AND ${content.threats.length} THREAT(S) REPORTED DURING PERIOD.`] },
+    { heading: 'ENEMY ACTIVITY', lines: orNil(content.enemyForces.map(describeEnemyForce)) },
+    { heading: 'THREAT ASSESSMENT', lines: orNil(content.threats.map(describeThreat)) },
+    {
+      heading: 'OTHER INTELLIGENCE FACTORS',
+      lines: orNil([
+        ...content.controlZones.map(zone => `${zone.name || 'ZONE'} CONTROLLED BY ${(zone.controllingForce || zone.controlledBy || 'UNKNOWN').toUpperCase()}`),
+        ...describeCivilian(content.civilian)
+      ])
+    },
+    { heading: 'ENEMY CAPABILITIES AND PROBABLE COURSES OF ACTION', lines: orNil(content.predictions.map(describePrediction)) },
+    ...controlMeasuresSection(content),
+    { heading: 'CONCLUSIONS', lines: [`OVERALL SOURCE GRADING ${toAdmiraltyGrade(content.reliability)} (${String(content.reliability).toUpperCase()} CONFIDENCE).`] }
+  ];
+}
+
+/**
+ * Intelligence Report - time-sensitive information on specific items
+ */
+function buildIntrep(content) {
+  const information = [
+    ...content.enemyForces.map(describeEnemyForce),
+    ...content.threats.filter(threat => threat.immediacy === 'immediate' || threat.severity === 'high').map(describeThreat)
+  ];
+
+  return [
+    { heading: 'INFORMATION', lines: orNil(information) },
+    { heading: 'LOCATIONS', lines: orNil(content.locations.map(loc => `${formatLocation(loc, loc.coordinates)}${loc.description && loc.description !== loc.name ? ` - ${loc.description}` : ''}`)) },
+    ...controlMeasuresSection(content),
+    { heading: 'ASSESSMENT', lines: [content.summary || 'INFORMATION NOT YET CORROBORATED BY OTHER SOURCES.'] },
+    { heading: 'SOURCE AND RELIABILITY', lines: [`SINGLE SOURCE FIELD REPORT. GRADING ${toAdmiraltyGrade(content.reliability)}.`] }
+  ];
+}
+
+/**
+ * Situation Report - own and enemy situation for higher HQ
+ */
+function buildSitrep(content) {
+  const logistics = [
+    ...content.equipment.map(item => `${item.item || item.type || 'EQUIPMENT'}: ${(item.condition || item.status || 'UNKNOWN').toUpperCase()}${item.quantity ? ` (${item.quantity})` : ''}`),
+    ...(content.suppliesStatus ? [`SUPPLIES: ${String(content.suppliesStatus).toUpperCase()}`] : []),
+    ...content.shortages.map(shortage => `SHORTAGE: ${shortage}`)
+  ];
+
+  return [
+    { heading: 'ENEMY', lines: orNil([...content.enemyForces.map(describeEnemyForce), ...content.threats.map(describeThreat)]) },
+    { heading: 'OWN FORCES', lines: orNil(content.friendlyForces.map(describeFriendlyForce)) },
+    { heading: 'LOGISTICS', lines: orNil(logistics) },
+    { heading: 'CIVIL SITUATION', lines: orNil(describeCivilian(content.civilian)) },
+    ...controlMeasuresSection(content),
+    { heading: 'GENERAL', lines: [content.summary || 'NO SIGNIFICANT CHANGE.'] },
+    { heading: 'OUTLOOK', lines: orNil(content.predictions.map(describePrediction)) }
+  ];
+}
+
+/**
+ * Render an INTREP as an ADatP-3 style formatted message (slash-delimited sets)
+ */
+function renderNatoMessage(content, analysis, options, header) {
+  const clean = (text) => String(text).toUpperCase().replace(/\//g, '-').replace(/\s+/g, ' ').trim();
+  const serial = options.serialNumber || '001';
+  const now = new Date();
+
+  const sets = [
+    `EXER/${clean(options.exercise || 'NONE')}//`,
+    `MSGID/INTREP/${clean(options.originator || 'S2 INTELLIGENCE CELL')}/${serial}/${MONTHS[now.getUTCMonth()]}//`,
+    `REF/A/FLDRPT/${clean(analysis.reportId || 'UNKNOWN')}/${header.dtg}//`,
+    `PERID/${formatDtg(options.periodStart || analysis.timestamp || now)}/TO:${formatDtg(options.periodEnd || now)}//`,
+    `SRCGRADE/${toAdmiraltyGrade(content.reliability)}//`
+  ];
+
+  content.enemyForces.forEach((force, index) => {
+    sets.push(`ENYPOS/${index + 1}/${clean(force.type || 'UNK')}/${clean(isKnown(force.size) ? force.size : 'UNK')}/${clean(formatLocation(force.location, force.coordinates))}/${clean(force.confidence || 'UNK')}//`);
+    if (force.activity) sets.push(`AMPN/${clean(force.activity)}//`);
+  });
+
+  content.threats.forEach((threat, index) => {
+    sets.push(`THREAT/${index + 1}/${clean(threat.category || 'UNK')}/${clean(threat.severity || 'UNK')}/${clean(threat.immediacy || 'UNK')}/${clean(threat.location ? formatLocation(threat.location) : 'UNK')}//`);
+    sets.push(`AMPN/${clean(threat.description || 'UNSPECIFIED')}//`);
+  });
+
+  content.controlMeasures.forEach((graphic, index) => {
+    sets.push(`CTLMEAS/${index + 1}/${clean(CONTROL_MEASURE_TYPES[graphic.kind] || 'UNK')}/${clean(graphic.name || 'UNK')}/${clean(formatControlMeasurePoints(graphic, ' '))}//`);
+    if (graphic.remarks) sets.push(`AMPN/${clean(graphic.remarks)}//`);
+  });
+
+  if (content.summary) {
+    sets.push(`GENTEXT/ASSESSMENT/${clean(content.summary)}//`);
+  }
+
+  if (content.predictions.length > 0) {
+    sets.push(`GENTEXT/PROBABLE COURSES OF ACTION/${content.predictions.map(p => clean(describePrediction(p))).join('. ')}//`);
+  }
+
+  return [header.classification, ...sets, `DECL/${header.classification === 'UNCLASSIFIED' ? 'N/A' : 'OADR'}//`].join('\n');
+}
+
+/**
+ * Generate a formatted military report from a stored analysis
+ * @param {Object} analysis - Stored field report analysis
+ * @param {string} format - One of SUPPORTED_MILITARY_FORMATS
+ * @param {Object} options - Header options (classification, originator, recipient, serialNumber, periodStart, periodEnd)
+ *   and tacticalGraphics drawn by the analyst, listed as control measures
+ * @returns {Object} - Formatted report with structured sections and rendered text
+ */
+export function formatMilitaryReport(analysis, format, options = {}) {
+  if (!SUPPORTED_MILITARY_FORMATS.includes(format)) {
+    throw new Error(`Unsupported military format: ${format}`);
+  }
+
+  const content = {
+    ...extractReportContent(analysis),
+    controlMeasures: extractControlMeasures(options.tacticalGraphics)
+  };
+  const header = buildHeader(format === 'NATO' ? 'INTREP' : format, analysis, options);
+
+  let sections;
+  let text;
+
+  switch (format) {
+    case 'INTSUM':
+      sections = buildIntsum(content);
+      text = renderText(header.lines, sections);
+      break;
+    case 'INTREP':
+      sections = buildIntrep(content);
+      text = renderText(header.lines, sections);
+      break;
+    case 'SITREP':
+      sections = buildSitrep(content);
+      text = renderText(header.lines, sections);
+      break;
+    case 'NATO':
+      sections = buildIntrep(content);
+      text = renderNatoMessage(content, analysis, options, header);
+      break;
+  }
+
+  return {
+    format,
+    analysisId: analysis.analysisId,
+    reportId: analysis.reportId,
+    title: format === 'NATO' ? 'NATO INTREP (ADatP-3)' : `${format} ${options.serialNumber || '001'}`,
+    classification: header.classification,
+    dtg: header.dtg,
+    sections,
+    content: text,
+    timestamp: new Date().toISOString()
+  };
+}
@@ -3,6 +3,11 @@ import humintService from '../humintService/index.js';
 import { ExtractionError } from './utils/errorHandling.js';
 import { generateCacheKey, getCachedResult, setCacheResult } from './utils/caching.js';
 import { cache } from '../cacheService.js'; // Updated to use the standard cache implementation
+import { formatMilitaryReport } from './formatters/militaryFormats.js';
+import {
+  selectTacticalGraphicsByAnalysisId,
+  upsertTacticalGraphics
+} from '../../api/repository/tacticalGraphics.js';
 
 /**
  * Process a single field report for intelligence extraction
@@ -179,6 +184,9 @@ export const processFieldReport = async (reportText, reportMetadata = {}, option
     // Cache the result
     await setCacheResult(cache, cacheKey, analysisResults, 24 * 60 * 60);
     
+    // Also store by analysis ID so exports and fusion can retrieve it later
+    await setCacheResult(cache, `report_${analysisResults.analysisId}`, analysisResults, 24 * 60 * 60);
+    
     logger.info('Field report processing complete', { 
       reportId: reportMetadata.reportId,
       analysisId: analysisResults.analysisId,
@@ -247,22 +255,67 @@ export const validateMultipleReports = async (reports, validationOptions = {}) =
  * Generate formatted military report in standard format
  * @param {string} analysisId - ID of the analysis to format
  * @param {string} format - Desired output format (INTREP, INTSUM, etc.)
- * @param {Object} options - Formatting options
- * @returns {Promise<Object>} - Formatted military report
+ * @param {Object} options - Formatting options; without tacticalGraphics, the graphics
+ *   stored with the analysis are listed
+ * @returns {Promise<Object|null>} - Formatted military report, or null if the analysis is not stored
  */
 export const generateMilitaryFormatReport = async (analysisId, format, options = {}) => {
-  // This is a placeholder for the format conversion functionality
-  // In a real implementation, you would:
-  // 1. Retrieve the analysis by ID from database or cache
-  // 2. Apply the appropriate formatting template
-  // 3. Return the formatted document
+  const analysis = await getCachedResult(cache, `report_${analysisId}`);
   
-  return {
+  if (!analysis) {
+    logger.warn('Analysis not found for military format export', { analysisId, format });
+    return null;
+  }
+  
+  const tacticalGraphics = options.tacticalGraphics || (await getTacticalGraphics(analysisId)).graphics;
+  const report = formatMilitaryReport(analysis, format, { ...options, tacticalGraphics });
+  
+  logger.info('Generated military format report', {
+    analysisId,
     format,
+    sectionCount: report.sections.length
+  });
+  
+  return report;
+};
+
+/**
+ * Tactical graphics the analysts drew over an analysis
+ * @param {string} analysisId - ID of the analysis
+ * @returns {Promise<Object>} - The graphics, empty when none were saved, and who saved them last
+ */
+export const getTacticalGraphics = async (analysisId) => {
+  const row = await selectTacticalGraphicsByAnalysisId(analysisId);
+  
+  return {
+    analysisId,
+    graphics: row?.graphics || [],
+    updatedBy: row?.updated_by || null,
+    updatedAt: row?.updated_at || null
+  };
+};
+
+/**
+ * Replace the tactical graphics stored with an analysis
+ * @param {string} analysisId - ID of the analysis
+ * @param {Array<Object>} graphics - The full set of graphics, already validated
+ * @param {string|null} updatedBy - Analyst saving the graphics
+ * @returns {Promise<Object>} - The stored graphics
+ */
+export const saveTacticalGraphics = async (analysisId, graphics, updatedBy) => {
+  const row = await upsertTacticalGraphics(analysisId, graphics, updatedBy);
+  
+  logger.info('Saved tactical graphics', {
+    analysisId,
+    graphicCount: graphics.length,
+    updatedBy
+  });
+  
+  return {
     analysisId,
-    title: `${format} Report`,
-    content: "Placeholder for formatted report",
-    timestamp: new Date().toISOString()
+    graphics: row.graphics,
+    updatedBy: row.updated_by,
+    updatedAt: row.updated_at
   };
 };
 
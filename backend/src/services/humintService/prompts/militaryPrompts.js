@@ -157,7 +157,7 @@ export function createMilitaryExtractionPrompt(reportText, extractionType, optio
 - Specific locations mentioned with coordinates if available
 - Routes and movement corridors
 - Terrain features impacting mobility or operations
-- Control zones and boundaries
+- Control zones and boundaries, with boundary vertices in order when coordinates are given
 - Key landmarks and reference points
 - Areas of operation or interest`;
       
@@ -188,6 +188,7 @@ export function createMilitaryExtractionPrompt(reportText, extractionType, optio
         "name": "zone name or description",
         "controllingForce": "force controlling this zone",
         "boundaries": "description of the zone boundaries",
+        "boundaryPoints": [["latitude", "longitude"]],
         "confidence": "high|medium|low"
       }
     ],
@@ -420,6 +421,7 @@ Based on this context, focus particularly on information that relates to the sit
       {
         "area": "Area description",
         "controllingForce": "Force controlling this area",
+        "boundaryPoints": [["latitude", "longitude"]],
         "confidence": "high|medium|low"
       }
     ]
@@ -0,0 +1,202 @@
+import { logger } from '../api/logger/logger.js';
+import {
+ selectSensors,
+ selectSensorById,
+ insertSensor,
+ updateSensor as updateSensorRow,
+ deleteSensor as deleteSensorRow
+} from '../api/repository/sensor.js';
+import { computeCoverage } from './sigintService/index.js';
+
+// Registry of our own collection assets. Its ids are the receiverIds that SIGINT data
+// reports, so fixes can be traced back to the sensors that contributed to them, and
+// their intercept coverage shows collection managers where the blind areas are.
+
+export const SENSOR_STATUSES = ['operational', 'degraded', 'offline'];
+
+const SENSOR_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+
+// Antenna height above ground when a sensor does not give one
+const DEFAULT_ANTENNA_HEIGHT = 10;
+
+// Emitter antenna height above ground when none is requested: a vehicle or mast mounted set
+export const DEFAULT_EMITTER_ALTITUDE = 10;
+
+// Upper bound on intercept range, as for radar coverage
+const MAX_SENSOR_RANGE_KM = 600;
+
+// Sensors whose coverage is computed in one request, as for radar coverage
+export const MAX_COVERAGE_SENSORS = 20;
+
+// PostgreSQL error code for a duplicate key
+const UNIQUE_VIOLATION = '23505';
+
+const isBand = (band) =>
+ band && Number.isFinite(band.minMHz) && Number.isFinite(band.maxMHz) && band.minMHz >= 0 && band.minMHz <= band.maxMHz;
+
+/**
+ * List what is wrong with a sensor entry
+ * @returns {string[]} Problems found; empty when the entry is valid
+ */
+export const validateSensor = (sensor) => {
+ if (!sensor || typeof sensor !== 'object') return ['Entry must be an object'];
+
+ const errors = [];
+ const label = sensor.name || sensor.id || 'sensor';
+
+ if (typeof sensor.name !== 'string' || !sensor.name.trim()) errors.push('name is required');
+ if (sensor.id !== undefined && (typeof sensor.id !== 'string' || sensor.id.length > 64 || !SENSOR_ID_PATTERN.test(sensor.id))) {
+   errors.push(`${label}: id may only hold letters, digits, dots, underscores and hyphens, up to 64 characters`);
+ }
+ if (!Number.isFinite(sensor.latitude) || Math.abs(sensor.latitude) > 90 ||
+     !Number.isFinite(sensor.longitude) || Math.abs(sensor.longitude) > 180) {
+   errors.push(`${label}: latitude and longitude are required in decimal degrees`);
+ }
+ if (sensor.antennaHeight !== undefined && sensor.antennaHeight !== null &&
+     (!Number.isFinite(sensor.antennaHeight) || sensor.antennaHeight < 0)) {
+   errors.push(`${label}: antennaHeight must be a height above ground in meters`);
+ }
+ if (!Number.isFinite(sensor.maxRangeKm) || sensor.maxRangeKm <= 0 || sensor.maxRangeKm > MAX_SENSOR_RANGE_KM) {
+   errors.push(`${label}: maxRangeKm must be between 0 and ${MAX_SENSOR_RANGE_KM}`);
+ }
+ if (sensor.frequencyBands !== undefined && (!Array.isArray(sensor.frequencyBands) || !sensor.frequencyBands.every(isBand))) {
+   errors.push(`${label}: frequency bands need minMHz no greater than maxMHz`);
+ }
+ if (sensor.status !== undefined && !SENSOR_STATUSES.includes(sensor.status)) {
+   errors.push(`${label}: status must be one of ${SENSOR_STATUSES.join(', ')}`);
+ }
+
+ return errors;
+};
+
+const slugify = (name) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'sensor';
+
+// Keep only known fields, with empty values filled in
+const normalizeSensor = (sensor, id) => ({
+ id,
+ name: sensor.name.trim(),
+ latitude: sensor.latitude,
+ longitude: sensor.longitude,
+ antennaHeight: sensor.antennaHeight ?? DEFAULT_ANTENNA_HEIGHT,
+ maxRangeKm: sensor.maxRangeKm,
+ frequencyBands: (sensor.frequencyBands || []).map(({ minMHz, maxMHz }) => ({ minMHz, maxMHz })),
+ status: sensor.status || 'operational',
+ notes: typeof sensor.notes === 'string' ? sensor.notes.trim() : ''
+});
+
+const fromRow = (row) => ({
+ id: row.sensor_id,
+ name: row.name,
+ latitude: row.latitude,
+ longitude: row.longitude,
+ antennaHeight: row.antenna_height,
+ maxRangeKm: row.max_range_km,
+ frequencyBands: row.frequency_bands || [],
+ status: row.status,
+ notes: row.notes || '',
+ updatedAt: row.updated_at instanceof Date ? row.updated_at.toISOString() : row.updated_at
+});
+
+/**
+ * All registered sensors, sorted by name
+ */
+export const listSensors = async () => (await selectSensors()).map(fromRow);
+
+export const getSensor = async (id) => {
+ const row = await selectSensorById(id);
+ return row ? fromRow(row) : null;
+};
+
+/**
+ * Register a sensor; its id is derived from the name unless one is given. Give the
+ * receiverId the sensor reports under so its intercepts can be matched to it.
+ * @returns {Promise<{ sensor?: Object, errors?: string[], conflict?: string }>} conflict
+ *   describes an id that is already registered
+ */
+export const createSensor = async (entry) => {
+ const errors = validateSensor(entry);
+ if (errors.length > 0) return { errors };
+
+ let id = entry.id;
+ if (id) {
+   if (await selectSensorById(id)) return { conflict: `A sensor with id ${id} already exists` };
+ } else {
+   const base = slugify(entry.name);
+   id = base;
+   for (let suffix = 2; await selectSensorById(id); suffix++) {
+     id = `${base}-${suffix}`;
+   }
+ }
+
+ let row;
+ try {
+   row = await insertSensor(normalizeSensor(entry, id));
+ } catch (error) {
+   // Another request registered the same id between the check and the insert
+   if (error.code === UNIQUE_VIOLATION) return { conflict: `A sensor with id ${id} already exists` };
+   throw error;
+ }
+ const sensor = fromRow(row);
+
+ logger.info('Sensor registered', { id: sensor.id });
+ return { sensor };
+};
+
+/**
+ * Replace a sensor's fields
+ * @returns {Promise<{ sensor?: Object, errors?: string[] } | null>} Null if there is no such sensor
+ */
+export const updateSensor = async (id, entry) => {
+ const errors = validateSensor({ ...entry, id });
+ if (errors.length > 0) {
+   return (await selectSensorById(id)) ? { errors } : null;
+ }
+
+ const row = await updateSensorRow(id, normalizeSensor(entry, id));
+ if (!row) return null;
+
+ logger.info('Sensor updated', { id });
+ return { sensor: fromRow(row) };
+};
+
+/**
+ * @returns {Promise<boolean>} Whether a sensor was removed
+ */
+export const deleteSensor = async (id) => {
+ const removed = await deleteSensorRow(id);
+ if (removed) logger.info('Sensor removed', { id });
+ return removed;
+};
+
+/**
+ * Area in which each sensor that is not offline can intercept an emitter at the given
+ * height, limited by its intercept range, the radio horizon and terrain masking. Only
+ * the first MAX_COVERAGE_SENSORS sensors by name are computed; results are cached
+ * with radar coverage.
+ * @param {number} [emitterAltitude] - Emitter antenna height above ground in meters
+ * @returns {Promise<Object[]>} Coverage per sensor, with the sensor's id
+ */
+export const computeSensorCoverage = async (emitterAltitude = DEFAULT_EMITTER_ALTITUDE) => {
+ const sensors = (await listSensors()).filter(sensor => sensor.status !== 'offline');
+ if (sensors.length > MAX_COVERAGE_SENSORS) {
+   logger.warn('Sensor coverage limited', { sensors: sensors.length, computed: MAX_COVERAGE_SENSORS });
+ }
+
+ return computeCoverage(sensors.slice(0, MAX_COVERAGE_SENSORS).map(sensor => ({
+   id: sensor.id,
+   latitude: sensor.latitude,
+   longitude: sensor.longitude,
+   range: sensor.maxRangeKm * 1000,
+   antennaHeight: sensor.antennaHeight
+ })), emitterAltitude);
+};
+
+export default {
+ listSensors,
+ getSensor,
+ createSensor,
+ updateSensor,
+ deleteSensor,
+ validateSensor,
+ computeSensorCoverage
+};
@@ -5,6 +5,8 @@ export default sigintService;
 export { RadarSignal, EmitterLocation, EmitterTrack, EOBElement } from './models/radarSignal.js';
 export { geolocateEmitter } from './strategies/emitterGeolocation.js';
 export { trackEmitters } from './strategies/emitterTracking.js';
+export { buildEmitterTimeSeries, summarizeDetections, TIME_SERIES_RESOLUTIONS } from './strategies/emitterTimeSeries.js';
+export { computeRadarCoverage, radarHorizon, DEFAULT_TARGET_ALTITUDE } from './strategies/radarCoverage.js';
 export { classifyEmitter } from './parsers/signalClassifier.js';
 export { buildElectronicOrderOfBattle } from './parsers/eobBuilder.js';
 
@@ -13,4 +15,8 @@ export const getAllEmitterTracks = (...args) => sigintService.getAllEmitterTrack
 export const getEmitterById = (...args) => sigintService.getEmitterById(...args);
 export const getElectronicOrderOfBattle = () => sigintService.getElectronicOrderOfBattle();
 export const clearAllTracks = () => sigintService.clearAllTracks();
-export const importEmitterData = (...args) => sigintService.importEmitterData(...args);
\ No newline at end of file
+export const importEmitterData = (...args) => sigintService.importEmitterData(...args);
+export const getEmitterCharacteristics = (...args) => sigintService.getEmitterCharacteristics(...args);
+export const getEmitterTimeSeries = (...args) => sigintService.getEmitterTimeSeries(...args);
+export const predictEmitterLocations = (...args) => sigintService.predictEmitterLocations(...args);
+export const computeCoverage = (...args) => sigintService.computeCoverage(...args);
@@ -28,6 +28,8 @@ export class RadarSignal {
       this.signalIds = data.signalIds || []; // signals used for this calculation
       this.emitterId = data.emitterId; // assigned emitter ID
       this.characteristics = data.characteristics || {}; // derived emitter characteristics
+      this.bearings = data.bearings || []; // direction-finding bearings the fix was triangulated from
+      this.receiverIds = data.receiverIds || []; // receivers whose intercepts contributed to the fix
     }
   }
   
@@ -1,4 +1,5 @@
 import { logger } from '../../../api/logger/logger.js';
+import { matchSystemsBySignal } from '../../systemCatalogueService.js';
 
 /**
  * Classify radar emitter types based on signal characteristics
@@ -61,48 +62,32 @@ export function classifyEmitter(characteristics) {
     let classification = band.type;
     let confidence = 'medium';
     let platformType = 'radar';
-    let possibleModels = [];
     
     // Refine classification based on other parameters
     // VHF Band - Early Warning Radars
     if (band.name === 'VHF') {
-      possibleModels = ['P-18 Spoon Rest', 'P-12 Spoon Rest'];
       platformType = 'ground-based';
-      
-      // Check for pulse characteristics specific to P-18
-      if (characteristics.pulse && 
-          characteristics.pulse.repetitionFrequency > 250 && 
-          characteristics.pulse.repetitionFrequency < 350) {
-        possibleModels = ['P-18 Spoon Rest'];
-        confidence = 'high';
-      }
     }
     // L Band - Long Range Surveillance
     else if (band.name === 'L') {
-      possibleModels = ['P-37 Bar Lock', '96L6E'];
       platformType = 'ground-based';
       
       if (characteristics.frequency.agility === 'high') {
         classification = 'phased-array-radar';
-        possibleModels = ['96L6E'];
         confidence = 'high';
       }
     }
     // S Band - Surveillance Radars
     else if (band.name === 'S') {
-      possibleModels = ['S-300 Tin Shield', 'SNAR-10', 'P-19 Flat Face'];
-      
       // Check for ground surveillance
       if (characteristics.pulse && characteristics.pulse.width < 2) {
         classification = 'ground-surveillance-radar';
-        possibleModels = ['SNAR-10', 'PSNR-5'];
         platformType = 'mobile';
       }
     }
     // X Band - Fire Control & Targeting
     else if (band.name === 'X') {
       classification = 'fire-control-radar';
-      possibleModels = ['9S35 Fire Dome', '1L219 Zoopark-1', '9S32 Grill Pan'];
       platformType = 'mobile';
       
       // Check for counter-battery radar
@@ -110,7 +95,6 @@ export function classifyEmitter(characteristics) {
           characteristics.pulse.repetitionFrequency > 1000 &&
           characteristics.frequency.agility === 'high') {
         classification = 'counter-battery-radar';
-        possibleModels = ['1L219 Zoopark-1', 'SNAR-10'];
         confidence = 'high';
       }
     }
@@ -123,16 +107,36 @@ export function classifyEmitter(characteristics) {
            characteristics.modulation.includes('AM'))) {
         classification = midFreq < 300 ? 'vhf-tactical-communications' : 'uhf-tactical-communications';
         platformType = 'communications';
-        possibleModels = midFreq < 300 ? ['R-123M', 'R-111'] : ['R-168', 'R-159'];
         confidence = 'medium';
       }
     }
     
+    // Candidate systems come from the catalogue: those in the same role if any fit the
+    // signal, otherwise anything transmitting on these frequencies
+    const candidates = matchSystemsBySignal(characteristics);
+    const sameRole = candidates.filter(candidate => candidate.system.role === classification);
+    const models = sameRole.length > 0 ? sameRole : candidates;
+    let possibleModels = models.map(candidate => candidate.system.name);
+    
+    // A single system whose pulse parameters fit identifies the emitter
+    const pulseMatched = models.filter(candidate => candidate.pulseMatches > 0 &&
+      candidate.pulseMatches === models[0].pulseMatches);
+    if (pulseMatched.length === 1) {
+      const { system } = pulseMatched[0];
+      classification = system.role || classification;
+      possibleModels = [system.name];
+      confidence = 'high';
+    }
+    
     return {
       classification,
       confidence,
       platformType,
-      possibleModels
+      possibleModels,
+      // Known only when every candidate moves the same way
+      mobility: models.length > 0 && models.every(candidate => candidate.system.mobility === models[0].system.mobility)
+        ? models[0].system.mobility
+        : undefined
     };
   } catch (error) {
     logger.error('Error in emitter classification', {
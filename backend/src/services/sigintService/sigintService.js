@@ -2,9 +2,11 @@ import { logger } from '../../api/logger/logger.js';
 import { RadarSignal, EmitterLocation, EmitterTrack } from './models/radarSignal.js';
 import { generateCacheKey, getCachedResult, setCacheResult } from '../humintService/utils/caching.js';
 import { geolocateEmitter } from './strategies/emitterGeolocation.js';
-import { trackEmitters } from './strategies/emitterTracking.js';
+import { trackEmitters, predictEmitterLocations } from './strategies/emitterTracking.js';
+import { buildEmitterTimeSeries, summarizeDetections } from './strategies/emitterTimeSeries.js';
 import { classifyEmitter, assessEmitterMatch } from './parsers/signalClassifier.js';
 import { buildElectronicOrderOfBattle } from './parsers/eobBuilder.js';
+import { computeRadarCoverage } from './strategies/radarCoverage.js';
 import { filterActiveTracks, generateTrackStatistics } from './utils/emitterUtils.js';
 import { withRetry, ExtractionError } from '../humintService/utils/errorHandling.js';
 import { cache } from '../cacheService.js';
@@ -17,6 +19,7 @@ class SigintService {
     this.options = {
       cacheEnabled: true,
       autoTrackInterval: 60000, // 1 minute
+      maxStoredSignals: 50000, // Signals kept for emitter time series
       pruneTracks: true,
       pruneThresholdHours: 24, // Keep tracks for 24 hours
       ...options
@@ -26,6 +29,7 @@ class SigintService {
     this.activeEmitters = new Map(); // Store active emitter tracks
     this.eob = null; // Current Electronic Order of Battle
     this.analysisResults = new Map(); // Store analysis results by ID
+    this.signals = new Map(); // Received signals by ID, oldest first
     
     logger.info('Radar Signal Service initialized', {
       cacheEnabled: !!this.cache,
@@ -121,6 +125,8 @@ async importSigintJson(jsonData) {
             accuracy: loc.accuracy || 100,
             confidenceLevel: loc.confidenceLevel || 'medium',
             signalIds: loc.signalIds || [],
+            bearings: loc.bearings || [],
+            receiverIds: loc.receiverIds || [],
             emitterId: emitter.emitterId
           })),
           characteristics: emitter.characteristics || {},
@@ -290,6 +296,8 @@ async processSigintJson(jsonData) {
         return new RadarSignal(data);
       });
       
+      this.storeSignals(signals);
+      
       // Group signals by potential emitter based on characteristics
       const groupedSignals = this.groupSignalsByCharacteristics(signals);
       
@@ -481,7 +489,7 @@ async processSigintJson(jsonData) {
             type: classification.platformType,
             model: classification.possibleModels[0] || 'unknown',
             confidence: classification.confidence,
-            mobility: 'unknown'
+            mobility: classification.mobility || 'unknown'
           }
         });
         
@@ -668,7 +676,8 @@ async processSigintJson(jsonData) {
           ...track.platformAssessment,
           type: classification.platformType,
           model: classification.possibleModels[0] || track.platformAssessment.model,
-          confidence: classification.confidence
+          confidence: classification.confidence,
+          mobility: classification.mobility || track.platformAssessment.mobility
         };
       }
     }
@@ -795,6 +804,123 @@ async processSigintJson(jsonData) {
     return this.activeEmitters.get(emitterId) || null;
   }
   
+  /**
+   * Keep received signals so an emitter's detections can be traced back to the
+   * measurements behind them. The oldest are dropped once the limit is reached.
+   * @param {Array<RadarSignal>} signals - Signals just received
+   */
+  storeSignals(signals) {
+    signals.forEach(signal => {
+      this.signals.delete(signal.signalId);
+      this.signals.set(signal.signalId, signal);
+    });
+    
+    const excess = this.signals.size - this.options.maxStoredSignals;
+    if (excess > 0) {
+      const oldest = Array.from(this.signals.keys()).slice(0, excess);
+      oldest.forEach(signalId => this.signals.delete(signalId));
+    }
+  }
+  
+  /**
+   * Summary of an emitter's measured characteristics with its detections, most recent first
+   * @param {string} emitterId - Emitter ID
+   * @returns {Object|null} - Characteristics or null if the emitter is not tracked
+   */
+  getEmitterCharacteristics(emitterId) {
+    const track = this.getEmitterById(emitterId);
+    if (!track) return null;
+    
+    const detections = buildEmitterTimeSeries(track, this.signals);
+    
+    return {
+      emitterId: track.emitterId,
+      classification: track.classification,
+      platformAssessment: track.platformAssessment,
+      characteristics: track.characteristics,
+      firstDetection: track.firstDetection,
+      lastDetection: track.lastDetection,
+      statistics: summarizeDetections(detections),
+      detections: detections.reverse()
+    };
+  }
+  
+  /**
+   * Frequency, power and location accuracy of an emitter over time
+   * @param {string} emitterId - Emitter ID
+   * @param {Object} options - Time window and resolution
+   * @param {Date} [options.startTime] - Earliest detection to include
+   * @param {Date} [options.endTime] - Latest detection to include
+   * @param {string} [options.resolution] - Bucket width, 'raw' for every detection
+   * @returns {Object|null} - Time series or null if the emitter is not tracked
+   */
+  getEmitterTimeSeries(emitterId, options = {}) {
+    const track = this.getEmitterById(emitterId);
+    if (!track) return null;
+    
+    return {
+      emitterId: track.emitterId,
+      resolution: options.resolution || 'raw',
+      startTime: options.startTime || null,
+      endTime: options.endTime || null,
+      points: buildEmitterTimeSeries(track, this.signals, options)
+    };
+  }
+  
+  /**
+   * Predicted positions of an emitter with the uncertainty around each
+   * @param {string} emitterId - Emitter ID
+   * @param {Object} options - Timeframe in minutes, number of intervals and confidence level
+   * @returns {Object|null} - Prediction or null if the emitter is not tracked or has no fix
+   */
+  predictEmitterLocations(emitterId, options = {}) {
+    const track = this.getEmitterById(emitterId);
+    if (!track) return null;
+    
+    const prediction = predictEmitterLocations(track, options);
+    if (!prediction) return null;
+    
+    return {
+      emitterId: track.emitterId,
+      generatedAt: new Date().toISOString(),
+      ...prediction
+    };
+  }
+  
+  /**
+   * Terrain-limited coverage of air defence radars. A radar's coverage only changes
+   * with its position, range, antenna height and the target altitude, so results are
+   * cached on those and reused whatever ID the element carries.
+   * @param {Array<Object>} elements - Radars with their position and range
+   * @param {number} targetAltitude - Target height above ground in meters
+   * @returns {Promise<Array<Object>>} - Coverage per radar, in the order requested
+   */
+  async computeCoverage(elements, targetAltitude) {
+    const coverage = [];
+    
+    for (const element of elements) {
+      const { latitude, longitude, range, antennaHeight = null } = element;
+      const cacheKey = generateCacheKey(
+        JSON.stringify([latitude, longitude, range, antennaHeight]),
+        'radar_coverage',
+        { targetAltitude }
+      );
+      
+      let result = await getCachedResult(this.cache, cacheKey);
+      if (!result) {
+        // Each radar samples the elevation model many thousands of times; yield between
+        // radars so one large request does not hold up every other request
+        await new Promise(resolve => setImmediate(resolve));
+        result = computeRadarCoverage(element, targetAltitude);
+        await setCacheResult(this.cache, cacheKey, result);
+      }
+      
+      coverage.push({ ...result, id: element.id });
+    }
+    
+    return coverage;
+  }
+  
   /**
    * Get the current Electronic Order of Battle
    * @returns {Object} - Current EOB
@@ -824,6 +950,7 @@ async processSigintJson(jsonData) {
    */
   clearAllTracks() {
     this.activeEmitters.clear();
+    this.signals.clear();
     this.eob = null;
     logger.info('Cleared all emitter tracks');
   }
@@ -882,6 +1009,8 @@ async importEmitterData(emitterData) {
               accuracy: loc.accuracy || 100,
               confidenceLevel: loc.confidenceLevel || 'medium',
               signalIds: loc.signalIds || [],
+              bearings: loc.bearings || [],
+              receiverIds: loc.receiverIds || [],
               emitterId: data.emitterId
             };
           }).filter(loc => loc !== null)
@@ -51,7 +51,9 @@ export async function geolocateEmitter(signals) {
       accuracy: location.accuracy,
       confidenceLevel: calculateConfidenceLevel(signals, location.accuracy),
       signalIds: signals.map(s => s.signalId),
-      characteristics: characteristics
+      characteristics: characteristics,
+      bearings: validSignals.map(lineOfBearing),
+      receiverIds: [...new Set(signals.map(s => s.receiverId).filter(Boolean))]
     });
   } catch (error) {
     logger.error('Error in emitter geolocation', { 
@@ -62,6 +64,26 @@ export async function geolocateEmitter(signals) {
   }
 }
 
+/**
+ * Line of bearing from a receiver, kept with the fix so analysts can see and
+ * re-weigh what it was triangulated from
+ * @param {RadarSignal} signal - Signal with receiver location and angle of arrival
+ * @returns {Object} - Receiver, its location and the bearing in degrees true
+ */
+function lineOfBearing(signal) {
+  return {
+    signalId: signal.signalId,
+    receiverId: signal.receiverId,
+    receiverLocation: {
+      lat: signal.receiverLocation.lat,
+      lng: signal.receiverLocation.lng
+    },
+    bearing: ((signal.angleOfArrival % 360) + 360) % 360,
+    signalStrength: signal.signalStrength,
+    timestamp: signal.timestamp
+  };
+}
+
 /**
  * Calculate emitter location using triangulation
  * @param {Array<RadarSignal>} signals - Array of signals with angle information
@@ -0,0 +1,116 @@
+// Bucket widths for time series requests; raw returns one point per detection
+export const TIME_SERIES_RESOLUTIONS = {
+  raw: 0,
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+const mean = values => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const numbers = values => values.filter(value => Number.isFinite(value));
+
+const summarize = values => {
+  const valid = numbers(values);
+  return valid.length > 0
+    ? { min: Math.min(...valid), max: Math.max(...valid), mean: mean(valid) }
+    : null;
+};
+
+/**
+ * One detection of an emitter with the signal measurements behind it. Frequency and
+ * power come from the intercepted signals where they are still held, otherwise from
+ * the characteristics derived when the fix was made.
+ * @param {EmitterLocation} location - Detection from the emitter's track
+ * @param {Map<string, RadarSignal>} signalsById - Signals received so far
+ * @returns {Object} Detection point
+ */
+export function detectionPoint(location, signalsById) {
+  const signals = (location.signalIds || [])
+    .map(signalId => signalsById.get(signalId))
+    .filter(Boolean);
+
+  const frequencies = numbers(signals.map(signal => signal.frequency));
+  const strengths = numbers(signals.map(signal => signal.signalStrength));
+  const derived = location.characteristics?.frequency;
+
+  return {
+    timestamp: location.timestamp,
+    latitude: location.location?.lat ?? location.location?.latitude ?? null,
+    longitude: location.location?.lng ?? location.location?.longitude ?? null,
+    accuracy: Number.isFinite(location.accuracy) ? location.accuracy : null,
+    confidence: location.confidenceLevel || 'medium',
+    frequency: frequencies.length > 0
+      ? mean(frequencies)
+      : (Number.isFinite(derived?.min) && Number.isFinite(derived?.max) ? (derived.min + derived.max) / 2 : null),
+    power: strengths.length > 0 ? mean(strengths) : (Number.isFinite(location.signalStrength) ? location.signalStrength : null),
+    signalCount: signals.length || (location.signalIds || []).length,
+    receivers: [...new Set(signals.map(signal => signal.receiverId).filter(Boolean))]
+  };
+}
+
+/**
+ * Detections of an emitter in a time window, oldest first, averaged into buckets
+ * unless the raw resolution is asked for
+ * @param {EmitterTrack} track - Emitter track
+ * @param {Map<string, RadarSignal>} signalsById - Signals received so far
+ * @param {Object} options - Window and resolution
+ * @param {Date} [options.startTime] - Earliest detection to include
+ * @param {Date} [options.endTime] - Latest detection to include
+ * @param {string} [options.resolution] - Key of TIME_SERIES_RESOLUTIONS
+ * @returns {Array<Object>} Time series points
+ */
+export function buildEmitterTimeSeries(track, signalsById, { startTime, endTime, resolution = 'raw' } = {}) {
+  const points = (track.locations || [])
+    .filter(location => {
+      const time = new Date(location.timestamp).getTime();
+      return !isNaN(time) &&
+        (!startTime || time >= startTime.getTime()) &&
+        (!endTime || time <= endTime.getTime());
+    })
+    .map(location => detectionPoint(location, signalsById))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const bucketWidth = TIME_SERIES_RESOLUTIONS[resolution] || 0;
+  if (bucketWidth === 0) {
+    return points.map(point => ({ ...point, detections: 1 }));
+  }
+
+  const buckets = new Map();
+  points.forEach(point => {
+    const bucket = Math.floor(new Date(point.timestamp).getTime() / bucketWidth) * bucketWidth;
+    if (!buckets.has(bucket)) buckets.set(bucket, []);
+    buckets.get(bucket).push(point);
+  });
+
+  return Array.from(buckets.entries()).map(([bucket, members]) => ({
+    timestamp: new Date(bucket).toISOString(),
+    latitude: mean(numbers(members.map(point => point.latitude))),
+    longitude: mean(numbers(members.map(point => point.longitude))),
+    accuracy: mean(numbers(members.map(point => point.accuracy))),
+    frequency: mean(numbers(members.map(point => point.frequency))),
+    power: mean(numbers(members.map(point => point.power))),
+    signalCount: members.reduce((sum, point) => sum + point.signalCount, 0),
+    receivers: [...new Set(members.flatMap(point => point.receivers))],
+    detections: members.length
+  }));
+}
+
+/**
+ * Summary figures over all of an emitter's detections
+ * @param {Array<Object>} points - Raw detection points
+ * @returns {Object} Ranges of frequency, power and accuracy, and the receivers involved
+ */
+export function summarizeDetections(points) {
+  return {
+    detectionCount: points.length,
+    signalCount: points.reduce((sum, point) => sum + point.signalCount, 0),
+    frequency: summarize(points.map(point => point.frequency)),
+    power: summarize(points.map(point => point.power)),
+    accuracy: summarize(points.map(point => point.accuracy)),
+    receivers: [...new Set(points.flatMap(point => point.receivers))]
+  };
+}
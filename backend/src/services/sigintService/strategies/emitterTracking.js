@@ -1,4 +1,5 @@
 import { logger } from '../../../api/logger/logger.js';
+import { calculateDestination } from '../../fusionService/utils/geoUtils.js';
 
 /**
  * Calculate tracking information for emitters based on location history
@@ -160,6 +161,123 @@ function assessMobilityType(speed, speedVariance) {
   }
 }
 
+// Speed at which an emitter could wander from its last fix when it is not seen
+// moving, by tracked mobility or by the mobility of its catalogued system (m/s)
+const RELOCATION_SPEEDS = {
+  stationary: 0,
+  static: 0,
+  'quasi-stationary': 0.3,
+  relocatable: 0.5,
+  'man-portable': 1,
+  'slow-moving': 1,
+  'stop-and-go': 2,
+  mobile: 3,
+  'highly-mobile': 5
+};
+const DEFAULT_RELOCATION_SPEED = 1;
+
+// Floor on velocity uncertainty, since a few consistent fixes can understate it
+const MIN_UNCERTAINTY = {
+  high: { directionDeg: 5, speedFraction: 0.1 },
+  medium: { directionDeg: 15, speedFraction: 0.25 },
+  low: { directionDeg: 30, speedFraction: 0.5 }
+};
+
+/**
+ * Predict where an emitter will be over the coming period by projecting its
+ * velocity vector forward. Each step carries a radius that contains the emitter
+ * at the requested confidence, growing with the spread in measured speed and
+ * heading and with how far the emitter's mobility type lets it relocate unseen.
+ * @param {EmitterTrack} track - Emitter track with location history
+ * @param {Object} options - Prediction options
+ * @param {number} [options.timeframe=60] - Minutes ahead to predict
+ * @param {number} [options.intervals=6] - Number of predicted positions
+ * @param {number} [options.confidenceLevel=0.9] - Probability the emitter lies within each radius
+ * @returns {Object|null} - Origin fix, velocity used and predicted positions, or null without a fix
+ */
+export function predictEmitterLocations(track, { timeframe = 60, intervals = 6, confidenceLevel = 0.9 } = {}) {
+  const sortedLocations = [...(track.locations || [])]
+    .filter(location => location.location)
+    .sort((a, b) => new Date(a.timestamp) - new Date(b.timestamp));
+  const lastFix = sortedLocations[sortedLocations.length - 1];
+  if (!lastFix) return null;
+
+  const originLat = lastFix.location.lat ?? lastFix.location.latitude;
+  const originLng = lastFix.location.lng ?? lastFix.location.longitude;
+  const originAccuracy = Number.isFinite(lastFix.accuracy) ? lastFix.accuracy : 0;
+
+  const velocity = track.velocityInfo ||
+    (sortedLocations.length >= 2 ? calculateVelocityVector({ locations: sortedLocations }) : null) ||
+    { speed: 0, direction: 0, reliability: 'low' };
+  const mobilityType = velocity.mobilityType || track.platformAssessment?.mobility || 'unknown';
+
+  const finite = value => Number.isFinite(value) ? value : 0;
+  const direction = (finite(velocity.direction) + 360) % 360;
+
+  // A stationary emitter does not drift along its noise; it can only be moved
+  const isMoving = finite(velocity.speed) >= 0.1 && mobilityType !== 'stationary';
+  const speed = isMoving ? velocity.speed : 0;
+  const floor = MIN_UNCERTAINTY[velocity.reliability] || MIN_UNCERTAINTY.low;
+  const speedSigma = Math.max(Math.sqrt(finite(velocity.speedVariance)), speed * floor.speedFraction);
+  const directionSigma = Math.max(Math.sqrt(finite(velocity.directionVariance)), floor.directionDeg) * Math.PI / 180;
+  const relocationSpeed = RELOCATION_SPEEDS[mobilityType] ?? DEFAULT_RELOCATION_SPEED;
+  const z = normalQuantile(1 - (1 - confidenceLevel) / 2);
+
+  const originTime = new Date(lastFix.timestamp).getTime();
+  const predictions = [];
+
+  for (let i = 1; i <= intervals; i++) {
+    const minutesAhead = (timeframe * i) / intervals;
+    const seconds = minutesAhead * 60;
+    const distance = speed * seconds;
+    const [latitude, longitude] = calculateDestination(originLat, originLng, distance, direction);
+
+    // Independent spreads along and across track, plus unseen relocation
+    const alongTrack = speedSigma * seconds;
+    const acrossTrack = distance * Math.min(directionSigma, Math.PI / 2);
+    const relocation = isMoving ? 0 : relocationSpeed * seconds;
+    const radius = originAccuracy + z * Math.sqrt(alongTrack ** 2 + acrossTrack ** 2) + relocation;
+
+    predictions.push({
+      timestamp: new Date(originTime + seconds * 1000).toISOString(),
+      minutesAhead,
+      latitude,
+      longitude,
+      radius: Math.round(radius)
+    });
+  }
+
+  return {
+    origin: {
+      timestamp: lastFix.timestamp,
+      latitude: originLat,
+      longitude: originLng,
+      accuracy: originAccuracy
+    },
+    velocity: {
+      speed,
+      direction,
+      reliability: velocity.reliability,
+      mobilityType
+    },
+    confidenceLevel,
+    predictions
+  };
+}
+
+/**
+ * Standard normal quantile (Abramowitz and Stegun 26.2.23, error below 4.5e-4)
+ * @param {number} p - Probability between 0 and 1
+ * @returns {number} - z such that P(Z <= z) = p
+ */
+function normalQuantile(p) {
+  const q = p < 0.5 ? p : 1 - p;
+  const t = Math.sqrt(-2 * Math.log(q));
+  const z = t - (2.515517 + 0.802853 * t + 0.010328 * t * t) /
+    (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t);
+  return p < 0.5 ? -z : z;
+}
+
 /**
  * Calculate distance and bearing between two points
  * @param {number} lat1 - Latitude of first point
@@ -0,0 +1,117 @@
+import { logger } from '../../../api/logger/logger.js';
+import elevationService from '../../elevationService.js';
+import { calculateDestination } from '../../fusionService/utils/geoUtils.js';
+
+const EARTH_RADIUS = 6371e3;
+
+// Standard atmospheric refraction bends radar energy as if the earth were 4/3 its size
+const EFFECTIVE_EARTH_RADIUS = EARTH_RADIUS * 4 / 3;
+
+// Degrees between rays cast from the radar
+const AZIMUTH_STEP = 2;
+
+// Samples per ray are spaced at the elevation cell size, within these limits
+const MIN_RANGE_STEP = 30;
+const MAX_SAMPLES_PER_RAY = 600;
+
+const METERS_PER_DEGREE = 111320;
+
+// Antenna height above ground when the element does not report one
+const DEFAULT_ANTENNA_HEIGHT = 10;
+
+// Low-level target height above ground when none is requested
+export const DEFAULT_TARGET_ALTITUDE = 100;
+
+/**
+ * Distance to the radar horizon for an antenna and a target, both above a smooth earth
+ * @param {number} antennaHeight - Antenna height in meters
+ * @param {number} targetHeight - Target height in meters
+ * @returns {number} Distance in meters
+ */
+export function radarHorizon(antennaHeight, targetHeight) {
+  const horizon = height => Math.sqrt(2 * EFFECTIVE_EARTH_RADIUS * Math.max(height, 0));
+  return horizon(antennaHeight) + horizon(targetHeight);
+}
+
+// Height lost to earth curvature at a distance, relative to the radar's horizontal plane
+const curvatureDrop = distance => distance * distance / (2 * EFFECTIVE_EARTH_RADIUS);
+
+/**
+ * Area in which a radar can see a target flying at a set height above the terrain.
+ * Rays are cast outwards from the radar; each stops where the target would first be
+ * hidden behind terrain or below the radar horizon, so the resulting polygon is
+ * notched by the shadows of ridges and hills. Ground that comes back into view
+ * beyond a shadow is not included.
+ * @param {Object} element - Air defence element
+ * @param {number} element.latitude - Radar latitude
+ * @param {number} element.longitude - Radar longitude
+ * @param {number} element.range - Instrumented range of the system in meters
+ * @param {number} [element.antennaHeight] - Antenna height above ground in meters
+ * @param {number} [targetAltitude] - Target height above ground in meters
+ * @returns {Object} Coverage polygon and the figures it was computed from
+ */
+export function computeRadarCoverage(element, targetAltitude = DEFAULT_TARGET_ALTITUDE) {
+  const { latitude, longitude, range } = element;
+  const antennaHeight = element.antennaHeight ?? DEFAULT_ANTENNA_HEIGHT;
+
+  const siteGround = elevationService.getElevation(latitude, longitude);
+  const terrainAware = siteGround !== null;
+  const radarHeight = (siteGround ?? 0) + antennaHeight;
+
+  // Without terrain the target is taken to fly over ground at the radar's level
+  const horizonRange = radarHorizon(antennaHeight, targetAltitude);
+  const maxRange = terrainAware ? range : Math.min(range, horizonRange);
+
+  const resolution = elevationService.getElevationResolution(latitude, longitude);
+  const rangeStep = Math.max(
+    MIN_RANGE_STEP,
+    resolution ? resolution * METERS_PER_DEGREE : 0,
+    maxRange / MAX_SAMPLES_PER_RAY
+  );
+
+  const polygon = [];
+  let maskedRays = 0;
+
+  for (let azimuth = 0; azimuth < 360; azimuth += AZIMUTH_STEP) {
+    let reach = maxRange;
+
+    if (terrainAware) {
+      // Steepest angle to any terrain seen so far along the ray
+      let maskAngle = -Infinity;
+
+      for (let distance = rangeStep; distance <= maxRange; distance += rangeStep) {
+        const [lat, lng] = calculateDestination(latitude, longitude, distance, azimuth);
+        const ground = (elevationService.getElevation(lat, lng) ?? siteGround) - curvatureDrop(distance);
+        const targetAngle = (ground + targetAltitude - radarHeight) / distance;
+
+        if (targetAngle < maskAngle) {
+          reach = distance - rangeStep;
+          maskedRays++;
+          break;
+        }
+        maskAngle = Math.max(maskAngle, (ground - radarHeight) / distance);
+      }
+    }
+
+    polygon.push(calculateDestination(latitude, longitude, Math.max(reach, 0), azimuth));
+  }
+
+  logger.info('Radar coverage computed', {
+    id: element.id,
+    terrainAware,
+    maxRange: Math.round(maxRange),
+    maskedRays
+  });
+
+  return {
+    id: element.id,
+    polygon,
+    maxRange,
+    horizonRange,
+    antennaHeight,
+    siteElevation: siteGround,
+    targetAltitude,
+    terrainAware,
+    maskedFraction: maskedRays / (360 / AZIMUTH_STEP)
+  };
+}
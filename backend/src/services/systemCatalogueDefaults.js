@@ -0,0 +1,305 @@
+// Systems the catalogue starts with until the EW cell edits it. Figures are approximate
+// open-source values; frequencies in MHz, pulse repetition interval and pulse width in
+// microseconds, ranges in kilometers.
+
+export const DEFAULT_SYSTEMS = [
+ {
+   id: 'p-18',
+   name: 'P-18 Spoon Rest D',
+   aliases: ['P-18', 'Spoon Rest D', '1RL131'],
+   category: 'radar',
+   role: 'early-warning-radar',
+   frequencyBands: [{ minMHz: 150, maxMHz: 170 }],
+   priRangeUs: { min: 2857, max: 4000 },
+   pulseWidthRangeUs: { min: 3, max: 8 },
+   detectionRangeKm: 250,
+   engagementRangeKm: null,
+   mobility: 'relocatable'
+ },
+ {
+   id: 'p-12',
+   name: 'P-12 Spoon Rest A',
+   aliases: ['P-12', 'Spoon Rest A'],
+   category: 'radar',
+   role: 'early-warning-radar',
+   frequencyBands: [{ minMHz: 147, maxMHz: 161 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 200,
+   engagementRangeKm: null,
+   mobility: 'relocatable'
+ },
+ {
+   id: 'p-19',
+   name: 'P-19 Flat Face B',
+   aliases: ['P-19', 'Flat Face', '1RL134'],
+   category: 'radar',
+   role: 'surveillance-radar',
+   frequencyBands: [{ minMHz: 830, maxMHz: 882 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 160,
+   engagementRangeKm: null,
+   mobility: 'mobile'
+ },
+ {
+   id: 'p-37',
+   name: 'P-37 Bar Lock',
+   aliases: ['P-37', 'Bar Lock', '1RL139'],
+   category: 'radar',
+   role: 'long-range-surveillance',
+   frequencyBands: [{ minMHz: 1000, maxMHz: 2000 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 350,
+   engagementRangeKm: null,
+   mobility: 'relocatable'
+ },
+ {
+   id: '96l6e',
+   name: '96L6E Cheese Board',
+   aliases: ['96L6', '96L6E', 'Cheese Board'],
+   category: 'radar',
+   role: 'phased-array-radar',
+   frequencyBands: [{ minMHz: 1000, maxMHz: 2000 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 300,
+   engagementRangeKm: null,
+   mobility: 'mobile'
+ },
+ {
+   id: '36d6',
+   name: '36D6 Tin Shield',
+   aliases: ['ST-68', 'Tin Shield', '36D6M'],
+   category: 'radar',
+   role: 'surveillance-radar',
+   frequencyBands: [{ minMHz: 2900, maxMHz: 3300 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 360,
+   engagementRangeKm: null,
+   mobility: 'relocatable'
+ },
+ {
+   id: 'snar-10',
+   name: 'SNAR-10 Big Fred',
+   aliases: ['SNAR-10', 'Big Fred', '1RL126'],
+   category: 'radar',
+   role: 'ground-surveillance-radar',
+   frequencyBands: [{ minMHz: 2000, maxMHz: 4000 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: { min: 0.1, max: 2 },
+   detectionRangeKm: 40,
+   engagementRangeKm: null,
+   mobility: 'mobile'
+ },
+ {
+   id: 'psnr-5',
+   name: 'PSNR-5 Tall Mike',
+   aliases: ['PSNR-5', 'Tall Mike', '1RL133'],
+   category: 'radar',
+   role: 'ground-surveillance-radar',
+   frequencyBands: [{ minMHz: 2000, maxMHz: 4000 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: { min: 0.1, max: 2 },
+   detectionRangeKm: 20,
+   engagementRangeKm: null,
+   mobility: 'man-portable'
+ },
+ {
+   id: '9s35',
+   name: '9S35 Fire Dome',
+   aliases: ['9S35', 'Fire Dome'],
+   category: 'radar',
+   role: 'fire-control-radar',
+   frequencyBands: [{ minMHz: 8000, maxMHz: 12000 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 85,
+   engagementRangeKm: 45,
+   mobility: 'mobile'
+ },
+ {
+   id: '9s32',
+   name: '9S32 Grill Pan',
+   aliases: ['9S32', 'Grill Pan'],
+   category: 'radar',
+   role: 'fire-control-radar',
+   frequencyBands: [{ minMHz: 8000, maxMHz: 12000 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 150,
+   engagementRangeKm: 100,
+   mobility: 'mobile'
+ },
+ {
+   id: '1l219',
+   name: '1L219 Zoopark-1',
+   aliases: ['Zoopark', '1L219', 'Zoopark-1'],
+   category: 'radar',
+   role: 'counter-battery-radar',
+   frequencyBands: [{ minMHz: 8000, maxMHz: 12000 }],
+   priRangeUs: { min: 100, max: 1000 },
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 40,
+   engagementRangeKm: null,
+   mobility: 'mobile'
+ },
+ {
+   id: 's-300',
+   name: 'S-300PMU',
+   aliases: ['S-300', 'SA-10', 'SA-20', 'Grumble', 'Gargoyle'],
+   category: 'sam',
+   role: 'fire-control-radar',
+   frequencyBands: [{ minMHz: 8000, maxMHz: 10000 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 300,
+   engagementRangeKm: 200,
+   mobility: 'relocatable'
+ },
+ {
+   id: 's-400',
+   name: 'S-400 Triumf',
+   aliases: ['S-400', 'SA-21', 'Growler', 'Triumf'],
+   category: 'sam',
+   role: 'fire-control-radar',
+   frequencyBands: [{ minMHz: 8000, maxMHz: 10000 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 600,
+   engagementRangeKm: 250,
+   mobility: 'relocatable'
+ },
+ {
+   id: 'buk',
+   name: 'Buk-M1/M2',
+   aliases: ['Buk', 'SA-11', 'SA-17', 'Gadfly', 'Grizzly', '9K37'],
+   category: 'sam',
+   role: 'fire-control-radar',
+   frequencyBands: [{ minMHz: 8000, maxMHz: 12000 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 85,
+   engagementRangeKm: 50,
+   mobility: 'mobile'
+ },
+ {
+   id: 'kub',
+   name: '2K12 Kub',
+   aliases: ['Kub', 'Kvadrat', 'SA-6', 'Gainful', '2K12'],
+   category: 'sam',
+   role: 'fire-control-radar',
+   frequencyBands: [{ minMHz: 8000, maxMHz: 12000 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 75,
+   engagementRangeKm: 24,
+   mobility: 'mobile'
+ },
+ {
+   id: 'tor',
+   name: 'Tor-M1/M2',
+   aliases: ['Tor', 'SA-15', 'Gauntlet', '9K330', '9K331', '9K332'],
+   category: 'sam',
+   role: 'fire-control-radar',
+   frequencyBands: [{ minMHz: 8000, maxMHz: 12000 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 25,
+   engagementRangeKm: 15,
+   mobility: 'mobile'
+ },
+ {
+   id: 'osa',
+   name: '9K33 Osa',
+   aliases: ['Osa', 'SA-8', 'Gecko', '9K33'],
+   category: 'sam',
+   role: 'fire-control-radar',
+   frequencyBands: [{ minMHz: 8000, maxMHz: 12000 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 30,
+   engagementRangeKm: 10,
+   mobility: 'mobile'
+ },
+ {
+   id: 'igla',
+   name: '9K38 Igla',
+   aliases: ['Igla', 'SA-18', 'SA-16', 'Grouse', 'Gimlet', '9K38'],
+   category: 'manpads',
+   role: 'manpads',
+   frequencyBands: [],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: null,
+   engagementRangeKm: 5,
+   mobility: 'man-portable'
+ },
+ {
+   id: 'stinger',
+   name: 'FIM-92 Stinger',
+   aliases: ['Stinger', 'FIM-92'],
+   category: 'manpads',
+   role: 'manpads',
+   frequencyBands: [],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: null,
+   engagementRangeKm: 5,
+   mobility: 'man-portable'
+ },
+ {
+   id: 'r-123m',
+   name: 'R-123M',
+   aliases: ['R-123', 'R-123M'],
+   category: 'communications',
+   role: 'vhf-tactical-communications',
+   frequencyBands: [{ minMHz: 20, maxMHz: 51.5 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 20,
+   engagementRangeKm: null,
+   mobility: 'mobile'
+ },
+ {
+   id: 'r-111',
+   name: 'R-111',
+   aliases: ['R-111'],
+   category: 'communications',
+   role: 'vhf-tactical-communications',
+   frequencyBands: [{ minMHz: 20, maxMHz: 52 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 40,
+   engagementRangeKm: null,
+   mobility: 'mobile'
+ },
+ {
+   id: 'r-168',
+   name: 'R-168 Akveduk',
+   aliases: ['R-168', 'Akveduk'],
+   category: 'communications',
+   role: 'vhf-tactical-communications',
+   frequencyBands: [{ minMHz: 30, maxMHz: 108 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 15,
+   engagementRangeKm: null,
+   mobility: 'man-portable'
+ },
+ {
+   id: 'r-159',
+   name: 'R-159',
+   aliases: ['R-159'],
+   category: 'communications',
+   role: 'vhf-tactical-communications',
+   frequencyBands: [{ minMHz: 30, maxMHz: 80 }],
+   priRangeUs: null,
+   pulseWidthRangeUs: null,
+   detectionRangeKm: 10,
+   engagementRangeKm: null,
+   mobility: 'man-portable'
+ }
+];
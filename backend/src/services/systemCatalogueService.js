@@ -0,0 +1,250 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../api/logger/logger.js';
+import { SYSTEM_CATALOGUE_PATH } from '../../config.js';
+import { DEFAULT_SYSTEMS } from './systemCatalogueDefaults.js';
+
+// Reference data on weapon and sensor systems: aliases, emission parameters, ranges and
+// mobility. Emitter classification, coverage and map popups read it, and the EW cell
+// edits it through the API; edits are kept in a JSON file so they survive restarts.
+
+export const SYSTEM_CATEGORIES = ['radar', 'sam', 'manpads', 'communications', 'jammer', 'other'];
+export const SYSTEM_MOBILITIES = ['static', 'relocatable', 'mobile', 'man-portable'];
+
+const SYSTEM_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+// In-memory copy of the catalogue, loaded on first use
+let systems = null;
+
+const isRange = (range) =>
+ range && Number.isFinite(range.min) && Number.isFinite(range.max) && range.min >= 0 && range.min <= range.max;
+
+const isOptionalDistance = (value) => value === null || value === undefined || (Number.isFinite(value) && value > 0);
+
+/**
+ * List what is wrong with a catalogue entry
+ * @returns {string[]} Problems found; empty when the entry is valid
+ */
+export const validateSystem = (system) => {
+ if (!system || typeof system !== 'object') return ['Entry must be an object'];
+
+ const errors = [];
+ const label = system.name || system.id || 'entry';
+
+ if (typeof system.name !== 'string' || !system.name.trim()) errors.push('name is required');
+ if (system.id !== undefined && !SYSTEM_ID_PATTERN.test(system.id)) {
+   errors.push(`${label}: id may only hold lower-case letters, digits and hyphens`);
+ }
+ if (system.aliases !== undefined && (!Array.isArray(system.aliases) || !system.aliases.every(alias => typeof alias === 'string'))) {
+   errors.push(`${label}: aliases must be a list of names`);
+ }
+ if (!SYSTEM_CATEGORIES.includes(system.category)) {
+   errors.push(`${label}: category must be one of ${SYSTEM_CATEGORIES.join(', ')}`);
+ }
+ if (system.frequencyBands !== undefined && (!Array.isArray(system.frequencyBands) ||
+     !system.frequencyBands.every(band => isRange({ min: band?.minMHz, max: band?.maxMHz })))) {
+   errors.push(`${label}: frequency bands need minMHz no greater than maxMHz`);
+ }
+ ['priRangeUs', 'pulseWidthRangeUs'].forEach(field => {
+   if (system[field] !== null && system[field] !== undefined && !isRange(system[field])) {
+     errors.push(`${label}: ${field} needs min no greater than max`);
+   }
+ });
+ ['detectionRangeKm', 'engagementRangeKm'].forEach(field => {
+   if (!isOptionalDistance(system[field])) errors.push(`${label}: ${field} must be a positive number`);
+ });
+ if (system.mobility !== undefined && !SYSTEM_MOBILITIES.includes(system.mobility)) {
+   errors.push(`${label}: mobility must be one of ${SYSTEM_MOBILITIES.join(', ')}`);
+ }
+
+ return errors;
+};
+
+const slugify = (name) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'system';
+
+const uniqueId = (name, taken) => {
+ const base = slugify(name);
+ let id = base;
+ for (let suffix = 2; taken.has(id); suffix++) {
+   id = `${base}-${suffix}`;
+ }
+ return id;
+};
+
+// Keep only known fields, with empty values filled in
+const normalizeSystem = (system, id) => ({
+ id,
+ name: system.name.trim(),
+ aliases: (system.aliases || []).map(alias => alias.trim()).filter(Boolean),
+ category: system.category,
+ role: typeof system.role === 'string' ? system.role.trim() : '',
+ frequencyBands: (system.frequencyBands || []).map(({ minMHz, maxMHz }) => ({ minMHz, maxMHz })),
+ priRangeUs: system.priRangeUs ? { min: system.priRangeUs.min, max: system.priRangeUs.max } : null,
+ pulseWidthRangeUs: system.pulseWidthRangeUs ? { min: system.pulseWidthRangeUs.min, max: system.pulseWidthRangeUs.max } : null,
+ detectionRangeKm: system.detectionRangeKm ?? null,
+ engagementRangeKm: system.engagementRangeKm ?? null,
+ mobility: system.mobility || 'mobile',
+ notes: typeof system.notes === 'string' ? system.notes : '',
+ updatedAt: system.updatedAt || new Date().toISOString()
+});
+
+const loadCatalogue = () => {
+ if (systems) return systems;
+
+ try {
+   if (fs.existsSync(SYSTEM_CATALOGUE_PATH)) {
+     const stored = JSON.parse(fs.readFileSync(SYSTEM_CATALOGUE_PATH, 'utf8'));
+     const entries = Array.isArray(stored) ? stored : stored.systems;
+     const valid = (entries || []).filter(entry => validateSystem(entry).length === 0 && entry.id);
+
+     if (valid.length !== (entries || []).length) {
+       logger.warn('Skipped invalid system catalogue entries', { skipped: (entries || []).length - valid.length });
+     }
+     systems = valid.map(entry => normalizeSystem(entry, entry.id));
+     return systems;
+   }
+ } catch (error) {
+   logger.error('Failed to read system catalogue, using defaults', { error: error.message });
+ }
+
+ systems = DEFAULT_SYSTEMS.map(entry => normalizeSystem(entry, entry.id));
+ return systems;
+};
+
+// Write the new catalogue first and only then swap it in, so a failed write leaves
+// memory and file agreeing on the previous catalogue
+const saveCatalogue = (next) => {
+ fs.mkdirSync(path.dirname(SYSTEM_CATALOGUE_PATH), { recursive: true });
+ fs.writeFileSync(SYSTEM_CATALOGUE_PATH, JSON.stringify({ systems: next }, null, 2));
+ systems = next;
+};
+
+/**
+ * All catalogue entries, sorted by name
+ */
+export const listSystems = () => [...loadCatalogue()].sort((a, b) => a.name.localeCompare(b.name));
+
+export const getSystem = (id) => loadCatalogue().find(system => system.id === id) || null;
+
+/**
+ * Add an entry; its id is derived from the name unless one is given
+ * @returns {{ system?: Object, errors?: string[] }}
+ */
+export const createSystem = (entry) => {
+ const errors = validateSystem(entry);
+ const catalogue = loadCatalogue();
+ if (entry?.id && catalogue.some(system => system.id === entry.id)) {
+   errors.push(`A system with id ${entry.id} already exists`);
+ }
+ if (errors.length > 0) return { errors };
+
+ const system = normalizeSystem({ ...entry, updatedAt: undefined },
+   entry.id || uniqueId(entry.name, new Set(catalogue.map(existing => existing.id))));
+ saveCatalogue([...catalogue, system]);
+
+ logger.info('System catalogue entry added', { id: system.id });
+ return { system };
+};
+
+/**
+ * Replace an entry's fields
+ * @returns {{ system?: Object, errors?: string[] } | null} Null if there is no such entry
+ */
+export const updateSystem = (id, entry) => {
+ const catalogue = loadCatalogue();
+ const index = catalogue.findIndex(system => system.id === id);
+ if (index === -1) return null;
+
+ const errors = validateSystem({ ...entry, id });
+ if (errors.length > 0) return { errors };
+
+ const system = normalizeSystem({ ...entry, updatedAt: undefined }, id);
+ saveCatalogue(catalogue.map((existing, position) => position === index ? system : existing));
+
+ logger.info('System catalogue entry updated', { id });
+ return { system };
+};
+
+/**
+ * @returns {boolean} Whether an entry was removed
+ */
+export const deleteSystem = (id) => {
+ const catalogue = loadCatalogue();
+ const index = catalogue.findIndex(system => system.id === id);
+ if (index === -1) return false;
+
+ saveCatalogue(catalogue.filter((_, position) => position !== index));
+
+ logger.info('System catalogue entry removed', { id });
+ return true;
+};
+
+/**
+ * Import entries from an exported catalogue. Nothing is changed unless every entry is valid.
+ * @param {Object[]} entries - Catalogue entries
+ * @param {boolean} replace - Replace the whole catalogue rather than merging by id or name
+ * @returns {{ added?: number, updated?: number, errors?: string[] }}
+ */
+export const importSystems = (entries, replace = false) => {
+ const errors = entries.flatMap((entry, index) => validateSystem(entry).map(error => `#${index + 1}: ${error}`));
+ if (errors.length > 0) return { errors };
+
+ const current = replace ? [] : loadCatalogue();
+ const byId = new Map(current.map(system => [system.id, system]));
+ let added = 0;
+ let updated = 0;
+
+ entries.forEach(entry => {
+   // Entries without an id replace the system of the same name, if there is one
+   const sameName = [...byId.values()].find(system => system.name.toLowerCase() === entry.name.trim().toLowerCase());
+   const id = entry.id || sameName?.id || uniqueId(entry.name, new Set(byId.keys()));
+   if (byId.has(id)) updated++; else added++;
+   byId.set(id, normalizeSystem(entry, id));
+ });
+
+ saveCatalogue([...byId.values()]);
+
+ logger.info('System catalogue imported', { added, updated, replace });
+ return { added, updated };
+};
+
+const inRange = (value, range) => range && value >= range.min && value <= range.max;
+
+/**
+ * Catalogue entries whose emission parameters fit a signal, best match first. An entry
+ * must share part of the signal's frequency range; pulse repetition interval and pulse
+ * width then count for it when they fit and rule it out when they do not.
+ * @param {Object} characteristics - Signal characteristics (frequency in MHz, PRF in Hz, pulse width in µs)
+ * @returns {Array<{ system: Object, pulseMatches: number }>}
+ */
+export const matchSystemsBySignal = (characteristics) => {
+ const { frequency, pulse } = characteristics || {};
+ if (!frequency || !Number.isFinite(frequency.min) || !Number.isFinite(frequency.max)) return [];
+
+ const pri = pulse?.repetitionFrequency > 0 ? 1e6 / pulse.repetitionFrequency : null;
+ const width = Number.isFinite(pulse?.width) ? pulse.width : null;
+
+ return loadCatalogue()
+   .filter(system => system.frequencyBands.some(band => band.minMHz <= frequency.max && band.maxMHz >= frequency.min))
+   .map(system => {
+     const checks = [
+       pri !== null && system.priRangeUs ? inRange(pri, system.priRangeUs) : null,
+       width !== null && system.pulseWidthRangeUs ? inRange(width, system.pulseWidthRangeUs) : null
+     ].filter(check => check !== null);
+
+     return checks.includes(false) ? null : { system, pulseMatches: checks.length };
+   })
+   .filter(Boolean)
+   .sort((a, b) => b.pulseMatches - a.pulseMatches);
+};
+
+export default {
+ listSystems,
+ getSystem,
+ createSystem,
+ updateSystem,
+ deleteSystem,
+ importSystems,
+ validateSystem,
+ matchSystemsBySignal
+};
@@ -0,0 +1,162 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { logger } from '../api/logger/logger.js';
+import { TILES_DIRECTORY } from '../../config.js';
+
+// Serves raster base-map tiles from the local tiles directory so the map works without internet access.
+// Each tileset is either an MBTiles file (<id>.mbtiles) or an XYZ directory (<id>/{z}/{x}/{y}.<ext>)
+// with an optional metadata.json holding name, attribution, minzoom, maxzoom and bounds.
+
+const CONTENT_TYPES = {
+ png: 'image/png',
+ jpg: 'image/jpeg',
+ jpeg: 'image/jpeg',
+ webp: 'image/webp'
+};
+
+const TILESET_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Unknown tileset ids trigger a directory rescan at most this often
+const RESCAN_INTERVAL_MS = 30 * 1000;
+
+const mbtilesHandles = new Map();
+// Tileset descriptors by id, refreshed whenever the directory is listed
+const tilesetCache = new Map();
+let lastScanAt = 0;
+
+const openMbtiles = (filePath) => {
+ if (!mbtilesHandles.has(filePath)) {
+   mbtilesHandles.set(filePath, new Database(filePath, { readonly: true, fileMustExist: true }));
+ }
+ return mbtilesHandles.get(filePath);
+};
+
+const parseBounds = (value) => {
+ const bounds = (Array.isArray(value) ? value : String(value || '').split(','))
+   .map(Number);
+ return bounds.length === 4 && bounds.every(Number.isFinite) ? bounds : null;
+};
+
+const describeTileset = (id, type, metadata) => {
+ const format = String(metadata.format || 'png').toLowerCase();
+
+ return {
+   id,
+   type,
+   name: metadata.name || id,
+   description: metadata.description || '',
+   attribution: metadata.attribution || '',
+   format: format === 'jpeg' ? 'jpg' : format,
+   minZoom: parseInt(metadata.minzoom ?? 0, 10),
+   maxZoom: parseInt(metadata.maxzoom ?? 18, 10),
+   bounds: parseBounds(metadata.bounds)
+ };
+};
+
+const readMbtilesMetadata = (filePath) => {
+ const rows = openMbtiles(filePath).prepare('SELECT name, value FROM metadata').all();
+ return Object.fromEntries(rows.map(row => [row.name, row.value]));
+};
+
+const readDirectoryMetadata = (dirPath) => {
+ const metadataPath = path.join(dirPath, 'metadata.json');
+ const metadata = fs.existsSync(metadataPath)
+   ? JSON.parse(fs.readFileSync(metadataPath, 'utf8'))
+   : {};
+
+ if (!metadata.format) {
+   metadata.format = detectDirectoryFormat(dirPath);
+ }
+ return metadata;
+};
+
+// Look at the first tile on disk to find the image format of an XYZ directory
+const detectDirectoryFormat = (dirPath) => {
+ const zoom = fs.readdirSync(dirPath).find(entry => /^\d+$/.test(entry));
+ if (!zoom) return null;
+
+ const column = fs.readdirSync(path.join(dirPath, zoom)).find(entry => /^\d+$/.test(entry));
+ if (!column) return null;
+
+ const tile = fs.readdirSync(path.join(dirPath, zoom, column)).find(entry => /^\d+\.\w+$/.test(entry));
+ return tile ? path.extname(tile).slice(1) : null;
+};
+
+/**
+ * List the raster tilesets available in the tiles directory
+ */
+export const listTilesets = () => {
+ tilesetCache.clear();
+ lastScanAt = Date.now();
+ if (!fs.existsSync(TILES_DIRECTORY)) {
+   return [];
+ }
+
+ return fs.readdirSync(TILES_DIRECTORY, { withFileTypes: true })
+   .map(entry => {
+     const isMbtiles = entry.isFile() && entry.name.endsWith('.mbtiles');
+     const id = isMbtiles ? entry.name.slice(0, -'.mbtiles'.length) : entry.name;
+     if (!TILESET_ID_PATTERN.test(id) || (!isMbtiles && !entry.isDirectory())) return null;
+
+     const entryPath = path.join(TILES_DIRECTORY, entry.name);
+     try {
+       const tileset = isMbtiles
+         ? describeTileset(id, 'mbtiles', readMbtilesMetadata(entryPath))
+         : describeTileset(id, 'xyz', readDirectoryMetadata(entryPath));
+
+       if (!CONTENT_TYPES[tileset.format]) {
+         logger.warn('Skipping tileset with unsupported format', { id, format: tileset.format });
+         return null;
+       }
+       tilesetCache.set(id, { ...tileset, path: entryPath });
+       return tileset;
+     } catch (error) {
+       logger.error('Failed to read tileset', { id, error: error.message });
+       return null;
+     }
+   })
+   .filter(Boolean);
+};
+
+/**
+ * Read a single tile in XYZ addressing
+ * @returns {{ data: Buffer, contentType: string } | null} The tile, or null if the tileset has no tile there
+ */
+export const getTile = (tilesetId, z, x, y) => {
+ if (!TILESET_ID_PATTERN.test(tilesetId) || ![z, x, y].every(Number.isInteger)) {
+   return null;
+ }
+
+ // A tileset added since the last scan is picked up by rescanning, but requests for ids
+ // that do not exist must not list the directory on every tile
+ if (!tilesetCache.has(tilesetId) && Date.now() - lastScanAt >= RESCAN_INTERVAL_MS) {
+   listTilesets();
+ }
+ const tileset = tilesetCache.get(tilesetId);
+ if (!tileset) {
+   return null;
+ }
+
+ const contentType = CONTENT_TYPES[tileset.format];
+
+ if (tileset.type === 'mbtiles') {
+   // MBTiles rows follow the TMS scheme, counted from the south
+   const tmsY = (1 << z) - 1 - y;
+   const row = openMbtiles(tileset.path)
+     .prepare('SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?')
+     .get(z, x, tmsY);
+
+   return row ? { data: row.tile_data, contentType } : null;
+ }
+
+ const tilePath = path.join(tileset.path, String(z), String(x), `${y}.${tileset.format}`);
+ return fs.existsSync(tilePath)
+   ? { data: fs.readFileSync(tilePath), contentType }
+   : null;
+};
+
+export default {
+ listTilesets,
+ getTile
+};
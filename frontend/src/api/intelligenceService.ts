@@ -11,7 +11,31 @@ import {
   ValidationResult,
   RateLimitInfo
 } from './fieldReport'; // Reuse types from fieldReport.ts
-import { SigintAnalysisResponse, FusionAnalysisResponse } from '../type/sigintTypes';
+import {
+  SigintAnalysisResponse,
+  FusionAnalysisResponse,
+  FusionFocusArea,
+  RadarCoverageElement,
+  RadarCoverageResponse,
+  CatalogueSystem,
+  SystemCatalogueImportResult,
+  EmitterCharacteristicsResponse,
+  EmitterTimeSeriesResponse,
+  EmitterTimeSeriesResolution,
+  EmitterPredictionOptions,
+  EmitterPredictionResponse,
+  CollectionSensor,
+  SensorCoverageResponse,
+  CorrelationReview,
+  CorrelationExplanation
+} from '../type/sigintTypes';
+import {
+  MilitaryReportFormat,
+  MilitaryFormatOptions,
+  MilitaryFormatReport,
+  MapTileset,
+  TacticalGraphic
+} from '../type/intelligence';
 
 // Create a separate API instance for public endpoints that doesn't use the auth interceptors
 const API_URL = import.meta.env.VITE_API_URL;
@@ -168,18 +192,18 @@ export const validateMultipleReports = async (
 /**
  * Export analysis in military standard format
  * @param {string} analysisId - ID of the analysis to export
- * @param {string} format - Desired format (INTREP, INTSUM, etc.)
- * @param {Object} customOptions - Optional format-specific options
- * @returns {Promise<any>} - Formatted report data
+ * @param {string} format - Desired format (INTSUM, INTREP, NATO, SITREP)
+ * @param {Object} customOptions - Optional message header options
+ * @returns {Promise<MilitaryFormatReport>} - Formatted report data
  */
 export const exportMilitaryFormat = async (
   analysisId: string,
-  format: string,
-  customOptions: any = {}
-): Promise<any> => {
+  format: MilitaryReportFormat,
+  customOptions: MilitaryFormatOptions = {}
+): Promise<MilitaryFormatReport> => {
   try {
     // This endpoint requires authentication
-    const response = await api.post(
+    const response = await api.post<MilitaryFormatReport>(
       `/field-reports/export/${analysisId}/${format}`,
       { customOptions }
     );
@@ -190,6 +214,44 @@ export const exportMilitaryFormat = async (
   }
 };
 
+/**
+ * Load the tactical graphics stored with an analysis
+ * @param {string} analysisId - ID of the analysis
+ * @returns {Promise<TacticalGraphic[]>} - The stored graphics, empty when none were saved
+ */
+export const getTacticalGraphics = async (analysisId: string): Promise<TacticalGraphic[]> => {
+  try {
+    const response = await publicApi.get<{ success: boolean; graphics: TacticalGraphic[] }>(
+      `/field-reports/${encodeURIComponent(analysisId)}/graphics`
+    );
+    return response.data.graphics || [];
+  } catch (error: unknown) {
+    return handleApiError(error, 'Failed to load tactical graphics');
+  }
+};
+
+/**
+ * Replace the tactical graphics stored with an analysis
+ * @param {string} analysisId - ID of the analysis
+ * @param {TacticalGraphic[]} graphics - The full set of graphics
+ * @returns {Promise<TacticalGraphic[]>} - The stored graphics
+ */
+export const saveTacticalGraphics = async (
+  analysisId: string,
+  graphics: TacticalGraphic[]
+): Promise<TacticalGraphic[]> => {
+  try {
+    // This endpoint requires authentication
+    const response = await api.put<{ success: boolean; graphics: TacticalGraphic[] }>(
+      `/field-reports/${encodeURIComponent(analysisId)}/graphics`,
+      { graphics }
+    );
+    return response.data.graphics;
+  } catch (error: unknown) {
+    return handleApiError(error, 'Failed to save tactical graphics');
+  }
+};
+
 /**
  * Get the current rate limits for intelligence analysis
  * @returns {Promise<RateLimitInfo>} - Rate limit information
@@ -282,21 +344,16 @@ export const analyzeSignalData = async (signalData: ArrayBuffer): Promise<Sigint
 /**
  * Get predicted locations for a specific radar emitter
  * @param {string} emitterId - ID of the emitter to predict locations for
- * @param {object} options - Prediction options including timeframe
- * @returns {Promise<any>} - The predicted locations
+ * @param {object} options - Timeframe in minutes, number of intervals and confidence level
+ * @returns {Promise<EmitterPredictionResponse>} - The predicted locations with their uncertainty
  */
 export const getPredictedEmitterLocations = async (
   emitterId: string,
-  options: {
-    timeframe: number;
-    intervals: number;
-    confidenceLevel: number;
-  }
-): Promise<any> => {
+  options: EmitterPredictionOptions
+): Promise<EmitterPredictionResponse> => {
   try {
-    // This endpoint requires authentication
-    const response = await api.post(
-      `/signal-intelligence/emitters/${emitterId}/predict`,
+    const response = await publicApi.post(
+      `/signal-intelligence/emitters/${encodeURIComponent(emitterId)}/predict`,
       options
     );
     
@@ -309,17 +366,17 @@ export const getPredictedEmitterLocations = async (
 /**
  * Get detailed characteristics for a specific radar emitter
  * @param {string} emitterId - ID of the emitter to get details for
- * @returns {Promise<any>} - The emitter characteristics
+ * @returns {Promise<EmitterCharacteristicsResponse>} - The emitter characteristics and detections
  */
 export const getEmitterCharacteristics = async (
   emitterId: string
-): Promise<any> => {
+): Promise<EmitterCharacteristicsResponse> => {
   try {
     const token = localStorage.getItem('authToken');
     const headers = token ? { Authorization: `Bearer ${token}` } : {};
     
     const response = await publicApi.get(
-      `/signal-intelligence/emitters/${emitterId}/characteristics`,
+      `/signal-intelligence/emitters/${encodeURIComponent(emitterId)}/characteristics`,
       { headers }
     );
     
@@ -332,23 +389,23 @@ export const getEmitterCharacteristics = async (
 /**
  * Get a time series of signal data for a specific emitter
  * @param {string} emitterId - ID of the emitter
- * @param {object} options - Options for the time series data
- * @returns {Promise<any>} - The time series data
+ * @param {object} options - Time window (ISO 8601, both optional) and bucket resolution
+ * @returns {Promise<EmitterTimeSeriesResponse>} - The time series data
  */
 export const getEmitterTimeSeries = async (
   emitterId: string,
   options: {
-    startTime: string;
-    endTime: string;
-    resolution: string;
-  }
-): Promise<any> => {
+    startTime?: string;
+    endTime?: string;
+    resolution?: EmitterTimeSeriesResolution;
+  } = {}
+): Promise<EmitterTimeSeriesResponse> => {
   try {
     const token = localStorage.getItem('authToken');
     const headers = token ? { Authorization: `Bearer ${token}` } : {};
     
     const response = await publicApi.get(
-      `/signal-intelligence/emitters/${emitterId}/timeseries`,
+      `/signal-intelligence/emitters/${encodeURIComponent(emitterId)}/timeseries`,
       { 
         params: options,
         headers 
@@ -361,6 +418,29 @@ export const getEmitterTimeSeries = async (
   }
 };
 
+/**
+ * Compute terrain-limited coverage of air defence radars from the backend's elevation data
+ * @param {RadarCoverageElement[]} elements - Radars with their position and range
+ * @param {number} targetAltitude - Target height above ground in meters
+ * @returns {Promise<RadarCoverageResponse>} - A coverage polygon per radar
+ */
+export const getRadarCoverage = async (
+  elements: RadarCoverageElement[],
+  targetAltitude: number
+): Promise<RadarCoverageResponse> => {
+  try {
+    // This endpoint requires authentication
+    const response = await api.post<RadarCoverageResponse>(
+      '/signal-intelligence/coverage',
+      { elements, targetAltitude }
+    );
+    
+    return response.data;
+  } catch (error: unknown) {
+    return handleApiError(error, 'Failed to compute radar coverage');
+  }
+};
+
 /****************************************
  * Fusion Intelligence Services        *
  ****************************************/
@@ -372,10 +452,7 @@ interface FusionOptions {
     correlationThreshold?: number;
     enhanceWithLLM?: boolean;
     maxEntities?: number;
-    focusArea?: {
-      northEast: [number, number];
-      southWest: [number, number];
-    };
+    focusArea?: FusionFocusArea;
   };
 }
 
@@ -465,27 +542,28 @@ export const getFusedEntityDetails = async (
 };
 
 /**
- * Update the confidence or other attributes of a correlation
+ * Record an analyst's review of a correlation; later fusion runs respect it
  * @param {string} correlationId - ID of the correlation to update
- * @param {object} updates - The updates to apply
- * @returns {Promise<any>} - The updated correlation
+ * @param {object} updates - verified confirms (true), rejects (false) or reopens (null);
+ *   manualConfidence replaces the computed score, null restores it
+ * @returns {Promise<object>} - The correlation's IDs and its review
  */
 export const updateCorrelation = async (
   correlationId: string,
   updates: {
-    manualConfidence?: number;
+    manualConfidence?: number | null;
     notes?: string;
-    verified?: boolean;
+    verified?: boolean | null;
   }
-): Promise<any> => {
+): Promise<{ id: string; humintEntityId: string | null; sigintEmitterId: string | null; review: CorrelationReview }> => {
   try {
     // This endpoint requires authentication
     const response = await api.patch(
-      `/fusion/correlations/${correlationId}`,
+      `/fusion/correlations/${encodeURIComponent(correlationId)}`,
       updates
     );
     
-    return response.data;
+    return response.data.correlation;
   } catch (error: unknown) {
     return handleApiError(error, 'Failed to update correlation');
   }
@@ -494,22 +572,222 @@ export const updateCorrelation = async (
 /**
  * Generate a narrative explanation for a correlation
  * @param {string} correlationId - ID of the correlation
- * @returns {Promise<any>} - Narrative explanation
+ * @param {string} method - 'llm' or 'template'; the backend default when omitted
+ * @returns {Promise<CorrelationExplanation>} - Narrative explanation with the factors behind it
  */
 export const generateCorrelationExplanation = async (
-  correlationId: string
-): Promise<any> => {
+  correlationId: string,
+  method?: 'llm' | 'template'
+): Promise<CorrelationExplanation> => {
   try {
     const token = localStorage.getItem('authToken');
     const headers = token ? { Authorization: `Bearer ${token}` } : {};
     
     const response = await publicApi.get(
-      `/fusion/correlations/${correlationId}/explain`,
-      { headers }
+      `/fusion/correlations/${encodeURIComponent(correlationId)}/explain`,
+      { headers, params: method ? { method } : undefined }
     );
     
-    return response.data;
+    return response.data.explanation;
   } catch (error: unknown) {
     return handleApiError(error, 'Failed to generate correlation explanation');
   }
-};
\ No newline at end of file
+};
+
+/****************************************
+ * System Catalogue Services            *
+ ****************************************/
+
+/**
+ * List the weapon and sensor systems in the reference catalogue
+ * @returns {Promise<CatalogueSystem[]>} - Catalogue entries sorted by name
+ */
+export const getSystemCatalogue = async (): Promise<CatalogueSystem[]> => {
+  try {
+    const response = await publicApi.get<{ success: boolean; systems: CatalogueSystem[] }>('/system-catalogue');
+    return response.data.systems || [];
+  } catch (error: unknown) {
+    return handleApiError(error, 'Failed to load system catalogue');
+  }
+};
+
+/**
+ * Add a system to the catalogue
+ * @param {Omit<CatalogueSystem, 'id'>} system - The new entry; its id is derived from the name
+ * @returns {Promise<CatalogueSystem>} - The stored entry
+ */
+export const createCatalogueSystem = async (
+  system: Omit<CatalogueSystem, 'id'>
+): Promise<CatalogueSystem> => {
+  try {
+    // This endpoint requires authentication
+    const response = await api.post<{ success: boolean; system: CatalogueSystem }>('/system-catalogue', system);
+    return response.data.system;
+  } catch (error: unknown) {
+    return handleApiError(error, 'Failed to add catalogue system');
+  }
+};
+
+/**
+ * Replace the fields of a catalogue entry
+ * @param {CatalogueSystem} system - The edited entry
+ * @returns {Promise<CatalogueSystem>} - The stored entry
+ */
+export const updateCatalogueSystem = async (
+  system: CatalogueSystem
+): Promise<CatalogueSystem> => {
+  try {
+    // This endpoint requires authentication
+    const response = await api.put<{ success: boolean; system: CatalogueSystem }>(
+      `/system-catalogue/${encodeURIComponent(system.id)}`,
+      system
+    );
+    return response.data.system;
+  } catch (error: unknown) {
+    return handleApiError(error, 'Failed to update catalogue system');
+  }
+};
+
+/**
+ * Remove a system from the catalogue
+ * @param {string} systemId - ID of the entry to remove
+ */
+export const deleteCatalogueSystem = async (systemId: string): Promise<void> => {
+  try {
+    // This endpoint requires authentication
+    await api.delete(`/system-catalogue/${encodeURIComponent(systemId)}`);
+  } catch (error: unknown) {
+    return handleApiError(error, 'Failed to remove catalogue system');
+  }
+};
+
+/**
+ * Import catalogue entries exported from this or another deployment
+ * @param {Partial<CatalogueSystem>[]} systems - Entries to import
+ * @param {boolean} replace - Replace the whole catalogue instead of merging
+ * @returns {Promise<SystemCatalogueImportResult>} - Counts of added and updated entries, and the new catalogue
+ */
+export const importSystemCatalogue = async (
+  systems: Partial<CatalogueSystem>[],
+  replace = false
+): Promise<SystemCatalogueImportResult> => {
+  try {
+    // This endpoint requires authentication
+    const response = await api.post<SystemCatalogueImportResult>(
+      '/system-catalogue/import',
+      { systems },
+      { params: { mode: replace ? 'replace' : 'merge' } }
+    );
+    return response.data;
+  } catch (error: unknown) {
+    return handleApiError(error, 'Failed to import system catalogue');
+  }
+};
+
+/****************************************
+ * Sensor Registry Services             *
+ ****************************************/
+
+/**
+ * List our own collection sensors
+ * @returns {Promise<CollectionSensor[]>} - Registered sensors sorted by name
+ */
+export const getSensors = async (): Promise<CollectionSensor[]> => {
+  try {
+    const response = await publicApi.get<{ success: boolean; sensors: CollectionSensor[] }>('/sensors');
+    return response.data.sensors || [];
+  } catch (error: unknown) {
+    return handleApiError(error, 'Failed to load sensors');
+  }
+};
+
+/**
+ * Register a sensor
+ * @param {Omit<CollectionSensor, 'id'> & { id?: string }} sensor - The new sensor; without an id, one is derived from the name
+ * @returns {Promise<CollectionSensor>} - The stored sensor
+ */
+export const createSensor = async (
+  sensor: Omit<CollectionSensor, 'id'> & { id?: string }
+): Promise<CollectionSensor> => {
+  try {
+    // This endpoint requires authentication
+    const response = await api.post<{ success: boolean; sensor: CollectionSensor }>('/sensors', sensor);
+    return response.data.sensor;
+  } catch (error: unknown) {
+    return handleApiError(error, 'Failed to register sensor');
+  }
+};
+
+/**
+ * Replace the fields of a registered sensor
+ * @param {CollectionSensor} sensor - The edited sensor
+ * @returns {Promise<CollectionSensor>} - The stored sensor
+ */
+export const updateSensor = async (sensor: CollectionSensor): Promise<CollectionSensor> => {
+  try {
+    // This endpoint requires authentication
+    const response = await api.put<{ success: boolean; sensor: CollectionSensor }>(
+      `/sensors/${encodeURIComponent(sensor.id)}`,
+      sensor
+    );
+    return response.data.sensor;
+  } catch (error: unknown) {
+    return handleApiError(error, 'Failed to update sensor');
+  }
+};
+
+/**
+ * Remove a sensor from the registry
+ * @param {string} sensorId - ID of the sensor to remove
+ */
+export const deleteSensor = async (sensorId: string): Promise<void> => {
+  try {
+    // This endpoint requires authentication
+    await api.delete(`/sensors/${encodeURIComponent(sensorId)}`);
+  } catch (error: unknown) {
+    return handleApiError(error, 'Failed to remove sensor');
+  }
+};
+
+/**
+ * Compute the terrain-limited intercept coverage of the sensors that are not offline,
+ * up to the backend's per-request limit
+ * @param {number} emitterAltitude - Emitter antenna height above ground in meters
+ * @returns {Promise<SensorCoverageResponse>} - A coverage polygon per sensor
+ */
+export const getSensorCoverage = async (emitterAltitude: number): Promise<SensorCoverageResponse> => {
+  try {
+    // This endpoint requires authentication
+    const response = await api.get<SensorCoverageResponse>('/sensors/coverage', {
+      params: { emitterAltitude }
+    });
+    return response.data;
+  } catch (error: unknown) {
+    return handleApiError(error, 'Failed to compute sensor coverage');
+  }
+};
+
+/****************************************
+ * Map Tile Services                    *
+ ****************************************/
+
+/**
+ * List the base-map tilesets served by the backend from its local tiles directory
+ * @returns {Promise<MapTileset[]>} - The available tilesets
+ */
+export const getMapTilesets = async (): Promise<MapTileset[]> => {
+  try {
+    const response = await publicApi.get<{ success: boolean; tilesets: MapTileset[] }>('/tiles');
+    return response.data.tilesets || [];
+  } catch (error: unknown) {
+    return handleApiError(error, 'Failed to list map tilesets');
+  }
+};
+
+/**
+ * URL template for Leaflet tile layers of a backend tileset
+ * @param {MapTileset} tileset - The tileset to build the template for
+ * @returns {string} - Template with {z}/{x}/{y} placeholders
+ */
+export const getMapTileUrlTemplate = (tileset: MapTileset): string =>
+  `${API_URL}/tiles/${encodeURIComponent(tileset.id)}/{z}/{x}/{y}.${tileset.format}`;
@@ -0,0 +1,114 @@
+// components/military-intelligence/analysis/BearingsPanel.tsx
+import React from 'react';
+import { XCircle, RotateCcw } from 'lucide-react';
+import { LineOfBearing } from '../../../type/sigintTypes';
+import { DirectionFindingFix } from '../utils/directionFinding';
+import { formatDistance, formatLatLng } from '../utils/coordinateParser';
+import { haversineDistance } from '../utils/geodesy';
+
+interface BearingsPanelProps {
+  emitterLabel: string;
+  bearings: LineOfBearing[];
+  excludedSignalIds: string[];
+  fix: DirectionFindingFix | null;
+  reportedFix: { latitude: number; longitude: number } | null;
+  onToggleBearing: (signalId: string) => void;
+  onIncludeAll: () => void;
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+const BearingsPanel: React.FC<BearingsPanelProps> = ({
+  emitterLabel,
+  bearings,
+  excludedSignalIds,
+  fix,
+  reportedFix,
+  onToggleBearing,
+  onIncludeAll,
+  onClose,
+  t
+}) => {
+  const shift = fix && reportedFix
+    ? haversineDistance(reportedFix.latitude, reportedFix.longitude, fix.latitude, fix.longitude)
+    : null;
+
+  return (
+    <div className="absolute top-16 right-4 z-20 bg-gray-800/90 backdrop-blur-sm border border-gray-700 rounded-md p-3 shadow-lg w-80">
+      <div className="flex justify-between items-center mb-2 pb-1 border-b border-gray-700">
+        <div className="min-w-0">
+          <h3 className="text-sm font-medium text-gray-200">{t('linesOfBearing') || "Lines of Bearing"}</h3>
+          <div className="text-xs text-gray-500 truncate">{emitterLabel}</div>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-200 p-1 rounded hover:bg-gray-700"
+        >
+          <XCircle size={16} />
+        </button>
+      </div>
+
+      {bearings.length === 0 ? (
+        <div className="text-xs text-gray-400 mt-3">
+          No direction-finding bearings were recorded for this fix.
+        </div>
+      ) : (
+        <div className="space-y-3 mt-3">
+          <div className="space-y-1">
+            {bearings.map(bearing => (
+              <label key={bearing.signalId} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!excludedSignalIds.includes(bearing.signalId)}
+                  onChange={() => onToggleBearing(bearing.signalId)}
+                />
+                <span className="flex-1 truncate">{bearing.receiverId || bearing.signalId}</span>
+                <span className="font-mono">{bearing.bearing.toFixed(1)}°</span>
+                {bearing.signalStrength !== undefined && (
+                  <span className="font-mono text-gray-500 w-16 text-right">{bearing.signalStrength} dBm</span>
+                )}
+              </label>
+            ))}
+          </div>
+
+          <div className="pt-2 border-t border-gray-700 text-xs text-gray-300 space-y-1">
+            {fix ? (
+              <>
+                <div>
+                  <span className="text-gray-500">Fix from {fix.bearingCount} bearings:</span>{' '}
+                  <span className="font-mono">{formatLatLng(fix.latitude, fix.longitude, 5)}</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">95% ellipse:</span>{' '}
+                  {formatDistance(fix.ellipse.semiMajorAxis)} × {formatDistance(fix.ellipse.semiMinorAxis)},
+                  major axis {Math.round(fix.ellipse.orientation)}°
+                </div>
+                <div>
+                  <span className="text-gray-500">Crossings:</span> {fix.intersections.length}
+                </div>
+                {shift !== null && (
+                  <div>
+                    <span className="text-gray-500">Moved from reported fix:</span> {formatDistance(shift)}
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="text-gray-400">Select at least two bearings that are not parallel to fix the emitter.</div>
+            )}
+          </div>
+
+          {excludedSignalIds.length > 0 && (
+            <button
+              onClick={onIncludeAll}
+              className="w-full flex items-center justify-center gap-1 px-2 py-1.5 rounded text-xs bg-gray-700 hover:bg-gray-600 text-gray-300"
+            >
+              <RotateCcw size={14} /> Use all bearings
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BearingsPanel;
@@ -0,0 +1,112 @@
+// components/military-intelligence/analysis/ControlZonesLayer.tsx
+import React, { useEffect } from 'react';
+import { FrontLineSegment, FrontLineSnapshot, MapControlZone, controlZoneColor } from '../utils/controlZones';
+import L from '../utils/leaflet';
+
+interface ControlZonesLayerProps {
+  map: L.Map | null;
+  layerGroup?: L.LayerGroup;
+  visible: boolean;
+  zones: MapControlZone[];
+  colors: Record<string, string>;
+  frontLine: FrontLineSegment[];
+  compareSnapshot?: FrontLineSnapshot;
+}
+
+const LABEL_STYLES = `
+  .front-line-label {
+    background-color: rgba(17, 24, 39, 0.75);
+    color: #e5e7eb;
+    font-family: monospace;
+    font-size: 10px;
+    border: none;
+    box-shadow: none;
+    padding: 1px 4px;
+  }
+
+  .front-line-label::before {
+    display: none;
+  }
+`;
+
+// Zone names and forces come from the report, so they are set as text
+const tooltipFor = (lines: string[]) => {
+  const content = document.createElement('div');
+  lines.forEach((line, index) => {
+    const row = document.createElement('div');
+    row.textContent = line;
+    if (index === 0) row.style.fontWeight = '600';
+    content.appendChild(row);
+  });
+  return content;
+};
+
+/**
+ * Control zones shaded by controlling force, the front line between them and,
+ * for comparison, an earlier front line
+ */
+const ControlZonesLayer: React.FC<ControlZonesLayerProps> = ({
+  map,
+  layerGroup,
+  visible,
+  zones,
+  colors,
+  frontLine,
+  compareSnapshot
+}) => {
+  useEffect(() => {
+    const styleElement = document.createElement('style');
+    styleElement.textContent = LABEL_STYLES;
+    document.head.appendChild(styleElement);
+
+    return () => {
+      document.head.removeChild(styleElement);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!map || !layerGroup) return;
+
+    layerGroup.clearLayers();
+    if (!visible) return;
+
+    zones.forEach(zone => {
+      const color = controlZoneColor(zone, colors);
+      const isLowConfidence = zone.confidence === 'low';
+
+      L.polygon(zone.polygon, {
+        color,
+        weight: 1.5,
+        fillColor: color,
+        fillOpacity: isLowConfidence ? 0.1 : 0.2,
+        dashArray: isLowConfidence ? '4, 4' : undefined
+      })
+        .bindTooltip(tooltipFor([
+          zone.name,
+          `Held by ${zone.controlledBy}`,
+          ...(zone.description ? [zone.description] : []),
+          `Confidence: ${zone.confidence}`
+        ]), { sticky: true })
+        .addTo(layerGroup);
+    });
+
+    compareSnapshot?.segments.forEach(segment => {
+      L.polyline(segment.points, { color: '#9ca3af', weight: 2, dashArray: '8, 6', interactive: false }).addTo(layerGroup);
+      L.tooltip({ permanent: true, direction: 'right', offset: [6, 0], className: 'front-line-label' })
+        .setLatLng(segment.points[segment.points.length - 1])
+        .setContent(new Date(compareSnapshot.recordedAt).toLocaleDateString())
+        .addTo(layerGroup);
+    });
+
+    frontLine.forEach(segment => {
+      L.polyline(segment.points, { color: '#111827', weight: 6, opacity: 0.8, interactive: false }).addTo(layerGroup);
+      L.polyline(segment.points, { color: '#f8fafc', weight: 2.5, dashArray: '12, 6' })
+        .bindTooltip(tooltipFor(['Approximate front line', segment.between.join(' / ')]), { sticky: true })
+        .addTo(layerGroup);
+    });
+  }, [map, layerGroup, visible, zones, colors, frontLine, compareSnapshot]);
+
+  return null;
+};
+
+export default ControlZonesLayer;
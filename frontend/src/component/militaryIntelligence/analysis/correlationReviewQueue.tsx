@@ -0,0 +1,281 @@
+// components/military-intelligence/analysis/CorrelationReviewQueue.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { Check, X, RotateCcw, Save } from 'lucide-react';
+import { APIError } from '../../../api/fieldReport';
+import { updateCorrelation } from '../../../api/intelligenceService';
+import { CorrelationReview, EntityCorrelation, FusionCorrelationResult } from '../../../type/sigintTypes';
+import {
+  REVIEW_STATUSES,
+  ReviewStatus,
+  isFused,
+  reviewStatusOf,
+  sortForReview,
+  toEntityCorrelation
+} from '../utils/correlationReview';
+
+interface CorrelationReviewQueueProps {
+  correlations: FusionCorrelationResult[];
+}
+
+interface ReviewDraft {
+  manualConfidence: number | null;
+  notes: string;
+}
+
+const describeError = (error: unknown): string => {
+  if (error instanceof APIError) {
+    const details = (error.data as { details?: unknown } | undefined)?.details;
+    if (Array.isArray(details)) return details.join('; ');
+    if (error.status === 401) return 'Sign in to review correlations';
+  }
+  return error instanceof Error ? error.message : 'Something went wrong';
+};
+
+const FACTORS: Array<{ key: 'spatial' | 'temporal' | 'semantic'; label: string }> = [
+  { key: 'spatial', label: 'Spatial' },
+  { key: 'temporal', label: 'Temporal' },
+  { key: 'semantic', label: 'Semantic' }
+];
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const CorrelationReviewQueue: React.FC<CorrelationReviewQueueProps> = ({ correlations }) => {
+  // Reviews saved since the last fusion run, until the next run returns them
+  const [savedReviews, setSavedReviews] = useState<Record<string, CorrelationReview>>({});
+  const [filter, setFilter] = useState<ReviewStatus | 'all'>('pending');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ReviewDraft>({ manualConfidence: null, notes: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSavedReviews({});
+    setSelectedId(null);
+  }, [correlations]);
+
+  const queue = useMemo(() => sortForReview(correlations.map(raw => {
+    const correlation = toEntityCorrelation(raw);
+    const review = savedReviews[raw.id];
+    if (!review) return correlation;
+
+    const score = review.manualConfidence ?? correlation.automaticScore ?? correlation.strength.value;
+    return {
+      ...correlation,
+      strength: { ...correlation.strength, value: score },
+      review,
+      notes: review.notes || undefined
+    };
+  })), [correlations, savedReviews]);
+
+  const counts = useMemo(() => queue.reduce(
+    (totals, correlation) => ({ ...totals, [reviewStatusOf(correlation)]: totals[reviewStatusOf(correlation)] + 1 }),
+    { pending: 0, confirmed: 0, rejected: 0 } as Record<ReviewStatus, number>
+  ), [queue]);
+
+  const visible = filter === 'all' ? queue : queue.filter(correlation => reviewStatusOf(correlation) === filter);
+
+  const handleSelect = (correlation: EntityCorrelation) => {
+    if (selectedId === correlation.id) {
+      setSelectedId(null);
+      return;
+    }
+    setSelectedId(correlation.id || null);
+    setDraft({
+      manualConfidence: correlation.review?.manualConfidence ?? null,
+      notes: correlation.review?.notes || ''
+    });
+    setError(null);
+  };
+
+  const saveReview = async (
+    correlationId: string,
+    updates: { verified?: boolean | null; manualConfidence?: number | null; notes?: string }
+  ) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await updateCorrelation(correlationId, updates);
+      setSavedReviews(previous => ({ ...previous, [correlationId]: result.review }));
+    } catch (saveError) {
+      setError(describeError(saveError));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (correlations.length === 0) {
+    return (
+      <div className="text-center text-xs text-gray-500 py-2">
+        No correlations to review.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {(['pending', 'confirmed', 'rejected', 'all'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setFilter(option)}
+            className={`flex-1 px-1.5 py-0.5 rounded text-[10px] ${
+              filter === option ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {option === 'all' ? `All (${queue.length})` : `${REVIEW_STATUSES.find(status => status.value === option)?.label} (${counts[option]})`}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-1.5 rounded bg-red-50 border border-red-200 text-[10px] text-red-700">{error}</div>
+      )}
+
+      <div className="space-y-1.5 max-h-96 overflow-y-auto">
+        {visible.length === 0 && (
+          <div className="text-center text-xs text-gray-500 py-2">Nothing in this part of the queue.</div>
+        )}
+
+        {visible.map(correlation => {
+          const correlationId = correlation.id || '';
+          const status = reviewStatusOf(correlation);
+          const statusOption = REVIEW_STATUSES.find(option => option.value === status);
+          const isSelected = correlationId === selectedId;
+          const reweighted = correlation.review?.manualConfidence !== null && correlation.review?.manualConfidence !== undefined;
+
+          return (
+            <div key={correlationId} className="border border-gray-200 rounded">
+              <div
+                className="p-2 cursor-pointer hover:bg-gray-50"
+                onClick={() => handleSelect(correlation)}
+              >
+                <div className="flex items-center gap-1 text-[10px]">
+                  <div className="w-2 h-2 rounded-full bg-blue-500 shrink-0"></div>
+                  <span className="text-blue-700 truncate">{correlation.humintLabel}</span>
+                </div>
+                <div className="flex items-center gap-1 text-[10px] mt-0.5">
+                  <div className="w-2 h-2 rounded-full bg-red-500 shrink-0"></div>
+                  <span className="text-red-700 truncate">{correlation.sigintLabel}</span>
+                </div>
+                <div className="flex justify-between items-center mt-1">
+                  <span className="flex items-center gap-1 text-[10px] text-gray-600">
+                    <span className="w-2 h-2 rounded-full" style={{ background: statusOption?.color }}></span>
+                    {statusOption?.label}
+                    {!isFused(correlation) && status === 'pending' && <span className="text-gray-400">· below threshold</span>}
+                  </span>
+                  <span className="px-1.5 py-0.5 bg-purple-100 rounded text-[10px] text-purple-700 font-medium">
+                    {percent(correlation.strength.value)}
+                    {reweighted && correlation.automaticScore !== undefined && (
+                      <span className="font-normal text-purple-500"> (computed {percent(correlation.automaticScore)})</span>
+                    )}
+                  </span>
+                </div>
+              </div>
+
+              {isSelected && (
+                <div className="p-2 border-t border-gray-200 space-y-2">
+                  <div className="space-y-1">
+                    {FACTORS.map(({ key, label }) => (
+                      <div key={key}>
+                        <div className="flex justify-between items-center">
+                          <span className="text-xs text-gray-700">{label}</span>
+                          <div className="w-28 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                            <div className="h-full bg-purple-600" style={{ width: percent(correlation.strength.factors[key]) }}></div>
+                          </div>
+                          <span className="text-[10px] text-gray-600 w-8 text-right">{percent(correlation.strength.factors[key])}</span>
+                        </div>
+                        {correlation.reasons?.[key] && (
+                          <div className="text-[10px] text-gray-500">{correlation.reasons[key]}</div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex gap-1">
+                    <button
+                      disabled={isSaving || status === 'confirmed'}
+                      onClick={() => saveReview(correlationId, { verified: true })}
+                      className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded text-xs bg-green-600 hover:bg-green-700 text-white disabled:opacity-50"
+                    >
+                      <Check size={12} /> Confirm
+                    </button>
+                    <button
+                      disabled={isSaving || status === 'rejected'}
+                      onClick={() => saveReview(correlationId, { verified: false })}
+                      className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded text-xs bg-red-600 hover:bg-red-700 text-white disabled:opacity-50"
+                    >
+                      <X size={12} /> Reject
+                    </button>
+                    {status !== 'pending' && (
+                      <button
+                        disabled={isSaving}
+                        onClick={() => saveReview(correlationId, { verified: null })}
+                        title="Return to the queue and let the score decide"
+                        className="flex items-center justify-center px-2 py-1 rounded text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 disabled:opacity-50"
+                      >
+                        <RotateCcw size={12} />
+                      </button>
+                    )}
+                  </div>
+
+                  <div>
+                    <div className="flex justify-between items-center text-xs text-gray-700">
+                      <span>Confidence</span>
+                      <span className="text-[10px] text-gray-600">
+                        {draft.manualConfidence === null
+                          ? `Computed (${percent(correlation.automaticScore ?? correlation.strength.value)})`
+                          : percent(draft.manualConfidence)}
+                      </span>
+                    </div>
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      value={Math.round((draft.manualConfidence ?? correlation.automaticScore ?? correlation.strength.value) * 100)}
+                      onChange={event => setDraft({ ...draft, manualConfidence: Number(event.target.value) / 100 })}
+                      className="w-full"
+                    />
+                    {draft.manualConfidence !== null && (
+                      <button
+                        onClick={() => setDraft({ ...draft, manualConfidence: null })}
+                        className="text-[10px] text-purple-700 hover:underline"
+                      >
+                        Use computed score
+                      </button>
+                    )}
+                  </div>
+
+                  <textarea
+                    value={draft.notes}
+                    onChange={event => setDraft({ ...draft, notes: event.target.value })}
+                    placeholder="Reasoning for the decision"
+                    maxLength={2000}
+                    rows={2}
+                    className="w-full p-1.5 border border-gray-200 rounded text-xs text-gray-700"
+                  />
+
+                  <div className="flex justify-between items-center">
+                    <span className="text-[10px] text-gray-500 truncate">
+                      {correlation.review?.reviewedBy
+                        ? `Last reviewed by ${correlation.review.reviewedBy}, ${new Date(correlation.review.reviewedAt).toLocaleString()}`
+                        : 'Not reviewed yet'}
+                    </span>
+                    <button
+                      disabled={isSaving}
+                      onClick={() => saveReview(correlationId, { manualConfidence: draft.manualConfidence, notes: draft.notes })}
+                      className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-purple-600 hover:bg-purple-700 text-white disabled:opacity-50"
+                    >
+                      <Save size={12} /> Save
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CorrelationReviewQueue;
@@ -0,0 +1,262 @@
+// components/military-intelligence/analysis/EmitterDetailPanel.tsx
+import React, { useEffect, useState } from 'react';
+import { XCircle, Loader2, Radio } from 'lucide-react';
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { getEmitterCharacteristics, getEmitterTimeSeries } from '../../../api/intelligenceService';
+import {
+  EmitterCharacteristicsResponse,
+  EmitterDetectionPoint,
+  EmitterStatisticRange,
+  EmitterTimeSeriesResolution
+} from '../../../type/sigintTypes';
+
+interface EmitterDetailPanelProps {
+  emitterId: string;
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+const RESOLUTIONS: Array<{ value: EmitterTimeSeriesResolution; label: string }> = [
+  { value: 'raw', label: 'Every detection' },
+  { value: '1m', label: '1 minute' },
+  { value: '5m', label: '5 minutes' },
+  { value: '15m', label: '15 minutes' },
+  { value: '1h', label: '1 hour' },
+  { value: '6h', label: '6 hours' },
+  { value: '1d', label: '1 day' }
+];
+
+const CHARTS: Array<{ key: 'frequency' | 'power' | 'accuracy'; label: string; unit: string; color: string }> = [
+  { key: 'frequency', label: 'Frequency', unit: 'MHz', color: '#f87171' },
+  { key: 'power', label: 'Received power', unit: 'dBm', color: '#fbbf24' },
+  { key: 'accuracy', label: 'Location accuracy', unit: 'm', color: '#60a5fa' }
+];
+
+const formatTime = (timestamp: string | number): string =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatValue = (value: number | null, digits = 1): string =>
+  value === null ? '—' : value.toFixed(digits);
+
+const formatRange = (range: EmitterStatisticRange | null, unit: string, digits = 1): string =>
+  range
+    ? `${range.min.toFixed(digits)}–${range.max.toFixed(digits)} ${unit} (mean ${range.mean.toFixed(digits)})`
+    : '—';
+
+const errorMessage = (error: unknown, fallback: string): string =>
+  error instanceof Error ? error.message : fallback;
+
+/**
+ * Slide-out panel for one emitter: its measured characteristics charted over time
+ * and the detections behind them
+ */
+const EmitterDetailPanel: React.FC<EmitterDetailPanelProps> = ({ emitterId, onClose, t }) => {
+  const [details, setDetails] = useState<EmitterCharacteristicsResponse | null>(null);
+  const [points, setPoints] = useState<EmitterDetectionPoint[]>([]);
+  const [resolution, setResolution] = useState<EmitterTimeSeriesResolution>('raw');
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getEmitterCharacteristics(emitterId)
+      .then(result => {
+        if (!cancelled) setDetails(result);
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setDetails(null);
+          setError(errorMessage(err, 'Unable to load emitter details'));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [emitterId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getEmitterTimeSeries(emitterId, { resolution })
+      .then(result => {
+        if (!cancelled) setPoints(result.points);
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setPoints([]);
+          setError(errorMessage(err, 'Unable to load emitter time series'));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [emitterId, resolution]);
+
+  const chartData = points.map(point => ({
+    ...point,
+    time: new Date(point.timestamp).getTime()
+  }));
+  const statistics = details?.statistics;
+
+  return (
+    <div className="absolute top-16 right-4 bottom-4 z-30 bg-gray-800/95 backdrop-blur-sm border border-gray-700 rounded-md shadow-lg w-96 flex flex-col">
+      <div className="flex justify-between items-center p-3 pb-2 border-b border-gray-700">
+        <div className="flex items-center gap-2 min-w-0">
+          <Radio size={16} className="text-red-400 shrink-0" />
+          <div className="min-w-0">
+            <h3 className="text-sm font-medium text-gray-200 truncate">
+              {details?.platformAssessment?.model && details.platformAssessment.model !== 'unknown'
+                ? details.platformAssessment.model
+                : (t('emitterDetails') || 'Emitter Details')}
+            </h3>
+            <div className="text-xs text-gray-500 font-mono truncate">{emitterId}</div>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-200 p-1 rounded hover:bg-gray-700"
+        >
+          <XCircle size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {isLoading && (
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <Loader2 size={14} className="animate-spin" /> Loading emitter details…
+          </div>
+        )}
+
+        {error && (
+          <div className="text-xs text-red-300 bg-red-900/30 border border-red-800 rounded p-2">{error}</div>
+        )}
+
+        {statistics && (
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs text-gray-300">
+            <div><span className="text-gray-500">Detections:</span> {statistics.detectionCount}</div>
+            <div><span className="text-gray-500">Signals:</span> {statistics.signalCount}</div>
+            <div className="col-span-2"><span className="text-gray-500">Frequency:</span> {formatRange(statistics.frequency, 'MHz')}</div>
+            <div className="col-span-2"><span className="text-gray-500">Power:</span> {formatRange(statistics.power, 'dBm')}</div>
+            <div className="col-span-2"><span className="text-gray-500">Accuracy:</span> {formatRange(statistics.accuracy, 'm', 0)}</div>
+            <div className="col-span-2">
+              <span className="text-gray-500">Receivers:</span> {statistics.receivers.length > 0 ? statistics.receivers.join(', ') : '—'}
+            </div>
+            <div className="col-span-2">
+              <span className="text-gray-500">Seen:</span> {new Date(details.firstDetection).toLocaleString()} – {new Date(details.lastDetection).toLocaleString()}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2 pt-2 border-t border-gray-700">
+          <span className="text-xs text-gray-400">Resolution</span>
+          <select
+            value={resolution}
+            onChange={(e) => setResolution(e.target.value as EmitterTimeSeriesResolution)}
+            className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-gray-200"
+          >
+            {RESOLUTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {CHARTS.map(chart => (
+          <div key={chart.key}>
+            <div className="text-xs text-gray-400 mb-1">{chart.label} ({chart.unit})</div>
+            {chartData.some(point => point[chart.key] !== null) ? (
+              <ResponsiveContainer width="100%" height={120}>
+                <LineChart data={chartData} margin={{ top: 4, right: 8, bottom: 0, left: -16 }}>
+                  <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={formatTime}
+                    tick={{ fill: '#9ca3af', fontSize: 10 }}
+                    stroke="#4b5563"
+                  />
+                  <YAxis
+                    domain={['auto', 'auto']}
+                    tick={{ fill: '#9ca3af', fontSize: 10 }}
+                    stroke="#4b5563"
+                  />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', fontSize: 11 }}
+                    labelFormatter={(time) => new Date(Number(time)).toLocaleString()}
+                    formatter={(value) => [`${Number(value).toFixed(1)} ${chart.unit}`, chart.label]}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey={chart.key}
+                    stroke={chart.color}
+                    strokeWidth={1.5}
+                    dot={{ r: 2 }}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="text-xs text-gray-500 italic">No measurements</div>
+            )}
+          </div>
+        ))}
+
+        {details && (
+          <div className="pt-2 border-t border-gray-700">
+            <div className="text-xs text-gray-400 mb-1">Detections</div>
+            {details.detections.length > 0 ? (
+              <table className="w-full text-xs text-gray-300">
+                <thead>
+                  <tr className="text-gray-500 text-left">
+                    <th className="font-normal pb-1">Time</th>
+                    <th className="font-normal pb-1 text-right">MHz</th>
+                    <th className="font-normal pb-1 text-right">dBm</th>
+                    <th className="font-normal pb-1 text-right">±m</th>
+                    <th className="font-normal pb-1 text-right">Rx</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {details.detections.map((detection, index) => (
+                    <tr key={`${detection.timestamp}-${index}`} className="border-t border-gray-700/60">
+                      <td className="py-0.5" title={new Date(detection.timestamp).toLocaleString()}>
+                        {new Date(detection.timestamp).toLocaleTimeString()}
+                      </td>
+                      <td className="py-0.5 text-right font-mono">{formatValue(detection.frequency)}</td>
+                      <td className="py-0.5 text-right font-mono">{formatValue(detection.power)}</td>
+                      <td className="py-0.5 text-right font-mono">{formatValue(detection.accuracy, 0)}</td>
+                      <td className="py-0.5 text-right" title={detection.receivers.join(', ')}>
+                        {detection.receivers.length || '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="text-xs text-gray-500 italic">No detections recorded</div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmitterDetailPanel;
@@ -0,0 +1,290 @@
+// components/military-intelligence/analysis/EmitterMarkersLayer.tsx
+import React, { useEffect } from 'react';
+import { QualityScore } from '../../../type/intelligence';
+import { CatalogueSystem, CollectionSensor, EmitterPredictionResponse, LineOfBearing } from '../../../type/sigintTypes';
+import { formatDistance, formatLatLng } from '../utils/coordinateParser';
+import { createSymbolIcon, symbolForEmitter } from '../utils/militarySymbols';
+import { TrackPoint, isVisibleAt, trackUpTo } from '../utils/timeline';
+import { createMarkerClusterGroup, describeClusterMarker } from '../utils/markerClustering';
+import { EntityNotes, entityNotesHtml } from '../utils/entityNotes';
+import { catalogueSystemHtml, findCatalogueSystem } from '../utils/systemCatalogue';
+import { contributingSensorsHtml } from '../utils/sensorRegistry';
+import { ConePosition, formatMinutesAhead, uncertaintyConeBands } from '../utils/predictionCone';
+import L from '../utils/leaflet';
+
+export interface ExtractedEmitterData {
+  id: string;
+  coordinates: {
+    latitude: number;
+    longitude: number;
+  };
+  accuracy: number;
+  timestamp: string;
+  classification: string;
+  platform?: string;
+  model?: string;
+  confidence: QualityScore;
+  heading?: number;
+  track: TrackPoint[];
+  predictions: TrackPoint[];
+  bearingFixes: Array<TrackPoint & { bearings: LineOfBearing[] }>; // newest first
+  receiverFixes: Array<{ timestamp: string; receiverIds: string[] }>; // newest first
+}
+
+interface EmitterMarkersLayerProps {
+  map: L.Map | null;
+  layerGroup?: L.LayerGroup;
+  visible: boolean;
+  showPredictions: boolean;
+  emitters: ExtractedEmitterData[]; // positioned at the replay time
+  currentTime?: string;
+  entityNotes: EntityNotes;
+  systemCatalogue: CatalogueSystem[];
+  sensors: CollectionSensor[];
+  predictions: Record<string, EmitterPredictionResponse>;
+  toLatLng: (coords: { latitude: number | undefined; longitude: number | undefined }) => L.LatLngLiteral;
+  onShowDetails: (emitterId: string) => void;
+  onPredict: (emitterId: string) => void;
+  onShowBearings: (emitterId: string) => void;
+  onMarkerClick?: (emitterId: string) => void;
+}
+
+const isValidCoordinate = (coord: L.LatLngLiteral): boolean =>
+  typeof coord.lat === 'number' && !isNaN(coord.lat) &&
+  typeof coord.lng === 'number' && !isNaN(coord.lng);
+
+// Symbol from the emitter's platform and confidence, pointing along its heading
+const createEmitterIcon = (emitter: ExtractedEmitterData) =>
+  createSymbolIcon(symbolForEmitter(emitter.classification, emitter.platform, {
+    confidence: emitter.confidence,
+    ...(emitter.heading !== undefined && { direction: emitter.heading })
+  }));
+
+/**
+ * SIGINT emitters on the fusion map as clustered military symbols, with the trail
+ * travelled up to the replay time, upcoming and requested predictions as uncertainty
+ * cones, and a popup linking to the emitter's history, prediction and bearings
+ */
+const EmitterMarkersLayer: React.FC<EmitterMarkersLayerProps> = ({
+  map,
+  layerGroup,
+  visible,
+  showPredictions,
+  emitters,
+  currentTime,
+  entityNotes,
+  systemCatalogue,
+  sensors,
+  predictions,
+  toLatLng,
+  onShowDetails,
+  onPredict,
+  onShowBearings,
+  onMarkerClick
+}) => {
+  useEffect(() => {
+    if (!map || !layerGroup) return;
+
+    layerGroup.clearLayers();
+    if (!visible) return;
+
+    const markers = createMarkerClusterGroup();
+
+    // Cone widening from the emitter through its predicted positions, with the
+    // expected path along its centre
+    const drawPredictionCone = (origin: ConePosition, steps: Array<ConePosition & { label: string }>) => {
+      uncertaintyConeBands(origin, steps).forEach(({ outline }) => {
+        L.polygon(outline, {
+          color: 'rgba(245, 158, 11, 0.5)',
+          fillColor: 'rgba(245, 158, 11, 0.12)',
+          fillOpacity: 1,
+          weight: 1,
+          dashArray: '3, 3',
+          interactive: false
+        }).addTo(layerGroup);
+      });
+
+      L.polyline([origin, ...steps].map(point => [point.latitude, point.longitude] as [number, number]), {
+        color: 'rgba(245, 158, 11, 0.8)',
+        weight: 1,
+        dashArray: '2, 6',
+        interactive: false
+      }).addTo(layerGroup);
+
+      steps.forEach(step => {
+        L.circleMarker([step.latitude, step.longitude], {
+          radius: 3,
+          color: 'rgba(245, 158, 11, 0.9)',
+          fillColor: 'rgba(245, 158, 11, 0.9)',
+          fillOpacity: 1,
+          weight: 1
+        })
+          .bindTooltip(step.label, { sticky: true })
+          .addTo(layerGroup);
+      });
+    };
+
+    // Add SIGINT emitter markers
+    if (emitters.length > 0) {
+      emitters.forEach((emitter) => {
+        const coords = toLatLng(emitter.coordinates);
+
+        // Skip invalid coordinates
+        if (!isValidCoordinate(coords)) {
+          console.warn('Invalid SIGINT emitter coordinates, skipping marker:', emitter);
+          return;
+        }
+
+        const icon = createEmitterIcon(emitter);
+        if (!icon) return;
+
+        // Trail of the path travelled up to the replay time
+        const trail = trackUpTo(emitter.track, currentTime)
+          .map(point => toLatLng(point))
+          .filter(isValidCoordinate);
+
+        if (trail.length > 0) {
+          L.polyline([...trail, coords].map(point => [point.lat, point.lng] as [number, number]), {
+            color: 'rgba(220, 38, 38, 0.5)',
+            weight: 2,
+            dashArray: '4, 4',
+            interactive: false
+          }).addTo(layerGroup);
+        }
+
+        // Predicted positions the replay has not reached yet
+        if (showPredictions) {
+          const upcoming = emitter.predictions
+            .filter(point => !isVisibleAt(point.timestamp, currentTime))
+            .map(point => ({ point, coords: toLatLng(point) }))
+            .filter(prediction => isValidCoordinate(prediction.coords));
+
+          if (upcoming.length > 0) {
+            drawPredictionCone(
+              { latitude: coords.lat, longitude: coords.lng, radius: emitter.accuracy },
+              upcoming.map(({ point, coords: predictedCoords }) => ({
+                latitude: predictedCoords.lat,
+                longitude: predictedCoords.lng,
+                radius: point.accuracy || emitter.accuracy,
+                label: `Predicted ${new Date(point.timestamp).toLocaleString()}`
+              }))
+            );
+          }
+        }
+
+        // Prediction the analyst asked for, from the emitter's last fix
+        const prediction = predictions[emitter.id];
+        if (prediction) {
+          const origin = toLatLng(prediction.origin);
+          if (isValidCoordinate(origin)) {
+            drawPredictionCone(
+              { latitude: origin.lat, longitude: origin.lng, radius: prediction.origin.accuracy },
+              prediction.predictions.map(point => {
+                const predictedCoords = toLatLng(point);
+                return {
+                  latitude: predictedCoords.lat,
+                  longitude: predictedCoords.lng,
+                  radius: point.radius,
+                  label: `${formatMinutesAhead(point.minutesAhead)} (${new Date(point.timestamp).toLocaleTimeString()}): ` +
+                    `within ${formatDistance(point.radius)} at ${Math.round(prediction.confidenceLevel * 100)}%`
+                };
+              })
+            );
+          }
+        }
+
+        const marker = describeClusterMarker(L.marker(coords, { icon }), 'emitter').addTo(markers);
+
+        // Add accuracy circle
+        const accuracyOptions = {
+          color: 'rgba(220, 38, 38, 0.4)',
+          fillColor: 'rgba(220, 38, 38, 0.1)',
+          fillOpacity: 0.5,
+          radius: emitter.accuracy,
+          weight: 1
+        };
+
+        L.circle(coords, accuracyOptions).addTo(layerGroup);
+
+        // Add military-style popup
+        const popupContent = `
+          <div class="p-3">
+            <h3 class="font-bold text-sm text-white mb-1 border-b border-gray-600 pb-1">${emitter.classification || 'Unknown Emitter'}</h3>
+            <div class="grid grid-cols-2 gap-2 text-xs text-gray-300 mt-2">
+              <div>
+                <span class="text-gray-500">ID:</span> ${emitter.id}
+              </div>
+              <div>
+                <span class="text-gray-500">Confidence:</span> ${emitter.confidence}
+              </div>
+              <div>
+                <span class="text-gray-500">Timestamp:</span> ${new Date(emitter.timestamp).toLocaleString()}
+              </div>
+              <div>
+                <span class="text-gray-500">Accuracy:</span> ±${emitter.accuracy}m
+              </div>
+            </div>
+            ${catalogueSystemHtml(findCatalogueSystem(systemCatalogue, emitter.model))}
+            ${contributingSensorsHtml(sensors, emitter.receiverFixes.find(fix => isVisibleAt(fix.timestamp, currentTime))?.receiverIds || [])}
+            ${entityNotesHtml(entityNotes[emitter.id])}
+            <div class="flex gap-2 mt-2">
+              <button data-emitter-details class="flex-1 text-xs px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200">
+                Signal history
+              </button>
+              <button data-emitter-predict class="flex-1 text-xs px-2 py-1 rounded bg-amber-900/40 hover:bg-amber-900/60 text-amber-200">
+                ${predictions[emitter.id] ? 'Clear prediction' : 'Predict'}
+              </button>
+              ${emitter.bearingFixes.length > 0 ? `
+                <button data-emitter-bearings class="flex-1 text-xs px-2 py-1 rounded bg-violet-900/40 hover:bg-violet-900/60 text-violet-200">
+                  Bearings
+                </button>
+              ` : ''}
+            </div>
+            <div class="flex justify-between mt-2 pt-1 border-t border-gray-600">
+              <div class="text-xs text-gray-300">
+                <span class="font-mono">${formatLatLng(coords.lat, coords.lng, 5)}</span>
+              </div>
+              <div class="text-xs px-1.5 py-0.5 rounded bg-red-900/30 text-red-300">SIGINT</div>
+            </div>
+          </div>
+        `;
+
+        const popup = L.popup({
+          className: 'military-popup',
+          closeButton: false,
+          maxWidth: 250
+        }).setContent(popupContent);
+
+        marker.bindPopup(popup);
+
+        marker.on('popupopen', () => {
+          const element = popup.getElement();
+          if (!element) return;
+
+          element.querySelector<HTMLElement>('[data-emitter-details]')?.addEventListener('click', () => {
+            onShowDetails(emitter.id);
+            marker.closePopup();
+          });
+          element.querySelector<HTMLElement>('[data-emitter-predict]')?.addEventListener('click', () => {
+            marker.closePopup();
+            onPredict(emitter.id);
+          });
+          element.querySelector<HTMLElement>('[data-emitter-bearings]')?.addEventListener('click', () => {
+            marker.closePopup();
+            onShowBearings(emitter.id);
+          });
+        });
+
+        if (onMarkerClick) {
+          marker.on('click', () => onMarkerClick(emitter.id));
+        }
+      });
+    }
+
+    layerGroup.addLayer(markers);
+  }, [map, layerGroup, visible, showPredictions, emitters, currentTime, entityNotes, systemCatalogue, sensors, predictions, toLatLng, onShowDetails, onPredict, onShowBearings, onMarkerClick]);
+
+  return null;
+};
+
+export default EmitterMarkersLayer;
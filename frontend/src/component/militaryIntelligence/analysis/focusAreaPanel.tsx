@@ -0,0 +1,152 @@
+// components/military-intelligence/analysis/FocusAreaPanel.tsx
+import React from 'react';
+import { XCircle, Square, Pentagon, Undo2, Trash2, Play, RefreshCw, Loader2 } from 'lucide-react';
+import { FusionFocusArea } from '../../../type/sigintTypes';
+import { FocusAreaShape, FusionRunStats, describeFocusArea, isFocusAreaComplete } from '../utils/focusArea';
+
+interface FocusAreaPanelProps {
+  shape: FocusAreaShape;
+  points: Array<[number, number]>;
+  fullStats: FusionRunStats | null;
+  scopedStats: FusionRunStats | null;
+  scopedArea: FusionFocusArea | null;
+  showScoped: boolean;
+  isRunning: boolean;
+  onShapeChange: (shape: FocusAreaShape) => void;
+  onUndo: () => void;
+  onClear: () => void;
+  onRunScoped: () => void;
+  onRunFull: () => void;
+  onShowScopedChange: (showScoped: boolean) => void;
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+const STAT_ROWS: Array<{ key: keyof FusionRunStats; label: string }> = [
+  { key: 'fusedEntities', label: 'Fused entities' },
+  { key: 'humintEntities', label: 'HUMINT entities' },
+  { key: 'sigintEntities', label: 'SIGINT entities' },
+  { key: 'correlations', label: 'Correlations' },
+  { key: 'confidence', label: 'Confidence' }
+];
+
+const FocusAreaPanel: React.FC<FocusAreaPanelProps> = ({
+  shape,
+  points,
+  fullStats,
+  scopedStats,
+  scopedArea,
+  showScoped,
+  isRunning,
+  onShapeChange,
+  onUndo,
+  onClear,
+  onRunScoped,
+  onRunFull,
+  onShowScopedChange,
+  onClose,
+  t
+}) => {
+  const isComplete = isFocusAreaComplete(shape, points);
+
+  const shapeClass = (active: boolean) => `flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded text-xs ${
+    active ? 'bg-gray-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+  const buttonClass = 'p-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded disabled:opacity-40';
+  const runClass = 'flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded text-xs disabled:opacity-40';
+
+  return (
+    <div className="absolute top-16 right-4 z-20 bg-gray-800/90 backdrop-blur-sm border border-gray-700 rounded-md p-3 shadow-lg w-80">
+      <div className="flex justify-between items-center mb-2 pb-1 border-b border-gray-700">
+        <h3 className="text-sm font-medium text-gray-200">{t('focusArea') || "Fusion Focus Area"}</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-200 p-1 rounded hover:bg-gray-700"
+        >
+          <XCircle size={16} />
+        </button>
+      </div>
+
+      <div className="space-y-3 mt-3">
+        <div className="flex gap-2">
+          <button onClick={() => onShapeChange('rectangle')} className={shapeClass(shape === 'rectangle')}>
+            <Square size={14} /> Rectangle
+          </button>
+          <button onClick={() => onShapeChange('polygon')} className={shapeClass(shape === 'polygon')}>
+            <Pentagon size={14} /> Polygon
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="flex-1 text-xs text-gray-400">
+            {shape === 'rectangle'
+              ? (isComplete ? 'Click again to start a new rectangle.' : `Click two opposite corners (${points.length}/2).`)
+              : `Click the map to add corners (${points.length}/3+).`}
+          </div>
+          <button onClick={onUndo} disabled={points.length === 0} className={buttonClass} title="Remove last point">
+            <Undo2 size={16} />
+          </button>
+          <button onClick={onClear} disabled={points.length === 0} className={buttonClass} title="Clear area">
+            <Trash2 size={16} />
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={onRunScoped}
+            disabled={!isComplete || isRunning}
+            className={`${runClass} bg-cyan-700 hover:bg-cyan-600 text-white`}
+          >
+            {isRunning ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />} Fuse area
+          </button>
+          <button
+            onClick={onRunFull}
+            disabled={isRunning}
+            className={`${runClass} bg-gray-700 hover:bg-gray-600 text-gray-200`}
+          >
+            <RefreshCw size={14} /> Re-run AO
+          </button>
+        </div>
+
+        {(fullStats || scopedStats) && (
+          <div className="pt-2 border-t border-gray-700">
+            <table className="w-full text-xs text-gray-300">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="text-left font-normal"></th>
+                  <th className="text-right font-normal" title="The whole area of operations, which is the baseline every fusion run is limited to">AO run</th>
+                  <th className="text-right font-normal">Focus area</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {STAT_ROWS.map(row => (
+                  <tr key={row.key}>
+                    <td className="font-sans">{row.label}</td>
+                    <td className="text-right">{fullStats ? fullStats[row.key] : '—'}</td>
+                    <td className="text-right">{scopedStats ? scopedStats[row.key] : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {scopedArea && (
+              <div className="mt-1 text-[10px] text-gray-500">{describeFocusArea(scopedArea)}</div>
+            )}
+
+            {scopedStats && (
+              <div className="flex gap-2 mt-2">
+                <button onClick={() => onShowScopedChange(false)} className={shapeClass(!showScoped)}>
+                  Show AO run
+                </button>
+                <button onClick={() => onShowScopedChange(true)} className={shapeClass(showScoped)}>
+                  Show focus area
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FocusAreaPanel;
@@ -1,8 +1,119 @@
 // components/military-intelligence/analysis/FusionMap.tsx
-import React, { useEffect, useState, useCallback, useRef } from 'react';
-import { Map, AlertTriangle, Layers, Target, Zap, Radio, Eye, XCircle, RefreshCcw, Clock, Globe } from 'lucide-react';
-import { AdaptedAnalysisResponse, QualityScore } from '../../../type/intelligence';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { Map, AlertTriangle, Layers, Target, Zap, Radio, Eye, XCircle, Clock, Globe, SlidersHorizontal, Settings, Ruler, PenTool, Crosshair, Flag, Flame, Radar, BookOpen, RadioTower } from 'lucide-react';
+import { AdaptedAnalysisResponse, QualityScore, TacticalGraphic, TacticalGraphicKind, TacticalObservation } from '../../../type/intelligence';
+import { CatalogueSystem, CollectionSensor, EmitterPredictionResponse, FusionFocusArea, LineOfBearing, MapTimelineControl, RadarCoverage } from '../../../type/sigintTypes';
 import { IntelligencePopup } from './intelligencePopUp';
+import { processReportForGeospatialData, GeoLocation } from '../utils/geoUtils';
+import {
+  findCoordinatesInText,
+  formatUncertainty,
+  formatLatLng,
+  formatLatitude,
+  formatLongitude,
+  formatDistance
+} from '../utils/coordinateParser';
+import {
+  AreaOfOperations,
+  AreaOfOperationsBounds,
+  correctTruncatedLatitude,
+  getAreaOfOperationsBounds,
+  getAreaOfOperationsCenter,
+  loadAreaOfOperations
+} from '../utils/areaOfOperations';
+import { GazetteerIndex, PlaceCandidate, confirmPlaceResolution, loadGazetteer } from '../utils/gazetteer';
+import { generateSimpleCorrelations, processHumintEntities, ResolvedPlaceLocation } from '../utils/fusionProcessor';
+import { UncertaintyEllipse, ellipsePolygon, destinationPoint, haversineDistance } from '../utils/geodesy';
+import {
+  CorrelationSettings,
+  clearCorrelationSettings,
+  loadCorrelationSettings,
+  saveCorrelationSettings
+} from '../utils/correlationSettings';
+import {
+  BUILT_IN_TILE_SOURCES,
+  DEFAULT_TILE_SOURCE_ID,
+  TileSource,
+  createTileLayer,
+  loadActiveTileSourceId,
+  loadCustomTileSources,
+  loadServerTileSources,
+  saveActiveTileSourceId,
+  saveCustomTileSources
+} from '../utils/tileSources';
+import {
+  SYMBOL_LEGEND,
+  SymbolSpec,
+  createMilitarySymbol,
+  createSymbolIcon,
+  symbolForEmitter,
+  symbolFromReportedForce,
+  symbolFromText
+} from '../utils/militarySymbols';
+import {
+  TrackPoint,
+  isTimelineLive,
+  isVisibleAt,
+  timestampFromText,
+  useTracksAtTime
+} from '../utils/timeline';
+import { createMarkerClusterGroup, describeClusterMarker } from '../utils/markerClustering';
+import { BearingUnit, MeasurementMode, MeasurementPoint } from '../utils/measurement';
+import { EntityNotes, addEntityNote, entityNotesHtml, humintNoteId, loadEntityNotes, saveEntityNotes } from '../utils/entityNotes';
+import { createTacticalGraphic } from '../utils/tacticalGraphics';
+import { useControlZones } from '../utils/controlZones';
+import {
+  HEATMAP_DECAY_RANGE,
+  HEATMAP_RADIUS_RANGE,
+  HeatSource,
+  HeatmapSettings,
+  emitterWeight,
+  eventWeight,
+  loadHeatmapSettings,
+  saveHeatmapSettings,
+  threatWeight
+} from '../utils/threatHeatmap';
+import {
+  COVERAGE_TARGET_ALTITUDES,
+  DEFAULT_COVERAGE_TARGET_ALTITUDE,
+  MAX_COVERAGE_ELEMENTS,
+  coverageElementsFromEob,
+  describeRadarCoverage,
+  loadRadarCoverage
+} from '../utils/radarCoverage';
+import { describeCatalogueSystem, findCatalogueSystem, loadSystemCatalogue } from '../utils/systemCatalogue';
+import {
+  DEFAULT_SENSOR_EMITTER_ALTITUDE,
+  MAX_COVERAGE_SENSORS,
+  SENSOR_EMITTER_ALTITUDES,
+  describeSensor,
+  loadSensorCoverage,
+  loadSensors,
+  sensorStatusColor
+} from '../utils/sensorRegistry';
+import { loadEmitterPrediction } from '../utils/predictionCone';
+import { toast } from '../utils/toastService';
+import { bearingLineEnd, triangulateBearings } from '../utils/directionFinding';
+import { correlationExplanationHtml, loadCorrelationExplanation } from '../utils/correlationExplanation';
+import { FocusAreaShape, createFocusArea, focusAreaOutline, getFusionRunStats, isFocusAreaComplete } from '../utils/focusArea';
+import AreaOfOperationsModal from '../ui/areaOfOperationsModal';
+import CorrelationSettingsModal from '../ui/correlationSettingsModal';
+import TileSourcesModal from '../ui/tileSourcesModal';
+import SystemCatalogueModal from '../ui/systemCatalogueModal';
+import SensorRegistryModal from '../ui/sensorRegistryModal';
+import Portal from '../ui/portal';
+import TimelinePanel from './timelinePanel';
+import MeasurementPanel, { MeasurementEntity } from './measurementPanel';
+import MeasurementLayer from './measurementLayer';
+import TacticalGraphicsPanel, { GraphicDrawing } from './tacticalGraphicsPanel';
+import TacticalGraphicsLayer from './tacticalGraphicsLayer';
+import ControlZonesLayer from './controlZonesLayer';
+import ThreatHeatmapLayer from './threatHeatmapLayer';
+import EmitterMarkersLayer, { ExtractedEmitterData } from './emitterMarkersLayer';
+import FocusAreaPanel from './focusAreaPanel';
+import EmitterDetailPanel from './emitterDetailPanel';
+import BearingsPanel from './bearingsPanel';
+import L, { LeafletMouseEvent } from '../utils/leaflet';
 
 // Define OSINT source types
 interface SocialMediaPlatform {
@@ -106,6 +217,8 @@ interface EmitterLocation {
   };
   accuracy: number;
   confidenceLevel?: QualityScore;
+  bearings?: LineOfBearing[];
+  receiverIds?: string[];
 }
 
 interface EmissionDetection {
@@ -139,6 +252,7 @@ interface ComponentRadarEmitter {
   confidence?: QualityScore;
   emissions?: ComponentEmission[];
   locations?: EmitterLocation[];
+  predictedLocations?: EmitterLocation[];
   platformAssessment?: EmitterPlatformAssessment;
   characteristics?: EmitterCharacteristics;
 }
@@ -254,6 +368,7 @@ interface CorrelationStrength {
 }
 
 interface Correlation {
+  id?: string;
   humintEntityId: string;
   sigintEmitterId: string;
   osintEntityId?: string;
@@ -266,7 +381,7 @@ interface FusedEntity {
   type: string;
   humintSources: string[];
   sigintSources: string[];
-  osintSources: string[];
+  osintSources?: string[];
   combinedConfidence: QualityScore;
   correlations: Correlation[];
 }
@@ -285,50 +400,32 @@ interface ComponentFusionAnalysisResponse {
   timestamp: string;
   humintAnalysisId: string;
   sigintAnalysisId: string;
-  osintAnalysisId: string;
+  osintAnalysisId?: string;
   fusedEntities: FusedEntity[];
   predictionSummary?: string;
   predictions?: FusionPrediction[];
 }
 
 // Interface for extracted data
-interface ExtractedHumintData {
-  locations: {
-    name?: string;
-    description?: string;
-    coordinates: {
-      latitude: number;
-      longitude: number;
-    };
-  }[];
-  observations: {
-    name?: string;
-    description?: string;
-    coordinates: {
-      latitude: number;
-      longitude: number;
-    };
-  }[];
-  movements: {
-    name?: string;
-    description?: string;
-    coordinates: {
-      latitude: number;
-      longitude: number;
-    };
-  }[];
-}
-
-interface ExtractedEmitterData {
-  id: string;
+interface ExtractedHumintLocation {
+  name?: string;
+  description?: string;
   coordinates: {
     latitude: number;
     longitude: number;
   };
-  accuracy: number;
-  timestamp: string;
-  classification: string;
-  confidence: QualityScore;
+  uncertainty?: number;
+  uncertaintyEllipse?: UncertaintyEllipse;
+  gridReference?: string;
+  heading?: number;
+  timestamp?: string; // when observed, if the report says
+  reportedForce?: TacticalObservation['entities']; // structured force the analysis reported at this place
+}
+
+interface ExtractedHumintData {
+  locations: ExtractedHumintLocation[];
+  observations: ExtractedHumintLocation[];
+  movements: ExtractedHumintLocation[];
 }
 
 interface ExtractedOsintEvent {
@@ -345,11 +442,13 @@ interface ExtractedOsintEvent {
 
 interface ExtractedCorrelation {
   id: string;
+  correlationId: string | undefined; // backend correlation, which can be explained
   humintEntityId: string;
   sigintEmitterId: string;
   osintEntityId: string | undefined;
   strength: number;
   type: "confirmed" | "probable" | "possible";
+  distance?: number; // meters, for proximity correlations
 }
 
 interface Coordinates {
@@ -363,57 +462,87 @@ interface FusionMapProps {
   sigintData?: ComponentSigintAnalysisResponse | null;
   osintData?: ComponentOsintAnalysisResponse | null;
   fusionData?: ComponentFusionAnalysisResponse | null;
+  scopedFusionData?: ComponentFusionAnalysisResponse | null;
+  scopedFocusArea?: FusionFocusArea | null;
+  isFusionRunning?: boolean;
+  onRunFusion?: (focusArea: FusionFocusArea | null) => void;
   rawReportText?: string;
   visibleLayers: string[];
-  currentTime?: string;
+  timeline?: MapTimelineControl;
+  onTimelineChange?: (timeline: MapTimelineControl) => void;
   onMarkerClick?: (entityId: string, type: 'humint' | 'sigint' | 'osint' | 'fusion') => void;
   onLayerToggle?: (layerId: string) => void;
+  areaOfOperations?: AreaOfOperations;
+  onAreaOfOperationsChange?: (ao: AreaOfOperations | null) => void;
+  tacticalGraphics?: TacticalGraphic[];
+  onTacticalGraphicsChange?: (graphics: TacticalGraphic[]) => void;
   t: (key: string) => string;
 }
 
-// Extend Window interface to include Leaflet
-declare global {
-  interface Window {
-    L: any;
-  }
-}
-
-// Define BaseMap interfaces
-interface BaseMap {
-  url: string;
-  name: string;
-  color: string;
-}
-
-interface BaseMaps {
-  dark: BaseMap;
-  satellite: BaseMap;
-  terrain: BaseMap;
-  [key: string]: BaseMap;
-}
-
 const FusionMap: React.FC<FusionMapProps> = ({
   humintData,
   sigintData,
   osintData,
-  fusionData,
+  fusionData: fullFusionData,
+  scopedFusionData,
+  scopedFocusArea,
+  isFusionRunning = false,
+  onRunFusion,
   rawReportText,
   visibleLayers,
-  currentTime,
+  timeline,
+  onTimelineChange,
   onMarkerClick,
   onLayerToggle,
+  areaOfOperations: areaOfOperationsProp,
+  onAreaOfOperationsChange,
+  tacticalGraphics = [],
+  onTacticalGraphicsChange,
   t
 }) => {
-  const [mapLoaded, setMapLoaded] = useState<boolean>(false);
-  const [map, setMap] = useState<any>(null);
+  const [map, setMap] = useState<L.Map | null>(null);
   const [markers, setMarkers] = useState<any[]>([]);
   const [lines, setLines] = useState<any[]>([]);
   const [mapError, setMapError] = useState<string | null>(null);
-  const [activeBaseMap, setActiveBaseMap] = useState<string>('dark');
+  const [activeBaseMap, setActiveBaseMap] = useState<string>(() => loadActiveTileSourceId() || DEFAULT_TILE_SOURCE_ID);
+  const [serverTileSources, setServerTileSources] = useState<TileSource[]>([]);
+  const [customTileSources, setCustomTileSources] = useState<TileSource[]>(() => loadCustomTileSources());
+  const [showTileSources, setShowTileSources] = useState<boolean>(false);
   const [gridEnabled, setGridEnabled] = useState<boolean>(true);
   const [showBasemapSelector, setShowBasemapSelector] = useState<boolean>(false);
   const [showLayerControl, setShowLayerControl] = useState<boolean>(false);
   const [showTimeControl, setShowTimeControl] = useState<boolean>(false);
+  const [showAreaOfOperations, setShowAreaOfOperations] = useState<boolean>(false);
+  const [gazetteer, setGazetteer] = useState<GazetteerIndex | null>(null);
+  const [showCorrelationSettings, setShowCorrelationSettings] = useState<boolean>(false);
+  const [correlationSettings, setCorrelationSettings] = useState<CorrelationSettings>(() => loadCorrelationSettings());
+  const [showMeasurement, setShowMeasurement] = useState<boolean>(false);
+  const [measurementMode, setMeasurementMode] = useState<MeasurementMode>('distance');
+  const [measurementPoints, setMeasurementPoints] = useState<MeasurementPoint[]>([]);
+  const [bearingUnit, setBearingUnit] = useState<BearingUnit>('degrees');
+  const [entityNotes, setEntityNotes] = useState<EntityNotes>({});
+  const [showTacticalGraphics, setShowTacticalGraphics] = useState<boolean>(false);
+  const [graphicDrawing, setGraphicDrawing] = useState<GraphicDrawing | null>(null);
+  const [selectedGraphicId, setSelectedGraphicId] = useState<string | null>(null);
+  const [showFocusArea, setShowFocusArea] = useState<boolean>(false);
+  const [focusAreaShape, setFocusAreaShape] = useState<FocusAreaShape>('rectangle');
+  const [focusAreaPoints, setFocusAreaPoints] = useState<Array<[number, number]>>([]);
+  const [showScopedFusion, setShowScopedFusion] = useState<boolean>(false);
+  const [heatmapSettings, setHeatmapSettings] = useState<HeatmapSettings>(() => loadHeatmapSettings());
+  const [coverageTargetAltitude, setCoverageTargetAltitude] = useState<number>(DEFAULT_COVERAGE_TARGET_ALTITUDE);
+  const [radarCoverage, setRadarCoverage] = useState<RadarCoverage[]>([]);
+  const [coverageStatus, setCoverageStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+  const [systemCatalogue, setSystemCatalogue] = useState<CatalogueSystem[]>([]);
+  const [showSystemCatalogue, setShowSystemCatalogue] = useState<boolean>(false);
+  const [sensors, setSensors] = useState<CollectionSensor[]>([]);
+  const [sensorCoverage, setSensorCoverage] = useState<RadarCoverage[]>([]);
+  const [sensorCoverageStatus, setSensorCoverageStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+  const [sensorEmitterAltitude, setSensorEmitterAltitude] = useState<number>(DEFAULT_SENSOR_EMITTER_ALTITUDE);
+  const [showSensorRegistry, setShowSensorRegistry] = useState<boolean>(false);
+  const [detailEmitterId, setDetailEmitterId] = useState<string | null>(null);
+  const [emitterPredictions, setEmitterPredictions] = useState<Record<string, EmitterPredictionResponse>>({});
+  const [bearingEmitterId, setBearingEmitterId] = useState<string | null>(null);
+  const [excludedBearings, setExcludedBearings] = useState<string[]>([]);
   const [selectedEntity, setSelectedEntity] = useState<{
     type: 'humint' | 'sigint' | 'osint' | 'fusion' | 'threat' | 'location' | 'prediction';
     id: string;
@@ -422,6 +551,33 @@ const FusionMap: React.FC<FusionMapProps> = ({
   
   const mapContainerRef = useRef<HTMLDivElement>(null);
 
+  // Layers show the situation as it stood at the replay time
+  const currentTime = timeline?.currentTime;
+
+  // The fusion layers show either the AO run or the last focus-area run
+  const fusionData = showScopedFusion && scopedFusionData ? scopedFusionData : fullFusionData;
+
+  const areaOfOperations = useMemo(
+    () => areaOfOperationsProp || loadAreaOfOperations(),
+    [areaOfOperationsProp]
+  );
+
+  const tileSources = useMemo(
+    () => [...BUILT_IN_TILE_SOURCES, ...serverTileSources, ...customTileSources],
+    [serverTileSources, customTileSources]
+  );
+  
+  // Legend symbols only need rendering once
+  const symbolLegend = useMemo(
+    () => SYMBOL_LEGEND.map(entry => ({ label: entry.label, image: createMilitarySymbol(entry.spec, 16).toDataURL() })),
+    []
+  );
+  
+  const activeTileSource = useMemo(
+    () => tileSources.find(source => source.id === activeBaseMap) || BUILT_IN_TILE_SOURCES[0],
+    [tileSources, activeBaseMap]
+  );
+
   const isValidCoordinate = (coord: any): boolean => {
     return coord && 
            typeof coord.lat === 'number' && !isNaN(coord.lat) &&
@@ -436,55 +592,160 @@ const FusionMap: React.FC<FusionMapProps> = ({
     fusion: null,
     correlation: null,
     grid: null,
-    base: null
+    base: null,
+    areaOfOperations: null,
+    measurement: null,
+    graphics: null,
+    focusArea: null,
+    bearings: null,
+    zones: null,
+    heatmap: null,
+    coverage: null,
+    sensors: null
   });
 
   // Extract HUMINT data
   const extractHumintData = useCallback((): ExtractedHumintData => {
     if (!humintData || !rawReportText) return { locations: [], observations: [], movements: [] };
     
-    // Mock implementation of processReportForGeospatialData
-    // In a real application, this would process the raw report text and extract coordinates
-    const mockLocations = [
-      {
-        name: "Forward Operating Base Alpha",
-        description: "Main military installation with command center",
-        coordinates: { latitude: 49.85, longitude: 36.65 }
-      },
-      {
-        name: "Checkpoint Bravo",
-        description: "Security checkpoint on main highway",
-        coordinates: { latitude: 50.01, longitude: 36.25 }
-      }
-    ];
+    const geoData = processReportForGeospatialData(rawReportText, areaOfOperations, gazetteer);
     
-    const mockObservations = [
-      {
-        name: "Enemy Patrol",
-        description: "Observed enemy patrol with light vehicles",
-        coordinates: { latitude: 49.92, longitude: 36.4 }
-      },
-      {
-        name: "Artillery Position",
-        description: "Suspected artillery position in forested area",
-        coordinates: { latitude: 49.78, longitude: 36.55 }
-      }
-    ];
+    // Forces the analysis reported with attributes, matched to a sentence by their place name
+    const reportedForces = (humintData.intelligence.tacticalObservations || [])
+      .filter(observation => observation.entities && observation.location?.name);
+    const reportedForceFor = (sentence: string | undefined) => {
+      const text = (sentence || '').toLowerCase();
+      return reportedForces.find(observation => text.includes(observation.location!.name.toLowerCase()))?.entities;
+    };
     
-    const mockMovements = [
-      {
-        name: "Troop Movement",
-        description: "Enemy troop movement toward the south",
-        coordinates: { latitude: 49.88, longitude: 36.44 }
-      }
-    ];
+    // Keep only entries with resolved coordinates
+    const withCoordinates = (entries: GeoLocation[]): ExtractedHumintLocation[] =>
+      entries
+        .filter((entry): entry is GeoLocation & { coordinates: { latitude: number; longitude: number } } =>
+          !!entry.coordinates)
+        .map(entry => ({
+          name: entry.name,
+          description: entry.description,
+          coordinates: entry.coordinates,
+          uncertainty: entry.uncertainty,
+          uncertaintyEllipse: entry.uncertaintyEllipse,
+          gridReference: entry.gridReference,
+          heading: entry.heading,
+          timestamp: timestampFromText(entry.description, humintData.timestamp),
+          reportedForce: reportedForceFor(entry.description)
+        }));
     
     return {
-      locations: mockLocations,
-      observations: mockObservations,
-      movements: mockMovements
+      locations: withCoordinates(geoData.locations),
+      observations: withCoordinates(geoData.observations),
+      movements: withCoordinates(geoData.movements)
+    };
+  }, [humintData, rawReportText, areaOfOperations, gazetteer]);
+
+  // Notes are stored per analysis and reopen with it
+  useEffect(() => {
+    setEntityNotes(humintData?.analysisId ? loadEntityNotes(humintData.analysisId) : {});
+  }, [humintData?.analysisId]);
+
+  // Pick up tilesets served by the backend; offline deployments default to the first one
+  useEffect(() => {
+    let cancelled = false;
+    
+    loadServerTileSources().then(sources => {
+      if (cancelled) return;
+      setServerTileSources(sources);
+      if (!loadActiveTileSourceId() && sources.length > 0) {
+        setActiveBaseMap(sources[0].id);
+      }
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+  
+  // Ranges, mobility and aliases of known systems come from the shared catalogue
+  useEffect(() => {
+    let cancelled = false;
+    
+    loadSystemCatalogue().then(catalogue => {
+      if (!cancelled) setSystemCatalogue(catalogue);
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+  
+  // Our own collection sensors, to name the receivers behind each emitter fix
+  useEffect(() => {
+    let cancelled = false;
+    
+    loadSensors().then(registry => {
+      if (!cancelled) setSensors(registry);
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Load the offline gazetteer once for resolving named places
+  useEffect(() => {
+    let cancelled = false;
+    
+    loadGazetteer().then(index => {
+      if (!cancelled) setGazetteer(index);
+    });
+    
+    return () => {
+      cancelled = true;
     };
-  }, [humintData, rawReportText]);
+  }, []);
+  
+  // Named HUMINT locations and forces placed through the gazetteer
+  const extractGazetteerPlaces = useCallback((): Array<{ id: string; type: string; description: string; location: ResolvedPlaceLocation }> => {
+    if (!humintData || !gazetteer || gazetteer.entries.length === 0) return [];
+    
+    return processHumintEntities(humintData, gazetteer, areaOfOperations)
+      .filter(entity => (entity.type === 'location' || entity.type === 'force') && entity.location?.resolution);
+  }, [humintData, gazetteer, areaOfOperations]);
+  
+  // Predict an emitter's movement, or clear the prediction already shown for it
+  const handlePredictEmitter = useCallback(async (emitterId: string) => {
+    if (emitterPredictions[emitterId]) {
+      setEmitterPredictions(current => {
+        const next = { ...current };
+        delete next[emitterId];
+        return next;
+      });
+      return;
+    }
+    
+    const result = await loadEmitterPrediction(emitterId);
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+    setEmitterPredictions(current => ({ ...current, [emitterId]: result }));
+  }, [emitterPredictions]);
+  
+  // Show the lines of bearing behind an emitter's fix in place of the other tool panels
+  const handleShowBearings = useCallback((emitterId: string) => {
+    setBearingEmitterId(emitterId);
+    setExcludedBearings([]);
+    setShowMeasurement(false);
+    setShowFocusArea(false);
+    setShowTimeControl(false);
+    setShowTacticalGraphics(false);
+    setGraphicDrawing(null);
+  }, []);
+  
+  // Record the analyst's choice and re-resolve with the confirmation applied
+  const handleConfirmPlace = useCallback((query: string, candidate: PlaceCandidate) => {
+    confirmPlaceResolution(query, candidate.entry.id);
+    setGazetteer(current => current ? { ...current } : current);
+  }, []);
 
   // Extract SIGINT data with guaranteed non-null return values
   const extractSigintData = useCallback((): ExtractedEmitterData[] => {
@@ -493,7 +754,7 @@ const FusionMap: React.FC<FusionMapProps> = ({
     }
     
     return sigintData.emitters
-      .map(emitter => {
+      .map((emitter): ExtractedEmitterData | null => {
         // Skip emitters with no locations
         if (!emitter.locations || emitter.locations.length === 0) {
           return null;
@@ -511,6 +772,14 @@ const FusionMap: React.FC<FusionMapProps> = ({
           return null;
         }
         
+        // Every fix, so the emitter can be replayed along its path
+        const toTrackPoint = (location: EmitterLocation): TrackPoint => ({
+          timestamp: location.timestamp,
+          latitude: location.location.latitude,
+          longitude: location.location.longitude,
+          accuracy: location.accuracy
+        });
+        
         return {
           id: emitter.id,
           coordinates: {
@@ -520,13 +789,55 @@ const FusionMap: React.FC<FusionMapProps> = ({
           accuracy: latestLocation.accuracy,
           timestamp: latestLocation.timestamp,
           classification: emitter.classification?.type || 'Unknown',
-          confidence: emitter.confidence || 'medium'
+          platform: emitter.platformAssessment?.type,
+          model: emitter.platformAssessment?.model || emitter.classification?.model,
+          confidence: emitter.confidence || 'medium',
+          track: sortedLocations.filter(location => location.location).reverse().map(toTrackPoint),
+          predictions: (emitter.predictedLocations || []).filter(location => location.location).map(toTrackPoint),
+          bearingFixes: sortedLocations
+            .filter(location => location.location && location.bearings && location.bearings.length > 0)
+            .map(location => ({ ...toTrackPoint(location), bearings: location.bearings as LineOfBearing[] })),
+          receiverFixes: sortedLocations.map(location => ({
+            timestamp: location.timestamp,
+            receiverIds: [...new Set([
+              ...(location.receiverIds || []),
+              ...(location.bearings || []).map(bearing => bearing.receiverId).filter((id): id is string => !!id)
+            ])]
+          }))
         };
       })
       // Filter out null values and type-cast the result
       .filter((emitter): emitter is ExtractedEmitterData => emitter !== null);
   }, [sigintData]);
 
+  // Emitters where they were at the replay time
+  const emitterTracks = useMemo(() => extractSigintData(), [extractSigintData]);
+  const emittersAtTime = useTracksAtTime(emitterTracks, currentTime);
+
+  // Bearings behind the fix shown for the selected emitter at the replay time
+  const bearingEmitter = useMemo(
+    () => bearingEmitterId ? extractSigintData().find(emitter => emitter.id === bearingEmitterId) || null : null,
+    [bearingEmitterId, extractSigintData]
+  );
+  
+  const bearingFix = useMemo(() => {
+    if (!bearingEmitter) return null;
+    return bearingEmitter.bearingFixes.find(fix => isVisibleAt(fix.timestamp, currentTime)) ||
+      bearingEmitter.bearingFixes[bearingEmitter.bearingFixes.length - 1] || null;
+  }, [bearingEmitter, currentTime]);
+  
+  // Fix from the bearings the analyst has left in
+  const directionFindingFix = useMemo(
+    () => bearingFix ? triangulateBearings(bearingFix.bearings.filter(bearing => !excludedBearings.includes(bearing.signalId))) : null,
+    [bearingFix, excludedBearings]
+  );
+  
+  const handleToggleBearing = useCallback((signalId: string) => {
+    setExcludedBearings(current => current.includes(signalId)
+      ? current.filter(id => id !== signalId)
+      : [...current, signalId]);
+  }, []);
+
   // Extract OSINT data with guaranteed non-null return values
   const extractOsintData = useCallback((): ExtractedOsintEvent[] => {
     if (!osintData || !osintData.events || osintData.events.length === 0) {
@@ -556,10 +867,42 @@ const FusionMap: React.FC<FusionMapProps> = ({
       .filter((event): event is ExtractedOsintEvent => event !== null);
   }, [osintData]);
 
+  // Without a fusion analysis, link HUMINT positions to nearby emitters using the analyst's correlation settings
+  const extractProximityCorrelations = useCallback((): ExtractedCorrelation[] => {
+    const humintGeo = extractHumintData();
+    const toEntity = (type: string) => (entry: ExtractedHumintLocation, index: number) => ({
+      id: `${type}-${index}`,
+      type,
+      location: { coordinates: entry.coordinates }
+    });
+    
+    const humintEntities = [
+      ...humintGeo.locations.map(toEntity('location')),
+      ...humintGeo.observations.map(toEntity('observation')),
+      ...humintGeo.movements.map(toEntity('movement'))
+    ];
+    const sigintEntities = extractSigintData().map(emitter => ({
+      id: emitter.id,
+      location: { coordinates: emitter.coordinates }
+    }));
+    
+    return generateSimpleCorrelations(humintEntities, sigintEntities, correlationSettings)
+      .map(correlation => ({
+        id: correlation.id,
+        correlationId: undefined,
+        humintEntityId: correlation.humintEntityId,
+        sigintEmitterId: correlation.sigintEmitterId,
+        osintEntityId: undefined,
+        strength: correlation.strength,
+        type: 'possible' as const,
+        distance: correlation.distance
+      }));
+  }, [extractHumintData, extractSigintData, correlationSettings]);
+
   // Extract fusion correlations with guaranteed non-null values
   const extractCorrelations = useCallback((): ExtractedCorrelation[] => {
     if (!fusionData || !fusionData.fusedEntities || fusionData.fusedEntities.length === 0) {
-      return [];
+      return extractProximityCorrelations();
     }
     
     return fusionData.fusedEntities
@@ -577,6 +920,7 @@ const FusionMap: React.FC<FusionMapProps> = ({
             
             return {
               id: `${correlation.humintEntityId}-${correlation.sigintEmitterId}${correlation.osintEntityId ? `-${correlation.osintEntityId}` : ''}`,
+              correlationId: correlation.id,
               humintEntityId: correlation.humintEntityId,
               sigintEmitterId: correlation.sigintEmitterId,
               osintEntityId: correlation.osintEntityId,
@@ -586,34 +930,38 @@ const FusionMap: React.FC<FusionMapProps> = ({
           })
           .filter((corr): corr is ExtractedCorrelation => corr !== null);
       });
-  }, [fusionData]);
+  }, [fusionData, extractProximityCorrelations]);
 
   // Convert coordinates object to Leaflet LatLng
-  const toLeafletCoords = (coords: { latitude: number | undefined; longitude: number | undefined }): Coordinates => {
+  const toLeafletCoords = useCallback((coords: { latitude: number | undefined; longitude: number | undefined }): Coordinates => {
     // Check if coordinates are valid numbers
     if (!coords || 
         typeof coords.latitude !== 'number' || isNaN(coords.latitude) ||
         typeof coords.longitude !== 'number' || isNaN(coords.longitude)) {
       console.warn('Invalid coordinates provided:', coords);
-      // Return default Ukraine coordinates as fallback
-      return { lat: 49.0, lng: 36.0 };
+      // Fall back to the centre of the area of operations
+      return getAreaOfOperationsCenter(areaOfOperations);
     }
     
-    // Fix for truncated coordinates (Ukraine is around 47-50°N)
-    let lat = coords.latitude;
+    // Repair latitudes that lost their leading digit upstream
     const lng = coords.longitude;
-    
-    // If a lat value is less than 10 but should be in Ukraine, add 40
-    if (lat < 10 && lng > 30 && lng < 41) {
-      lat = 40 + lat;
-    }
+    const lat = correctTruncatedLatitude(coords.latitude, lng, areaOfOperations);
     
     return { lat, lng };
-  };
+  }, [areaOfOperations]);
 
-  // Create HUMINT icon based on type
-  const createHumintIcon = (type: string) => {
-    if (!window.L) return null;
+  // Symbol for a HUMINT entry: from the force the analysis reported there, else from the sentence
+  const humintSymbol = useCallback((entry: ExtractedHumintLocation) =>
+    entry.reportedForce
+      ? { spec: symbolFromReportedForce(entry.reportedForce, entry.description), recognized: true }
+      : symbolFromText(entry.description), []);
+
+  // Create HUMINT icon: reported forces get their military symbol, plain places a pin
+  const createHumintIcon = useCallback((type: string, entry?: ExtractedHumintLocation) => {
+    if (entry) {
+      const { spec, recognized } = humintSymbol(entry);
+      if (type !== 'location' || recognized) return createSymbolIcon(spec);
+    }
     
     let html = '';
     
@@ -626,28 +974,6 @@ const FusionMap: React.FC<FusionMapProps> = ({
                   </svg>
                 </div>`;
         break;
-      case 'observation':
-        html = `<div class="flex items-center justify-center h-10 w-10 rounded-full bg-blue-900/90 backdrop-blur-sm border-2 border-blue-700 shadow-lg">
-                  <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="text-blue-300">
-                    <circle cx="12" cy="12" r="3"/>
-                    <path d="M12 5V3"/>
-                    <path d="M12 21v-2"/>
-                    <path d="M5 12H3"/>
-                    <path d="M21 12h-2"/>
-                    <path d="m16.95 7.05-1.41 1.41"/>
-                    <path d="m7.05 16.95 1.41-1.41"/>
-                    <path d="m16.95 16.95-1.41-1.41"/>
-                    <path d="m7.05 7.05 1.41 1.41"/>
-                  </svg>
-                </div>`;
-        break;
-      case 'movement':
-        html = `<div class="flex items-center justify-center h-10 w-10 rounded-full bg-blue-900/90 backdrop-blur-sm border-2 border-blue-700 shadow-lg">
-                  <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="text-blue-300">
-                    <path d="m9 18 6-6-6-6"/>
-                  </svg>
-                </div>`;
-        break;
       default:
         html = `<div class="flex items-center justify-center h-10 w-10 rounded-full bg-blue-900/90 backdrop-blur-sm border-2 border-blue-700 shadow-lg">
                   <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="text-blue-300">
@@ -656,41 +982,17 @@ const FusionMap: React.FC<FusionMapProps> = ({
                 </div>`;
     }
     
-    return window.L.divIcon({
-      html: html,
-      className: '',
-      iconSize: [40, 40],
-      iconAnchor: [20, 20],
-      popupAnchor: [0, -20]
-    });
-  };
-  
-  // Create SIGINT icon based on emitter type
-  const createSigintIcon = (emitterType: string) => {
-    if (!window.L) return null;
-    
-    const html = `<div class="flex items-center justify-center h-10 w-10 rounded-full bg-red-900/90 backdrop-blur-sm border-2 border-red-700 shadow-lg">
-                    <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="text-red-300">
-                      <path d="M2 12a10 10 0 1 1 20 0"/>
-                      <path d="M5 12a7 7 0 1 1 14 0"/>
-                      <path d="M8 12a4 4 0 1 1 8 0"/>
-                      <line x1="12" x2="12" y1="12" y2="12.01"/>
-                    </svg>
-                  </div>`;
-    
-    return window.L.divIcon({
+    return L.divIcon({
       html: html,
       className: '',
       iconSize: [40, 40],
       iconAnchor: [20, 20],
       popupAnchor: [0, -20]
     });
-  };
+  }, [humintSymbol]);
   
   // Create OSINT icon based on event type
   const createOsintIcon = (eventType: string) => {
-    if (!window.L) return null;
-    
     let html = '';
     
     switch (eventType.toLowerCase()) {
@@ -731,7 +1033,7 @@ const FusionMap: React.FC<FusionMapProps> = ({
                 </div>`;
     }
     
-    return window.L.divIcon({
+    return L.divIcon({
       html: html,
       className: '',
       iconSize: [40, 40],
@@ -747,52 +1049,18 @@ const FusionMap: React.FC<FusionMapProps> = ({
     }
   }, [map, selectedEntity]);
   
-  // Create fusion icon (combined intelligence)
-  const createFusionIcon = () => {
-    if (!window.L) return null;
-    
-    const html = `<div class="flex items-center justify-center h-10 w-10 rounded-full bg-purple-900/90 backdrop-blur-sm border-2 border-purple-700 shadow-lg">
-                    <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="text-purple-300">
-                      <path d="M22 12h-4l-3 9L9 3l-3 9H2"/>
-                    </svg>
-                  </div>`;
-    
-    return window.L.divIcon({
-      html: html,
-      className: '',
-      iconSize: [40, 40],
-      iconAnchor: [20, 20],
-      popupAnchor: [0, -20]
+  // Create fusion icon: the symbol of the best-located source, marked as fused
+  const createFusionIcon = (spec: SymbolSpec, entity: FusedEntity) => {
+    return createSymbolIcon({
+      ...spec,
+      confidence: entity.combinedConfidence,
+      additionalInformation: 'FUSED'
     });
   };
 
-  // Load Leaflet library
+  // Initialize map once the container is mounted
   useEffect(() => {
-    // Check if the Leaflet library is already loaded
-    if (!window.L && !document.getElementById('leaflet-css') && !document.getElementById('leaflet-js')) {
-      // Load Leaflet CSS
-      const linkEl = document.createElement('link');
-      linkEl.id = 'leaflet-css';
-      linkEl.rel = 'stylesheet';
-      linkEl.href = 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/leaflet.css';
-      document.head.appendChild(linkEl);
-      
-      // Load Leaflet JS
-      const scriptEl = document.createElement('script');
-      scriptEl.id = 'leaflet-js';
-      scriptEl.src = 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/leaflet.js';
-      scriptEl.onload = () => setMapLoaded(true);
-      scriptEl.onerror = () => setMapError('Failed to load map library');
-      document.head.appendChild(scriptEl);
-    } else {
-      // Leaflet is already loaded
-      setMapLoaded(window.L !== undefined);
-    }
-  }, []);
-
-  // Initialize map once Leaflet is loaded
-  useEffect(() => {
-    if (!mapLoaded || !window.L || !mapContainerRef.current) return;
+    if (!mapContainerRef.current) return;
     
     try {
       // Initialize custom styles for map
@@ -935,7 +1203,8 @@ const FusionMap: React.FC<FusionMapProps> = ({
       `;
       document.head.appendChild(styleElement);
       
-      let centerCoords = { lat: 49.0, lng: 36.0 }; // Default center (Ukraine)
+      let centerCoords = getAreaOfOperationsCenter(areaOfOperations); // Default center
+      let hasDataCenter = false;
 
       // Try to get coords from HUMINT data
       const humintGeo = extractHumintData();
@@ -944,6 +1213,7 @@ const FusionMap: React.FC<FusionMapProps> = ({
           typeof humintGeo.locations[0].coordinates.latitude === 'number' && 
           typeof humintGeo.locations[0].coordinates.longitude === 'number') {
         centerCoords = toLeafletCoords(humintGeo.locations[0].coordinates);
+        hasDataCenter = true;
       }
 
       // Or try SIGINT data
@@ -952,6 +1222,7 @@ const FusionMap: React.FC<FusionMapProps> = ({
           typeof sigintEmitters[0].coordinates.latitude === 'number' && 
           typeof sigintEmitters[0].coordinates.longitude === 'number') {
         centerCoords = toLeafletCoords(sigintEmitters[0].coordinates);
+        hasDataCenter = true;
       }
 
       // Or try OSINT data
@@ -960,69 +1231,73 @@ const FusionMap: React.FC<FusionMapProps> = ({
           typeof osintEvents[0].coordinates.latitude === 'number' && 
           typeof osintEvents[0].coordinates.longitude === 'number') {
         centerCoords = toLeafletCoords(osintEvents[0].coordinates);
+        hasDataCenter = true;
       }
 
       // Ensure we have valid coordinates no matter what
       if (typeof centerCoords.lat !== 'number' || isNaN(centerCoords.lat) || 
           typeof centerCoords.lng !== 'number' || isNaN(centerCoords.lng)) {
-        centerCoords = { lat: 49.0, lng: 36.0 }; // Fallback to default Ukraine coordinates
+        centerCoords = getAreaOfOperationsCenter(areaOfOperations); // Fallback to the AO centre
+        hasDataCenter = false;
       }
 
       console.log('Map center coordinates:', centerCoords);
 
       // Create map instance with verified coordinates
-      const mapInstance = window.L.map(mapContainerRef.current, {
+      const mapInstance = L.map(mapContainerRef.current, {
         center: [centerCoords.lat, centerCoords.lng],
         zoom: 7,
         minZoom: 3,
-        maxZoom: 18,
-        zoomControl: false
+        maxZoom: activeTileSource.maxZoom,
+        zoomControl: false,
+        preferCanvas: true // Circles, tracks and outlines share one canvas instead of an SVG element each
       });
       
-      // Collection of available basemaps
-      const baseMaps: BaseMaps = {
-        dark: {
-          url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
-          name: 'Dark Tactical',
-          color: '#1a1a1a'
-        },
-        satellite: {
-          url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
-          name: 'Satellite',
-          color: '#143d6b'
-        },
-        terrain: {
-          url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Topo_Map/MapServer/tile/{z}/{y}/{x}',
-          name: 'Terrain',
-          color: '#4e7146'
-        }
-      };
+      // Without data to centre on, open on the whole area of operations
+      if (!hasDataCenter) {
+        const { northEast, southWest } = getAreaOfOperationsBounds(areaOfOperations);
+        mapInstance.fitBounds([southWest, northEast], { padding: [20, 20] });
+      }
       
       // Initialize layer groups
-      layerGroups.current.base = window.L.layerGroup().addTo(mapInstance);
-      layerGroups.current.grid = window.L.layerGroup().addTo(mapInstance);
-      layerGroups.current.humint = window.L.layerGroup().addTo(mapInstance);
-      layerGroups.current.sigint = window.L.layerGroup().addTo(mapInstance);
-      layerGroups.current.osint = window.L.layerGroup().addTo(mapInstance);
-      layerGroups.current.fusion = window.L.layerGroup().addTo(mapInstance);
-      layerGroups.current.correlation = window.L.layerGroup().addTo(mapInstance);
+      layerGroups.current.base = L.layerGroup().addTo(mapInstance);
+      layerGroups.current.grid = L.layerGroup().addTo(mapInstance);
+      layerGroups.current.areaOfOperations = L.layerGroup().addTo(mapInstance);
+      layerGroups.current.zones = L.layerGroup().addTo(mapInstance);
+      layerGroups.current.heatmap = L.layerGroup().addTo(mapInstance);
+      layerGroups.current.coverage = L.layerGroup().addTo(mapInstance);
+      layerGroups.current.sensors = L.layerGroup().addTo(mapInstance);
+      layerGroups.current.humint = L.layerGroup().addTo(mapInstance);
+      layerGroups.current.sigint = L.layerGroup().addTo(mapInstance);
+      layerGroups.current.osint = L.layerGroup().addTo(mapInstance);
+      layerGroups.current.fusion = L.layerGroup().addTo(mapInstance);
+      layerGroups.current.correlation = L.layerGroup().addTo(mapInstance);
+      layerGroups.current.graphics = L.layerGroup().addTo(mapInstance);
+      layerGroups.current.measurement = L.layerGroup().addTo(mapInstance);
+      layerGroups.current.focusArea = L.layerGroup().addTo(mapInstance);
+      layerGroups.current.bearings = L.layerGroup().addTo(mapInstance);
       
       // Add base layer
-      const baseLayer = window.L.tileLayer(baseMaps[activeBaseMap].url, {
-        attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
-        maxZoom: 19,
-        opacity: 0.9
-      }).addTo(layerGroups.current.base);
+      createTileLayer(activeTileSource, { opacity: 0.9 }).addTo(layerGroups.current.base);
+      
+      // Outline the area of operations
+      L.polygon(areaOfOperations.polygon, {
+        color: 'rgba(250, 204, 21, 0.6)',
+        fill: false,
+        weight: 1.5,
+        dashArray: '10, 6',
+        interactive: false
+      }).addTo(layerGroups.current.areaOfOperations);
       
       // Add mouse coordinate tracking overlay
       const coordinateOverlay = document.createElement('div');
       coordinateOverlay.className = 'coordinate-overlay';
-      coordinateOverlay.innerHTML = 'COORD: --°N, --°E';
+      coordinateOverlay.innerHTML = 'COORD: --, --';
       mapContainerRef.current.appendChild(coordinateOverlay);
       
       mapInstance.on('mousemove', (e: any) => {
         const { lat, lng } = e.latlng;
-        coordinateOverlay.innerHTML = `COORD: ${lat.toFixed(4)}°N, ${lng.toFixed(4)}°E`;
+        coordinateOverlay.innerHTML = `COORD: ${formatLatLng(lat, lng)}`;
       });
       
       // Initial grid draw if enabled
@@ -1038,7 +1313,7 @@ const FusionMap: React.FC<FusionMapProps> = ({
       });
       
       // Add zoom control
-      window.L.control.zoom({
+      L.control.zoom({
         position: 'topright'
       }).addTo(mapInstance);
       
@@ -1058,44 +1333,68 @@ const FusionMap: React.FC<FusionMapProps> = ({
       console.error('Error initializing map:', error);
       setMapError(`Failed to initialize map: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-  }, [mapLoaded, extractHumintData, extractSigintData, extractOsintData, activeBaseMap, gridEnabled]);
+  }, [extractHumintData, extractSigintData, extractOsintData, activeTileSource, gridEnabled, areaOfOperations, toLeafletCoords]);
   
-  // Toggle base map function
-  const handleBaseMapChange = (mapId: string) => {
-    if (!map || !window.L) return;
-    
-    // Clear the current base layer
-    layerGroups.current.base.clearLayers();
+  const handleCloseAreaOfOperations = useCallback(() => setShowAreaOfOperations(false), []);
+  const handleCloseCorrelationSettings = useCallback(() => setShowCorrelationSettings(false), []);
+  
+  const handleCorrelationSettingsChange = (settings: CorrelationSettings | null) => {
+    if (settings) {
+      saveCorrelationSettings(settings);
+    } else {
+      clearCorrelationSettings();
+    }
+    setCorrelationSettings(loadCorrelationSettings());
+  };
+  
+  const handleHeatmapSettingsChange = (changes: Partial<HeatmapSettings>) => {
+    const settings = { ...heatmapSettings, ...changes };
+    saveHeatmapSettings(settings);
+    setHeatmapSettings(settings);
+  };
+  
+  // Current map extent, used to define the AO from what the analyst is looking at
+  const getCurrentViewBounds = (): AreaOfOperationsBounds | null => {
+    if (!map) return null;
     
-    // Add new base layer
-    const baseMaps: BaseMaps = {
-      dark: {
-        url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
-        name: 'Dark Tactical',
-        color: '#1a1a1a'
-      },
-      satellite: {
-        url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
-        name: 'Satellite',
-        color: '#143d6b'
-      },
-      terrain: {
-        url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Topo_Map/MapServer/tile/{z}/{y}/{x}',
-        name: 'Terrain',
-        color: '#4e7146'
-      }
+    const bounds = map.getBounds();
+    return {
+      northEast: [bounds.getNorth(), bounds.getEast()],
+      southWest: [bounds.getSouth(), bounds.getWest()]
     };
+  };
+  
+  // Toggle base map function
+  const handleBaseMapChange = (sourceId: string) => {
+    if (!map) return;
     
-    window.L.tileLayer(baseMaps[mapId]?.url || baseMaps.dark.url, {
-      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
-      maxZoom: 19,
-      opacity: 0.9
-    }).addTo(layerGroups.current.base);
+    const source = tileSources.find(candidate => candidate.id === sourceId) || BUILT_IN_TILE_SOURCES[0];
     
-    setActiveBaseMap(mapId);
+    // Replace the current base layer
+    layerGroups.current.base.clearLayers();
+    createTileLayer(source, { opacity: 0.9 }).addTo(layerGroups.current.base);
+    map.setMaxZoom(source.maxZoom);
+    
+    saveActiveTileSourceId(source.id);
+    setActiveBaseMap(source.id);
     setShowBasemapSelector(false);
   };
   
+  const handleCloseTileSources = useCallback(() => setShowTileSources(false), []);
+  const handleCloseSystemCatalogue = useCallback(() => setShowSystemCatalogue(false), []);
+  const handleCloseSensorRegistry = useCallback(() => setShowSensorRegistry(false), []);
+  
+  const handleTileSourcesSave = (sources: TileSource[]) => {
+    saveCustomTileSources(sources);
+    setCustomTileSources(sources);
+    
+    // Fall back to the default map if the active source was removed
+    if (activeTileSource.origin === 'custom' && !sources.some(source => source.id === activeTileSource.id)) {
+      saveActiveTileSourceId(DEFAULT_TILE_SOURCE_ID);
+      setActiveBaseMap(DEFAULT_TILE_SOURCE_ID);
+    }
+  };
+  
   // Toggle grid visibility
   const handleGridToggle = () => {
     if (!map) return;
@@ -1111,8 +1410,208 @@ const FusionMap: React.FC<FusionMapProps> = ({
     }
   };
   
+  // Entities a measurement can be attached to, with the IDs their markers use
+  const measurementEntities = useMemo((): MeasurementEntity[] => {
+    const humintGeo = extractHumintData();
+    const humintEntities = (['location', 'observation', 'movement'] as const).flatMap(kind =>
+      humintGeo[`${kind}s`].map((entry, index) => ({
+        id: `${kind}-${index}`,
+        label: entry.name || kind,
+        latitude: entry.coordinates.latitude,
+        longitude: entry.coordinates.longitude
+      }))
+    );
+    
+    return [
+      ...humintEntities,
+      ...extractSigintData().map(emitter => ({
+        id: emitter.id,
+        label: emitter.classification || emitter.id,
+        latitude: emitter.coordinates.latitude,
+        longitude: emitter.coordinates.longitude
+      })),
+      ...extractOsintData().map(event => ({
+        id: event.id,
+        label: event.title || event.id,
+        latitude: event.coordinates.latitude,
+        longitude: event.coordinates.longitude
+      }))
+    ];
+  }, [extractHumintData, extractSigintData, extractOsintData]);
+  
+  const handleAddMeasurementPoint = useCallback((point: MeasurementPoint) => {
+    setMeasurementPoints(points => [...points, point]);
+  }, []);
+  
+  const handleMeasurementModeChange = (mode: MeasurementMode) => {
+    setMeasurementMode(mode);
+    setMeasurementPoints([]);
+  };
+  
+  // HUMINT markers are numbered by extraction order; their notes use IDs that survive re-extraction
+  const handleAttachNote = (entityId: string, text: string) => {
+    const humintMatch = entityId.match(/^(location|observation|movement)-(\d+)$/);
+    const humintEntry = humintMatch
+      ? extractHumintData()[`${humintMatch[1] as 'location' | 'observation' | 'movement'}s`][parseInt(humintMatch[2])]
+      : undefined;
+    const notes = addEntityNote(entityNotes, humintEntry ? humintNoteId(humintMatch![1], humintEntry) : entityId, text);
+    setEntityNotes(notes);
+    
+    if (!humintData?.analysisId) return;
+    try {
+      saveEntityNotes(humintData.analysisId, notes);
+    } catch (error) {
+      console.error('Failed to save entity notes:', error);
+      toast.error('Unable to save the note');
+    }
+  };
+  
+  const handleStartGraphic = (kind: TacticalGraphicKind) => {
+    setGraphicDrawing({ kind, points: [] });
+    setSelectedGraphicId(null);
+    
+    if (!visibleLayers.includes('graphics')) {
+      handleLayerToggle('graphics');
+    }
+  };
+  
+  const handleFinishGraphic = useCallback((drawing: GraphicDrawing) => {
+    const graphic = createTacticalGraphic(drawing.kind, drawing.points, tacticalGraphics);
+    onTacticalGraphicsChange?.([...tacticalGraphics, graphic]);
+    setGraphicDrawing(null);
+    setSelectedGraphicId(graphic.id);
+  }, [tacticalGraphics, onTacticalGraphicsChange]);
+  
+  // Clicking a graphic on the map opens it in the editor
+  const handleSelectGraphic = useCallback((graphicId: string) => {
+    setShowTacticalGraphics(true);
+    setShowTimeControl(false);
+    setSelectedGraphicId(graphicId);
+  }, []);
+  
+  const handleUpdateGraphic = (graphicId: string, changes: Partial<TacticalGraphic>) => {
+    onTacticalGraphicsChange?.(tacticalGraphics.map(graphic =>
+      graphic.id === graphicId ? { ...graphic, ...changes } : graphic
+    ));
+  };
+  
+  const handleDeleteGraphic = (graphicId: string) => {
+    onTacticalGraphicsChange?.(tacticalGraphics.filter(graphic => graphic.id !== graphicId));
+    setSelectedGraphicId(null);
+  };
+  
+  const handleCloseTacticalGraphics = () => {
+    setShowTacticalGraphics(false);
+    setGraphicDrawing(null);
+  };
+  
+  const handleFocusAreaShapeChange = (shape: FocusAreaShape) => {
+    setFocusAreaShape(shape);
+    setFocusAreaPoints([]);
+  };
+  
+  const handleRunScopedFusion = () => {
+    const focusArea = createFocusArea(focusAreaShape, focusAreaPoints);
+    if (focusArea) {
+      onRunFusion?.(focusArea);
+    }
+  };
+  
+  // Zones with drawable boundaries and the front line between them
+  const {
+    zones: controlZones,
+    colors: controlZoneColors,
+    frontLine,
+    earlierFrontLines,
+    compareSnapshot,
+    setCompareSnapshotId,
+    frontLineMovement
+  } = useControlZones(humintData?.intelligence?.controlZones, humintData?.analysisId);
+  
+  // Reports feeding the threat heatmap as they stood at the replay time: HUMINT
+  // threats weighted by severity and immediacy, emitters by what they can do and
+  // OSINT events by confidence
+  const heatSources = useMemo((): HeatSource[] => {
+    const threats = humintData
+      ? processHumintEntities(humintData, gazetteer, areaOfOperations).filter(entity => entity.type === 'threat')
+      : [];
+    
+    const threatSources = threats.flatMap((threat): HeatSource[] => {
+      // Threats not placed through the gazetteer may still give coordinates in their text
+      const coordinates = threat.location?.coordinates ||
+        findCoordinatesInText(`${threat.location?.name || ''} ${threat.description || ''}`)[0];
+      if (!coordinates || !isVisibleAt(threat.timestamp, currentTime)) return [];
+      
+      return [{
+        kind: 'threat',
+        latitude: coordinates.latitude,
+        longitude: coordinates.longitude,
+        weight: threatWeight(threat),
+        timestamp: threat.timestamp
+      }];
+    });
+    
+    const emitterSources = emittersAtTime.map((emitter): HeatSource => ({
+      kind: 'emitter',
+      latitude: emitter.coordinates.latitude,
+      longitude: emitter.coordinates.longitude,
+      weight: emitterWeight(emitter.classification),
+      timestamp: emitter.timestamp
+    }));
+    
+    const eventSources = extractOsintData()
+      .filter(event => isVisibleAt(event.timestamp, currentTime))
+      .map((event): HeatSource => ({
+        kind: 'event',
+        latitude: event.coordinates.latitude,
+        longitude: event.coordinates.longitude,
+        weight: eventWeight(event.confidence),
+        timestamp: event.timestamp
+      }));
+    
+    return [...threatSources, ...emitterSources, ...eventSources];
+  }, [humintData, gazetteer, areaOfOperations, currentTime, emittersAtTime, extractOsintData]);
+  
+  // Air defence radars in the EOB, with the range of their system
+  const airDefenseElements = useMemo(
+    () => sigintData?.electronicOrderOfBattle?.airDefenseElements || [],
+    [sigintData]
+  );
+  const coverageElements = useMemo(
+    () => coverageElementsFromEob(airDefenseElements, systemCatalogue),
+    [airDefenseElements, systemCatalogue]
+  );
+  
+  // Terrain-limited coverage is computed on the backend, and only while the layer is shown
+  const isCoverageVisible = visibleLayers.includes('coverage');
+  useEffect(() => {
+    if (!isCoverageVisible || coverageElements.length === 0) {
+      setRadarCoverage([]);
+      setCoverageStatus('idle');
+      return;
+    }
+    
+    let cancelled = false;
+    setCoverageStatus('loading');
+    
+    loadRadarCoverage(coverageElements, coverageTargetAltitude).then(coverage => {
+      if (cancelled) return;
+      setRadarCoverage(coverage || []);
+      setCoverageStatus(coverage ? 'idle' : 'error');
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [isCoverageVisible, coverageElements, coverageTargetAltitude]);
+  
+  // A new focus-area run is shown as soon as it arrives
+  useEffect(() => {
+    setShowScopedFusion(!!scopedFusionData);
+  }, [scopedFusionData]);
+  
   // Handle entity selection
-  const handleEntityClick = (entityId: string, type: 'humint' | 'sigint' | 'osint' | 'fusion') => {
+  const handleEntityClick = useCallback((entityId: string, type: 'humint' | 'sigint' | 'osint' | 'fusion') => {
     // Find entity data based on type and ID
     let entityData = null;
     let entityType: 'humint' | 'sigint' | 'osint' | 'fusion' | 'threat' | 'location' | 'prediction' = type;
@@ -1199,7 +1698,15 @@ const FusionMap: React.FC<FusionMapProps> = ({
     if (onMarkerClick) {
       onMarkerClick(entityId, type);
     }
-  };
+  }, [humintData, sigintData, osintData, fusionData, onMarkerClick]);
+  
+  const handleEmitterClick = useCallback((emitterId: string) => {
+    handleEntityClick(emitterId, 'sigint');
+  }, [handleEntityClick]);
+  
+  const handleShowEmitterDetails = useCallback((emitterId: string) => {
+    setDetailEmitterId(emitterId);
+  }, []);
   
   // Close entity popup
   const handleClosePopup = () => {
@@ -1215,7 +1722,7 @@ const FusionMap: React.FC<FusionMapProps> = ({
   
   // Draw grid function
   const drawGrid = (map: any, layerGroup: any) => {
-    if (!map || !window.L || !layerGroup) return;
+    if (!map || !layerGroup) return;
     
     layerGroup.clearLayers();
     
@@ -1248,7 +1755,7 @@ const FusionMap: React.FC<FusionMapProps> = ({
     
     // Horizontal lines (latitude)
     for (let lat = startLat; lat <= endLat; lat += gridSize) {
-      const line = window.L.polyline([[lat, sw.lng], [lat, ne.lng]], {
+      const line = L.polyline([[lat, sw.lng], [lat, ne.lng]], {
         color: 'rgba(255, 255, 255, 0.15)',
         weight: 1,
         dashArray: '5, 5',
@@ -1256,9 +1763,9 @@ const FusionMap: React.FC<FusionMapProps> = ({
       }).addTo(layerGroup);
       
       // Add lat label on the left
-      const label = window.L.marker([lat, sw.lng], {
-        icon: window.L.divIcon({
-          html: `<div>${lat.toFixed(2)}°N</div>`,
+      const label = L.marker([lat, sw.lng], {
+        icon: L.divIcon({
+          html: `<div>${formatLatitude(lat, 2)}</div>`,
           className: 'grid-label',
           iconSize: [60, 20],
           iconAnchor: [0, 10]
@@ -1269,7 +1776,7 @@ const FusionMap: React.FC<FusionMapProps> = ({
     
     // Vertical lines (longitude)
     for (let lng = startLng; lng <= endLng; lng += gridSize) {
-      const line = window.L.polyline([[sw.lat, lng], [ne.lat, lng]], {
+      const line = L.polyline([[sw.lat, lng], [ne.lat, lng]], {
         color: 'rgba(255, 255, 255, 0.15)',
         weight: 1,
         dashArray: '5, 5',
@@ -1277,9 +1784,9 @@ const FusionMap: React.FC<FusionMapProps> = ({
       }).addTo(layerGroup);
       
       // Add lng label at the bottom
-      const label = window.L.marker([sw.lat, lng], {
-        icon: window.L.divIcon({
-          html: `<div>${lng.toFixed(2)}°E</div>`,
+      const label = L.marker([sw.lat, lng], {
+        icon: L.divIcon({
+          html: `<div>${formatLongitude(lng, 2)}</div>`,
           className: 'grid-label',
           iconSize: [60, 20],
           iconAnchor: [30, -5]
@@ -1289,73 +1796,354 @@ const FusionMap: React.FC<FusionMapProps> = ({
     }
   };
   
-  // Update HUMINT markers when data or visibility changes
+  // Draw the area each air defence radar can see; coverage without elevation data
+  // is dashed since it ignores terrain
   useEffect(() => {
-    if (!map || !window.L || !layerGroups.current.humint) return;
+    const group = layerGroups.current.coverage;
+    if (!map || !group) return;
     
-    // Clear existing HUMINT markers
-    layerGroups.current.humint.clearLayers();
+    group.clearLayers();
+    if (!visibleLayers.includes('coverage')) return;
     
-    // If HUMINT layer is not visible, return early
-    if (!visibleLayers.includes('humint')) return;
+    radarCoverage.forEach(coverage => {
+      const element = airDefenseElements.find(candidate => candidate.id === coverage.id);
+      const system = findCatalogueSystem(systemCatalogue, element?.systemName);
+      
+      // System names come from the SIGINT analysis, so they are set as text
+      const content = document.createElement('div');
+      [
+        element?.systemName || 'Air defence radar',
+        ...describeRadarCoverage(coverage),
+        ...(system ? describeCatalogueSystem(system) : [])
+      ].forEach((line, index) => {
+        const row = document.createElement('div');
+        row.textContent = line;
+        if (index === 0) row.style.fontWeight = '600';
+        content.appendChild(row);
+      });
+      
+      L.polygon(coverage.polygon, {
+        color: '#f43f5e',
+        weight: 1.5,
+        fillColor: '#f43f5e',
+        fillOpacity: 0.08,
+        dashArray: coverage.terrainAware ? undefined : '6, 4'
+      })
+        .bindTooltip(content, { sticky: true })
+        .addTo(group);
+    });
+  }, [map, visibleLayers, radarCoverage, airDefenseElements, systemCatalogue]);
+  
+  // Intercept coverage of our sensors is computed on the backend like radar coverage,
+  // again when the registry changes
+  const isSensorLayerVisible = visibleLayers.includes('sensors');
+  useEffect(() => {
+    if (!isSensorLayerVisible || sensors.length === 0) {
+      setSensorCoverage([]);
+      setSensorCoverageStatus('idle');
+      return;
+    }
     
-    const humintGeo = extractHumintData();
+    let cancelled = false;
+    setSensorCoverageStatus('loading');
     
-    // Add HUMINT location markers
-    if (humintGeo.locations && humintGeo.locations.length > 0) {
-      humintGeo.locations.forEach((location, index) => {
-        if (!location.coordinates) return;
-        
-        const coords = toLeafletCoords(location.coordinates);
-        
-        // Skip invalid coordinates
-        if (!isValidCoordinate(coords)) {
-          console.warn('Invalid HUMINT location coordinates, skipping marker:', location);
-          return;
-        }
-        
-        const icon = createHumintIcon('location');
-        if (!icon) return;
-        
-        const marker = window.L.marker(coords, { icon }).addTo(layerGroups.current.humint);
-        
-        // Add pulse effect circle
-        const pulseOptions = {
-          color: 'rgba(59, 130, 246, 0.4)',
-          fillColor: 'rgba(59, 130, 246, 0.1)',
-          fillOpacity: 0.5,
-          radius: 150,
-          weight: 1
-        };
+    loadSensorCoverage(sensorEmitterAltitude).then(coverage => {
+      if (cancelled) return;
+      setSensorCoverage(coverage || []);
+      setSensorCoverageStatus(coverage ? 'idle' : 'error');
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [isSensorLayerVisible, sensors, sensorEmitterAltitude]);
+  
+  const activeSensorCount = sensors.filter(sensor => sensor.status !== 'offline').length;
+  
+  // Emitters each receiver has contributed fixes for, to show the load on each sensor
+  const sensorContributions = useMemo(() => {
+    const counts: Record<string, number> = {};
+    extractSigintData().forEach(emitter => {
+      new Set(emitter.receiverFixes.flatMap(fix => fix.receiverIds)).forEach(id => {
+        counts[id] = (counts[id] || 0) + 1;
+      });
+    });
+    return counts;
+  }, [extractSigintData]);
+  
+  // Draw our sensors with the area each can intercept; gaps between them are blind areas
+  useEffect(() => {
+    const group = layerGroups.current.sensors;
+    if (!map || !group) return;
+    
+    group.clearLayers();
+    if (!visibleLayers.includes('sensors')) return;
+    
+    sensorCoverage.forEach(coverage => {
+      const sensor = sensors.find(candidate => candidate.id === coverage.id);
+      if (!sensor) return;
+      
+      const color = sensorStatusColor(sensor.status);
+      L.polygon(coverage.polygon, {
+        color,
+        weight: 1,
+        fillColor: color,
+        fillOpacity: 0.07,
+        dashArray: coverage.terrainAware ? undefined : '6, 4',
+        interactive: false
+      }).addTo(group);
+    });
+    
+    sensors.forEach(sensor => {
+      const coverage = sensorCoverage.find(candidate => candidate.id === sensor.id);
+      const contributions = sensorContributions[sensor.id] || 0;
+      
+      // Names and notes are typed in by users, so they are set as text
+      const content = document.createElement('div');
+      [
+        sensor.name,
+        ...describeSensor(sensor, coverage),
+        contributions > 0
+          ? `Contributed to fixes on ${contributions} emitter${contributions === 1 ? '' : 's'}`
+          : 'No intercepts in the loaded SIGINT'
+      ].forEach((line, index) => {
+        const row = document.createElement('div');
+        row.textContent = line;
+        if (index === 0) row.style.fontWeight = '600';
+        content.appendChild(row);
+      });
+      
+      L.circleMarker([sensor.latitude, sensor.longitude], {
+        radius: 6,
+        color: '#0f172a',
+        fillColor: sensorStatusColor(sensor.status),
+        fillOpacity: 1,
+        weight: 2
+      })
+        .bindTooltip(content)
+        .addTo(group);
+    });
+  }, [map, visibleLayers, sensors, sensorCoverage, sensorContributions]);
+  
+  // While the focus area panel is open, map clicks place its corners; a third
+  // click on a finished rectangle starts a new one
+  useEffect(() => {
+    if (!map || !showFocusArea) return;
+    
+    const handleClick = (e: LeafletMouseEvent) => {
+      const point: [number, number] = [e.latlng.lat, e.latlng.lng];
+      setFocusAreaPoints(points =>
+        focusAreaShape === 'rectangle' && points.length === 2 ? [point] : [...points, point]);
+    };
+    
+    map.on('click', handleClick);
+    map.doubleClickZoom.disable();
+    map.getContainer().style.cursor = 'crosshair';
+    
+    return () => {
+      map.off('click', handleClick);
+      map.doubleClickZoom.enable();
+      map.getContainer().style.cursor = '';
+    };
+  }, [map, showFocusArea, focusAreaShape]);
+  
+  // Draw the focus area being edited and the area of the run on display
+  useEffect(() => {
+    const group = layerGroups.current.focusArea;
+    if (!map || !group) return;
+    
+    group.clearLayers();
+    
+    if (showScopedFusion && scopedFocusArea) {
+      const { northEast, southWest, polygon } = scopedFocusArea;
+      const outline = polygon || focusAreaOutline('rectangle', [northEast, southWest]);
+      L.polygon(outline, {
+        color: '#22d3ee',
+        weight: 2,
+        fillColor: '#22d3ee',
+        fillOpacity: 0.05,
+        interactive: false
+      }).bindTooltip('Fusion focus area', { sticky: true }).addTo(group);
+    }
+    
+    if (!showFocusArea || focusAreaPoints.length === 0) return;
+    
+    const outline = focusAreaOutline(focusAreaShape, focusAreaPoints);
+    const drawOptions = { color: '#22d3ee', weight: 2, dashArray: '6, 4', interactive: false };
+    
+    if (isFocusAreaComplete(focusAreaShape, focusAreaPoints)) {
+      L.polygon(outline, { ...drawOptions, fillColor: '#22d3ee', fillOpacity: 0.1 }).addTo(group);
+    } else {
+      L.polyline(outline, drawOptions).addTo(group);
+    }
+    
+    focusAreaPoints.forEach(point => {
+      L.circleMarker(point, { radius: 4, color: '#22d3ee', fillColor: '#111827', fillOpacity: 1, weight: 2, interactive: false }).addTo(group);
+    });
+  }, [map, showFocusArea, focusAreaShape, focusAreaPoints, showScopedFusion, scopedFocusArea]);
+  
+  // Draw the lines of bearing of the selected emitter with the fix they give
+  useEffect(() => {
+    const group = layerGroups.current.bearings;
+    if (!map || !group) return;
+    
+    group.clearLayers();
+    if (!bearingFix) return;
+    
+    const lineEndFix = directionFindingFix || bearingFix;
+    
+    bearingFix.bearings.forEach(bearing => {
+      const included = !excludedBearings.includes(bearing.signalId);
+      const receiver: [number, number] = [bearing.receiverLocation.lat, bearing.receiverLocation.lng];
+      const label = `${bearing.receiverId || bearing.signalId}: ${bearing.bearing.toFixed(1)}°`;
+      
+      L.polyline([receiver, bearingLineEnd(bearing, lineEndFix)], {
+        color: included ? '#a78bfa' : '#6b7280',
+        weight: included ? 2 : 1,
+        opacity: included ? 0.9 : 0.6,
+        dashArray: included ? undefined : '4, 6'
+      })
+        .bindTooltip(`${label} (click to ${included ? 'leave out' : 'include'})`, { sticky: true })
+        .on('click', () => handleToggleBearing(bearing.signalId))
+        .addTo(group);
+      
+      L.circleMarker(receiver, {
+        radius: 5,
+        color: '#a78bfa',
+        fillColor: included ? '#4c1d95' : '#111827',
+        fillOpacity: 1,
+        weight: 2
+      })
+        .bindTooltip(label)
+        .addTo(group);
+    });
+    
+    if (!directionFindingFix) return;
+    
+    if (directionFindingFix.intersectionPolygon.length >= 3) {
+      L.polygon(directionFindingFix.intersectionPolygon, {
+        color: '#c4b5fd',
+        weight: 1,
+        fillColor: '#a78bfa',
+        fillOpacity: 0.2,
+        interactive: false
+      }).addTo(group);
+    }
+    
+    directionFindingFix.intersections.forEach(point => {
+      L.circleMarker(point, { radius: 2, color: '#c4b5fd', fillColor: '#c4b5fd', fillOpacity: 1, weight: 1, interactive: false }).addTo(group);
+    });
+    
+    L.polygon(ellipsePolygon(directionFindingFix.latitude, directionFindingFix.longitude, directionFindingFix.ellipse), {
+      color: '#f0abfc',
+      weight: 1.5,
+      dashArray: '5, 4',
+      fill: false,
+      interactive: false
+    }).addTo(group);
+    
+    L.circleMarker([directionFindingFix.latitude, directionFindingFix.longitude], {
+      radius: 4,
+      color: '#f0abfc',
+      fillColor: '#f0abfc',
+      fillOpacity: 1,
+      weight: 1
+    })
+      .bindTooltip(`Fix from ${directionFindingFix.bearingCount} bearings, 95% ellipse ` +
+        `${formatDistance(directionFindingFix.ellipse.semiMajorAxis)} × ${formatDistance(directionFindingFix.ellipse.semiMinorAxis)}`)
+      .addTo(group);
+  }, [map, bearingFix, directionFindingFix, excludedBearings, handleToggleBearing]);
+  
+  // Update HUMINT markers when data or visibility changes
+  useEffect(() => {
+    if (!map || !layerGroups.current.humint) return;
+    
+    // Clear existing HUMINT markers
+    layerGroups.current.humint.clearLayers();
+    
+    // If HUMINT layer is not visible, return early
+    if (!visibleLayers.includes('humint')) return;
+    
+    const humintGeo = extractHumintData();
+    
+    // Point markers are clustered; circles and arrows stay in the layer group
+    const markers = createMarkerClusterGroup();
+    
+    // Relative positions get an uncertainty ellipse instead of the fixed pulse and range circles
+    const addUncertaintyEllipse = (coords: Coordinates, entry: ExtractedHumintLocation): boolean => {
+      if (!entry.uncertaintyEllipse) return false;
+      
+      L.polygon(ellipsePolygon(coords.lat, coords.lng, entry.uncertaintyEllipse), {
+        color: 'rgba(59, 130, 246, 0.4)',
+        fillColor: 'rgba(59, 130, 246, 0.1)',
+        fillOpacity: 0.3,
+        weight: 1,
+        dashArray: '5, 5',
+        interactive: false
+      }).addTo(layerGroups.current.humint);
+      
+      return true;
+    };
+    
+    // Add HUMINT location markers
+    if (humintGeo.locations && humintGeo.locations.length > 0) {
+      humintGeo.locations.forEach((location, index) => {
+        if (!location.coordinates || !isVisibleAt(location.timestamp, currentTime)) return;
         
-        const pulseCircle = window.L.circle(coords, pulseOptions).addTo(layerGroups.current.humint);
+        const coords = toLeafletCoords(location.coordinates);
         
-        // Add range circle
-        const rangeOptions = {
-          color: 'rgba(59, 130, 246, 0.2)',
-          fillColor: 'transparent',
-          radius: 500,
-          weight: 1,
-          dashArray: '5, 5'
-        };
+        // Skip invalid coordinates
+        if (!isValidCoordinate(coords)) {
+          console.warn('Invalid HUMINT location coordinates, skipping marker:', location);
+          return;
+        }
+        
+        const icon = createHumintIcon('location', location);
+        if (!icon) return;
+        
+        const marker = describeClusterMarker(L.marker(coords, { icon }), 'location').addTo(markers);
+        
+        if (!addUncertaintyEllipse(coords, location)) {
+          // Add pulse effect circle
+          const pulseOptions = {
+            color: 'rgba(59, 130, 246, 0.4)',
+            fillColor: 'rgba(59, 130, 246, 0.1)',
+            fillOpacity: 0.5,
+            radius: 150,
+            weight: 1
+          };
         
-        const rangeCircle = window.L.circle(coords, rangeOptions).addTo(layerGroups.current.humint);
+          const pulseCircle = L.circle(coords, pulseOptions).addTo(layerGroups.current.humint);
+        
+          // Add uncertainty circle sized by the precision of the reported coordinate
+          const rangeOptions = {
+            color: 'rgba(59, 130, 246, 0.2)',
+            fillColor: 'transparent',
+            radius: location.uncertainty || 500,
+            weight: 1,
+            dashArray: '5, 5'
+          };
+        
+          const rangeCircle = L.circle(coords, rangeOptions).addTo(layerGroups.current.humint);
+        }
         
         // Add military-style popup
         const popupContent = `
           <div class="p-3">
             <h3 class="font-bold text-sm text-white mb-1 border-b border-gray-600 pb-1">${location.name || 'Location'}</h3>
             ${location.description ? `<p class="text-xs mt-2 text-gray-300">${location.description}</p>` : ''}
+            ${location.gridReference ? `<div class="text-xs mt-2 text-gray-400">Ref: <span class="font-mono text-gray-200">${location.gridReference}</span>${location.uncertainty ? ` <span class="text-gray-400">(${formatUncertainty(location.uncertainty)})</span>` : ''}</div>` : ''}
+            ${entityNotesHtml(entityNotes[humintNoteId('location', location)])}
             <div class="flex justify-between mt-2 pt-1 border-t border-gray-600">
               <div class="text-xs text-gray-300">
-                <span class="font-mono">${coords.lat.toFixed(5)}°N, ${coords.lng.toFixed(5)}°E</span>
+                <span class="font-mono">${formatLatLng(coords.lat, coords.lng, 5)}</span>
               </div>
               <div class="text-xs px-1.5 py-0.5 rounded bg-blue-900/30 text-blue-300">HUMINT</div>
             </div>
           </div>
         `;
         
-        const popup = window.L.popup({
+        const popup = L.popup({
           className: 'military-popup',
           closeButton: false,
           maxWidth: 250
@@ -1372,52 +2160,56 @@ const FusionMap: React.FC<FusionMapProps> = ({
     // Add HUMINT observation markers
     if (humintGeo.observations && humintGeo.observations.length > 0) {
       humintGeo.observations.forEach((observation, index) => {
-        if (!observation.coordinates) return;
+        if (!observation.coordinates || !isVisibleAt(observation.timestamp, currentTime)) return;
         
         const coords = toLeafletCoords(observation.coordinates);
-        const icon = createHumintIcon('observation');
+        const icon = createHumintIcon('observation', observation);
         
         if (!icon) return;
         
-        const marker = window.L.marker(coords, { icon }).addTo(layerGroups.current.humint);
+        const marker = describeClusterMarker(L.marker(coords, { icon }), 'observation').addTo(markers);
         
-        // Add pulse effect circle
-        const pulseOptions = {
-          color: 'rgba(59, 130, 246, 0.4)',
-          fillColor: 'rgba(59, 130, 246, 0.1)',
-          fillOpacity: 0.5,
-          radius: 150,
-          weight: 1
-        };
+        if (!addUncertaintyEllipse(coords, observation)) {
+          // Add pulse effect circle
+          const pulseOptions = {
+            color: 'rgba(59, 130, 246, 0.4)',
+            fillColor: 'rgba(59, 130, 246, 0.1)',
+            fillOpacity: 0.5,
+            radius: 150,
+            weight: 1
+          };
         
-        const pulseCircle = window.L.circle(coords, pulseOptions).addTo(layerGroups.current.humint);
+          const pulseCircle = L.circle(coords, pulseOptions).addTo(layerGroups.current.humint);
         
-        // Add range circle (larger for observation)
-        const rangeOptions = {
-          color: 'rgba(59, 130, 246, 0.2)',
-          fillColor: 'transparent',
-          radius: 1000,
-          weight: 1,
-          dashArray: '5, 5'
-        };
+          // Add uncertainty circle (wider default for observations without a stated precision)
+          const rangeOptions = {
+            color: 'rgba(59, 130, 246, 0.2)',
+            fillColor: 'transparent',
+            radius: observation.uncertainty || 1000,
+            weight: 1,
+            dashArray: '5, 5'
+          };
         
-        const rangeCircle = window.L.circle(coords, rangeOptions).addTo(layerGroups.current.humint);
+          const rangeCircle = L.circle(coords, rangeOptions).addTo(layerGroups.current.humint);
+        }
         
         // Add military-style popup
         const popupContent = `
           <div class="p-3">
             <h3 class="font-bold text-sm text-white mb-1 border-b border-gray-600 pb-1">${observation.name || 'Observation'}</h3>
             ${observation.description ? `<p class="text-xs mt-2 text-gray-300">${observation.description}</p>` : ''}
+            ${observation.gridReference ? `<div class="text-xs mt-2 text-gray-400">Ref: <span class="font-mono text-gray-200">${observation.gridReference}</span>${observation.uncertainty ? ` <span class="text-gray-400">(${formatUncertainty(observation.uncertainty)})</span>` : ''}</div>` : ''}
+            ${entityNotesHtml(entityNotes[humintNoteId('observation', observation)])}
             <div class="flex justify-between mt-2 pt-1 border-t border-gray-600">
               <div class="text-xs text-gray-300">
-                <span class="font-mono">${coords.lat.toFixed(5)}°N, ${coords.lng.toFixed(5)}°E</span>
+                <span class="font-mono">${formatLatLng(coords.lat, coords.lng, 5)}</span>
               </div>
               <div class="text-xs px-1.5 py-0.5 rounded bg-blue-900/30 text-blue-300">HUMINT</div>
             </div>
           </div>
         `;
         
-        const popup = window.L.popup({
+        const popup = L.popup({
           className: 'military-popup',
           closeButton: false,
           maxWidth: 250
@@ -1434,30 +2226,34 @@ const FusionMap: React.FC<FusionMapProps> = ({
     // Add HUMINT movement markers
     if (humintGeo.movements && humintGeo.movements.length > 0) {
       humintGeo.movements.forEach((movement, index) => {
-        if (!movement.coordinates) return;
+        if (!movement.coordinates || !isVisibleAt(movement.timestamp, currentTime)) return;
         
         const coords = toLeafletCoords(movement.coordinates);
-        const icon = createHumintIcon('movement');
+        const icon = createHumintIcon('movement', movement);
         
         if (!icon) return;
         
-        const marker = window.L.marker(coords, { icon }).addTo(layerGroups.current.humint);
+        const marker = describeClusterMarker(L.marker(coords, { icon }), 'movement').addTo(markers);
+        
+        addUncertaintyEllipse(coords, movement);
         
         // Add military-style popup
         const popupContent = `
           <div class="p-3">
             <h3 class="font-bold text-sm text-white mb-1 border-b border-gray-600 pb-1">${movement.name || 'Movement'}</h3>
             ${movement.description ? `<p class="text-xs mt-2 text-gray-300">${movement.description}</p>` : ''}
+            ${movement.gridReference ? `<div class="text-xs mt-2 text-gray-400">Ref: <span class="font-mono text-gray-200">${movement.gridReference}</span>${movement.uncertainty ? ` <span class="text-gray-400">(${formatUncertainty(movement.uncertainty)})</span>` : ''}</div>` : ''}
+            ${entityNotesHtml(entityNotes[humintNoteId('movement', movement)])}
             <div class="flex justify-between mt-2 pt-1 border-t border-gray-600">
               <div class="text-xs text-gray-300">
-                <span class="font-mono">${coords.lat.toFixed(5)}°N, ${coords.lng.toFixed(5)}°E</span>
+                <span class="font-mono">${formatLatLng(coords.lat, coords.lng, 5)}</span>
               </div>
               <div class="text-xs px-1.5 py-0.5 rounded bg-blue-900/30 text-blue-300">HUMINT</div>
             </div>
           </div>
         `;
         
-        const popup = window.L.popup({
+        const popup = L.popup({
           className: 'military-popup',
           closeButton: false,
           maxWidth: 250
@@ -1469,127 +2265,144 @@ const FusionMap: React.FC<FusionMapProps> = ({
           marker.on('click', () => handleEntityClick(`movement-${index}`, 'humint'));
         }
         
-        // Add movement arrow
-        // In a real application, this would connect start and end points
-        // Here we're just adding a simple indicator
-        const arrowOptions = {
-          color: 'rgba(59, 130, 246, 0.7)',
-          weight: 2,
-          dashArray: '5, 5'
-        };
-        
-        // Simulate a destination point
-        const destLat = coords.lat + 0.05;
-        const destLng = coords.lng + 0.05;
-        
-        const arrow = window.L.polyline([
-          [coords.lat, coords.lng],
-          [destLat, destLng]
-        ], arrowOptions).addTo(layerGroups.current.humint);
-        
-        // Add arrowhead
-        const arrowHead = window.L.divIcon({
-          html: `<div class="flex items-center justify-center h-6 w-6 text-blue-400">
-                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="w-full h-full">
-                    <polyline points="9 18 15 12 9 6"></polyline>
-                  </svg>
-                </div>`,
-          className: '',
-          iconSize: [24, 24],
-          iconAnchor: [12, 12]
-        });
-        
-        window.L.marker([destLat, destLng], { icon: arrowHead }).addTo(layerGroups.current.humint);
+        // Add movement arrow along the reported direction of travel
+        if (movement.heading !== undefined) {
+          const arrowOptions = {
+            color: 'rgba(59, 130, 246, 0.7)',
+            weight: 2,
+            dashArray: '5, 5'
+          };
+
+          // Project ~5km along the heading to indicate direction, not destination
+          const projected = destinationPoint(coords.lat, coords.lng, movement.heading, 5000);
+          const destLat = projected.latitude;
+          const destLng = projected.longitude;
+
+          L.polyline([
+            [coords.lat, coords.lng],
+            [destLat, destLng]
+          ], arrowOptions).addTo(layerGroups.current.humint);
+
+          // Add arrowhead rotated to the heading (chevron points east by default)
+          const arrowHead = L.divIcon({
+            html: `<div class="flex items-center justify-center h-6 w-6 text-blue-400" style="transform: rotate(${movement.heading - 90}deg)">
+                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="w-full h-full">
+                      <polyline points="9 18 15 12 9 6"></polyline>
+                    </svg>
+                  </div>`,
+            className: '',
+            iconSize: [24, 24],
+            iconAnchor: [12, 12]
+          });
+
+          L.marker([destLat, destLng], { icon: arrowHead }).addTo(layerGroups.current.humint);
+        }
       });
     }
     
-  }, [map, visibleLayers, extractHumintData, onMarkerClick, handleEntityClick]);
-
-  // Update SIGINT markers when data or visibility changes
-  useEffect(() => {
-    if (!map || !window.L || !layerGroups.current.sigint) return;
-    
-    // Clear existing SIGINT markers
-    layerGroups.current.sigint.clearLayers();
-    
-    // If SIGINT layer is not visible, return early
-    if (!visibleLayers.includes('sigint')) return;
-    
-    const sigintEmitters = extractSigintData();
-    
-    // Add SIGINT emitter markers
-    if (sigintEmitters.length > 0) {
-      sigintEmitters.forEach((emitter) => {
-        const coords = toLeafletCoords(emitter.coordinates);
-        
-        // Skip invalid coordinates
-        if (!isValidCoordinate(coords)) {
-          console.warn('Invalid SIGINT emitter coordinates, skipping marker:', emitter);
-          return;
-        }
-        
-        const icon = createSigintIcon(emitter.classification);
-        if (!icon) return;
-        
-        const marker = window.L.marker(coords, { icon }).addTo(layerGroups.current.sigint);
-        
-        // Add accuracy circle
-        const accuracyOptions = {
-          color: 'rgba(220, 38, 38, 0.4)',
-          fillColor: 'rgba(220, 38, 38, 0.1)',
-          fillOpacity: 0.5,
-          radius: emitter.accuracy,
-          weight: 1
-        };
-        
-        const accuracyCircle = window.L.circle(coords, accuracyOptions).addTo(layerGroups.current.sigint);
-        
-        // Add military-style popup
-        const popupContent = `
-          <div class="p-3">
-            <h3 class="font-bold text-sm text-white mb-1 border-b border-gray-600 pb-1">${emitter.classification || 'Unknown Emitter'}</h3>
-            <div class="grid grid-cols-2 gap-2 text-xs text-gray-300 mt-2">
-              <div>
-                <span class="text-gray-500">ID:</span> ${emitter.id}
-              </div>
-              <div>
-                <span class="text-gray-500">Confidence:</span> ${emitter.confidence}
-              </div>
-              <div>
-                <span class="text-gray-500">Timestamp:</span> ${new Date(emitter.timestamp).toLocaleString()}
-              </div>
-              <div>
-                <span class="text-gray-500">Accuracy:</span> ±${emitter.accuracy}m
-              </div>
-            </div>
-            <div class="flex justify-between mt-2 pt-1 border-t border-gray-600">
-              <div class="text-xs text-gray-300">
-                <span class="font-mono">${coords.lat.toFixed(5)}°N, ${coords.lng.toFixed(5)}°E</span>
-              </div>
-              <div class="text-xs px-1.5 py-0.5 rounded bg-red-900/30 text-red-300">SIGINT</div>
+    // Add named places resolved through the gazetteer
+    extractGazetteerPlaces().forEach((entity) => {
+      const { resolution } = entity.location;
+      const best = resolution.best;
+      const coords = toLeafletCoords(entity.location.coordinates);
+      if (!best || !isValidCoordinate(coords)) return;
+      
+      // Reported enemy forces are drawn as hostile units at the place they were reported
+      const icon = entity.type === 'force'
+        ? createSymbolIcon(symbolFromText(entity.description, { affiliation: 'hostile' }).spec)
+        : createHumintIcon('location');
+      if (!icon) return;
+      
+      const marker = describeClusterMarker(
+        L.marker(coords, { icon, opacity: resolution.status === 'ambiguous' ? 0.6 : 1 }),
+        entity.type === 'force' ? 'force' : 'place'
+      ).addTo(markers);
+      
+      // Gazetteer points mark a settlement centre, not the reported position
+      const isAmbiguous = resolution.status === 'ambiguous';
+      L.circle(coords, {
+        color: isAmbiguous ? 'rgba(245, 158, 11, 0.4)' : 'rgba(59, 130, 246, 0.2)',
+        fillColor: 'transparent',
+        radius: isAmbiguous ? 3000 : 1500,
+        weight: 1,
+        dashArray: '5, 5'
+      }).addTo(layerGroups.current.humint);
+      
+      const statusStyles: Record<string, string> = {
+        confirmed: 'bg-green-900/30 text-green-300',
+        resolved: 'bg-blue-900/30 text-blue-300',
+        ambiguous: 'bg-amber-900/30 text-amber-300'
+      };
+      
+      const candidateRows = resolution.candidates.map((candidate: PlaceCandidate, i: number) => `
+        <div class="flex justify-between items-center text-xs mt-1">
+          <span class="text-gray-300">
+            ${candidate.entry.name}${candidate.entry.admin1 ? `, ${candidate.entry.admin1}` : ''}
+            <span class="font-mono text-gray-500">${formatLatLng(candidate.entry.latitude, candidate.entry.longitude, 3)}</span>
+          </span>
+          ${resolution.status === 'confirmed' && candidate.entry.id === best.entry.id
+            ? '<span class="text-green-400">✓</span>'
+            : `<button data-candidate-index="${i}" class="ml-2 px-1.5 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200">Confirm</button>`}
+        </div>
+      `).join('');
+      
+      const popupContent = `
+        <div class="p-3">
+          <h3 class="font-bold text-sm text-white mb-1 border-b border-gray-600 pb-1">${best.entry.name}</h3>
+          <p class="text-xs mt-2 text-gray-300">${entity.description}</p>
+          <div class="flex justify-between items-center mt-2 text-xs">
+            <span class="px-1.5 py-0.5 rounded ${statusStyles[resolution.status] || ''}">${resolution.status.toUpperCase()}</span>
+            <span class="text-gray-400">Confidence: ${Math.round(resolution.confidence * 100)}%</span>
+          </div>
+          <div class="mt-2 pt-1 border-t border-gray-600">
+            <div class="text-xs text-gray-400">Gazetteer matches for "${resolution.query}"</div>
+            ${candidateRows}
+          </div>
+          <div class="flex justify-between mt-2 pt-1 border-t border-gray-600">
+            <div class="text-xs text-gray-300">
+              <span class="font-mono">${formatLatLng(coords.lat, coords.lng, 5)}</span>
             </div>
+            <div class="text-xs px-1.5 py-0.5 rounded bg-blue-900/30 text-blue-300">HUMINT</div>
           </div>
-        `;
-        
-        const popup = window.L.popup({
-          className: 'military-popup',
-          closeButton: false,
-          maxWidth: 250
-        }).setContent(popupContent);
-        
-        marker.bindPopup(popup);
-        
-        if (onMarkerClick) {
-          marker.on('click', () => handleEntityClick(emitter.id, 'sigint'));
-        }
+        </div>
+      `;
+      
+      const popup = L.popup({
+        className: 'military-popup',
+        closeButton: false,
+        maxWidth: 300
+      }).setContent(popupContent);
+      
+      marker.bindPopup(popup);
+      
+      // Popup content is plain HTML, so wire the confirm buttons when it opens
+      marker.on('popupopen', () => {
+        const element = popup.getElement();
+        if (!element) return;
+        
+        element.querySelectorAll<HTMLElement>('[data-candidate-index]').forEach(button => {
+          button.addEventListener('click', () => {
+            const candidate = resolution.candidates[Number(button.dataset.candidateIndex)];
+            if (candidate) {
+              handleConfirmPlace(resolution.query, candidate);
+            }
+          });
+        });
       });
-    }
+      
+      if (onMarkerClick) {
+        marker.on('click', () => handleEntityClick(entity.id, 'humint'));
+      }
+    });
+    
+    // Added last so the markers are clustered in one pass
+    layerGroups.current.humint.addLayer(markers);
     
-  }, [map, visibleLayers, extractSigintData, onMarkerClick, handleEntityClick]);
+  }, [map, visibleLayers, currentTime, entityNotes, extractHumintData, extractGazetteerPlaces, handleConfirmPlace, createHumintIcon, onMarkerClick, handleEntityClick, toLeafletCoords]);
 
   // Update OSINT markers when data or visibility changes
   useEffect(() => {
-    if (!map || !window.L || !layerGroups.current.osint) return;
+    if (!map || !layerGroups.current.osint) return;
     
     // Clear existing OSINT markers
     layerGroups.current.osint.clearLayers();
@@ -1597,7 +2410,8 @@ const FusionMap: React.FC<FusionMapProps> = ({
     // If OSINT layer is not visible, return early
     if (!visibleLayers.includes('osint')) return;
     
-    const osintEvents = extractOsintData();
+    const osintEvents = extractOsintData().filter(event => isVisibleAt(event.timestamp, currentTime));
+    const markers = createMarkerClusterGroup();
     
     // Add OSINT event markers
     if (osintEvents.length > 0) {
@@ -1613,7 +2427,7 @@ const FusionMap: React.FC<FusionMapProps> = ({
         const icon = createOsintIcon(event.type);
         if (!icon) return;
         
-        const marker = window.L.marker(coords, { icon }).addTo(layerGroups.current.osint);
+        const marker = describeClusterMarker(L.marker(coords, { icon }), 'event').addTo(markers);
         
         // Add highlight circle
         const highlightOptions = {
@@ -1624,7 +2438,7 @@ const FusionMap: React.FC<FusionMapProps> = ({
           weight: 1
         };
         
-        const highlightCircle = window.L.circle(coords, highlightOptions).addTo(layerGroups.current.osint);
+        const highlightCircle = L.circle(coords, highlightOptions).addTo(layerGroups.current.osint);
         
         // Add military-style popup
         const popupContent = `
@@ -1635,16 +2449,17 @@ const FusionMap: React.FC<FusionMapProps> = ({
               <div class="mb-1"><span class="text-gray-500">Timestamp:</span> ${new Date(event.timestamp).toLocaleString()}</div>
               <div><span class="text-gray-500">Confidence:</span> ${event.confidence}</div>
             </div>
+            ${entityNotesHtml(entityNotes[event.id])}
             <div class="flex justify-between mt-2 pt-1 border-t border-gray-600">
               <div class="text-xs text-gray-300">
-                <span class="font-mono">${coords.lat.toFixed(5)}°N, ${coords.lng.toFixed(5)}°E</span>
+                <span class="font-mono">${formatLatLng(coords.lat, coords.lng, 5)}</span>
               </div>
               <div class="text-xs px-1.5 py-0.5 rounded bg-green-900/30 text-green-300">OSINT</div>
             </div>
           </div>
         `;
         
-        const popup = window.L.popup({
+        const popup = L.popup({
           className: 'military-popup',
           closeButton: false,
           maxWidth: 250
@@ -1658,11 +2473,13 @@ const FusionMap: React.FC<FusionMapProps> = ({
       });
     }
     
-  }, [map, visibleLayers, extractOsintData, onMarkerClick, handleEntityClick]);
+    layerGroups.current.osint.addLayer(markers);
+    
+  }, [map, visibleLayers, currentTime, entityNotes, extractOsintData, onMarkerClick, handleEntityClick, toLeafletCoords]);
 
   // Update Fusion markers and correlation lines when data or visibility changes
   useEffect(() => {
-    if (!map || !window.L || !layerGroups.current.fusion || !layerGroups.current.correlation) return;
+    if (!map || !layerGroups.current.fusion || !layerGroups.current.correlation) return;
     
     // Clear existing fusion markers and correlation lines
     layerGroups.current.fusion.clearLayers();
@@ -1670,10 +2487,13 @@ const FusionMap: React.FC<FusionMapProps> = ({
     
     // If fusion layer is not visible, skip fusion entities
     if (visibleLayers.includes('fusion') && fusionData && fusionData.fusedEntities) {
+      const markers = createMarkerClusterGroup();
+      
       // Create fusion entity markers
       fusionData.fusedEntities.forEach((entity) => {
         // Find associated locations from different intelligence sources
         let entityLocation: Coordinates | null = null;
+        let entitySymbol: SymbolSpec = symbolFromText(entity.type).spec;
         
         // Check HUMINT sources for location
         if (entity.humintSources && entity.humintSources.length > 0 && humintData) {
@@ -1684,8 +2504,10 @@ const FusionMap: React.FC<FusionMapProps> = ({
             const locationMatch = locationId.match(/^location-(\d+)$/);
             if (locationMatch && locationMatch[1] && 
                 humintGeo.locations[parseInt(locationMatch[1])] &&
-                humintGeo.locations[parseInt(locationMatch[1])].coordinates) {
+                humintGeo.locations[parseInt(locationMatch[1])].coordinates &&
+                isVisibleAt(humintGeo.locations[parseInt(locationMatch[1])].timestamp, currentTime)) {
               entityLocation = toLeafletCoords(humintGeo.locations[parseInt(locationMatch[1])].coordinates);
+              entitySymbol = humintSymbol(humintGeo.locations[parseInt(locationMatch[1])]).spec;
               break;
             }
           }
@@ -1693,12 +2515,11 @@ const FusionMap: React.FC<FusionMapProps> = ({
         
         // If no location found in HUMINT, check SIGINT sources
         if (!entityLocation && entity.sigintSources && entity.sigintSources.length > 0 && sigintData) {
-          const sigintEmitters = extractSigintData();
-          
           // Try to find emitter by ID
-          const emitter = sigintEmitters.find(e => entity.sigintSources.includes(e.id));
+          const emitter = emittersAtTime.find(e => entity.sigintSources.includes(e.id));
           if (emitter && emitter.coordinates) {
             entityLocation = toLeafletCoords(emitter.coordinates);
+            entitySymbol = symbolForEmitter(emitter.classification, emitter.platform);
           }
         }
         
@@ -1707,7 +2528,7 @@ const FusionMap: React.FC<FusionMapProps> = ({
           const osintEvents = extractOsintData();
           
           // Try to find event by ID
-          const event = osintEvents.find(e => entity.osintSources.includes(e.id));
+          const event = osintEvents.find(e => entity.osintSources?.includes(e.id) && isVisibleAt(e.timestamp, currentTime));
           if (event && event.coordinates) {
             entityLocation = toLeafletCoords(event.coordinates);
           }
@@ -1715,10 +2536,10 @@ const FusionMap: React.FC<FusionMapProps> = ({
         
         // If we have a location, create a fusion marker
         if (entityLocation) {
-          const icon = createFusionIcon();
+          const icon = createFusionIcon(entitySymbol, entity);
           
           if (icon) {
-            const marker = window.L.marker(entityLocation, { icon }).addTo(layerGroups.current.fusion);
+            const marker = describeClusterMarker(L.marker(entityLocation, { icon }), 'fused entity').addTo(markers);
             
             // Add fusion highlight circle
             const highlightOptions = {
@@ -1729,7 +2550,7 @@ const FusionMap: React.FC<FusionMapProps> = ({
               weight: 1
             };
             
-            const highlightCircle = window.L.circle(entityLocation, highlightOptions).addTo(layerGroups.current.fusion);
+            const highlightCircle = L.circle(entityLocation, highlightOptions).addTo(layerGroups.current.fusion);
             
             // Add military-style popup
             const sourceCounts = {
@@ -1752,14 +2573,14 @@ const FusionMap: React.FC<FusionMapProps> = ({
                 </div>
                 <div class="flex justify-between mt-2 pt-1 border-t border-gray-600">
                   <div class="text-xs text-gray-300">
-                    <span class="font-mono">${entityLocation.lat.toFixed(5)}°N, ${entityLocation.lng.toFixed(5)}°E</span>
+                    <span class="font-mono">${formatLatLng(entityLocation.lat, entityLocation.lng, 5)}</span>
                   </div>
                   <div class="text-xs px-1.5 py-0.5 rounded bg-purple-900/30 text-purple-300">FUSION</div>
                 </div>
               </div>
             `;
             
-            const popup = window.L.popup({
+            const popup = L.popup({
               className: 'military-popup',
               closeButton: false,
               maxWidth: 250
@@ -1773,10 +2594,12 @@ const FusionMap: React.FC<FusionMapProps> = ({
           }
         }
       });
+      
+      layerGroups.current.fusion.addLayer(markers);
     }
     
     // If correlation layer is visible, draw correlation lines
-    if (visibleLayers.includes('correlation') && fusionData) {
+    if (visibleLayers.includes('correlation')) {
       const correlations = extractCorrelations();
       
       correlations.forEach(correlation => {
@@ -1792,7 +2615,8 @@ const FusionMap: React.FC<FusionMapProps> = ({
           
           if (locationMatch && locationMatch[1] && 
               humintGeo.locations[parseInt(locationMatch[1])] &&
-              humintGeo.locations[parseInt(locationMatch[1])].coordinates) {
+              humintGeo.locations[parseInt(locationMatch[1])].coordinates &&
+              isVisibleAt(humintGeo.locations[parseInt(locationMatch[1])].timestamp, currentTime)) {
             humintLocation = toLeafletCoords(humintGeo.locations[parseInt(locationMatch[1])].coordinates);
           }
           
@@ -1801,16 +2625,25 @@ const FusionMap: React.FC<FusionMapProps> = ({
             const obsMatch = correlation.humintEntityId.match(/^observation-(\d+)$/);
             if (obsMatch && obsMatch[1] && 
                 humintGeo.observations[parseInt(obsMatch[1])] &&
-                humintGeo.observations[parseInt(obsMatch[1])].coordinates) {
+                humintGeo.observations[parseInt(obsMatch[1])].coordinates &&
+                isVisibleAt(humintGeo.observations[parseInt(obsMatch[1])].timestamp, currentTime)) {
               humintLocation = toLeafletCoords(humintGeo.observations[parseInt(obsMatch[1])].coordinates);
             }
           }
+          
+          // Then movements, which proximity correlation links with their own radius
+          if (!humintLocation) {
+            const movementMatch = correlation.humintEntityId.match(/^movement-(\d+)$/);
+            const movement = movementMatch ? humintGeo.movements[parseInt(movementMatch[1])] : undefined;
+            if (movement && movement.coordinates && isVisibleAt(movement.timestamp, currentTime)) {
+              humintLocation = toLeafletCoords(movement.coordinates);
+            }
+          }
         }
         
         // Find SIGINT location
         if (correlation.sigintEmitterId && sigintData) {
-          const sigintEmitters = extractSigintData();
-          const emitter = sigintEmitters.find(e => e.id === correlation.sigintEmitterId);
+          const emitter = emittersAtTime.find(e => e.id === correlation.sigintEmitterId);
           
           if (emitter && emitter.coordinates) {
             sigintLocation = toLeafletCoords(emitter.coordinates);
@@ -1820,7 +2653,7 @@ const FusionMap: React.FC<FusionMapProps> = ({
         // Find OSINT location if present
         if (correlation.osintEntityId !== undefined && osintData) {
           const osintEvents = extractOsintData();
-          const event = osintEvents.find(e => e.id === correlation.osintEntityId);
+          const event = osintEvents.find(e => e.id === correlation.osintEntityId && isVisibleAt(e.timestamp, currentTime));
           
           if (event && event.coordinates) {
             osintLocation = toLeafletCoords(event.coordinates);
@@ -1854,30 +2687,70 @@ const FusionMap: React.FC<FusionMapProps> = ({
             dashArray: lineDash
           };
           
-          const line = window.L.polyline([
+          const line = L.polyline([
             [humintLocation.lat, humintLocation.lng],
             [sigintLocation.lat, sigintLocation.lng]
           ], lineOptions).addTo(layerGroups.current.correlation);
           
-          // Add line label with correlation strength
+          // Add line label with correlation strength and ground distance
           const midPoint = {
             lat: (humintLocation.lat + sigintLocation.lat) / 2,
             lng: (humintLocation.lng + sigintLocation.lng) / 2
           };
+          const distance = haversineDistance(
+            humintLocation.lat, humintLocation.lng,
+            sigintLocation.lat, sigintLocation.lng
+          );
           
-          const labelIcon = window.L.divIcon({
-            html: `<div class="px-1 py-0.5 bg-purple-900/80 text-purple-100 text-[10px] rounded">
-                    ${Math.floor(correlation.strength * 100)}%
+          const labelIcon = L.divIcon({
+            html: `<div class="px-1 py-0.5 bg-purple-900/80 text-purple-100 text-[10px] rounded whitespace-nowrap">
+                    ${Math.floor(correlation.strength * 100)}% · ${formatDistance(distance)}
                   </div>`,
             className: '',
-            iconSize: [30, 16],
-            iconAnchor: [15, 8]
+            iconSize: [72, 16],
+            iconAnchor: [36, 8]
           });
           
-          window.L.marker([midPoint.lat, midPoint.lng], { 
+          L.marker([midPoint.lat, midPoint.lng], { 
             icon: labelIcon, 
             interactive: false 
           }).addTo(layerGroups.current.correlation);
+          
+          const popup = L.popup({
+            className: 'military-popup',
+            closeButton: false,
+            maxWidth: 320
+          }).setContent(`
+            <div class="p-3">
+              <h3 class="font-bold text-sm text-white mb-1 border-b border-gray-600 pb-1">Correlation</h3>
+              <div class="text-xs text-gray-300 mt-2">
+                <div class="mb-1"><span class="text-gray-500">Strength:</span> ${Math.floor(correlation.strength * 100)}% (${correlation.type})</div>
+                <div class="mb-1"><span class="text-gray-500">Separation:</span> ${formatDistance(distance)}</div>
+              </div>
+              <div data-correlation-explanation class="mt-2 pt-1 border-t border-gray-600 text-xs text-gray-400">
+                ${correlation.correlationId
+                  ? 'Loading explanation…'
+                  : 'Linked by proximity under the correlation settings. Run fusion for a scored explanation.'}
+              </div>
+            </div>
+          `);
+          
+          line.bindPopup(popup);
+          
+          // The rationale can cost an LLM call, so it is only fetched when asked for
+          const { correlationId } = correlation;
+          if (correlationId) {
+            line.on('popupopen', async () => {
+              const explanation = await loadCorrelationExplanation(correlationId);
+              const target = popup.getElement()?.querySelector<HTMLElement>('[data-correlation-explanation]');
+              if (!target || !popup.isOpen()) return;
+              
+              target.innerHTML = explanation
+                ? correlationExplanationHtml(explanation)
+                : 'No explanation available. Run fusion again and retry.';
+              popup.update();
+            });
+          }
         }
         
         // Draw correlation line between HUMINT and OSINT if both exist
@@ -1888,10 +2761,15 @@ const FusionMap: React.FC<FusionMapProps> = ({
             dashArray: '5, 5'
           };
           
-          const line = window.L.polyline([
+          const line = L.polyline([
             [humintLocation.lat, humintLocation.lng],
             [osintLocation.lat, osintLocation.lng]
           ], lineOptions).addTo(layerGroups.current.correlation);
+          
+          line.bindTooltip(formatDistance(haversineDistance(
+            humintLocation.lat, humintLocation.lng,
+            osintLocation.lat, osintLocation.lng
+          )), { sticky: true });
         }
         
         // Draw correlation line between SIGINT and OSINT if both exist
@@ -1902,15 +2780,20 @@ const FusionMap: React.FC<FusionMapProps> = ({
             dashArray: '5, 5'
           };
           
-          const line = window.L.polyline([
+          const line = L.polyline([
             [sigintLocation.lat, sigintLocation.lng],
             [osintLocation.lat, osintLocation.lng]
           ], lineOptions).addTo(layerGroups.current.correlation);
+          
+          line.bindTooltip(formatDistance(haversineDistance(
+            sigintLocation.lat, sigintLocation.lng,
+            osintLocation.lat, osintLocation.lng
+          )), { sticky: true });
         }
       });
     }
     
-  }, [map, visibleLayers, fusionData, humintData, sigintData, osintData, extractHumintData, extractSigintData, extractOsintData, extractCorrelations, onMarkerClick, handleEntityClick]);
+  }, [map, visibleLayers, currentTime, fusionData, humintData, sigintData, osintData, extractHumintData, emittersAtTime, extractOsintData, extractCorrelations, humintSymbol, onMarkerClick, handleEntityClick, toLeafletCoords]);
 
   // Toggle layer visibility when visibleLayers changes
   useEffect(() => {
@@ -1960,6 +2843,51 @@ const FusionMap: React.FC<FusionMapProps> = ({
         map.removeLayer(layerGroups.current.correlation);
       }
     }
+    
+    // Handle control zone visibility
+    if (layerGroups.current.zones) {
+      if (visibleLayers.includes('zones')) {
+        map.addLayer(layerGroups.current.zones);
+      } else {
+        map.removeLayer(layerGroups.current.zones);
+      }
+    }
+    
+    // Handle threat heatmap visibility
+    if (layerGroups.current.heatmap) {
+      if (visibleLayers.includes('heatmap')) {
+        map.addLayer(layerGroups.current.heatmap);
+      } else {
+        map.removeLayer(layerGroups.current.heatmap);
+      }
+    }
+    
+    // Handle radar coverage visibility
+    if (layerGroups.current.coverage) {
+      if (visibleLayers.includes('coverage')) {
+        map.addLayer(layerGroups.current.coverage);
+      } else {
+        map.removeLayer(layerGroups.current.coverage);
+      }
+    }
+    
+    // Handle sensor layer visibility
+    if (layerGroups.current.sensors) {
+      if (visibleLayers.includes('sensors')) {
+        map.addLayer(layerGroups.current.sensors);
+      } else {
+        map.removeLayer(layerGroups.current.sensors);
+      }
+    }
+    
+    // Handle tactical graphics visibility
+    if (layerGroups.current.graphics) {
+      if (visibleLayers.includes('graphics')) {
+        map.addLayer(layerGroups.current.graphics);
+      } else {
+        map.removeLayer(layerGroups.current.graphics);
+      }
+    }
   }, [map, visibleLayers]);
   
   // If there's an error loading the map
@@ -1969,22 +2897,7 @@ const FusionMap: React.FC<FusionMapProps> = ({
         <div className="rounded-lg bg-gray-800 border border-gray-700 p-8 text-center max-w-md">
           <div className="text-red-500 mb-4"><AlertTriangle size={48} className="mx-auto" /></div>
           <p className="text-gray-300 text-lg font-medium mb-2">{mapError}</p>
-          <p className="text-gray-500">Please check your network connection and try again.</p>
-        </div>
-      </div>
-    );
-  }
-  
-  // Show loading state while map is initializing
-  if (!mapLoaded) {
-    return (
-      <div className="h-full flex items-center justify-center bg-gray-900">
-        <div className="rounded-lg bg-gray-800 border border-gray-700 p-8 flex flex-col items-center justify-center">
-          <div className="animate-spin mb-4">
-            <Map className="h-12 w-12 text-gray-500" />
-          </div>
-          <p className="text-gray-300 text-lg font-medium">{t('loadingMap') || 'Loading tactical map...'}</p>
-          <p className="text-gray-500 mt-2">Preparing intelligence visualization</p>
+          <p className="text-gray-500">Reload the page to try again.</p>
         </div>
       </div>
     );
@@ -2019,6 +2932,62 @@ const FusionMap: React.FC<FusionMapProps> = ({
     <div className="h-full bg-gray-900 relative" ref={mapContainerRef}>
       <div className="h-full" id="fusion-map"></div>
       
+      <MeasurementLayer
+        map={map}
+        layerGroup={layerGroups.current.measurement}
+        active={showMeasurement}
+        mode={measurementMode}
+        points={measurementPoints}
+        bearingUnit={bearingUnit}
+        onAddPoint={handleAddMeasurementPoint}
+      />
+      <TacticalGraphicsLayer
+        map={map}
+        layerGroup={layerGroups.current.graphics}
+        visible={visibleLayers.includes('graphics')}
+        graphics={tacticalGraphics}
+        selectedId={selectedGraphicId}
+        drawing={graphicDrawing}
+        selectable={!showMeasurement && !showFocusArea}
+        onDrawingChange={setGraphicDrawing}
+        onFinishDrawing={handleFinishGraphic}
+        onSelect={handleSelectGraphic}
+      />
+      <ControlZonesLayer
+        map={map}
+        layerGroup={layerGroups.current.zones}
+        visible={visibleLayers.includes('zones')}
+        zones={controlZones}
+        colors={controlZoneColors}
+        frontLine={frontLine}
+        compareSnapshot={compareSnapshot}
+      />
+      <ThreatHeatmapLayer
+        map={map}
+        layerGroup={layerGroups.current.heatmap}
+        visible={visibleLayers.includes('heatmap')}
+        sources={heatSources}
+        settings={heatmapSettings}
+        currentTime={currentTime}
+      />
+      <EmitterMarkersLayer
+        map={map}
+        layerGroup={layerGroups.current.sigint}
+        visible={visibleLayers.includes('sigint')}
+        showPredictions={visibleLayers.includes('prediction')}
+        emitters={emittersAtTime}
+        currentTime={currentTime}
+        entityNotes={entityNotes}
+        systemCatalogue={systemCatalogue}
+        sensors={sensors}
+        predictions={emitterPredictions}
+        toLatLng={toLeafletCoords}
+        onShowDetails={handleShowEmitterDetails}
+        onPredict={handlePredictEmitter}
+        onShowBearings={handleShowBearings}
+        onMarkerClick={onMarkerClick ? handleEmitterClick : undefined}
+      />
+      
       {/* Map Controls Overlay */}
       <div className="absolute top-4 right-4 z-20 flex flex-col gap-2">
         <button 
@@ -2034,17 +3003,81 @@ const FusionMap: React.FC<FusionMapProps> = ({
         </button>
         
         <button 
-          onClick={() => setShowTimeControl(!showTimeControl)}
+          onClick={() => {
+            setShowTimeControl(!showTimeControl);
+            setShowMeasurement(false);
+            setShowFocusArea(false);
+            handleCloseTacticalGraphics();
+          }}
           className={`
             p-2 rounded-md shadow-lg transition-all
             ${showTimeControl 
               ? 'bg-gray-700 text-white' 
-              : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+              : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}
+            ${isTimelineLive(timeline) ? '' : 'ring-1 ring-amber-500 text-amber-300'}`}
           title={t('toggleTimeline') || "Toggle time controls"}
         >
           <Clock size={20} />
         </button>
         
+        <button
+          onClick={() => {
+            setShowMeasurement(!showMeasurement);
+            setShowTimeControl(false);
+            setShowFocusArea(false);
+            handleCloseTacticalGraphics();
+          }}
+          className={`
+            p-2 rounded-md shadow-lg transition-all
+            ${showMeasurement 
+              ? 'bg-gray-700 text-white' 
+              : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+          title={t('measure') || "Measure distance, bearing and area"}
+        >
+          <Ruler size={20} />
+        </button>
+        
+        <button
+          onClick={() => {
+            if (showTacticalGraphics) {
+              handleCloseTacticalGraphics();
+            } else {
+              setShowTacticalGraphics(true);
+            }
+            setShowTimeControl(false);
+            setShowMeasurement(false);
+            setShowFocusArea(false);
+          }}
+          className={`
+            p-2 rounded-md shadow-lg transition-all
+            ${showTacticalGraphics 
+              ? 'bg-gray-700 text-white' 
+              : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+          title={t('tacticalGraphics') || "Draw tactical graphics"}
+        >
+          <PenTool size={20} />
+        </button>
+        
+        {onRunFusion && (
+          <button
+            onClick={() => {
+              setShowFocusArea(!showFocusArea);
+              setShowTimeControl(false);
+              setShowMeasurement(false);
+              handleCloseTacticalGraphics();
+            }}
+            className={`
+              p-2 rounded-md shadow-lg transition-all
+              ${showFocusArea 
+                ? 'bg-gray-700 text-white' 
+                : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}
+              ${showScopedFusion ? 'ring-1 ring-cyan-400 text-cyan-300' : ''}`}
+            title={t('focusArea') || "Scope fusion to an area"}
+          >
+            <Crosshair size={20} />
+          </button>
+        )}
+        
         <button
           onClick={() => setShowBasemapSelector(!showBasemapSelector)}
           className={`
@@ -2084,30 +3117,28 @@ const FusionMap: React.FC<FusionMapProps> = ({
           </div>
           
           <div className="space-y-1">
-            <div 
-              className={`basemap-option ${activeBaseMap === 'dark' ? 'active' : ''}`}
-              onClick={() => handleBaseMapChange('dark')}
-            >
-              <div className="basemap-color" style={{ backgroundColor: '#1a1a1a' }}></div>
-              <span>Dark Tactical</span>
-            </div>
-            
-            <div 
-              className={`basemap-option ${activeBaseMap === 'satellite' ? 'active' : ''}`}
-              onClick={() => handleBaseMapChange('satellite')}
-            >
-              <div className="basemap-color" style={{ backgroundColor: '#143d6b' }}></div>
-              <span>Satellite</span>
-            </div>
-            
-            <div 
-              className={`basemap-option ${activeBaseMap === 'terrain' ? 'active' : ''}`}
-              onClick={() => handleBaseMapChange('terrain')}
-            >
-              <div className="basemap-color" style={{ backgroundColor: '#4e7146' }}></div>
-              <span>Terrain</span>
-            </div>
+            {tileSources.map(source => (
+              <div 
+                key={source.id}
+                className={`basemap-option ${activeTileSource.id === source.id ? 'active' : ''}`}
+                onClick={() => handleBaseMapChange(source.id)}
+              >
+                <div className="basemap-color" style={{ backgroundColor: source.color }}></div>
+                <span className="truncate">{source.name}</span>
+              </div>
+            ))}
           </div>
+          
+          <button
+            onClick={() => {
+              setShowBasemapSelector(false);
+              setShowTileSources(true);
+            }}
+            className="w-full mt-2 pt-2 border-t border-gray-700 flex items-center justify-center text-xs text-gray-400 hover:text-gray-200"
+          >
+            <Settings size={12} className="mr-1" />
+            Manage sources
+          </button>
         </div>
       )}
       
@@ -2204,7 +3235,221 @@ const FusionMap: React.FC<FusionMapProps> = ({
                 />
                 <span className="ml-2 text-sm text-gray-300">Correlation Lines</span>
               </label>
-              <div className="w-8 h-1 bg-purple-500 rounded"></div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setShowCorrelationSettings(true)}
+                  className="p-0.5 rounded text-gray-400 hover:text-purple-300 hover:bg-gray-700"
+                  title="Correlation radius and decay"
+                >
+                  <SlidersHorizontal size={14} />
+                </button>
+                <div className="w-8 h-1 bg-purple-500 rounded"></div>
+              </div>
+            </div>
+            
+            {/* Control Zones */}
+            <div className="flex items-center justify-between">
+              <label className="flex items-center cursor-pointer">
+                <input 
+                  type="checkbox" 
+                  checked={visibleLayers.includes('zones')}
+                  onChange={() => handleLayerToggle('zones')}
+                  className="h-4 w-4 text-orange-500 rounded border-gray-600 focus:ring-orange-500"
+                />
+                <span className="ml-2 text-sm text-gray-300 flex items-center">
+                  <Flag size={14} className="mr-1 text-orange-400" />
+                  Control Zones
+                </span>
+              </label>
+              <div className="w-3 h-3 rounded-sm bg-orange-400/60 border border-orange-400"></div>
+            </div>
+            
+            {visibleLayers.includes('zones') && frontLine.length > 0 && earlierFrontLines.length > 0 && (
+              <div className="pl-6">
+                <select
+                  value={compareSnapshot?.id || ''}
+                  onChange={(e) => setCompareSnapshotId(e.target.value)}
+                  className="w-full bg-gray-700 border border-gray-600 rounded px-1.5 py-1 text-xs text-gray-200"
+                  aria-label="Compare front line with"
+                >
+                  <option value="">Compare front line with…</option>
+                  {earlierFrontLines.map(snapshot => (
+                    <option key={snapshot.id} value={snapshot.id}>
+                      {new Date(snapshot.recordedAt).toLocaleString()}
+                    </option>
+                  ))}
+                </select>
+                {frontLineMovement !== null && (
+                  <div className="mt-1 text-[10px] text-gray-400">
+                    Line moved ~{formatDistance(frontLineMovement)} on average
+                  </div>
+                )}
+              </div>
+            )}
+            
+            {/* Threat Heatmap */}
+            <div className="flex items-center justify-between">
+              <label className="flex items-center cursor-pointer">
+                <input 
+                  type="checkbox" 
+                  checked={visibleLayers.includes('heatmap')}
+                  onChange={() => handleLayerToggle('heatmap')}
+                  className="h-4 w-4 text-red-600 rounded border-gray-600 focus:ring-red-500"
+                />
+                <span className="ml-2 text-sm text-gray-300 flex items-center">
+                  <Flame size={14} className="mr-1 text-red-400" />
+                  Threat Heatmap
+                </span>
+              </label>
+              <div className="w-8 h-2 rounded bg-gradient-to-r from-yellow-400 via-orange-500 to-red-600"></div>
+            </div>
+            
+            {visibleLayers.includes('heatmap') && (
+              <div className="pl-6 space-y-1 text-[10px] text-gray-400">
+                <label className="block">
+                  Radius: {heatmapSettings.radiusKm} km
+                  <input
+                    type="range"
+                    min={HEATMAP_RADIUS_RANGE.min}
+                    max={HEATMAP_RADIUS_RANGE.max}
+                    value={heatmapSettings.radiusKm}
+                    onChange={(e) => handleHeatmapSettingsChange({ radiusKm: Number(e.target.value) })}
+                    className="w-full accent-red-500"
+                  />
+                </label>
+                <label className="block">
+                  Half-life: {heatmapSettings.decayHours} h
+                  <input
+                    type="range"
+                    min={HEATMAP_DECAY_RANGE.min}
+                    max={HEATMAP_DECAY_RANGE.max}
+                    value={heatmapSettings.decayHours}
+                    onChange={(e) => handleHeatmapSettingsChange({ decayHours: Number(e.target.value) })}
+                    className="w-full accent-red-500"
+                  />
+                </label>
+              </div>
+            )}
+            
+            {/* Radar Coverage */}
+            <div className="flex items-center justify-between">
+              <label className="flex items-center cursor-pointer">
+                <input 
+                  type="checkbox" 
+                  checked={visibleLayers.includes('coverage')}
+                  onChange={() => handleLayerToggle('coverage')}
+                  className="h-4 w-4 text-rose-500 rounded border-gray-600 focus:ring-rose-500"
+                />
+                <span className="ml-2 text-sm text-gray-300 flex items-center">
+                  <Radar size={14} className="mr-1 text-rose-400" />
+                  Radar Coverage
+                </span>
+              </label>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setShowSystemCatalogue(true)}
+                  className="p-0.5 rounded text-gray-400 hover:text-rose-300 hover:bg-gray-700"
+                  title="System catalogue"
+                >
+                  <BookOpen size={14} />
+                </button>
+                <div className="w-3 h-3 rounded-full bg-rose-500/30 border border-rose-500"></div>
+              </div>
+            </div>
+            
+            {visibleLayers.includes('coverage') && (
+              <div className="pl-6 text-[10px] text-gray-400">
+                {coverageElements.length === 0 ? (
+                  <div>No located air defence elements in the EOB.</div>
+                ) : (
+                  <>
+                    <select
+                      value={coverageTargetAltitude}
+                      onChange={(e) => setCoverageTargetAltitude(Number(e.target.value))}
+                      className="w-full bg-gray-700 border border-gray-600 rounded px-1.5 py-1 text-xs text-gray-200"
+                      aria-label="Target height above ground"
+                    >
+                      {COVERAGE_TARGET_ALTITUDES.map(option => (
+                        <option key={option.value} value={option.value}>Target at {option.label}</option>
+                      ))}
+                    </select>
+                    {coverageStatus === 'loading' && <div className="mt-1">Computing coverage…</div>}
+                    {coverageStatus === 'error' && <div className="mt-1 text-red-400">Coverage could not be computed.</div>}
+                    {coverageElements.length > MAX_COVERAGE_ELEMENTS && (
+                      <div className="mt-1">Coverage shown for the first {MAX_COVERAGE_ELEMENTS} of {coverageElements.length} radars.</div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+            
+            {/* Collection Sensors */}
+            <div className="flex items-center justify-between">
+              <label className="flex items-center cursor-pointer">
+                <input 
+                  type="checkbox" 
+                  checked={visibleLayers.includes('sensors')}
+                  onChange={() => handleLayerToggle('sensors')}
+                  className="h-4 w-4 text-teal-500 rounded border-gray-600 focus:ring-teal-500"
+                />
+                <span className="ml-2 text-sm text-gray-300 flex items-center">
+                  <RadioTower size={14} className="mr-1 text-teal-400" />
+                  Collection Sensors
+                </span>
+              </label>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setShowSensorRegistry(true)}
+                  className="p-0.5 rounded text-gray-400 hover:text-teal-300 hover:bg-gray-700"
+                  title="Sensor registry"
+                >
+                  <Settings size={14} />
+                </button>
+                <div className="w-3 h-3 rounded-full bg-teal-400/30 border border-teal-400"></div>
+              </div>
+            </div>
+            
+            {visibleLayers.includes('sensors') && (
+              <div className="pl-6 text-[10px] text-gray-400">
+                {sensors.length === 0 ? (
+                  <div>No sensors registered.</div>
+                ) : (
+                  <>
+                    <select
+                      value={sensorEmitterAltitude}
+                      onChange={(e) => setSensorEmitterAltitude(Number(e.target.value))}
+                      className="w-full bg-gray-700 border border-gray-600 rounded px-1.5 py-1 text-xs text-gray-200"
+                      aria-label="Emitter height above ground"
+                    >
+                      {SENSOR_EMITTER_ALTITUDES.map(option => (
+                        <option key={option.value} value={option.value}>Emitter at {option.label}</option>
+                      ))}
+                    </select>
+                    {sensorCoverageStatus === 'loading' && <div className="mt-1">Computing intercept coverage…</div>}
+                    {sensorCoverageStatus === 'error' && <div className="mt-1 text-red-400">Coverage could not be computed.</div>}
+                    {activeSensorCount > MAX_COVERAGE_SENSORS && (
+                      <div className="mt-1">Coverage shown for the first {MAX_COVERAGE_SENSORS} of {activeSensorCount} active sensors.</div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+            
+            {/* Tactical Graphics */}
+            <div className="flex items-center justify-between">
+              <label className="flex items-center cursor-pointer">
+                <input 
+                  type="checkbox" 
+                  checked={visibleLayers.includes('graphics')}
+                  onChange={() => handleLayerToggle('graphics')}
+                  className="h-4 w-4 text-yellow-500 rounded border-gray-600 focus:ring-yellow-500"
+                />
+                <span className="ml-2 text-sm text-gray-300 flex items-center">
+                  <PenTool size={14} className="mr-1 text-yellow-400" />
+                  Tactical Graphics
+                </span>
+              </label>
+              <div className="w-3 h-3 rounded-sm bg-yellow-400"></div>
             </div>
           </div>
           
@@ -2216,76 +3461,105 @@ const FusionMap: React.FC<FusionMapProps> = ({
               <div>OSINT: {countOsintEntities()} events</div>
               <div>Fusion: {countFusionEntities()} entities</div>
               <div>Correlations: {countCorrelations()} connections</div>
+              <div>Zones: {controlZones.length} drawn, {frontLine.length} front line segment(s)</div>
+              <div>Heatmap: {heatSources.length} weighted reports</div>
+              <div>Coverage: {radarCoverage.length} of {coverageElements.length} air defence radars</div>
+              <div>Sensors: {sensors.filter(sensor => sensor.status !== 'offline').length} of {sensors.length} collecting</div>
+              <div>Graphics: {tacticalGraphics.length} control measures</div>
             </div>
           </div>
         </div>
       )}
       
       {/* Time Controls Panel */}
-      {showTimeControl && (
-        <div className="absolute top-16 right-4 z-20 bg-gray-800/90 backdrop-blur-sm border border-gray-700 rounded-md p-3 shadow-lg w-64">
-          <div className="flex justify-between items-center mb-2 pb-1 border-b border-gray-700">
-            <h3 className="text-sm font-medium text-gray-200">{t('timeline') || "Timeline"}</h3>
-            <button 
-              onClick={() => setShowTimeControl(false)}
-              className="text-gray-400 hover:text-gray-200 p-1 rounded hover:bg-gray-700"
-            >
-              <XCircle size={16} />
-            </button>
-          </div>
-          
-          <div className="space-y-4 mt-3">
-            {/* Timeline slider */}
-            <div>
-              <input
-                type="range"
-                min="0"
-                max="100"
-                defaultValue="100"
-                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
-              />
-              
-              <div className="flex justify-between text-xs text-gray-400 mt-1">
-                <span>12:00</span>
-                <span>Current</span>
-              </div>
-            </div>
-            
-            {/* Playback controls */}
-            <div className="flex justify-center gap-2">
-              <button className="p-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded">
-                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                  <polygon points="19 20 9 12 19 4 19 20"></polygon>
-                  <line x1="5" y1="19" x2="5" y2="5"></line>
-                </svg>
-              </button>
-              
-              <button className="p-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded">
-                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                  <rect x="6" y="4" width="4" height="16"></rect>
-                  <rect x="14" y="4" width="4" height="16"></rect>
-                </svg>
-              </button>
-              
-              <button className="p-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded">
-                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                  <polygon points="5 4 15 12 5 20 5 4"></polygon>
-                </svg>
-              </button>
-              
-              <button className="p-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded">
-                <RefreshCcw size={16} />
-              </button>
-            </div>
-            
-            <div className="text-center text-xs text-gray-400">
-              {currentTime 
-                ? new Date(currentTime).toLocaleString() 
-                : new Date().toLocaleString()
-              }
-            </div>
-          </div>
-        </div>
+      {showTimeControl && timeline && onTimelineChange && (
+        <TimelinePanel
+          timeline={timeline}
+          onTimelineChange={onTimelineChange}
+          onClose={() => setShowTimeControl(false)}
+          t={t}
+        />
+      )}
+      
+      {/* Measurement Panel */}
+      {showMeasurement && (
+        <MeasurementPanel
+          mode={measurementMode}
+          points={measurementPoints}
+          bearingUnit={bearingUnit}
+          entities={measurementEntities}
+          onModeChange={handleMeasurementModeChange}
+          onBearingUnitChange={setBearingUnit}
+          onUndo={() => setMeasurementPoints(points => points.slice(0, -1))}
+          onClear={() => setMeasurementPoints([])}
+          onAttachNote={handleAttachNote}
+          onClose={() => setShowMeasurement(false)}
+          t={t}
+        />
+      )}
+      
+      {/* Tactical Graphics Panel */}
+      {showTacticalGraphics && (
+        <TacticalGraphicsPanel
+          graphics={tacticalGraphics}
+          drawing={graphicDrawing}
+          selectedId={selectedGraphicId}
+          onStartDrawing={handleStartGraphic}
+          onUndoPoint={() => setGraphicDrawing(drawing => drawing && { ...drawing, points: drawing.points.slice(0, -1) })}
+          onFinishDrawing={() => graphicDrawing && handleFinishGraphic(graphicDrawing)}
+          onCancelDrawing={() => setGraphicDrawing(null)}
+          onSelect={setSelectedGraphicId}
+          onUpdate={handleUpdateGraphic}
+          onDelete={handleDeleteGraphic}
+          onClose={handleCloseTacticalGraphics}
+          t={t}
+        />
+      )}
+      
+      {/* Lines of Bearing Panel */}
+      {bearingEmitter && (
+        <BearingsPanel
+          emitterLabel={bearingEmitter.model || bearingEmitter.classification}
+          bearings={bearingFix?.bearings || []}
+          excludedSignalIds={excludedBearings}
+          fix={directionFindingFix}
+          reportedFix={bearingFix}
+          onToggleBearing={handleToggleBearing}
+          onIncludeAll={() => setExcludedBearings([])}
+          onClose={() => setBearingEmitterId(null)}
+          t={t}
+        />
+      )}
+      
+      {/* Focus Area Panel */}
+      {showFocusArea && onRunFusion && (
+        <FocusAreaPanel
+          shape={focusAreaShape}
+          points={focusAreaPoints}
+          fullStats={getFusionRunStats(fullFusionData)}
+          scopedStats={getFusionRunStats(scopedFusionData)}
+          scopedArea={scopedFocusArea || null}
+          showScoped={showScopedFusion}
+          isRunning={isFusionRunning}
+          onShapeChange={handleFocusAreaShapeChange}
+          onUndo={() => setFocusAreaPoints(points => points.slice(0, -1))}
+          onClear={() => setFocusAreaPoints([])}
+          onRunScoped={handleRunScopedFusion}
+          onRunFull={() => onRunFusion(null)}
+          onShowScopedChange={setShowScopedFusion}
+          onClose={() => setShowFocusArea(false)}
+          t={t}
+        />
+      )}
+      
+      {/* Emitter Detail Panel */}
+      {detailEmitterId && (
+        <EmitterDetailPanel
+          key={detailEmitterId}
+          emitterId={detailEmitterId}
+          onClose={() => setDetailEmitterId(null)}
+          t={t}
+        />
       )}
       
       {/* Fixed Legend */}
@@ -2328,15 +3602,67 @@ const FusionMap: React.FC<FusionMapProps> = ({
             </div>
           )}
         </div>
+        
+        <div className="text-xs font-medium text-gray-300 mt-3 mb-2">SYMBOLOGY (APP-6)</div>
+        <div className="space-y-1">
+          {symbolLegend.map(entry => (
+            <div key={entry.label} className="flex items-center">
+              <img src={entry.image} alt="" className="h-4 mr-2" />
+              <span className="text-xs text-gray-300">{entry.label}</span>
+            </div>
+          ))}
+        </div>
       </div>
       
-      {/* Status Bar - Theater designation for Ukraine */}
-      <div className="absolute bottom-4 left-4 z-10 bg-gray-800 bg-opacity-80 backdrop-blur-sm rounded-lg shadow-lg border border-gray-700 px-3 py-2">
+      {/* Status Bar - Area of operations designation */}
+      <button
+        onClick={() => setShowAreaOfOperations(true)}
+        className="absolute bottom-4 left-4 z-10 bg-gray-800 bg-opacity-80 backdrop-blur-sm rounded-lg shadow-lg border border-gray-700 px-3 py-2 hover:bg-gray-700"
+        title="Edit area of operations"
+      >
         <div className="flex items-center text-xs text-gray-400">
           <Zap className="h-3.5 w-3.5 mr-1.5 text-blue-400" />
-          <span className="font-mono uppercase tracking-wider">THEATER: UKRAINE</span>
+          <span className="font-mono uppercase tracking-wider">THEATER: {areaOfOperations.name}</span>
         </div>
-      </div>
+      </button>
+      
+      <Portal>
+        <AreaOfOperationsModal
+          isOpen={showAreaOfOperations}
+          onClose={handleCloseAreaOfOperations}
+          areaOfOperations={areaOfOperations}
+          onSave={(ao) => onAreaOfOperationsChange?.(ao)}
+          onReset={() => onAreaOfOperationsChange?.(null)}
+          getCurrentViewBounds={map ? getCurrentViewBounds : undefined}
+        />
+        <TileSourcesModal
+          isOpen={showTileSources}
+          onClose={handleCloseTileSources}
+          builtInSources={BUILT_IN_TILE_SOURCES}
+          serverSources={serverTileSources}
+          customSources={customTileSources}
+          onSave={handleTileSourcesSave}
+        />
+        <SystemCatalogueModal
+          isOpen={showSystemCatalogue}
+          onClose={handleCloseSystemCatalogue}
+          catalogue={systemCatalogue}
+          onCatalogueChange={setSystemCatalogue}
+        />
+        <SensorRegistryModal
+          isOpen={showSensorRegistry}
+          onClose={handleCloseSensorRegistry}
+          sensors={sensors}
+          onSensorsChange={setSensors}
+        />
+        <CorrelationSettingsModal
+          isOpen={showCorrelationSettings}
+          onClose={handleCloseCorrelationSettings}
+          settings={correlationSettings}
+          onSave={handleCorrelationSettingsChange}
+          onReset={() => handleCorrelationSettingsChange(null)}
+        />
+      </Portal>
       
       {/* Selected entity popup */}
       {selectedEntity && (
@@ -2344,6 +3670,12 @@ const FusionMap: React.FC<FusionMapProps> = ({
           <IntelligencePopup
             entityType={selectedEntity.type}
             entityData={selectedEntity.data}
+            catalogueSystem={selectedEntity.type === 'sigint'
+              ? findCatalogueSystem(systemCatalogue, selectedEntity.data?.platformAssessment?.model || selectedEntity.data?.classification?.model)
+              : null}
+            onShowDetails={selectedEntity.type === 'sigint' ? () => setDetailEmitterId(selectedEntity.id) : undefined}
+            onPredict={selectedEntity.type === 'sigint' ? () => handlePredictEmitter(selectedEntity.id) : undefined}
+            hasPrediction={!!emitterPredictions[selectedEntity.id]}
             onClose={handleClosePopup}
           />
         </div>
@@ -3,6 +3,9 @@ import React, { useEffect, useState } from 'react';
 import { AdaptedAnalysisResponse, TacticalObservation } from '../../../type/intelligence';
 import { SigintAnalysisResponse, FusionAnalysisResponse, EmitterLocation } from '../../../type/sigintTypes';
 import { processFusionData } from '../utils/fusionProcessor';
+import { haversineDistance } from '../utils/geodesy';
+import { formatDistance } from '../utils/coordinateParser';
+import L from '../utils/leaflet';
 
 // Extended TacticalObservation to include id
 interface ExtendedTacticalObservation extends TacticalObservation {
@@ -74,13 +77,13 @@ const FusionVisualizationLayer: React.FC<FusionVisualizationLayerProps> = ({
           const icon = createFusionIcon(entity.type);
           
           // Create marker
-          const marker = window.L.marker([lat, lng], { 
+          const marker = L.marker([lat, lng], { 
             icon,
             zIndexOffset: 1500 // Keep fusion entities on top
           }).addTo(layerGroup);
           
           // Add pulse effect
-          const pulseCircle = window.L.circle(
+          const pulseCircle = L.circle(
             [lat, lng], 
             {
               radius: 150,
@@ -123,7 +126,7 @@ const FusionVisualizationLayer: React.FC<FusionVisualizationLayerProps> = ({
             </div>
           `;
           
-          const popup = window.L.popup({
+          const popup = L.popup({
             className: 'military-popup',
             closeButton: false,
             maxWidth: 250
@@ -146,7 +149,7 @@ const FusionVisualizationLayer: React.FC<FusionVisualizationLayerProps> = ({
         if (!area.center || !area.radius) return null;
         
         // Create threat area circle
-        const circle = window.L.circle(
+        const circle = L.circle(
           area.center,
           {
             radius: area.radius,
@@ -159,8 +162,8 @@ const FusionVisualizationLayer: React.FC<FusionVisualizationLayerProps> = ({
         ).addTo(layerGroup);
         
         // Add label for the threat area
-        const label = window.L.marker(area.center, {
-          icon: window.L.divIcon({
+        const label = L.marker(area.center, {
+          icon: L.divIcon({
             html: `<div class="px-2 py-1 bg-purple-900/80 text-white text-xs rounded">${area.name}</div>`,
             className: '',
             iconSize: [120, 24],
@@ -193,7 +196,7 @@ const FusionVisualizationLayer: React.FC<FusionVisualizationLayerProps> = ({
           </div>
         `;
         
-        const popup = window.L.popup({
+        const popup = L.popup({
           className: 'military-popup',
           closeButton: false,
           maxWidth: 250
@@ -217,12 +220,12 @@ const FusionVisualizationLayer: React.FC<FusionVisualizationLayerProps> = ({
           const lng = event.location.coordinates.longitude || event.location.coordinates.lng;
           
           // Create prediction marker
-          const marker = window.L.marker([lat, lng], {
+          const marker = L.marker([lat, lng], {
             icon: createPredictionIcon(event.confidenceLevel)
           }).addTo(layerGroup);
           
           // Add uncertainty circle
-          const uncertaintyCircle = window.L.circle(
+          const uncertaintyCircle = L.circle(
             [lat, lng],
             {
               radius: 300, // Default uncertainty radius
@@ -265,7 +268,7 @@ const FusionVisualizationLayer: React.FC<FusionVisualizationLayerProps> = ({
             </div>
           `;
           
-          const popup = window.L.popup({
+          const popup = L.popup({
             className: 'military-popup',
             closeButton: false,
             maxWidth: 250
@@ -369,7 +372,7 @@ const FusionVisualizationLayer: React.FC<FusionVisualizationLayerProps> = ({
         }
         
         // Create the correlation line
-        const line = window.L.polyline(
+        const line = L.polyline(
           [humintCoords, sigintCoords],
           {
             color: lineColor,
@@ -382,9 +385,12 @@ const FusionVisualizationLayer: React.FC<FusionVisualizationLayerProps> = ({
         // Add midpoint marker showing correlation strength
         const midLat = (humintCoords[0] + sigintCoords[0]) / 2;
         const midLng = (humintCoords[1] + sigintCoords[1]) / 2;
+        const distance = formatDistance(haversineDistance(
+          humintCoords[0], humintCoords[1], sigintCoords[0], sigintCoords[1]
+        ));
         
-        const strengthMarker = window.L.marker([midLat, midLng], {
-          icon: window.L.divIcon({
+        const strengthMarker = L.marker([midLat, midLng], {
+          icon: L.divIcon({
             html: `<div class="flex items-center justify-center h-6 w-6 rounded-full bg-purple-900/80 border border-purple-700 text-white text-xs font-medium">
               ${Math.round(correlation.strength * 100)}%
             </div>`,
@@ -434,20 +440,21 @@ const FusionVisualizationLayer: React.FC<FusionVisualizationLayerProps> = ({
             
             <div class="flex justify-between mt-2 pt-1 border-t border-gray-200">
               <div class="text-xs text-gray-700">
-                Strength: ${(correlation.strength * 100).toFixed(0)}%
+                Strength: ${(correlation.strength * 100).toFixed(0)}% · ${distance}
               </div>
               <div class="text-xs px-1.5 py-0.5 rounded bg-purple-100 text-purple-700">CORRELATION</div>
             </div>
           </div>
         `;
         
-        const popup = window.L.popup({
+        const popup = L.popup({
           className: 'military-popup',
           closeButton: false,
           maxWidth: 250
         }).setContent(popupContent);
         
         line.bindPopup(popup);
+        line.bindTooltip(distance, { sticky: true });
         strengthMarker.bindPopup(popup);
         
         return { line, strengthMarker };
@@ -474,8 +481,6 @@ const FusionVisualizationLayer: React.FC<FusionVisualizationLayerProps> = ({
  * @returns A Leaflet divIcon
  */
 function createFusionIcon(type: string): any {
-  if (!window.L) return null;
-  
   // Create fusion icon based on entity type
   let iconHtml = '';
   
@@ -544,7 +549,7 @@ function createFusionIcon(type: string): any {
       </div>`;
   }
   
-  return window.L.divIcon({
+  return L.divIcon({
     html: iconHtml,
     className: '',
     iconSize: [40, 40],
@@ -559,8 +564,6 @@ function createFusionIcon(type: string): any {
  * @returns A Leaflet divIcon
  */
 function createPredictionIcon(confidence: string): any {
-  if (!window.L) return null;
-  
   // Determine color based on confidence
   let color = 'purple';
   
@@ -586,7 +589,7 @@ function createPredictionIcon(confidence: string): any {
     </svg>
   </div>`;
   
-  return window.L.divIcon({
+  return L.divIcon({
     html: iconHtml,
     className: '',
     iconSize: [40, 40],
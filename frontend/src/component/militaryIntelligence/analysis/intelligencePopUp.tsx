@@ -3,16 +3,26 @@ import React from 'react';
 import { Eye, Target, Radio, Shield, Map, Zap, AlertTriangle, Globe } from 'lucide-react';
 import ConfidenceBadge from '../ui/confidenceBadge';
 import { QualityScore } from '../../../type/intelligence';
+import { CatalogueSystem } from '../../../type/sigintTypes';
+import { describeCatalogueSystem } from '../utils/systemCatalogue';
 
 interface IntelligencePopupProps {
   entityType: 'humint' | 'sigint' | 'osint' | 'fusion' | 'threat' | 'location' | 'prediction';
   entityData: any;
+  catalogueSystem?: CatalogueSystem | null; // reference entry for the emitter's system
+  onShowDetails?: () => void; // opens the emitter's measurement history
+  onPredict?: () => void; // predicts the emitter's movement, or clears the prediction
+  hasPrediction?: boolean;
   onClose?: () => void;
 }
 
 export const IntelligencePopup: React.FC<IntelligencePopupProps> = ({
   entityType,
   entityData,
+  catalogueSystem,
+  onShowDetails,
+  onPredict,
+  hasPrediction = false,
   onClose
 }) => {
   // Format date function
@@ -229,6 +239,37 @@ export const IntelligencePopup: React.FC<IntelligencePopupProps> = ({
             <p className="text-sm">{entityData.characteristics.modulation.join(', ')}</p>
           </div>
         )}
+        
+        {/* Reference data for the identified system */}
+        {catalogueSystem && (
+          <div className="border-t border-red-100 pt-2">
+            <span className="text-gray-500 text-xs">{catalogueSystem.name}:</span>
+            {describeCatalogueSystem(catalogueSystem).map(line => (
+              <p key={line} className="text-xs text-gray-700">{line}</p>
+            ))}
+          </div>
+        )}
+        
+        {(onShowDetails || onPredict) && (
+          <div className="border-t border-red-100 pt-2 flex gap-4">
+            {onShowDetails && (
+              <button
+                onClick={onShowDetails}
+                className="text-xs text-red-700 hover:text-red-800 hover:underline"
+              >
+                Signal history and detections
+              </button>
+            )}
+            {onPredict && (
+              <button
+                onClick={onPredict}
+                className="text-xs text-amber-700 hover:text-amber-800 hover:underline"
+              >
+                {hasPrediction ? 'Clear prediction' : 'Predict movement'}
+              </button>
+            )}
+          </div>
+        )}
       </div>
     );
   };
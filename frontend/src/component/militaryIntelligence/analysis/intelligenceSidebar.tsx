@@ -30,8 +30,10 @@ import {
   QualityScore, 
   Prediction 
 } from '../../../type/intelligence';
+import { FusionCorrelationResult } from '../../../type/sigintTypes';
 import ConfidenceBadge from '../ui/confidenceBadge';
 import InsightItem from '../ui/insightItem';
+import CorrelationReviewQueue from './correlationReviewQueue';
 
 // Define interfaces for data structures used in the component
 interface SigintStats {
@@ -338,6 +340,7 @@ interface ComponentFusionAnalysisResponse {
   sigintAnalysisId: string;
   osintAnalysisId: string;
   fusedEntities: FusedEntity[];
+  correlations?: FusionCorrelationResult[];
   predictionSummary?: string;
   predictions?: FusionPrediction[];
 }
@@ -2252,6 +2255,33 @@ const IntelligenceSidebar: React.FC<IntelligenceSidebarProps> = ({
           </div>
         )}
         
+        {/* Correlation Review Queue - Fusion Specific */}
+        {(activeTab === 'all' || activeTab === 'fusion') && fusionData && fusionData.correlations && (
+          <div className="bg-white rounded border border-gray-200 overflow-hidden">
+            <div 
+              className="p-2.5 flex justify-between items-center cursor-pointer hover:bg-gray-50"
+              onClick={() => toggleSection('review')}
+            >
+              <div className="flex items-center gap-2">
+                <Eye className="h-4 w-4 text-gray-500" />
+                <h3 className="text-sm font-medium text-gray-700">Review Queue</h3>
+              </div>
+              <div className="transform transition-transform duration-200"
+                   style={{ transform: expandedSection === 'review' ? 'rotate(180deg)' : 'rotate(0)' }}>
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-gray-400" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                </svg>
+              </div>
+            </div>
+            
+            {expandedSection === 'review' && (
+              <div className="p-2.5 border-t border-gray-200">
+                <CorrelationReviewQueue correlations={fusionData.correlations} />
+              </div>
+            )}
+          </div>
+        )}
+        
         {/* Predictions Section */}
         {humintData && humintData.predictions && humintData.predictions.length > 0 && (
           <div className="bg-white rounded border border-gray-200 overflow-hidden">
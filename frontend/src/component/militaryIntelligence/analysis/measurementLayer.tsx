@@ -0,0 +1,131 @@
+// components/military-intelligence/analysis/MeasurementLayer.tsx
+import React, { useEffect } from 'react';
+import { formatDistance } from '../utils/coordinateParser';
+import { BearingUnit, MeasurementMode, MeasurementPoint, formatBearing, measurePath } from '../utils/measurement';
+import L, { LeafletMouseEvent } from '../utils/leaflet';
+
+interface MeasurementLayerProps {
+  map: L.Map | null;
+  layerGroup?: L.LayerGroup;
+  active: boolean;
+  mode: MeasurementMode;
+  points: MeasurementPoint[];
+  bearingUnit: BearingUnit;
+  onAddPoint: (point: MeasurementPoint) => void;
+}
+
+const LABEL_STYLES = `
+  .measurement-label {
+    background-color: rgba(17, 24, 39, 0.85);
+    color: #facc15;
+    font-family: monospace;
+    font-size: 11px;
+    border: 1px solid rgba(250, 204, 21, 0.5);
+    box-shadow: none;
+  }
+
+  .measurement-label::before {
+    display: none;
+  }
+`;
+
+const LINE_OPTIONS = {
+  color: '#facc15',
+  weight: 2,
+  dashArray: '6, 4',
+  interactive: false
+};
+
+/**
+ * Distance, bearing and area measurement drawn over the fusion map. While active,
+ * map clicks place the measurement points; the panel holds the points and totals.
+ */
+const MeasurementLayer: React.FC<MeasurementLayerProps> = ({
+  map,
+  layerGroup,
+  active,
+  mode,
+  points,
+  bearingUnit,
+  onAddPoint
+}) => {
+  useEffect(() => {
+    const styleElement = document.createElement('style');
+    styleElement.textContent = LABEL_STYLES;
+    document.head.appendChild(styleElement);
+
+    return () => {
+      document.head.removeChild(styleElement);
+    };
+  }, []);
+
+  // While measuring, map clicks place measurement points
+  useEffect(() => {
+    if (!map || !active) return;
+
+    const handleClick = (e: LeafletMouseEvent) => {
+      onAddPoint({ lat: e.latlng.lat, lng: e.latlng.lng });
+    };
+
+    map.on('click', handleClick);
+    map.doubleClickZoom.disable();
+    map.getContainer().style.cursor = 'crosshair';
+
+    return () => {
+      map.off('click', handleClick);
+      map.doubleClickZoom.enable();
+      map.getContainer().style.cursor = '';
+    };
+  }, [map, active, onAddPoint]);
+
+  // Draw the measurement with leg labels and a rubber band to the cursor
+  useEffect(() => {
+    if (!map || !layerGroup) return;
+
+    layerGroup.clearLayers();
+    if (!active || points.length === 0) return;
+
+    const latLngs = points.map(point => [point.lat, point.lng] as [number, number]);
+
+    if (mode === 'area' && points.length >= 3) {
+      L.polygon(latLngs, { ...LINE_OPTIONS, fillColor: '#facc15', fillOpacity: 0.15 }).addTo(layerGroup);
+    } else {
+      L.polyline(latLngs, LINE_OPTIONS).addTo(layerGroup);
+    }
+
+    const segments = measurePath(points);
+    latLngs.forEach((latLng, index) => {
+      const vertex = L.circleMarker(latLng, {
+        radius: 4,
+        color: '#facc15',
+        fillColor: '#111827',
+        fillOpacity: 1,
+        weight: 2,
+        interactive: false
+      }).addTo(layerGroup);
+
+      // Each vertex after the first shows the leg that ends there and the running total
+      const segment = segments[index - 1];
+      if (segment) {
+        vertex.bindTooltip(
+          `${formatDistance(segment.distance)} ${formatBearing(segment.bearing, bearingUnit)} · Σ ${formatDistance(segment.cumulative)}`,
+          { permanent: true, direction: 'right', offset: [8, 0], className: 'measurement-label' }
+        );
+      }
+    });
+
+    const rubberBand = L.polyline([], { ...LINE_OPTIONS, opacity: 0.5 }).addTo(layerGroup);
+    const handleMouseMove = (e: LeafletMouseEvent) => {
+      rubberBand.setLatLngs([latLngs[latLngs.length - 1], e.latlng]);
+    };
+
+    map.on('mousemove', handleMouseMove);
+    return () => {
+      map.off('mousemove', handleMouseMove);
+    };
+  }, [map, layerGroup, active, mode, points, bearingUnit]);
+
+  return null;
+};
+
+export default MeasurementLayer;
@@ -0,0 +1,206 @@
+// components/military-intelligence/analysis/MeasurementPanel.tsx
+import React, { useMemo, useState } from 'react';
+import { XCircle, Ruler, Pentagon, Undo2, Trash2, Copy, StickyNote } from 'lucide-react';
+import { formatDistance } from '../utils/coordinateParser';
+import { haversineDistance } from '../utils/geodesy';
+import {
+  BearingUnit,
+  MeasurementMode,
+  MeasurementPoint,
+  formatArea,
+  formatBearing,
+  formatMeasurement,
+  measurePath,
+  polygonArea,
+  polygonPerimeter
+} from '../utils/measurement';
+import { toast } from '../utils/toastService';
+
+export interface MeasurementEntity {
+  id: string;
+  label: string;
+  latitude: number;
+  longitude: number;
+}
+
+interface MeasurementPanelProps {
+  mode: MeasurementMode;
+  points: MeasurementPoint[];
+  bearingUnit: BearingUnit;
+  entities: MeasurementEntity[];
+  onModeChange: (mode: MeasurementMode) => void;
+  onBearingUnitChange: (unit: BearingUnit) => void;
+  onUndo: () => void;
+  onClear: () => void;
+  onAttachNote: (entityId: string, text: string) => void;
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+// Entities offered for attaching a note, nearest to the measurement first
+const MAX_NOTE_TARGETS = 10;
+
+const MeasurementPanel: React.FC<MeasurementPanelProps> = ({
+  mode,
+  points,
+  bearingUnit,
+  entities,
+  onModeChange,
+  onBearingUnitChange,
+  onUndo,
+  onClear,
+  onAttachNote,
+  onClose,
+  t
+}) => {
+  const [targetId, setTargetId] = useState<string>('');
+
+  const isArea = mode === 'area';
+  const segments = useMemo(
+    () => measurePath(isArea && points.length >= 3 ? [...points, points[0]] : points),
+    [points, isArea]
+  );
+  const summary = formatMeasurement(mode, points, bearingUnit);
+
+  const targets = useMemo(() => {
+    if (points.length === 0) return [];
+
+    return entities
+      .map(entity => ({
+        entity,
+        distance: Math.min(...points.map(point =>
+          haversineDistance(point.lat, point.lng, entity.latitude, entity.longitude)))
+      }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, MAX_NOTE_TARGETS);
+  }, [entities, points]);
+
+  const selectedTarget = targets.find(target => target.entity.id === targetId) || targets[0];
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(summary);
+      toast.success('Measurement copied to clipboard');
+    } catch {
+      toast.error('Unable to access the clipboard');
+    }
+  };
+
+  const handleAttach = () => {
+    if (!selectedTarget) return;
+    onAttachNote(selectedTarget.entity.id, summary);
+    toast.success(`Measurement attached to ${selectedTarget.entity.label}`);
+  };
+
+  const modeClass = (active: boolean) => `flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded text-xs ${
+    active ? 'bg-gray-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+  const buttonClass = 'p-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded disabled:opacity-40';
+  const selectClass = 'w-full bg-gray-700 border border-gray-600 rounded px-1.5 py-1 text-xs text-gray-200';
+
+  return (
+    <div className="absolute top-16 right-4 z-20 bg-gray-800/90 backdrop-blur-sm border border-gray-700 rounded-md p-3 shadow-lg w-80">
+      <div className="flex justify-between items-center mb-2 pb-1 border-b border-gray-700">
+        <h3 className="text-sm font-medium text-gray-200">{t('measure') || "Measure"}</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-200 p-1 rounded hover:bg-gray-700"
+        >
+          <XCircle size={16} />
+        </button>
+      </div>
+
+      <div className="space-y-3 mt-3">
+        <div className="flex gap-2">
+          <button onClick={() => onModeChange('distance')} className={modeClass(!isArea)}>
+            <Ruler size={14} /> Distance
+          </button>
+          <button onClick={() => onModeChange('area')} className={modeClass(isArea)}>
+            <Pentagon size={14} /> Area
+          </button>
+        </div>
+
+        {points.length === 0 ? (
+          <div className="text-xs text-gray-400">
+            Click the map to place points. Each click adds a {isArea ? 'corner of the area' : 'leg to the ruler'}.
+          </div>
+        ) : (
+          <div className="max-h-40 overflow-y-auto">
+            <table className="w-full text-xs text-gray-300">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="text-left font-normal">Leg</th>
+                  <th className="text-right font-normal">Distance</th>
+                  <th className="text-right font-normal">Bearing</th>
+                  <th className="text-right font-normal">Total</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {segments.map((segment, index) => (
+                  <tr key={index}>
+                    <td>{index + 1}</td>
+                    <td className="text-right">{formatDistance(segment.distance)}</td>
+                    <td className="text-right">{formatBearing(segment.bearing, bearingUnit)}</td>
+                    <td className="text-right">{formatDistance(segment.cumulative)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {isArea && points.length >= 3 && (
+          <div className="flex justify-between text-xs text-gray-300">
+            <span>Area <span className="font-mono text-gray-100">{formatArea(polygonArea(points))}</span></span>
+            <span>Perimeter <span className="font-mono text-gray-100">{formatDistance(polygonPerimeter(points))}</span></span>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <select
+            value={bearingUnit}
+            onChange={(e) => onBearingUnitChange(e.target.value as BearingUnit)}
+            className={selectClass}
+            aria-label="Bearing unit"
+          >
+            <option value="degrees">Degrees</option>
+            <option value="mils">Mils (6400)</option>
+          </select>
+          <button onClick={onUndo} disabled={points.length === 0} className={buttonClass} title="Remove last point">
+            <Undo2 size={16} />
+          </button>
+          <button onClick={onClear} disabled={points.length === 0} className={buttonClass} title="Clear measurement">
+            <Trash2 size={16} />
+          </button>
+          <button onClick={handleCopy} disabled={points.length < 2} className={buttonClass} title="Copy to clipboard">
+            <Copy size={16} />
+          </button>
+        </div>
+
+        {points.length >= 2 && targets.length > 0 && (
+          <div className="pt-2 border-t border-gray-700">
+            <label className="block text-[10px] text-gray-500 mb-0.5" htmlFor="measurement-note-target">Attach as note to</label>
+            <div className="flex gap-2">
+              <select
+                id="measurement-note-target"
+                value={selectedTarget?.entity.id}
+                onChange={(e) => setTargetId(e.target.value)}
+                className={selectClass}
+              >
+                {targets.map(({ entity, distance }) => (
+                  <option key={entity.id} value={entity.id}>
+                    {entity.label} ({formatDistance(distance)})
+                  </option>
+                ))}
+              </select>
+              <button onClick={handleAttach} className={buttonClass} title="Attach note">
+                <StickyNote size={16} />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MeasurementPanel;
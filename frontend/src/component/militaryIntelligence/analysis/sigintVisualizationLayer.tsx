@@ -10,7 +10,19 @@ import {
   NavalVessel,
   AircraftUnit
 } from '../../../type/sigintTypes';
+import { correctTruncatedLatitude } from '../utils/areaOfOperations';
 import { processRadarEmitters, processElectronicOrderOfBattle } from '../utils/radarUtils';
+import {
+  SYMBOL_FUNCTIONS,
+  SymbolSpec,
+  createSymbolIcon,
+  echelonFromText,
+  symbolForEmitter,
+  symbolFromText
+} from '../utils/militarySymbols';
+import { createMarkerClusterGroup, describeClusterMarker } from '../utils/markerClustering';
+import { uncertaintyConeBands } from '../utils/predictionCone';
+import L from '../utils/leaflet';
 
 interface SigintVisualizationLayerProps {
   sigintData: SigintAnalysisResponse;
@@ -30,11 +42,11 @@ function isValidLatLng(coordinates: any): boolean {
   if (!coordinates || typeof coordinates !== 'object') return false;
   
   let lat = coordinates.lat;
-  let lng = coordinates.lng;
+  const lng = coordinates.lng;
   
-  // Fix truncated coordinates (Ukraine is around 47-50°N)
-  if (lat < 10 && lng > 30 && lng < 41) {
-    lat = 40 + lat;
+  // Repair truncated latitudes against the area of operations
+  if (typeof lat === 'number' && typeof lng === 'number') {
+    lat = correctTruncatedLatitude(lat, lng);
     coordinates.lat = lat; // Update the original object too
   }
   
@@ -85,16 +97,17 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
     // If SIGINT layer is not visible, return early
     if (!visibleLayers.includes('sigint')) return;
     
+    // Emitter and EOB symbols are clustered; coverage and paths stay in the layer group
+    const markers = createMarkerClusterGroup();
+    layerGroup.addLayer(markers);
+    
     // Improved isValidLatLng function to handle and fix truncated coordinates
     const fixAndValidateLatLng = (coordinates: any): boolean => {
       if (!coordinates || typeof coordinates !== 'object') return false;
       
-      // Fix truncated coordinates (Ukraine is around 47-50°N)
-      if (typeof coordinates.lat === 'number' && typeof coordinates.lng === 'number' &&
-          coordinates.lat < 10 && coordinates.lng > 30 && coordinates.lng < 41) {
-        // This is likely a truncated coordinate - fix by adding leading "4"
-        coordinates.lat = 40 + coordinates.lat;
-        console.log(`[DEBUG] Fixed truncated latitude: ${coordinates.lat}, ${coordinates.lng}`);
+      // Repair truncated latitudes against the area of operations
+      if (typeof coordinates.lat === 'number' && typeof coordinates.lng === 'number') {
+        coordinates.lat = correctTruncatedLatitude(coordinates.lat, coordinates.lng);
       }
       
       return (
@@ -154,14 +167,14 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
       const icon = createEmitterIcon(emitter.type || '', emitter.platformType);
       
       // Create marker with valid coordinates
-      const marker = window.L.marker([emitter.coordinates.lat, emitter.coordinates.lng], {
+      const marker = describeClusterMarker(L.marker([emitter.coordinates.lat, emitter.coordinates.lng], {
         icon,
         zIndexOffset: 1000
-      }).addTo(layerGroup);
+      }), 'emitter').addTo(markers);
       
       // Add accuracy circle around emitter
       if (emitter.accuracy && typeof emitter.accuracy === 'number' && !isNaN(emitter.accuracy)) {
-        const accuracyCircle = window.L.circle(
+        const accuracyCircle = L.circle(
           [emitter.coordinates.lat, emitter.coordinates.lng], 
           {
             radius: emitter.accuracy,
@@ -175,7 +188,7 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
       }
       
       // Add pulse effect
-      const pulseCircle = window.L.circle(
+      const pulseCircle = L.circle(
         [emitter.coordinates.lat, emitter.coordinates.lng], 
         {
           radius: 100,
@@ -229,7 +242,7 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
         </div>
       `;
       
-      const popup = window.L.popup({
+      const popup = L.popup({
         className: 'military-popup',
         closeButton: false,
         maxWidth: 250
@@ -252,7 +265,7 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
         );
         
         if (validPath.length > 1) {
-          const path = window.L.polyline(
+          const path = L.polyline(
             validPath,
             {
               color: getEmitterColor(emitter.type || '', emitter.platformType, 0.7),
@@ -284,13 +297,38 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
           });
           
           // Start path from the emitter's current position
-          const predictionPath = [
+          const predictionPath: Array<[number, number]> = [
             [emitter.coordinates.lat, emitter.coordinates.lng],
-            ...sortedPredictions.map(p => [p.coordinates.lat, p.coordinates.lng])
+            ...sortedPredictions.map((p): [number, number] => [p.coordinates.lat, p.coordinates.lng])
           ];
           
+          // Uncertainty cone widening along the path, where predictions carry a radius
+          const coneSteps = sortedPredictions
+            .filter(pred => typeof pred.uncertaintyRadius === 'number' && !isNaN(pred.uncertaintyRadius))
+            .map(pred => ({
+              latitude: pred.coordinates.lat,
+              longitude: pred.coordinates.lng,
+              radius: pred.uncertaintyRadius as number
+            }));
+          
+          if (coneSteps.length > 0) {
+            uncertaintyConeBands(
+              { latitude: emitter.coordinates.lat, longitude: emitter.coordinates.lng, radius: emitter.accuracy || 0 },
+              coneSteps
+            ).forEach(({ outline }) => {
+              L.polygon(outline, {
+                color: getEmitterColor(emitter.type || '', emitter.platformType, 0.5),
+                fillColor: getEmitterColor(emitter.type || '', emitter.platformType, 0.12),
+                fillOpacity: 1,
+                weight: 1,
+                dashArray: '2,4',
+                interactive: false
+              }).addTo(layerGroup);
+            });
+          }
+          
           // Create the prediction path
-          const predPath = window.L.polyline(
+          const predPath = L.polyline(
             predictionPath,
             {
               color: getEmitterColor(emitter.type || '', emitter.platformType, 0.7),
@@ -301,34 +339,32 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
           ).addTo(layerGroup);
           
           // Add arrow to show direction
-          if (window.L.Symbol && window.L.polylineDecorator) {
-            try {
-              const arrow = window.L.polylineDecorator(predPath, {
-                patterns: [
-                  {
-                    offset: '100%',
-                    repeat: 0,
-                    symbol: window.L.Symbol.arrowHead({
-                      pixelSize: 10,
-                      polygon: false,
-                      pathOptions: {
-                        color: getEmitterColor(emitter.type || '', emitter.platformType, 1),
-                        fillOpacity: 1,
-                        weight: 2
-                      }
-                    })
-                  }
-                ]
-              }).addTo(layerGroup);
-            } catch (error) {
-              console.warn('Failed to add polyline decorator:', error);
-            }
+          try {
+            const arrow = L.polylineDecorator(predPath, {
+              patterns: [
+                {
+                  offset: '100%',
+                  repeat: 0,
+                  symbol: L.Symbol.arrowHead({
+                    pixelSize: 10,
+                    polygon: false,
+                    pathOptions: {
+                      color: getEmitterColor(emitter.type || '', emitter.platformType, 1),
+                      fillOpacity: 1,
+                      weight: 2
+                    }
+                  })
+                }
+              ]
+            }).addTo(layerGroup);
+          } catch (error) {
+            console.warn('Failed to add polyline decorator:', error);
           }
           
           // Add prediction markers
           sortedPredictions.forEach(pred => {
             // Create prediction marker
-            const predMarker = window.L.circleMarker(
+            const predMarker = L.circleMarker(
               [pred.coordinates.lat, pred.coordinates.lng],
               {
                 radius: 5,
@@ -339,25 +375,6 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
               }
             ).addTo(layerGroup);
             
-            // Add uncertainty circle
-            if (
-              pred.uncertaintyRadius && 
-              typeof pred.uncertaintyRadius === 'number' && 
-              !isNaN(pred.uncertaintyRadius)
-            ) {
-              const uncertaintyCircle = window.L.circle(
-                [pred.coordinates.lat, pred.coordinates.lng],
-                {
-                  radius: pred.uncertaintyRadius,
-                  color: getEmitterColor(emitter.type || '', emitter.platformType, 0.5),
-                  fillColor: getEmitterColor(emitter.type || '', emitter.platformType, 0.2),
-                  fillOpacity: 0.3,
-                  weight: 1,
-                  dashArray: '2,4'
-                }
-              ).addTo(layerGroup);
-            }
-            
             // Add tooltip with prediction time
             if (pred.timestamp) {
               predMarker.bindTooltip(
@@ -384,12 +401,9 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
       
       const [lat, lng] = coordinates;
       
-      // Fix truncated coordinates if needed
-      if (typeof lat === 'number' && typeof lng === 'number' &&
-          lat < 10 && lng > 30 && lng < 41) {
-        // This is likely a truncated coordinate - fix by adding leading "4"
-        coordinates[0] = 40 + lat;
-        console.log(`[DEBUG] Fixed truncated latitude in array: ${coordinates[0]}, ${coordinates[1]}`);
+      // Repair truncated latitudes if needed
+      if (typeof lat === 'number' && typeof lng === 'number') {
+        coordinates[0] = correctTruncatedLatitude(lat, lng);
       }
       
       return (
@@ -411,7 +425,7 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
         
         if (isValidLatLngArray(area.bounds[0]) && isValidLatLngArray(area.bounds[1])) {
           // Rectangular coverage area
-          const rectangle = window.L.rectangle(
+          const rectangle = L.rectangle(
             area.bounds,
             {
               color: 'rgba(220, 38, 38, 0.5)',
@@ -431,7 +445,7 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
         if (isValidLatLngArray(area.center)) {
           // Circular coverage area with extra validation
           try {
-            const circle = window.L.circle(
+            const circle = L.circle(
               area.center,
               {
                 radius: area.radius,
@@ -445,8 +459,8 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
             
             // Add label for significant areas
             if (area.systemName && area.center) {
-              const label = window.L.marker(area.center, {
-                icon: window.L.divIcon({
+              const label = L.marker(area.center, {
+                icon: L.divIcon({
                   html: `<div class="px-1 py-0.5 bg-red-900/80 text-white text-xs rounded">${area.systemName}</div>`,
                   className: '',
                   iconSize: [100, 20],
@@ -484,13 +498,13 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
       
       // Create link line
       try {
-        const line = window.L.polyline(
+        const line = L.polyline(
           [path.source, path.destination],
           {
             color: path.type === 'data-link' ? 'rgba(147, 51, 234, 0.7)' : 'rgba(220, 38, 38, 0.7)',
             weight: 2,
             opacity: 0.7,
-            dashArray: path.encrypted ? '2,4' : null
+            dashArray: path.encrypted ? '2,4' : undefined
           }
         ).addTo(layerGroup);
         
@@ -498,8 +512,8 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
         const mid1 = (path.source[0] + path.destination[0]) / 2;
         const mid2 = (path.source[1] + path.destination[1]) / 2;
         
-        const label = window.L.marker([mid1, mid2], {
-          icon: window.L.divIcon({
+        const label = L.marker([mid1, mid2], {
+          icon: L.divIcon({
             html: `<div class="px-1 py-0.5 bg-purple-900/80 text-white text-[10px] rounded">${path.type || 'link'}</div>`,
             className: '',
             iconSize: [60, 20],
@@ -528,17 +542,20 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
           if (!isValidLatLng(system.coordinates)) return;
           
           // Create marker for the system
-          const icon = createEOBIcon('air-defense');
+          const icon = createEOBIcon('air-defense', system.type, {
+            designation: system.name,
+            ...(system.quantity !== undefined && { quantity: system.quantity })
+          });
           
           try {
-            const marker = window.L.marker([system.coordinates.lat, system.coordinates.lng], { 
+            const marker = describeClusterMarker(L.marker([system.coordinates.lat, system.coordinates.lng], { 
               icon,
               zIndexOffset: 900
-            }).addTo(layerGroup);
+            }), 'air defence system').addTo(markers);
             
             // Add coverage circle
             if (system.range !== undefined && typeof system.range === 'number' && !isNaN(system.range)) {
-              const rangeCircle = window.L.circle(
+              const rangeCircle = L.circle(
                 [system.coordinates.lat, system.coordinates.lng],
                 {
                   radius: system.range,
@@ -579,7 +596,7 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
               </div>
             `;
             
-            const popup = window.L.popup({
+            const popup = L.popup({
               className: 'military-popup',
               closeButton: false,
               maxWidth: 250
@@ -611,23 +628,17 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
           if (!isValidLatLng(unit.coordinates)) return;
           
           // Rest of your ground forces code...
-          const icon = createEOBIcon('ground-force', unit.type);
+          const echelon = echelonFromText(unit.echelon);
+          const icon = createEOBIcon('ground-force', [unit.type, unit.equipment].filter(Boolean).join(' '), {
+            designation: unit.name,
+            ...(echelon && { echelon })
+          });
           
           try {
-            const marker = window.L.marker([unit.coordinates.lat, unit.coordinates.lng], { 
+            const marker = describeClusterMarker(L.marker([unit.coordinates.lat, unit.coordinates.lng], { 
               icon,
               zIndexOffset: 800
-            }).addTo(layerGroup);
-            
-            // Add unit identification box
-            const label = window.L.marker([unit.coordinates.lat, unit.coordinates.lng + 0.01], {
-              icon: window.L.divIcon({
-                html: `<div class="px-1 py-0.5 bg-red-900/80 text-white text-[10px] rounded">${unit.echelon || 'UNIT'}</div>`,
-                className: '',
-                iconSize: [60, 20],
-                iconAnchor: [30, 10]
-              })
-            }).addTo(layerGroup);
+            }), 'unit').addTo(markers);
             
             // Add popup with unit information
             const popupContent = `
@@ -663,7 +674,7 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
               </div>
             `;
             
-            const popup = window.L.popup({
+            const popup = L.popup({
               className: 'military-popup',
               closeButton: false,
               maxWidth: 250
@@ -692,28 +703,16 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
           if (!isValidLatLng(vessel.coordinates)) return;
           
           // Rest of your naval forces code...
-          const icon = createEOBIcon('naval', vessel.type);
+          const icon = createEOBIcon('naval', vessel.type, {
+            designation: vessel.name,
+            ...(vessel.heading !== undefined && { direction: vessel.heading })
+          });
           
           try {
-            const marker = window.L.marker([vessel.coordinates.lat, vessel.coordinates.lng], { 
+            const marker = describeClusterMarker(L.marker([vessel.coordinates.lat, vessel.coordinates.lng], { 
               icon,
               zIndexOffset: 800
-            }).addTo(layerGroup);
-            
-            // Add heading indicator if available
-            if (vessel.heading !== undefined && typeof vessel.heading === 'number' && !isNaN(vessel.heading)) {
-              // Create an arrow showing the heading
-              const headingMarker = window.L.marker([vessel.coordinates.lat, vessel.coordinates.lng], {
-                icon: window.L.divIcon({
-                  html: `<div class="w-16 h-16 flex items-center justify-center">
-                    <div class="w-0 h-0 border-t-8 border-t-blue-600 border-l-4 border-l-transparent border-r-4 border-r-transparent transform rotate-${Math.round(vessel.heading / 10) * 10}"></div>
-                  </div>`,
-                  className: '',
-                  iconSize: [16, 16],
-                  iconAnchor: [8, 8]
-                })
-              }).addTo(layerGroup);
-            }
+            }), 'vessel').addTo(markers);
             
             // Add popup with vessel information
             const popupContent = `
@@ -759,7 +758,7 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
               </div>
             `;
             
-            const popup = window.L.popup({
+            const popup = L.popup({
               className: 'military-popup',
               closeButton: false,
               maxWidth: 250
@@ -788,40 +787,17 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
           if (!isValidLatLng(aircraft.coordinates)) return;
           
           // Rest of your air forces code...
-          const icon = createEOBIcon('air', aircraft.type);
+          const icon = createEOBIcon('air', [aircraft.type, aircraft.platform].filter(Boolean).join(' '), {
+            designation: aircraft.platform,
+            ...(aircraft.heading !== undefined && { direction: aircraft.heading }),
+            ...(aircraft.altitude !== undefined && { altitude: `${aircraft.altitude} ft` })
+          });
           
           try {
-            const marker = window.L.marker([aircraft.coordinates.lat, aircraft.coordinates.lng], { 
+            const marker = describeClusterMarker(L.marker([aircraft.coordinates.lat, aircraft.coordinates.lng], { 
               icon,
               zIndexOffset: 800
-            }).addTo(layerGroup);
-            
-            // Add altitude label if available
-            if (aircraft.altitude !== undefined && (typeof aircraft.altitude === 'number' || typeof aircraft.altitude === 'string')) {
-              const altLabel = window.L.marker([aircraft.coordinates.lat, aircraft.coordinates.lng + 0.01], {
-                icon: window.L.divIcon({
-                  html: `<div class="px-1 py-0.5 bg-amber-900/80 text-white text-[10px] rounded">${aircraft.altitude} ft</div>`,
-                  className: '',
-                  iconSize: [60, 20],
-                  iconAnchor: [30, 10]
-                })
-              }).addTo(layerGroup);
-            }
-            
-            // Add heading indicator if available
-            if (aircraft.heading !== undefined && typeof aircraft.heading === 'number' && !isNaN(aircraft.heading)) {
-              // Create an arrow showing the heading
-              const headingMarker = window.L.marker([aircraft.coordinates.lat, aircraft.coordinates.lng], {
-                icon: window.L.divIcon({
-                  html: `<div class="w-16 h-16 flex items-center justify-center">
-                    <div class="w-0 h-0 border-t-8 border-t-amber-600 border-l-4 border-l-transparent border-r-4 border-r-transparent transform rotate-${Math.round(aircraft.heading / 10) * 10}"></div>
-                  </div>`,
-                  className: '',
-                  iconSize: [16, 16],
-                  iconAnchor: [8, 8]
-                })
-              }).addTo(layerGroup);
-            }
+            }), 'aircraft').addTo(markers);
             
             // Add popup with aircraft information
             const popupContent = `
@@ -873,7 +849,7 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
               </div>
             `;
             
-            const popup = window.L.popup({
+            const popup = L.popup({
               className: 'military-popup',
               closeButton: false,
               maxWidth: 250
@@ -908,129 +884,41 @@ const SigintVisualizationLayer: React.FC<SigintVisualizationLayerProps> = ({
  * Create an icon for a radar emitter
  * @param type The emitter type
  * @param platformType The platform type (if available)
- * @returns A Leaflet divIcon
+ * @returns A Leaflet divIcon with the emitter's military symbol
  */
 function createEmitterIcon(type: string, platformType?: string): any {
-  if (!window.L) return null;
-  
-  // Determine icon based on emitter and platform type
-  let iconHtml = '';
-  
-  // Default radar icon
-  iconHtml = `<div class="flex items-center justify-center h-10 w-10 rounded-full bg-red-900/90 backdrop-blur-sm border-2 border-red-700 shadow-lg">
-    <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="text-red-300">
-      <path d="M2 12a10 10 0 1 1 20 0"/>
-      <path d="M5 12a7 7 0 1 1 14 0"/>
-      <path d="M8 12a4 4 0 1 1 8 0"/>
-      <line x1="12" x2="12" y1="12" y2="12.01"/>
-    </svg>
-  </div>`;
-  
-  // Special cases based on platform type
-  if (platformType) {
-    const platform = platformType.toLowerCase();
-    
-    if (platform.includes('air') || platform.includes('aircraft')) {
-      iconHtml = `<div class="flex items-center justify-center h-10 w-10 rounded-full bg-amber-900/90 backdrop-blur-sm border-2 border-amber-700 shadow-lg">
-        <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="text-amber-300">
-          <path d="M12 15H7l-1 3h10l-1-3h-3Z"/>
-          <path d="M4.99 7 2 10l2 3h14l2-3-2-3Z"/>
-          <path d="M18.309 17.5C19.937 19.35 19.937 21 19.5 22"/>
-          <path d="M4.69 17.5C3.065 19.35 3.065 21 3.5 22"/>
-        </svg>
-      </div>`;
-    } else if (platform.includes('ground') || platform.includes('vehicle') || platform.includes('mobile')) {
-      iconHtml = `<div class="flex items-center justify-center h-10 w-10 rounded-full bg-green-900/90 backdrop-blur-sm border-2 border-green-700 shadow-lg">
-                  <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="text-green-300">
-          <path d="M6 13v4"/>
-          <path d="M18 13v4"/>
-          <path d="M8 6h8"/>
-          <path d="M11 21h2"/>
-          <rect width="16" height="7" x="4" y="13" rx="2"/>
-          <path d="m4.5 13-2-5c-.17-.7-.29-1.29-.29-2a2.8 2.8 0 0 1 3-3h13.58a2.8 2.8 0 0 1 3 3c0 .71-.12 1.3-.29 2l-2 5"/>
-        </svg>
-      </div>`;
-    } else if (platform.includes('naval') || platform.includes('ship')) {
-      iconHtml = `<div class="flex items-center justify-center h-10 w-10 rounded-full bg-blue-900/90 backdrop-blur-sm border-2 border-blue-700 shadow-lg">
-        <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="text-blue-300">
-          <path d="M18 16H2a4 4 0 0 0 4 4h10"/>
-          <path d="M22 12v4a2 2 0 0 1-2 2h-1.1a1.1 1.1 0 0 1-1.03-.77"/>
-          <path d="M16 12H3a1 1 0 0 1-1-1V7a1 1 0 0 1 1-1h7V4a2 2 0 0 1 2-2h0a2 2 0 0 1 2 2v2h2"/>
-          <path d="M20.97 8.5A.5.5 0 0 0 20.5 8h-3a.5.5 0 0 0-.5.5v3a.5.5 0 0 0 .5.5h3a.5.5 0 0 0 .5-.5v-3Z"/>
-        </svg>
-      </div>`;
-    }
-  }
-  
-  return window.L.divIcon({
-    html: iconHtml,
-    className: '',
-    iconSize: [40, 40],
-    iconAnchor: [20, 20],
-    popupAnchor: [0, -20]
-  });
+  return createSymbolIcon(symbolForEmitter(type, platformType));
 }
 
 /**
- * Create an icon for an Electronic Order of Battle element
+ * Create an icon for an Electronic Order of Battle element. EOB elements are
+ * adversary forces, so they are drawn as hostile.
  * @param type The EOB element type
- * @param subtype Optional subtype for further differentiation
- * @returns A Leaflet divIcon
+ * @param subtype Optional subtype or equipment text used to pick the symbol function
+ * @param modifiers Optional symbol modifiers such as designation, quantity or heading
+ * @returns A Leaflet divIcon with the element's military symbol
  */
-function createEOBIcon(type: string, subtype?: string): any {
-  if (!window.L) return null;
-  
-  // Determine icon based on EOB type
-  let iconHtml = '';
+function createEOBIcon(type: string, subtype?: string, modifiers: Partial<SymbolSpec> = {}): any {
+  const hostile = { affiliation: 'hostile' as const, ...modifiers };
   
   if (type === 'air-defense') {
-    iconHtml = `<div class="flex items-center justify-center h-10 w-10 rounded-full bg-red-900/90 backdrop-blur-sm border-2 border-red-700 shadow-lg">
-      <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="text-red-300">
-        <path d="M12 10v8"/>
-        <path d="m15 13-3-3-3 3"/>
-        <path d="M17 6a5 5 0 0 0-10 0"/>
-        <rect width="16" height="8" x="4" y="16" rx="2"/>
-      </svg>
-    </div>`;
-  } else if (type === 'ground-force') {
-    iconHtml = `<div class="flex items-center justify-center h-10 w-10 rounded-full bg-green-900/90 backdrop-blur-sm border-2 border-green-700 shadow-lg">
-      <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="text-green-300">
-        <path d="M7 11v8a1 1 0 0 0 1 1h8a1 1 0 0 0 1-1v-8a5 5 0 0 0-10 0z"/>
-        <path d="M12 11V3"/>
-      </svg>
-    </div>`;
-  } else if (type === 'naval') {
-    iconHtml = `<div class="flex items-center justify-center h-10 w-10 rounded-full bg-blue-900/90 backdrop-blur-sm border-2 border-blue-700 shadow-lg">
-      <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="text-blue-300">
-        <path d="M3 12h18"/>
-        <path d="M3 6h18"/>
-        <path d="M3 18h18"/>
-      </svg>
-    </div>`;
-  } else if (type === 'air') {
-    iconHtml = `<div class="flex items-center justify-center h-10 w-10 rounded-full bg-amber-900/90 backdrop-blur-sm border-2 border-amber-700 shadow-lg">
-      <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="text-amber-300">
-        <path d="M17.8 19.2 16 11l3.5-3.5C21 6 21.5 4 21 3c-1-.5-3 0-4.5 1.5L13 8 4.8 6.2c-.5-.1-.9.1-1.1.5l-.3.5c-.2.5-.1 1 .3 1.3L9 12l-2 3H4l-1 1 3 2 2 3 1-1v-3l3-2 3.5 5.3c.3.4.8.5 1.3.3l.5-.2c.4-.3.6-.7.5-1.2z"/>
-      </svg>
-    </div>`;
-  } else {
-    // Generic unknown icon
-    iconHtml = `<div class="flex items-center justify-center h-10 w-10 rounded-full bg-gray-900/90 backdrop-blur-sm border-2 border-gray-700 shadow-lg">
-      <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="text-gray-300">
-        <circle cx="12" cy="12" r="10"/>
-        <path d="M12 16v.01"/>
-        <path d="M12 8a2 2 0 0 1 2 2v2a2 2 0 1 1-4 0v-2a2 2 0 0 1 2-2z"/>
-      </svg>
-    </div>`;
+    return createSymbolIcon({ dimension: 'ground', functionId: SYMBOL_FUNCTIONS.airDefence, ...hostile });
+  }
+  
+  if (type === 'ground-force') {
+    return createSymbolIcon(symbolFromText(subtype, hostile).spec);
+  }
+  
+  if (type === 'naval') {
+    return createSymbolIcon({ dimension: 'sea', functionId: SYMBOL_FUNCTIONS.surfaceCombatant, ...hostile });
+  }
+  
+  if (type === 'air') {
+    const { spec } = symbolFromText(subtype, hostile);
+    return createSymbolIcon(spec.dimension === 'air' ? spec : { ...spec, dimension: 'air', functionId: SYMBOL_FUNCTIONS.fixedWing });
   }
   
-  return window.L.divIcon({
-    html: iconHtml,
-    className: '',
-    iconSize: [40, 40],
-    iconAnchor: [20, 20],
-    popupAnchor: [0, -20]
-  });
+  return createSymbolIcon({ affiliation: 'unknown', dimension: 'ground', ...modifiers });
 }
 
 /**
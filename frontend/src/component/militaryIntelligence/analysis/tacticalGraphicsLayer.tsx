@@ -0,0 +1,161 @@
+// components/military-intelligence/analysis/TacticalGraphicsLayer.tsx
+import React, { useEffect } from 'react';
+import { TacticalGraphic } from '../../../type/intelligence';
+import { getTacticalGraphicKind } from '../utils/tacticalGraphics';
+import L, { LeafletMouseEvent } from '../utils/leaflet';
+import { GraphicDrawing } from './tacticalGraphicsPanel';
+
+interface TacticalGraphicsLayerProps {
+  map: L.Map | null;
+  layerGroup?: L.LayerGroup;
+  visible: boolean;
+  graphics: TacticalGraphic[];
+  selectedId: string | null;
+  drawing: GraphicDrawing | null;
+  // False while another map tool owns the clicks
+  selectable: boolean;
+  onDrawingChange: (drawing: GraphicDrawing) => void;
+  onFinishDrawing: (drawing: GraphicDrawing) => void;
+  onSelect: (graphicId: string) => void;
+}
+
+const LABEL_STYLES = `
+  .tactical-graphic-label {
+    background-color: rgba(17, 24, 39, 0.75);
+    font-family: monospace;
+    font-size: 11px;
+    font-weight: 600;
+    border: none;
+    box-shadow: none;
+    padding: 1px 4px;
+  }
+
+  .tactical-graphic-label::before {
+    display: none;
+  }
+`;
+
+const LABEL_OPTIONS = { permanent: true, direction: 'center' as const, className: 'tactical-graphic-label' };
+
+// Labels are user text, so they are built as elements rather than HTML strings
+const labelFor = (graphic: TacticalGraphic) => {
+  const label = document.createElement('span');
+  label.textContent = graphic.name;
+  label.style.color = graphic.color;
+  return label;
+};
+
+/**
+ * Analyst-drawn control measures over the fusion map, with the graphic being drawn.
+ * While drawing, map clicks place its points; the panel edits the graphics.
+ */
+const TacticalGraphicsLayer: React.FC<TacticalGraphicsLayerProps> = ({
+  map,
+  layerGroup,
+  visible,
+  graphics,
+  selectedId,
+  drawing,
+  selectable,
+  onDrawingChange,
+  onFinishDrawing,
+  onSelect
+}) => {
+  useEffect(() => {
+    const styleElement = document.createElement('style');
+    styleElement.textContent = LABEL_STYLES;
+    document.head.appendChild(styleElement);
+
+    return () => {
+      document.head.removeChild(styleElement);
+    };
+  }, []);
+
+  // While drawing a graphic, map clicks place its points; a point is finished by its first click
+  useEffect(() => {
+    if (!map || !drawing) return;
+
+    const handleClick = (e: LeafletMouseEvent) => {
+      const next = { ...drawing, points: [...drawing.points, [e.latlng.lat, e.latlng.lng] as [number, number]] };
+
+      if (getTacticalGraphicKind(next.kind).geometry === 'point') {
+        onFinishDrawing(next);
+      } else {
+        onDrawingChange(next);
+      }
+    };
+
+    map.on('click', handleClick);
+    map.doubleClickZoom.disable();
+    map.getContainer().style.cursor = 'crosshair';
+
+    return () => {
+      map.off('click', handleClick);
+      map.doubleClickZoom.enable();
+      map.getContainer().style.cursor = '';
+    };
+  }, [map, drawing, onDrawingChange, onFinishDrawing]);
+
+  // Draw the tactical graphics and the one in progress
+  useEffect(() => {
+    if (!map || !layerGroup) return;
+
+    layerGroup.clearLayers();
+    if (!visible) return;
+
+    graphics.forEach(graphic => {
+      const isSelected = graphic.id === selectedId;
+      const lineOptions = {
+        color: graphic.color,
+        weight: isSelected ? 4 : 2.5,
+        dashArray: graphic.dashed ? '10, 6' : undefined
+      };
+
+      let layer;
+      if (graphic.geometry === 'polygon') {
+        layer = L.polygon(graphic.coordinates, { ...lineOptions, fillColor: graphic.color, fillOpacity: isSelected ? 0.2 : 0.1 })
+          .bindTooltip(labelFor(graphic), LABEL_OPTIONS);
+      } else if (graphic.geometry === 'line') {
+        layer = L.polyline(graphic.coordinates, lineOptions);
+
+        // Phase lines and boundaries carry their label at both ends
+        [graphic.coordinates[0], graphic.coordinates[graphic.coordinates.length - 1]].forEach(point => {
+          L.tooltip({ ...LABEL_OPTIONS, direction: 'top', offset: [0, -6] })
+            .setLatLng(point)
+            .setContent(labelFor(graphic))
+            .addTo(layerGroup);
+        });
+      } else {
+        layer = L.circleMarker(graphic.coordinates[0], { ...lineOptions, radius: 6, fillColor: graphic.color, fillOpacity: 0.8 })
+          .bindTooltip(labelFor(graphic), { ...LABEL_OPTIONS, direction: 'right', offset: [8, 0] });
+      }
+
+      // Clicking a graphic opens it in the editor
+      layer.on('click', () => {
+        if (drawing || !selectable) return;
+        onSelect(graphic.id);
+      });
+
+      layer.addTo(layerGroup);
+    });
+
+    if (drawing && drawing.points.length > 0) {
+      const option = getTacticalGraphicKind(drawing.kind);
+      const previewOptions = { color: option.color, weight: 2, dashArray: '4, 4', interactive: false };
+
+      if (option.geometry === 'polygon' && drawing.points.length >= 3) {
+        L.polygon(drawing.points, { ...previewOptions, fillColor: option.color, fillOpacity: 0.05 }).addTo(layerGroup);
+      } else {
+        L.polyline(drawing.points, previewOptions).addTo(layerGroup);
+      }
+
+      drawing.points.forEach(point => {
+        L.circleMarker(point, { radius: 3, color: option.color, fillColor: option.color, fillOpacity: 1, interactive: false }).addTo(layerGroup);
+      });
+    }
+  }, [map, layerGroup, visible, graphics, selectedId, drawing, selectable, onSelect]);
+
+  return null;
+};
+
+export default TacticalGraphicsLayer;
@@ -0,0 +1,196 @@
+// components/military-intelligence/analysis/TacticalGraphicsPanel.tsx
+import React from 'react';
+import { XCircle, Undo2, Check, Trash2 } from 'lucide-react';
+import { TacticalGraphic, TacticalGraphicKind } from '../../../type/intelligence';
+import {
+  TACTICAL_GRAPHIC_COLORS,
+  TACTICAL_GRAPHIC_KINDS,
+  getTacticalGraphicKind,
+  minimumGraphicPoints
+} from '../utils/tacticalGraphics';
+
+export interface GraphicDrawing {
+  kind: TacticalGraphicKind;
+  points: Array<[number, number]>;
+}
+
+interface TacticalGraphicsPanelProps {
+  graphics: TacticalGraphic[];
+  drawing: GraphicDrawing | null;
+  selectedId: string | null;
+  onStartDrawing: (kind: TacticalGraphicKind) => void;
+  onUndoPoint: () => void;
+  onFinishDrawing: () => void;
+  onCancelDrawing: () => void;
+  onSelect: (graphicId: string | null) => void;
+  onUpdate: (graphicId: string, changes: Partial<TacticalGraphic>) => void;
+  onDelete: (graphicId: string) => void;
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+const TacticalGraphicsPanel: React.FC<TacticalGraphicsPanelProps> = ({
+  graphics,
+  drawing,
+  selectedId,
+  onStartDrawing,
+  onUndoPoint,
+  onFinishDrawing,
+  onCancelDrawing,
+  onSelect,
+  onUpdate,
+  onDelete,
+  onClose,
+  t
+}) => {
+  const selected = graphics.find(graphic => graphic.id === selectedId);
+  const drawingKind = drawing ? getTacticalGraphicKind(drawing.kind) : null;
+
+  const buttonClass = 'p-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded disabled:opacity-40';
+  const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded px-1.5 py-1 text-xs text-gray-200';
+
+  return (
+    <div className="absolute top-16 right-4 z-20 bg-gray-800/90 backdrop-blur-sm border border-gray-700 rounded-md p-3 shadow-lg w-72">
+      <div className="flex justify-between items-center mb-2 pb-1 border-b border-gray-700">
+        <h3 className="text-sm font-medium text-gray-200">{t('tacticalGraphics') || "Tactical Graphics"}</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-200 p-1 rounded hover:bg-gray-700"
+        >
+          <XCircle size={16} />
+        </button>
+      </div>
+
+      <div className="space-y-3 mt-3">
+        {drawing && drawingKind ? (
+          <div>
+            <div className="text-xs text-gray-300">
+              Drawing {drawingKind.label.toLowerCase()}: click the map to place points
+              ({drawing.points.length}/{minimumGraphicPoints(drawingKind.geometry)}{drawingKind.geometry === 'point' ? '' : '+'})
+            </div>
+            <div className="flex justify-end gap-2 mt-2">
+              <button onClick={onUndoPoint} disabled={drawing.points.length === 0} className={buttonClass} title="Remove last point">
+                <Undo2 size={16} />
+              </button>
+              <button onClick={onCancelDrawing} className={buttonClass} title="Cancel">
+                <XCircle size={16} />
+              </button>
+              <button
+                onClick={onFinishDrawing}
+                disabled={drawing.points.length < minimumGraphicPoints(drawingKind.geometry)}
+                className={buttonClass}
+                title="Finish"
+              >
+                <Check size={16} />
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-1.5">
+            {TACTICAL_GRAPHIC_KINDS.map(kind => (
+              <button
+                key={kind.id}
+                onClick={() => onStartDrawing(kind.id)}
+                className="px-1.5 py-1 rounded bg-gray-700 hover:bg-gray-600 text-xs text-gray-200"
+                title={`Draw a ${kind.label.toLowerCase()}`}
+              >
+                {kind.abbreviation}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="max-h-32 overflow-y-auto border-t border-gray-700 pt-2">
+          {graphics.length === 0 ? (
+            <div className="text-xs text-gray-500">No graphics drawn for this analysis.</div>
+          ) : (
+            graphics.map(graphic => (
+              <button
+                key={graphic.id}
+                onClick={() => onSelect(graphic.id === selectedId ? null : graphic.id)}
+                className={`w-full flex items-center px-1.5 py-1 rounded text-xs text-left ${
+                  graphic.id === selectedId ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+              >
+                <span className="w-3 h-3 rounded-sm mr-2 flex-shrink-0" style={{ backgroundColor: graphic.color }} />
+                <span className="truncate">{graphic.name}</span>
+                <span className="ml-auto text-gray-500">{getTacticalGraphicKind(graphic.kind).abbreviation}</span>
+              </button>
+            ))
+          )}
+        </div>
+
+        {selected && (
+          <div className="space-y-2 border-t border-gray-700 pt-2">
+            <div>
+              <label className="block text-[10px] text-gray-500 mb-0.5" htmlFor="graphic-name">Label</label>
+              <input
+                id="graphic-name"
+                value={selected.name}
+                onChange={(e) => onUpdate(selected.id, { name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-[10px] text-gray-500 mb-0.5" htmlFor="graphic-kind">Type</label>
+              <select
+                id="graphic-kind"
+                value={selected.kind}
+                onChange={(e) => onUpdate(selected.id, { kind: e.target.value as TacticalGraphicKind })}
+                className={inputClass}
+              >
+                {TACTICAL_GRAPHIC_KINDS
+                  .filter(kind => kind.geometry === selected.geometry)
+                  .map(kind => (
+                    <option key={kind.id} value={kind.id}>{kind.label}</option>
+                  ))}
+              </select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex gap-1">
+                {TACTICAL_GRAPHIC_COLORS.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => onUpdate(selected.id, { color })}
+                    className={`w-4 h-4 rounded-sm ${selected.color === color ? 'ring-2 ring-white' : ''}`}
+                    style={{ backgroundColor: color }}
+                    aria-label={`Colour ${color}`}
+                  />
+                ))}
+              </div>
+              <label className="flex items-center text-xs text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.dashed}
+                  onChange={(e) => onUpdate(selected.id, { dashed: e.target.checked })}
+                  className="h-3.5 w-3.5 mr-1 rounded border-gray-600"
+                />
+                Dashed
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-[10px] text-gray-500 mb-0.5" htmlFor="graphic-remarks">Remarks</label>
+              <textarea
+                id="graphic-remarks"
+                value={selected.remarks || ''}
+                onChange={(e) => onUpdate(selected.id, { remarks: e.target.value })}
+                rows={2}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <button onClick={() => onDelete(selected.id)} className={buttonClass} title="Delete graphic">
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TacticalGraphicsPanel;
@@ -0,0 +1,71 @@
+// components/military-intelligence/analysis/ThreatHeatmapLayer.tsx
+import React, { useEffect } from 'react';
+import {
+  HEATMAP_CELL_PIXELS,
+  HeatSource,
+  HeatmapSettings,
+  computeHeatmapGrid,
+  latestSourceTime,
+  renderHeatmapCanvas
+} from '../utils/threatHeatmap';
+import L from '../utils/leaflet';
+
+interface ThreatHeatmapLayerProps {
+  map: L.Map | null;
+  layerGroup?: L.LayerGroup;
+  visible: boolean;
+  sources: HeatSource[];
+  settings: HeatmapSettings;
+  currentTime?: string;
+}
+
+/**
+ * Threat density painted over the visible extent of the fusion map, again whenever
+ * the view changes
+ */
+const ThreatHeatmapLayer: React.FC<ThreatHeatmapLayerProps> = ({
+  map,
+  layerGroup,
+  visible,
+  sources,
+  settings,
+  currentTime
+}) => {
+  useEffect(() => {
+    if (!map || !layerGroup) return;
+
+    layerGroup.clearLayers();
+    if (!visible || sources.length === 0) return;
+
+    // Decay is measured back from the replay time, or from the latest report
+    const referenceTime = currentTime ? new Date(currentTime).getTime() : latestSourceTime(sources);
+
+    const draw = () => {
+      const bounds = map.getBounds();
+      const size = map.getSize();
+      const grid = computeHeatmapGrid(
+        sources,
+        { north: bounds.getNorth(), south: bounds.getSouth(), east: bounds.getEast(), west: bounds.getWest() },
+        Math.ceil(size.x / HEATMAP_CELL_PIXELS),
+        Math.ceil(size.y / HEATMAP_CELL_PIXELS),
+        settings,
+        referenceTime
+      );
+
+      layerGroup.clearLayers();
+      L.imageOverlay(renderHeatmapCanvas(grid).toDataURL(), bounds, { interactive: false, className: 'threat-heatmap' })
+        .addTo(layerGroup);
+    };
+
+    draw();
+    map.on('moveend', draw);
+
+    return () => {
+      map.off('moveend', draw);
+    };
+  }, [map, layerGroup, visible, sources, settings, currentTime]);
+
+  return null;
+};
+
+export default ThreatHeatmapLayer;
@@ -0,0 +1,151 @@
+// components/military-intelligence/analysis/TimelinePanel.tsx
+import React from 'react';
+import { XCircle, Play, Pause, SkipBack, SkipForward, RefreshCcw } from 'lucide-react';
+import { MapTimelineControl } from '../../../type/sigintTypes';
+import {
+  PLAYBACK_SPEEDS,
+  TIMELINE_WINDOW_HOURS,
+  getTimelineWindowHours,
+  isTimelineLive,
+  seekTimeline,
+  setTimelineWindow
+} from '../utils/timeline';
+
+interface TimelinePanelProps {
+  timeline: MapTimelineControl;
+  onTimelineChange: (timeline: MapTimelineControl) => void;
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+// Slider resolution and step size of the skip buttons
+const SLIDER_STEP_MS = 60 * 1000;
+const SKIP_MS = 60 * 60 * 1000;
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString([], { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({ timeline, onTimelineChange, onClose, t }) => {
+  const start = new Date(timeline.startTime).getTime();
+  const end = new Date(timeline.endTime).getTime();
+  const current = new Date(timeline.currentTime).getTime();
+  const isLive = isTimelineLive(timeline);
+
+  const handlePlayPause = () => {
+    // Playing from the end restarts the replay from the beginning of the window
+    const from = !timeline.isPlaying && isLive ? { ...timeline, currentTime: timeline.startTime } : timeline;
+    onTimelineChange({ ...from, isPlaying: !timeline.isPlaying });
+  };
+
+  const buttonClass = 'p-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded disabled:opacity-40';
+  const selectClass = 'w-full bg-gray-700 border border-gray-600 rounded px-1.5 py-1 text-xs text-gray-200';
+
+  return (
+    <div className="absolute top-16 right-4 z-20 bg-gray-800/90 backdrop-blur-sm border border-gray-700 rounded-md p-3 shadow-lg w-72">
+      <div className="flex justify-between items-center mb-2 pb-1 border-b border-gray-700">
+        <h3 className="text-sm font-medium text-gray-200">{t('timeline') || "Timeline"}</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-200 p-1 rounded hover:bg-gray-700"
+        >
+          <XCircle size={16} />
+        </button>
+      </div>
+
+      <div className="space-y-3 mt-3">
+        {/* Timeline slider */}
+        <div>
+          <input
+            type="range"
+            min={start}
+            max={end}
+            step={SLIDER_STEP_MS}
+            value={current}
+            onChange={(e) => onTimelineChange(seekTimeline(timeline, Number(e.target.value)))}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+            aria-label={t('replayTime') || "Replay time"}
+          />
+
+          <div className="flex justify-between text-xs text-gray-400 mt-1">
+            <span>{formatTime(timeline.startTime)}</span>
+            <span>{formatTime(timeline.endTime)}</span>
+          </div>
+        </div>
+
+        {/* Playback controls */}
+        <div className="flex justify-center gap-2">
+          <button
+            onClick={() => onTimelineChange(seekTimeline(timeline, current - SKIP_MS))}
+            disabled={current <= start}
+            className={buttonClass}
+            title="Back 1 hour"
+          >
+            <SkipBack size={16} />
+          </button>
+
+          <button
+            onClick={handlePlayPause}
+            className={buttonClass}
+            title={timeline.isPlaying ? 'Pause' : 'Play'}
+          >
+            {timeline.isPlaying ? <Pause size={16} /> : <Play size={16} />}
+          </button>
+
+          <button
+            onClick={() => onTimelineChange(seekTimeline(timeline, current + SKIP_MS))}
+            disabled={isLive}
+            className={buttonClass}
+            title="Forward 1 hour"
+          >
+            <SkipForward size={16} />
+          </button>
+
+          <button
+            onClick={() => onTimelineChange({ ...timeline, currentTime: timeline.endTime, isPlaying: false })}
+            disabled={isLive}
+            className={buttonClass}
+            title="Back to latest"
+          >
+            <RefreshCcw size={16} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-[10px] text-gray-500 mb-0.5" htmlFor="timeline-window">Window</label>
+            <select
+              id="timeline-window"
+              value={getTimelineWindowHours(timeline)}
+              onChange={(e) => onTimelineChange(setTimelineWindow(timeline, Number(e.target.value)))}
+              className={selectClass}
+            >
+              {TIMELINE_WINDOW_HOURS.map(hours => (
+                <option key={hours} value={hours}>Last {hours} h</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-[10px] text-gray-500 mb-0.5" htmlFor="timeline-speed">Speed</label>
+            <select
+              id="timeline-speed"
+              value={timeline.playbackSpeed}
+              onChange={(e) => onTimelineChange({ ...timeline, playbackSpeed: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {PLAYBACK_SPEEDS.map(speed => (
+                <option key={speed.value} value={speed.value}>{speed.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="text-center text-xs text-gray-400">
+          {new Date(timeline.currentTime).toLocaleString()}
+          {isLive && <span className="ml-2 px-1.5 py-0.5 rounded bg-green-900/30 text-green-300">LATEST</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimelinePanel;
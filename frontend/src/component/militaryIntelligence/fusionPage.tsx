@@ -1,8 +1,8 @@
 // components/military-intelligence/FusionPage.tsx
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { AdaptedAnalysisResponse } from '../../type/intelligence';
-import { SigintAnalysisResponse, FusionAnalysisResponse, LayerControl } from '../../type/sigintTypes';
+import { AdaptedAnalysisResponse, TacticalGraphic } from '../../type/intelligence';
+import { SigintAnalysisResponse, FusionAnalysisResponse, FusionFocusArea, LayerControl, MapTimelineControl } from '../../type/sigintTypes';
 import { useMilitaryLanguage } from './utils/militaryTranslations';
 import { adaptApiResponseToComponentModel } from './utils/adaptApiResponse';
 
@@ -23,24 +23,42 @@ import FusionLayout from './layout/fusionLayout';
 import FusionMap from './analysis/fusionMap';
 import IntelligenceSidebar from './analysis/intelligenceSidebar';
 import PDFExportModal from './ui/pdfExportModal';
+import MilitaryFormatExportModal from './ui/militaryFormatExportModal';
 import AnalysisProgressIndicator from './analysis/analysisProgress';
 import DragDropUpload from './ui/dragDropUpload';
 import { RateLimitBadge } from './ui/rateLimitBadge';
 import { RateLimitModal } from './ui/rateLimitModal';
 import Portal from './ui/portal';
 import { toast } from './utils/toastService';
+import {
+  AreaOfOperations,
+  clearAreaOfOperations,
+  getAreaOfOperationsFocusArea,
+  loadAreaOfOperations,
+  saveAreaOfOperations
+} from './utils/areaOfOperations';
+import { advanceTimeline, createTimelineControl, getTimelineWindowHours } from './utils/timeline';
+import { isValidTacticalGraphic, loadLocalTacticalGraphics, saveLocalTacticalGraphics } from './utils/tacticalGraphics';
 
 // Import our consolidated intelligence service
 import {
     analyzeFieldReport,
     analyzeSignalData,
     performIntelligenceFusion,
-    getIntelligenceLimits
+    getIntelligenceLimits,
+    getTacticalGraphics,
+    saveTacticalGraphics
   } from '../../api/intelligenceService';
 
 // Import context and analytics
 import { useAuth, authEvents } from '../../context/AuthContext';
 
+// Correlation settings shared by the initial fusion run and re-runs from the map
+const FUSION_RUN_OPTIONS = {
+  correlationThreshold: 0.3,
+  enhanceWithLLM: true
+};
+
 interface FusionPageProps {
   // These are now optional since we'll be handling upload within the component
   initialReportText?: string;
@@ -82,6 +100,7 @@ const FusionPage: React.FC<FusionPageProps> = ({
   // Analysis processing state
   const [analysisStep, setAnalysisStep] = useState<'IDLE' | 'PROCESSING' | 'ANALYZING' | 'VALIDATING' | 'COMPLETE'>('IDLE');
   const [isExportModalOpen, setIsExportModalOpen] = useState<boolean>(false);
+  const [isMilitaryExportOpen, setIsMilitaryExportOpen] = useState<boolean>(false);
   
   // Rate limit state
   const [rateLimitInfo, setRateLimitInfo] = useState<{
@@ -102,9 +121,17 @@ const FusionPage: React.FC<FusionPageProps> = ({
   const headerRef = useRef<HTMLDivElement | null>(null);
   
   // Map and visualization state
-  const [visibleLayers, setVisibleLayers] = useState<string[]>(['humint', 'sigint', 'correlation']);
-  const [currentTime, setCurrentTime] = useState<string>(new Date().toISOString());
+  const [visibleLayers, setVisibleLayers] = useState<string[]>(['humint', 'sigint', 'correlation', 'zones', 'graphics']);
+  const [timeline, setTimeline] = useState<MapTimelineControl>(() => createTimelineControl([]));
   const [selectedEntity, setSelectedEntity] = useState<{ id: string, type: 'humint' | 'sigint' | 'fusion' } | null>(null);
+  const [areaOfOperations, setAreaOfOperations] = useState<AreaOfOperations>(() => loadAreaOfOperations());
+  const [tacticalGraphics, setTacticalGraphics] = useState<TacticalGraphic[]>([]);
+  // Graphics drawn while no analysis ID is available to store them under
+  const unsavedTacticalGraphics = useRef<TacticalGraphic[]>([]);
+  const [scopedFusion, setScopedFusion] = useState<{ focusArea: FusionFocusArea; data: FusionAnalysisResponse } | null>(null);
+  const [isRunningFusion, setIsRunningFusion] = useState<boolean>(false);
+  
+  const analysisId = humintData?.analysisId;
   
   // Layer controls configuration
   const layerControls: LayerControl[] = [
@@ -112,7 +139,12 @@ const FusionPage: React.FC<FusionPageProps> = ({
     { id: 'sigint', label: 'SIGINT', type: 'sigint', isVisible: visibleLayers.includes('sigint') },
     { id: 'fusion', label: 'Fusion Entities', type: 'fusion', isVisible: visibleLayers.includes('fusion') },
     { id: 'correlation', label: 'Correlation Lines', type: 'fusion', isVisible: visibleLayers.includes('correlation') },
-    { id: 'prediction', label: 'Predictions', type: 'prediction', isVisible: visibleLayers.includes('prediction') }
+    { id: 'prediction', label: 'Predictions', type: 'prediction', isVisible: visibleLayers.includes('prediction') },
+    { id: 'zones', label: 'Control Zones', type: 'zones', isVisible: visibleLayers.includes('zones') },
+    { id: 'heatmap', label: 'Threat Heatmap', type: 'heatmap', isVisible: visibleLayers.includes('heatmap') },
+    { id: 'coverage', label: 'Radar Coverage', type: 'coverage', isVisible: visibleLayers.includes('coverage') },
+    { id: 'sensors', label: 'Collection Sensors', type: 'sensors', isVisible: visibleLayers.includes('sensors') },
+    { id: 'graphics', label: 'Tactical Graphics', type: 'graphics', isVisible: visibleLayers.includes('graphics') }
   ];
 
   // Handle header stickiness
@@ -173,6 +205,79 @@ const FusionPage: React.FC<FusionPageProps> = ({
     };
   }, [isLoggedIn, isRateLimitExceeded]);
 
+  // Fit the timeline to the newest data; the window and speed the analyst chose are kept
+  useEffect(() => {
+    const timestamps = [
+      humintData?.timestamp,
+      fusionData?.timestamp,
+      ...(sigintData?.emitters || []).flatMap(emitter => [
+        ...(emitter.locations || []).map(location => location.timestamp),
+        ...(emitter.movements || []).map(movement => movement.endTime)
+      ])
+    ];
+    
+    setTimeline(current => createTimelineControl(timestamps, getTimelineWindowHours(current), current.playbackSpeed));
+  }, [humintData, sigintData, fusionData]);
+  
+  // Store graphics with the analysis on the backend, keeping a local copy in case it
+  // cannot be reached
+  const storeTacticalGraphics = useCallback(async (id: string, graphics: TacticalGraphic[]) => {
+    saveLocalTacticalGraphics(id, graphics);
+    
+    try {
+      await saveTacticalGraphics(id, graphics);
+    } catch (error) {
+      console.error('Failed to save tactical graphics:', error);
+      toast.error('Unable to save the tactical graphics to the server; they are kept in this browser');
+    }
+  }, []);
+  
+  // Graphics are stored with the analysis and reopen with it. Graphics drawn before the
+  // analysis has an ID are held until it gets one, then saved with it.
+  useEffect(() => {
+    if (!analysisId) {
+      setTacticalGraphics(unsavedTacticalGraphics.current);
+      return;
+    }
+    
+    let cancelled = false;
+    const pending = unsavedTacticalGraphics.current;
+    unsavedTacticalGraphics.current = [];
+    
+    getTacticalGraphics(analysisId)
+      .then(stored => stored.filter(isValidTacticalGraphic))
+      .catch(error => {
+        console.error('Failed to load tactical graphics:', error);
+        toast.error('Unable to load the tactical graphics from the server; showing the copy in this browser');
+        return loadLocalTacticalGraphics(analysisId);
+      })
+      .then(stored => {
+        if (cancelled) return;
+        
+        const graphics = [...stored, ...pending];
+        setTacticalGraphics(graphics);
+        if (pending.length > 0) {
+          storeTacticalGraphics(analysisId, graphics);
+        }
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [analysisId, storeTacticalGraphics]);
+  
+  // Advance the replay while playing
+  useEffect(() => {
+    if (!timeline.isPlaying) return;
+    
+    const tickMs = 200;
+    const interval = setInterval(() => {
+      setTimeline(current => advanceTimeline(current, tickMs));
+    }, tickMs);
+    
+    return () => clearInterval(interval);
+  }, [timeline.isPlaying]);
+
   // Toggle layer visibility
   const handleLayerToggle = useCallback((layerId: string) => {
     setVisibleLayers(prev => {
@@ -190,10 +295,75 @@ const FusionPage: React.FC<FusionPageProps> = ({
     // Additional logic to highlight entity on map or in sidebar could be added here
   }, []);
   
+  // Persist the area of operations; null restores the default
+  const handleAreaOfOperationsChange = useCallback((ao: AreaOfOperations | null) => {
+    try {
+      if (ao) {
+        setAreaOfOperations(saveAreaOfOperations(ao));
+        toast.success(`Area of operations set to ${ao.name}`);
+      } else {
+        clearAreaOfOperations();
+        setAreaOfOperations(loadAreaOfOperations());
+        toast.success('Area of operations reset to default');
+      }
+    } catch (error) {
+      console.error('Failed to update area of operations:', error);
+      toast.error('Unable to save the area of operations');
+    }
+  }, []);
+  
+  const handleTacticalGraphicsChange = useCallback((graphics: TacticalGraphic[]) => {
+    setTacticalGraphics(graphics);
+    
+    if (!analysisId) {
+      unsavedTacticalGraphics.current = graphics;
+      return;
+    }
+    
+    storeTacticalGraphics(analysisId, graphics);
+  }, [analysisId, storeTacticalGraphics]);
+  
+  // Re-run fusion from the map, either for the whole AO or scoped to a drawn focus area.
+  // Fusion is always limited to the AO, so the AO run is the baseline a focus area is compared with
+  const handleRunFusion = useCallback(async (focusArea: FusionFocusArea | null) => {
+    if (!humintData?.analysisId || !sigintData?.analysisId) {
+      toast.error('Fusion needs both a HUMINT and a SIGINT analysis');
+      return;
+    }
+    
+    setIsRunningFusion(true);
+    try {
+      const fusionResponse = await performIntelligenceFusion({
+        humintAnalysisId: humintData.analysisId,
+        sigintAnalysisId: sigintData.analysisId,
+        options: {
+          ...FUSION_RUN_OPTIONS,
+          focusArea: focusArea || getAreaOfOperationsFocusArea(areaOfOperations)
+        }
+      });
+      const adaptedFusion = adaptFusionResponseToComponentModel(fusionResponse);
+      
+      if (focusArea) {
+        setScopedFusion({ focusArea, data: adaptedFusion });
+        toast.success(`Focus area fused: ${adaptedFusion.fusedEntities.length} entities`);
+      } else {
+        setFusionData(adaptedFusion);
+        toast.success(`Area of operations fused: ${adaptedFusion.fusedEntities.length} entities`);
+      }
+    } catch (error) {
+      console.error('Fusion processing error:', error);
+      toast.error('Fusion analysis failed');
+    } finally {
+      setIsRunningFusion(false);
+    }
+  }, [humintData, sigintData, areaOfOperations]);
+  
   // Handle export functionality
   const handleExport = useCallback((format: 'pdf' | 'text' | 'email' | 'nato') => {
     if (format === 'pdf') {
       setIsExportModalOpen(true);
+    } else if (format === 'nato') {
+      setIsMilitaryExportOpen(true);
     } else {
       // Implement other export formats
       toast.success(`${format.toUpperCase()} export initiated`);
@@ -210,6 +380,7 @@ const FusionPage: React.FC<FusionPageProps> = ({
     setHumintData(null);
     setSigintData(null);
     setFusionData(null);
+    setScopedFusion(null);
     setAnalysisStep('IDLE');
     setSelectedEntity(null);
   }, []);
@@ -268,6 +439,7 @@ const handleSubmitAnalysis = async (e: React.FormEvent) => {
     
     // Start analysis process
     setIsAnalyzing(true);
+    setScopedFusion(null);
     setAnalysisStep('PROCESSING');
     setCurrentStep('results');
 
@@ -313,8 +485,8 @@ const handleSubmitAnalysis = async (e: React.FormEvent) => {
               humintAnalysisId: adaptedHumint.analysisId || '',
               sigintAnalysisId: adaptedSigint.analysisId,
               options: {
-                correlationThreshold: 0.3,
-                enhanceWithLLM: true
+                ...FUSION_RUN_OPTIONS,
+                focusArea: getAreaOfOperationsFocusArea(areaOfOperations)
               }
             });
             
@@ -537,11 +709,20 @@ const handleSubmitAnalysis = async (e: React.FormEvent) => {
                 humintData={humintData}
                 sigintData={sigintData}
                 fusionData={fusionData}
+                scopedFusionData={scopedFusion?.data}
+                scopedFocusArea={scopedFusion?.focusArea}
+                isFusionRunning={isRunningFusion}
+                onRunFusion={sigintData ? handleRunFusion : undefined}
                 rawReportText={reportText}
                 visibleLayers={visibleLayers}
-                currentTime={currentTime}
+                timeline={timeline}
+                onTimelineChange={setTimeline}
                 onMarkerClick={handleEntityClick}
                 onLayerToggle={handleLayerToggle}
+                areaOfOperations={areaOfOperations}
+                onAreaOfOperationsChange={handleAreaOfOperationsChange}
+                tacticalGraphics={tacticalGraphics}
+                onTacticalGraphicsChange={handleTacticalGraphicsChange}
                 t={t}
               />
             </FusionLayout>
@@ -568,9 +749,26 @@ const handleSubmitAnalysis = async (e: React.FormEvent) => {
             isOpen={isExportModalOpen}
             onClose={() => setIsExportModalOpen(false)}
             analysisResults={humintData}
+            sigintData={sigintData}
+            fusionData={fusionData}
+            tacticalGraphics={tacticalGraphics}
             />
         </Portal>
       )}
+
+      {/* Military Format Export Modal */}
+      {isMilitaryExportOpen && humintData && (
+        <Portal>
+          <MilitaryFormatExportModal
+            isOpen={isMilitaryExportOpen}
+            onClose={() => setIsMilitaryExportOpen(false)}
+            analysisId={humintData.analysisId}
+            reportId={humintData.reportId}
+            initialFormat="NATO"
+            tacticalGraphics={tacticalGraphics}
+          />
+        </Portal>
+      )}
     </div>
   );
 };
@@ -244,6 +244,16 @@ const getLayerColorClass = (layerType: string): string => {
       return 'bg-purple-500';
     case 'prediction':
       return 'bg-amber-500';
+    case 'zones':
+      return 'bg-orange-400';
+    case 'heatmap':
+      return 'bg-red-600';
+    case 'coverage':
+      return 'bg-rose-500';
+    case 'sensors':
+      return 'bg-teal-400';
+    case 'graphics':
+      return 'bg-yellow-400';
     default:
       return 'bg-gray-500';
   }
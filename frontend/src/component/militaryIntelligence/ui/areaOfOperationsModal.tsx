@@ -0,0 +1,241 @@
+// components/military-intelligence/ui/areaOfOperationsModal.tsx
+import React, { useEffect, useState } from 'react';
+import { X, Crosshair, RotateCcw } from 'lucide-react';
+import {
+  AreaOfOperations,
+  AreaOfOperationsBounds,
+  DEFAULT_AREA_OF_OPERATIONS,
+  LatLngTuple,
+  isValidAreaOfOperations
+} from '../utils/areaOfOperations';
+import { findCoordinatesInText, formatLatLng } from '../utils/coordinateParser';
+
+interface AreaOfOperationsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  areaOfOperations: AreaOfOperations;
+  onSave: (ao: AreaOfOperations) => void;
+  onReset: () => void;
+  getCurrentViewBounds?: () => AreaOfOperationsBounds | null;
+}
+
+/**
+ * Render polygon vertices one per line in signed decimal degrees
+ */
+const verticesToText = (polygon: LatLngTuple[]): string =>
+  polygon.map(([lat, lng]) => `${lat.toFixed(5)}, ${lng.toFixed(5)}`).join('\n');
+
+/**
+ * Parse one vertex per line. Any format the report parser understands is accepted.
+ * @returns The vertices, or the 1-based numbers of the lines that could not be parsed
+ */
+const parseVertices = (text: string): { vertices: LatLngTuple[]; invalidLines: number[] } => {
+  const vertices: LatLngTuple[] = [];
+  const invalidLines: number[] = [];
+
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+
+    const [coords] = findCoordinatesInText(line);
+    if (coords) {
+      vertices.push([coords.latitude, coords.longitude]);
+    } else {
+      invalidLines.push(index + 1);
+    }
+  });
+
+  return { vertices, invalidLines };
+};
+
+const AreaOfOperationsModal: React.FC<AreaOfOperationsModalProps> = ({
+  isOpen,
+  onClose,
+  areaOfOperations,
+  onSave,
+  onReset,
+  getCurrentViewBounds
+}) => {
+  const [name, setName] = useState<string>(areaOfOperations.name);
+  const [verticesText, setVerticesText] = useState<string>(verticesToText(areaOfOperations.polygon));
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the active AO every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setName(areaOfOperations.name);
+      setVerticesText(verticesToText(areaOfOperations.polygon));
+      setError(null);
+    }
+  }, [isOpen, areaOfOperations]);
+
+  // Prevent scrolling while modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+      return () => {
+        document.body.style.overflow = '';
+      };
+    }
+  }, [isOpen]);
+
+  // Handle ESC key to close
+  useEffect(() => {
+    const handleEscapeKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscapeKey);
+    return () => {
+      document.removeEventListener('keydown', handleEscapeKey);
+    };
+  }, [onClose]);
+
+  if (!isOpen) return null;
+
+  const { vertices, invalidLines } = parseVertices(verticesText);
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const handleUseCurrentView = () => {
+    const bounds = getCurrentViewBounds?.();
+    if (!bounds) return;
+
+    const [north, east] = bounds.northEast;
+    const [south, west] = bounds.southWest;
+    setVerticesText(verticesToText([[north, west], [north, east], [south, east], [south, west]]));
+    setError(null);
+  };
+
+  const handleSave = () => {
+    if (invalidLines.length > 0) {
+      setError(`Could not read a coordinate on line ${invalidLines.join(', ')}`);
+      return;
+    }
+
+    const ao: AreaOfOperations = { name: name.trim(), polygon: vertices };
+    if (!ao.name) {
+      setError('Give the area of operations a name');
+      return;
+    }
+    if (!isValidAreaOfOperations(ao)) {
+      setError('An area of operations needs at least three vertices');
+      return;
+    }
+
+    onSave(ao);
+    onClose();
+  };
+
+  const handleReset = () => {
+    onReset();
+    onClose();
+  };
+
+  return (
+    <>
+      {/* Fixed overlay */}
+      <div
+        className="fixed inset-0 bg-black/75 backdrop-blur-sm z-[999]"
+        onClick={handleBackdropClick}
+        aria-hidden="true"
+      />
+
+      {/* Modal content */}
+      <div className="fixed inset-0 flex items-center justify-center z-[1000] p-4" role="dialog" aria-modal="true">
+        <div
+          className="bg-gray-900 rounded-xl max-w-lg w-full p-6 relative shadow-xl border border-gray-800"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <button
+            onClick={onClose}
+            className="absolute right-4 top-4 p-1 rounded-full hover:bg-gray-800 transition-colors"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5 text-gray-400" />
+          </button>
+
+          <h3 className="text-xl font-medium mb-1 text-gray-100">Area of Operations</h3>
+          <p className="text-gray-400 mb-4 text-sm">
+            Decimal coordinates in reports are only accepted inside this area. It also sets the
+            initial map extent and the fusion focus area.
+          </p>
+
+          <label className="block text-xs text-gray-400 mb-1" htmlFor="ao-name">Name</label>
+          <input
+            id="ao-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full mb-3 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200"
+          />
+
+          <div className="flex justify-between items-end mb-1">
+            <label className="block text-xs text-gray-400" htmlFor="ao-vertices">
+              Boundary vertices (one per line: decimal, DMS, UTM or MGRS)
+            </label>
+            {getCurrentViewBounds && (
+              <button
+                onClick={handleUseCurrentView}
+                className="flex items-center text-xs text-blue-400 hover:text-blue-300"
+              >
+                <Crosshair className="h-3.5 w-3.5 mr-1" />
+                Use current view
+              </button>
+            )}
+          </div>
+          <textarea
+            id="ao-vertices"
+            value={verticesText}
+            onChange={(e) => {
+              setVerticesText(e.target.value);
+              setError(null);
+            }}
+            rows={7}
+            spellCheck={false}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-xs font-mono text-gray-200"
+          />
+
+          <div className="text-xs text-gray-500 mt-1 min-h-[1rem]">
+            {error ? (
+              <span className="text-red-400">{error}</span>
+            ) : vertices.length > 0 ? (
+              `${vertices.length} vertices, starting ${formatLatLng(vertices[0][0], vertices[0][1], 3)}`
+            ) : null}
+          </div>
+
+          <div className="flex justify-between mt-4">
+            <button
+              onClick={handleReset}
+              className="flex items-center px-3 py-2 rounded-lg text-gray-300 hover:bg-gray-800 text-sm"
+              title={`Revert to ${DEFAULT_AREA_OF_OPERATIONS.name}`}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset to default
+            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 rounded-lg bg-gray-800 text-gray-200 border border-gray-700 hover:bg-gray-700 text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 rounded-lg bg-white text-gray-900 hover:bg-gray-200 text-sm font-medium"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default AreaOfOperationsModal;
@@ -0,0 +1,201 @@
+// components/military-intelligence/ui/correlationSettingsModal.tsx
+import React, { useEffect, useState } from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import {
+  CORRELATION_DECAYS,
+  CORRELATION_ENTITY_TYPES,
+  CorrelationDecay,
+  CorrelationEntityType,
+  CorrelationSettings,
+  correlationStrength
+} from '../utils/correlationSettings';
+
+interface CorrelationSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: CorrelationSettings;
+  onSave: (settings: CorrelationSettings) => void;
+  onReset: () => void;
+}
+
+const MAX_RADIUS_KM = 200;
+
+const CorrelationSettingsModal: React.FC<CorrelationSettingsModalProps> = ({
+  isOpen,
+  onClose,
+  settings,
+  onSave,
+  onReset
+}) => {
+  const [draft, setDraft] = useState<CorrelationSettings>(settings);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the active settings every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(settings);
+      setError(null);
+    }
+  }, [isOpen, settings]);
+
+  // Prevent scrolling while modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+      return () => {
+        document.body.style.overflow = '';
+      };
+    }
+  }, [isOpen]);
+
+  // Handle ESC key to close
+  useEffect(() => {
+    const handleEscapeKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscapeKey);
+    return () => {
+      document.removeEventListener('keydown', handleEscapeKey);
+    };
+  }, [onClose]);
+
+  if (!isOpen) return null;
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const updateRule = (type: CorrelationEntityType, changes: Partial<CorrelationSettings[CorrelationEntityType]>) => {
+    setDraft(current => ({ ...current, [type]: { ...current[type], ...changes } }));
+    setError(null);
+  };
+
+  const handleSave = () => {
+    const invalid = CORRELATION_ENTITY_TYPES.find(({ id }) => {
+      const { radiusKm } = draft[id];
+      return !(radiusKm > 0 && radiusKm <= MAX_RADIUS_KM);
+    });
+    if (invalid) {
+      setError(`${invalid.label}: radius must be between 0 and ${MAX_RADIUS_KM} km`);
+      return;
+    }
+
+    onSave(draft);
+    onClose();
+  };
+
+  const handleReset = () => {
+    onReset();
+    onClose();
+  };
+
+  return (
+    <>
+      {/* Fixed overlay */}
+      <div
+        className="fixed inset-0 bg-black/75 backdrop-blur-sm z-[999]"
+        onClick={handleBackdropClick}
+        aria-hidden="true"
+      />
+
+      {/* Modal content */}
+      <div className="fixed inset-0 flex items-center justify-center z-[1000] p-4" role="dialog" aria-modal="true">
+        <div
+          className="bg-gray-900 rounded-xl max-w-lg w-full p-6 relative shadow-xl border border-gray-800"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <button
+            onClick={onClose}
+            className="absolute right-4 top-4 p-1 rounded-full hover:bg-gray-800 transition-colors"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5 text-gray-400" />
+          </button>
+
+          <h3 className="text-xl font-medium mb-1 text-gray-100">Correlation Settings</h3>
+          <p className="text-gray-400 mb-4 text-sm">
+            When no fusion analysis is available, HUMINT entities are linked to SIGINT emitters within
+            the search radius. The decay curve sets how quickly correlation strength falls with distance.
+          </p>
+
+          <div className="grid grid-cols-[1fr_6rem_8rem_3.5rem] gap-2 items-center text-xs">
+            <span className="text-gray-400">Entity type</span>
+            <span className="text-gray-400">Radius (km)</span>
+            <span className="text-gray-400">Decay</span>
+            <span className="text-gray-400 text-right" title="Strength at half the radius">@ ½ r</span>
+
+            {CORRELATION_ENTITY_TYPES.map(({ id, label }) => {
+              const rule = draft[id];
+              const halfRadiusStrength = rule.radiusKm > 0
+                ? correlationStrength(rule.radiusKm * 500, rule)
+                : 0;
+
+              return (
+                <React.Fragment key={id}>
+                  <label className="text-sm text-gray-200" htmlFor={`correlation-radius-${id}`}>{label}</label>
+                  <input
+                    id={`correlation-radius-${id}`}
+                    type="number"
+                    min={0.1}
+                    max={MAX_RADIUS_KM}
+                    step={0.5}
+                    value={Number.isNaN(rule.radiusKm) ? '' : rule.radiusKm}
+                    onChange={(e) => updateRule(id, { radiusKm: parseFloat(e.target.value) })}
+                    className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-sm text-gray-200"
+                  />
+                  <select
+                    value={rule.decay}
+                    onChange={(e) => updateRule(id, { decay: e.target.value as CorrelationDecay })}
+                    className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-sm text-gray-200"
+                  >
+                    {CORRELATION_DECAYS.map(decay => (
+                      <option key={decay.id} value={decay.id}>{decay.label}</option>
+                    ))}
+                  </select>
+                  <span className="text-right font-mono text-gray-400">
+                    {Math.round(halfRadiusStrength * 100)}%
+                  </span>
+                </React.Fragment>
+              );
+            })}
+          </div>
+
+          <div className="text-xs mt-2 min-h-[1rem]">
+            {error && <span className="text-red-400">{error}</span>}
+          </div>
+
+          <div className="flex justify-between mt-4">
+            <button
+              onClick={handleReset}
+              className="flex items-center px-3 py-2 rounded-lg text-gray-300 hover:bg-gray-800 text-sm"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset to default
+            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 rounded-lg bg-gray-800 text-gray-200 border border-gray-700 hover:bg-gray-700 text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 rounded-lg bg-white text-gray-900 hover:bg-gray-200 text-sm font-medium"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default CorrelationSettingsModal;
@@ -0,0 +1,519 @@
+// components/military-intelligence/ui/intelligenceReportDocument.tsx
+import React from 'react';
+import { Document, Font, Page, Text, View, StyleSheet } from '@react-pdf/renderer';
+import dejaVuSans from 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf';
+import dejaVuSansBold from 'dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf';
+import { AdaptedAnalysisResponse, TacticalObservation, ResourceStatus, ThreatAssessment, TacticalGraphic } from '../../../type/intelligence';
+import { SigintAnalysisResponse, RadarEmitter, CorrelationExplanation } from '../../../type/sigintTypes';
+import { formatLatLng } from '../utils/coordinateParser';
+import { factorLabel } from '../utils/correlationExplanation';
+import { getTacticalGraphicKind } from '../utils/tacticalGraphics';
+
+// The built-in PDF fonts have no Cyrillic, so place names and quoted report text
+// would come out blank; a bundled Unicode font covers them
+const REPORT_FONT = 'DejaVu Sans';
+
+Font.register({
+  family: REPORT_FONT,
+  fonts: [
+    { src: dejaVuSans },
+    { src: dejaVuSansBold, fontWeight: 'bold' }
+  ]
+});
+
+// Utility functions for filtering data
+const filterGenericItems = (items: string[] | undefined): string[] => {
+  if (!items || !Array.isArray(items)) return [];
+
+  return items.filter(item => {
+    if (!item) return false;
+
+    // Filter out obvious placeholder content
+    return (
+      !item.match(/^Item \d+$/) && // Remove "Item 1", "Item 2", etc.
+      !['Unknown', 'No data available', 'No information'].includes(item) &&
+      item.length > 5 // Ensure minimum value
+    );
+  });
+};
+
+const filterGenericObservations = (observations: TacticalObservation[] | undefined): TacticalObservation[] => {
+  if (!observations || !Array.isArray(observations)) return [];
+
+  return observations.filter(observation => {
+    if (!observation || !observation.text) return false;
+
+    // Filter out generic or placeholder observations
+    return (
+      observation.text.length > 10 &&
+      !observation.text.includes('No specific observations') &&
+      !observation.text.includes('No data available')
+    );
+  });
+};
+
+const filterGenericResources = (resources: ResourceStatus[] | undefined): ResourceStatus[] => {
+  if (!resources || !Array.isArray(resources)) return [];
+
+  return resources.filter(resource => {
+    if (!resource || !resource.type) return false;
+
+    // Filter out generic resource names
+    return (
+      resource.type !== 'Unknown' &&
+      resource.type !== 'Generic Resource' &&
+      resource.type !== 'No data'
+    );
+  });
+};
+
+/**
+ * Format a threat location which may be a plain string or a structured location
+ * @param location - Threat location
+ * @returns Printable location name
+ */
+const formatThreatLocation = (location: ThreatAssessment['location']): string => {
+  if (!location) return '-';
+  if (typeof location === 'string') return location;
+  return location.name || '-';
+};
+
+/**
+ * Format an emitter's latest known position for the emitter table
+ * @param emitter - Radar emitter
+ * @returns Position string with accuracy, or '-' when not located
+ */
+const formatEmitterPosition = (emitter: RadarEmitter): string => {
+  const located = (emitter.locations || []).filter(loc =>
+    loc.coordinates &&
+    loc.coordinates.latitude !== undefined &&
+    loc.coordinates.longitude !== undefined
+  );
+
+  if (located.length === 0) return '-';
+
+  const latest = [...located].sort((a, b) =>
+    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  )[0];
+
+  const { latitude, longitude } = latest.coordinates;
+  const accuracy = latest.accuracy ? ` ±${Math.round(latest.accuracy)}m` : '';
+  return `${latitude.toFixed(4)}, ${longitude.toFixed(4)}${accuracy}`;
+};
+
+/**
+ * Format the observed frequency span of an emitter in MHz
+ * @param emitter - Radar emitter
+ * @returns Frequency or frequency range string
+ */
+const formatEmitterFrequency = (emitter: RadarEmitter): string => {
+  const frequencies = (emitter.emissions || [])
+    .map(emission => emission.frequency)
+    .filter(frequency => typeof frequency === 'number' && !isNaN(frequency));
+
+  if (frequencies.length === 0) return '-';
+
+  const min = Math.min(...frequencies);
+  const max = Math.max(...frequencies);
+  return min === max ? `${min} MHz` : `${min}-${max} MHz`;
+};
+
+const formatDateTime = (value: string | undefined): string => {
+  if (!value) return '-';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+const styles = StyleSheet.create({
+  page: {
+    paddingTop: 56,
+    paddingBottom: 56,
+    paddingHorizontal: 40,
+    fontSize: 10,
+    fontFamily: REPORT_FONT,
+    color: '#111827'
+  },
+  header: {
+    position: 'absolute',
+    top: 20,
+    left: 40,
+    right: 40,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#9ca3af',
+    paddingBottom: 4,
+    fontSize: 8,
+    color: '#4b5563'
+  },
+  footer: {
+    position: 'absolute',
+    bottom: 20,
+    left: 40,
+    right: 40,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    borderTopColor: '#9ca3af',
+    paddingTop: 4,
+    fontSize: 8,
+    color: '#4b5563'
+  },
+  classification: {
+    fontWeight: 'bold',
+    color: '#b91c1c'
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 4
+  },
+  subtitle: {
+    fontSize: 9,
+    color: '#4b5563',
+    marginBottom: 16
+  },
+  section: {
+    marginBottom: 14
+  },
+  sectionTitle: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    textTransform: 'uppercase',
+    backgroundColor: '#e5e7eb',
+    paddingVertical: 3,
+    paddingHorizontal: 6,
+    marginBottom: 6
+  },
+  urgentTitle: {
+    backgroundColor: '#fee2e2',
+    color: '#991b1b'
+  },
+  paragraph: {
+    lineHeight: 1.4
+  },
+  listItem: {
+    flexDirection: 'row',
+    marginBottom: 3
+  },
+  bullet: {
+    width: 10
+  },
+  listText: {
+    flex: 1,
+    lineHeight: 1.4
+  },
+  table: {
+    borderWidth: 1,
+    borderColor: '#d1d5db'
+  },
+  tableHeaderRow: {
+    flexDirection: 'row',
+    backgroundColor: '#f3f4f6',
+    borderBottomWidth: 1,
+    borderBottomColor: '#d1d5db',
+    fontWeight: 'bold'
+  },
+  tableRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb'
+  },
+  tableCell: {
+    paddingVertical: 3,
+    paddingHorizontal: 4,
+    fontSize: 8
+  },
+  muted: {
+    color: '#6b7280'
+  }
+});
+
+interface SectionProps {
+  title: string;
+  urgent?: boolean;
+  children: React.ReactNode;
+}
+
+const Section: React.FC<SectionProps> = ({ title, urgent, children }) => (
+  <View style={styles.section} wrap>
+    <Text style={urgent ? [styles.sectionTitle, styles.urgentTitle] : styles.sectionTitle} minPresenceAhead={24}>
+      {title}
+    </Text>
+    {children}
+  </View>
+);
+
+const BulletList: React.FC<{ items: string[] }> = ({ items }) => (
+  <View>
+    {items.map((item, index) => (
+      <View key={index} style={styles.listItem} wrap={false}>
+        <Text style={styles.bullet}>•</Text>
+        <Text style={styles.listText}>{item}</Text>
+      </View>
+    ))}
+  </View>
+);
+
+interface TableColumn {
+  label: string;
+  width: string;
+}
+
+const Table: React.FC<{ columns: TableColumn[]; rows: string[][] }> = ({ columns, rows }) => (
+  <View style={styles.table}>
+    <View style={styles.tableHeaderRow}>
+      {columns.map(column => (
+        <Text key={column.label} style={[styles.tableCell, { width: column.width }]}>
+          {column.label}
+        </Text>
+      ))}
+    </View>
+    {rows.map((row, rowIndex) => (
+      <View key={rowIndex} style={styles.tableRow} wrap={false}>
+        {row.map((cell, cellIndex) => (
+          <Text key={cellIndex} style={[styles.tableCell, { width: columns[cellIndex].width }]}>
+            {cell}
+          </Text>
+        ))}
+      </View>
+    ))}
+  </View>
+);
+
+interface IntelligenceReportDocumentProps {
+  analysisResults: AdaptedAnalysisResponse;
+  sigintData?: SigintAnalysisResponse | null;
+  correlationExplanations?: CorrelationExplanation[];
+  tacticalGraphics?: TacticalGraphic[];
+  generatedAt?: Date;
+}
+
+/**
+ * Printable intelligence report rendered with @react-pdf/renderer.
+ * Sections with no meaningful content are omitted.
+ */
+const IntelligenceReportDocument: React.FC<IntelligenceReportDocumentProps> = ({
+  analysisResults,
+  sigintData,
+  correlationExplanations = [],
+  tacticalGraphics = [],
+  generatedAt = new Date()
+}) => {
+  const { intelligence } = analysisResults;
+  const reportId = analysisResults.reportId || 'intel-report';
+
+  const observations = filterGenericObservations(intelligence.tacticalObservations);
+  const threats = (intelligence.threats || []).filter(threat => threat && threat.description);
+  const enemyForces = filterGenericItems(intelligence.enemyForces);
+  const friendlyForces = filterGenericResources(intelligence.friendlyForces);
+  const locations = filterGenericItems(intelligence.locations);
+  const resources = filterGenericItems(intelligence.resourceStatus);
+  const communications = filterGenericItems(intelligence.communicationsStatus);
+  const predictions = analysisResults.predictions || [];
+  const emitters = sigintData?.emitters || [];
+
+  return (
+    <Document
+      title={`Intelligence Report ${reportId}`}
+      subject="Intelligence analysis"
+      creator="Zarathustra"
+      producer="Zarathustra"
+    >
+      <Page size="A4" style={styles.page}>
+        {/* Running header */}
+        <View style={styles.header} fixed>
+          <Text style={styles.classification}>RESTRICTED</Text>
+          <Text>INTELLIGENCE REPORT {reportId}</Text>
+        </View>
+
+        <Text style={styles.title}>Intelligence Report</Text>
+        <Text style={styles.subtitle}>
+          Report ID: {reportId}
+          {analysisResults.analysisId ? `  |  Analysis ID: ${analysisResults.analysisId}` : ''}
+          {`  |  Report time: ${formatDateTime(analysisResults.timestamp)}`}
+        </Text>
+
+        {intelligence.summary && (
+          <Section title="Situation Overview">
+            <Text style={styles.paragraph}>{intelligence.summary}</Text>
+          </Section>
+        )}
+
+        {intelligence.urgentIntelligence && (
+          <Section title="Urgent - Immediate Attention" urgent>
+            <Text style={styles.paragraph}>{intelligence.urgentIntelligence}</Text>
+          </Section>
+        )}
+
+        {observations.length > 0 && (
+          <Section title="Tactical Observations">
+            <BulletList items={observations.map(observation => observation.text)} />
+          </Section>
+        )}
+
+        {threats.length > 0 && (
+          <Section title="Threat Assessment">
+            <Table
+              columns={[
+                { label: 'Threat', width: '46%' },
+                { label: 'Severity', width: '12%' },
+                { label: 'Immediacy', width: '14%' },
+                { label: 'Location', width: '18%' },
+                { label: 'Conf.', width: '10%' }
+              ]}
+              rows={threats.map(threat => [
+                threat.description,
+                threat.severity || '-',
+                threat.immediacy || '-',
+                formatThreatLocation(threat.location),
+                threat.confidence || '-'
+              ])}
+            />
+          </Section>
+        )}
+
+        {enemyForces.length > 0 && (
+          <Section title="Enemy Forces">
+            <BulletList items={enemyForces} />
+          </Section>
+        )}
+
+        {friendlyForces.length > 0 && (
+          <Section title="Friendly Forces">
+            <Table
+              columns={[
+                { label: 'Unit / Resource', width: '26%' },
+                { label: 'Status', width: '14%' },
+                { label: 'Quantity', width: '14%' },
+                { label: 'Description', width: '46%' }
+              ]}
+              rows={friendlyForces.map(force => [
+                force.type,
+                force.status || '-',
+                force.quantity || '-',
+                force.description || '-'
+              ])}
+            />
+          </Section>
+        )}
+
+        {locations.length > 0 && (
+          <Section title="Geospatial Information">
+            <BulletList items={locations} />
+          </Section>
+        )}
+
+        {tacticalGraphics.length > 0 && (
+          <Section title="Control Measures">
+            <Table
+              columns={[
+                { label: 'Label', width: '16%' },
+                { label: 'Type', width: '20%' },
+                { label: 'Coordinates', width: '40%' },
+                { label: 'Remarks', width: '24%' }
+              ]}
+              rows={tacticalGraphics.map(graphic => [
+                graphic.name,
+                getTacticalGraphicKind(graphic.kind).label,
+                graphic.coordinates.map(([lat, lng]) => formatLatLng(lat, lng)).join('; '),
+                graphic.remarks || '-'
+              ])}
+            />
+          </Section>
+        )}
+
+        {resources.length > 0 && (
+          <Section title="Resource Status">
+            <BulletList items={resources} />
+          </Section>
+        )}
+
+        {communications.length > 0 && (
+          <Section title="Communications & Electronic Warfare">
+            <BulletList items={communications} />
+          </Section>
+        )}
+
+        {emitters.length > 0 && (
+          <Section title="SIGINT - Detected Emitters">
+            <Table
+              columns={[
+                { label: 'Emitter', width: '20%' },
+                { label: 'Type / Model', width: '24%' },
+                { label: 'Frequency', width: '14%' },
+                { label: 'Last Position', width: '26%' },
+                { label: 'Conf.', width: '16%' }
+              ]}
+              rows={emitters.map(emitter => [
+                emitter.id,
+                [emitter.classification?.type, emitter.classification?.model].filter(Boolean).join(' / ') || '-',
+                formatEmitterFrequency(emitter),
+                formatEmitterPosition(emitter),
+                emitter.classification?.confidence || emitter.confidence || '-'
+              ])}
+            />
+          </Section>
+        )}
+
+        {correlationExplanations.length > 0 && (
+          <Section title="Fusion - Correlation Rationale">
+            {correlationExplanations.map(explanation => (
+              <View key={explanation.id} style={{ marginBottom: 8 }} wrap={false}>
+                <Text style={{ fontWeight: 'bold', marginBottom: 2 }}>
+                  {`${explanation.labels.humint} / ${explanation.labels.sigint} - ${Math.round(explanation.score * 100)}%`}
+                  {explanation.review?.verified ? ' (confirmed by analyst)' : ''}
+                </Text>
+                <Text style={[styles.paragraph, { marginBottom: 2 }]}>{explanation.narrative}</Text>
+                <BulletList
+                  items={explanation.factors.map(factor =>
+                    `${factorLabel(factor.factor)} ${Math.round(factor.score * 100)}%: ${factor.text}`)}
+                />
+              </View>
+            ))}
+          </Section>
+        )}
+
+        {predictions.length > 0 && (
+          <Section title="Predictive Assessment">
+            {analysisResults.predictionSummary && (
+              <Text style={[styles.paragraph, { marginBottom: 6 }]}>{analysisResults.predictionSummary}</Text>
+            )}
+            <Table
+              columns={[
+                { label: 'Prediction', width: '50%' },
+                { label: 'Timeframe', width: '20%' },
+                { label: 'Confidence', width: '15%' },
+                { label: 'Pattern', width: '15%' }
+              ]}
+              rows={predictions.map(prediction => [
+                prediction.description || prediction.name,
+                prediction.formattedTimeframe || '-',
+                prediction.confidenceFormatted || prediction.confidenceLevel || '-',
+                prediction.patternName || '-'
+              ])}
+            />
+          </Section>
+        )}
+
+        {intelligence.reliability && (
+          <Section title="Reliability Assessment">
+            <Text style={styles.paragraph}>Confidence Level: {intelligence.reliability.confidence}</Text>
+            {intelligence.reliability.assessment && (
+              <Text style={[styles.paragraph, styles.muted]}>{intelligence.reliability.assessment}</Text>
+            )}
+          </Section>
+        )}
+
+        {/* Running footer with page numbers */}
+        <View style={styles.footer} fixed>
+          <Text>Generated {generatedAt.toLocaleString()}</Text>
+          <Text>{reportId}</Text>
+          <Text render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`} />
+        </View>
+      </Page>
+    </Document>
+  );
+};
+
+export default IntelligenceReportDocument;
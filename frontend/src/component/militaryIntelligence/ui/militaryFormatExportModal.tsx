@@ -0,0 +1,283 @@
+// components/military-intelligence/ui/militaryFormatExportModal.tsx
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { X, Download, Copy, Loader2, RefreshCw } from 'lucide-react';
+import { exportMilitaryFormat } from '../../../api/intelligenceService';
+import { MilitaryReportFormat, MilitaryFormatOptions, MilitaryFormatReport, TacticalGraphic } from '../../../type/intelligence';
+import { toast } from '../utils/toastService';
+
+const FORMATS: Array<{ id: MilitaryReportFormat; label: string; description: string }> = [
+  { id: 'NATO', label: 'NATO', description: 'ADatP-3 formatted INTREP message' },
+  { id: 'INTSUM', label: 'INTSUM', description: 'Periodic intelligence summary' },
+  { id: 'INTREP', label: 'INTREP', description: 'Time-sensitive intelligence report' },
+  { id: 'SITREP', label: 'SITREP', description: 'Situation report for higher HQ' }
+];
+
+const CLASSIFICATIONS = ['UNCLASSIFIED', 'RESTRICTED', 'CONFIDENTIAL', 'SECRET'];
+
+// Shared default, so a modal opened without graphics does not see a new array each render
+const NO_TACTICAL_GRAPHICS: TacticalGraphic[] = [];
+
+interface MilitaryFormatExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  analysisId?: string;
+  reportId?: string;
+  initialFormat?: MilitaryReportFormat;
+  tacticalGraphics?: TacticalGraphic[];
+}
+
+const MilitaryFormatExportModal: React.FC<MilitaryFormatExportModalProps> = ({
+  isOpen,
+  onClose,
+  analysisId,
+  reportId,
+  initialFormat = 'NATO',
+  tacticalGraphics = NO_TACTICAL_GRAPHICS
+}) => {
+  const [format, setFormat] = useState<MilitaryReportFormat>(initialFormat);
+  const [options, setOptions] = useState<MilitaryFormatOptions>({
+    classification: 'RESTRICTED',
+    originator: '',
+    recipient: '',
+    serialNumber: '001'
+  });
+  const [report, setReport] = useState<MilitaryFormatReport | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Header options are applied via the refresh button, not on every keystroke
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  // Prevent scrolling while modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+      return () => {
+        document.body.style.overflow = '';
+      };
+    }
+  }, [isOpen]);
+
+  // Handle ESC key to close
+  useEffect(() => {
+    const handleEscapeKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscapeKey);
+    return () => {
+      document.removeEventListener('keydown', handleEscapeKey);
+    };
+  }, [onClose]);
+
+  const generatePreview = useCallback(async (selectedFormat: MilitaryReportFormat, formatOptions: MilitaryFormatOptions) => {
+    if (!analysisId) {
+      setError('No stored analysis is available for export. Run an analysis first.');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // Strip empty fields so the backend applies its defaults
+      const customOptions = Object.fromEntries(
+        Object.entries(formatOptions).filter(([, value]) => value)
+      ) as MilitaryFormatOptions;
+
+      // Control measures drawn on the map are listed in the report
+      if (tacticalGraphics.length > 0) {
+        customOptions.tacticalGraphics = tacticalGraphics;
+      }
+
+      const result = await exportMilitaryFormat(analysisId, selectedFormat, customOptions);
+      setReport(result);
+    } catch (err) {
+      console.error('Military format export failed:', err);
+      setReport(null);
+      setError(err instanceof Error ? err.message : `Failed to generate ${selectedFormat} report`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [analysisId, tacticalGraphics]);
+
+  // Regenerate the preview whenever the format changes
+  useEffect(() => {
+    if (isOpen) {
+      generatePreview(format, optionsRef.current);
+    }
+  }, [isOpen, format, generatePreview]);
+
+  if (!isOpen) return null;
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!report) return;
+
+    try {
+      await navigator.clipboard.writeText(report.content);
+      toast.success(`${report.format} copied to clipboard`);
+    } catch {
+      toast.error('Unable to access the clipboard');
+    }
+  };
+
+  const handleDownload = () => {
+    if (!report) return;
+
+    const baseName = (reportId || report.analysisId || 'intel-report').replace(/\s+/g, '-').toLowerCase();
+    const blob = new Blob([report.content], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${baseName}-${report.format.toLowerCase()}-${report.dtg.toLowerCase()}.txt`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const updateOption = (key: keyof MilitaryFormatOptions, value: string) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <>
+      {/* Fixed overlay */}
+      <div
+        className="fixed inset-0 bg-black/75 backdrop-blur-sm z-[999]"
+        onClick={handleBackdropClick}
+        aria-hidden="true"
+      />
+
+      {/* Modal content */}
+      <div className="fixed inset-0 flex items-center justify-center z-[1000] p-4" role="dialog" aria-modal="true">
+        <div
+          className="bg-gray-900 rounded-xl max-w-4xl w-full max-h-[90vh] flex flex-col p-6 relative shadow-xl border border-gray-800"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <button
+            onClick={onClose}
+            className="absolute right-4 top-4 p-1 rounded-full hover:bg-gray-800 transition-colors"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5 text-gray-400" />
+          </button>
+
+          <h3 className="text-xl font-medium mb-1 text-gray-100">Export Military Format</h3>
+          <p className="text-gray-400 mb-4 text-sm">
+            Generate a structured message for higher HQ from the stored analysis.
+          </p>
+
+          {/* Format selector */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4">
+            {FORMATS.map(item => (
+              <button
+                key={item.id}
+                onClick={() => setFormat(item.id)}
+                className={`text-left px-3 py-2 rounded-lg border transition-colors ${
+                  format === item.id
+                    ? 'bg-gray-700 border-gray-500 text-white'
+                    : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                <div className="font-medium text-sm">{item.label}</div>
+                <div className="text-xs text-gray-400">{item.description}</div>
+              </button>
+            ))}
+          </div>
+
+          {/* Header options */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4">
+            <select
+              value={options.classification}
+              onChange={(e) => updateOption('classification', e.target.value)}
+              className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200"
+              aria-label="Classification"
+            >
+              {CLASSIFICATIONS.map(level => (
+                <option key={level} value={level}>{level}</option>
+              ))}
+            </select>
+            <input
+              value={options.originator}
+              onChange={(e) => updateOption('originator', e.target.value)}
+              placeholder="From (originator)"
+              className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200 placeholder-gray-500"
+            />
+            <input
+              value={options.recipient}
+              onChange={(e) => updateOption('recipient', e.target.value)}
+              placeholder="To (recipient)"
+              className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200 placeholder-gray-500"
+            />
+            <div className="flex gap-2">
+              <input
+                value={options.serialNumber}
+                onChange={(e) => updateOption('serialNumber', e.target.value)}
+                placeholder="Serial"
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200 placeholder-gray-500"
+              />
+              <button
+                onClick={() => generatePreview(format, options)}
+                disabled={isLoading}
+                className="p-2 rounded-lg bg-gray-800 border border-gray-700 hover:bg-gray-700 disabled:opacity-50"
+                title="Apply header options"
+                aria-label="Apply header options"
+              >
+                <RefreshCw className="h-4 w-4 text-gray-300" />
+              </button>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="flex-1 min-h-[240px] overflow-auto rounded-lg border border-gray-700 bg-black/60 p-4">
+            {isLoading ? (
+              <div className="flex items-center justify-center h-full text-gray-400 text-sm">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Generating {format}...
+              </div>
+            ) : error ? (
+              <div className="text-red-400 text-sm">{error}</div>
+            ) : report ? (
+              <pre className="text-xs text-green-300 font-mono whitespace-pre-wrap">{report.content}</pre>
+            ) : null}
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end gap-2 mt-4">
+            <button
+              onClick={handleCopy}
+              disabled={!report || isLoading}
+              className="flex items-center px-4 py-2 rounded-lg bg-gray-800 text-gray-200 border border-gray-700 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </button>
+            <button
+              onClick={handleDownload}
+              disabled={!report || isLoading}
+              className="flex items-center px-4 py-2 rounded-lg bg-white text-gray-900 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default MilitaryFormatExportModal;
@@ -1,65 +1,32 @@
 // components/military-intelligence/ui/PDFExportModal.tsx
-import React, { useEffect } from 'react';
-import { X } from 'lucide-react';
-import { AdaptedAnalysisResponse, TacticalObservation, ResourceStatus } from '../../../type/intelligence';
-
-// Utility functions for filtering data
-const filterGenericItems = (items: string[]): string[] => {
-  if (!items || !Array.isArray(items)) return [];
-  
-  return items.filter(item => {
-    if (!item) return false;
-    
-    // Filter out obvious placeholder content
-    return (
-      !item.match(/^Item \d+$/) && // Remove "Item 1", "Item 2", etc.
-      !['Unknown', 'No data available', 'No information'].includes(item) &&
-      item.length > 5 // Ensure minimum value
-    );
-  });
-};
-
-const filterGenericObservations = (observations: TacticalObservation[] | undefined): TacticalObservation[] => {
-  if (!observations || !Array.isArray(observations)) return [];
-  
-  return observations.filter(observation => {
-    if (!observation || !observation.text) return false;
-    
-    // Filter out generic or placeholder observations
-    return (
-      observation.text.length > 10 &&
-      !observation.text.includes('No specific observations') &&
-      !observation.text.includes('No data available')
-    );
-  });
-};
-
-const filterGenericResources = (resources: ResourceStatus[]): ResourceStatus[] => {
-  if (!resources || !Array.isArray(resources)) return [];
-  
-  return resources.filter(resource => {
-    if (!resource || !resource.type) return false;
-    
-    // Filter out generic resource names
-    return (
-      resource.type !== 'Unknown' &&
-      resource.type !== 'Generic Resource' &&
-      resource.type !== 'No data'
-    );
-  });
-};
+import React, { useEffect, useState } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import { pdf } from '@react-pdf/renderer';
+import { AdaptedAnalysisResponse, TacticalGraphic } from '../../../type/intelligence';
+import { FusionAnalysisResponse, SigintAnalysisResponse } from '../../../type/sigintTypes';
+import IntelligenceReportDocument from './intelligenceReportDocument';
+import { loadFusedCorrelationExplanations } from '../utils/correlationExplanation';
+import { toast } from '../utils/toastService';
 
 interface PDFExportModalProps {
   isOpen: boolean;
   onClose: () => void;
   analysisResults: AdaptedAnalysisResponse;
+  sigintData?: SigintAnalysisResponse | null;
+  fusionData?: FusionAnalysisResponse | null;
+  tacticalGraphics?: TacticalGraphic[];
 }
 
 const PDFExportModal: React.FC<PDFExportModalProps> = ({
   isOpen,
   onClose,
-  analysisResults
+  analysisResults,
+  sigintData,
+  fusionData,
+  tacticalGraphics
 }) => {
+  const [isGenerating, setIsGenerating] = useState<boolean>(false);
+
   // Prevent scrolling while modal is open
   useEffect(() => {
     if (isOpen) {
@@ -96,78 +63,37 @@ const PDFExportModal: React.FC<PDFExportModalProps> = ({
     }
   };
   
-  const downloadPDF = () => {
-    // In a real implementation, this would generate and download a PDF
-    // For now, we'll just download a text file as a placeholder
+  const downloadPDF = async () => {
+    setIsGenerating(true);
     
-    const generateTextContent = () => {
-      const { intelligence } = analysisResults;
+    try {
+      const correlationExplanations = await loadFusedCorrelationExplanations(fusionData?.correlations || []);
+      const blob = await pdf(
+        <IntelligenceReportDocument
+          analysisResults={analysisResults}
+          sigintData={sigintData}
+          correlationExplanations={correlationExplanations}
+          tacticalGraphics={tacticalGraphics}
+        />
+      ).toBlob();
+      const url = URL.createObjectURL(blob);
       
-      let content = `# INTELLIGENCE REPORT: ${reportId}\n\n`;
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
       
-      // Summary section
-      if (intelligence.summary) {
-        content += `## SITUATION OVERVIEW\n${intelligence.summary}\n\n`;
-      }
-      
-      // Urgent intelligence section
-      if (intelligence.urgentIntelligence) {
-        content += `## URGENT - IMMEDIATE ATTENTION\n${intelligence.urgentIntelligence}\n\n`;
-      }
-      
-      // Enemy forces section
-      const filteredEnemyForces = filterGenericItems(intelligence.enemyForces);
-      if (filteredEnemyForces.length > 0) {
-        content += `## ENEMY FORCES\n${filteredEnemyForces.map(f => `- ${f}`).join('\n')}\n\n`;
-      }
-      
-      // Threats section
-      if (intelligence.threats.length > 0) {
-        content += `## THREAT ASSESSMENT\n${intelligence.threats.map(t => `- ${t.description}`).join('\n')}\n\n`;
-      }
-      
-      // Locations section
-      const filteredLocations = filterGenericItems(intelligence.locations);
-      if (filteredLocations.length > 0) {
-        content += `## GEOSPATIAL INFORMATION\n${filteredLocations.map(l => `- ${l}`).join('\n')}\n\n`;
-      }
-      
-      // Resource status section
-      const filteredResources = filterGenericItems(intelligence.resourceStatus);
-      if (filteredResources.length > 0) {
-        content += `## RESOURCE STATUS\n${filteredResources.map(r => `- ${r}`).join('\n')}\n\n`;
-      }
-      
-      // Communications status section
-      if (intelligence.communicationsStatus && intelligence.communicationsStatus.length > 0) {
-        content += `## COMMUNICATIONS & ELECTRONIC WARFARE\n${intelligence.communicationsStatus.map(c => `- ${c}`).join('\n')}\n\n`;
-      }
-      
-      // Reliability assessment section
-      if (intelligence.reliability) {
-        content += `## RELIABILITY ASSESSMENT\nConfidence Level: ${intelligence.reliability.confidence}\n${intelligence.reliability.assessment || ''}\n\n`;
-      }
-      
-      // Add metadata
-      content += `---\nGenerated on: ${new Date().toLocaleString()}\n`;
-      content += `Report ID: ${analysisResults.reportId}\n`;
-      
-      return content;
-    };
-    
-    const content = generateTextContent();
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = fileName.replace('.pdf', '.txt');
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    
-    // Close the modal after a short delay
-    setTimeout(onClose, 500);
+      // Close the modal after a short delay
+      setTimeout(onClose, 500);
+    } catch (error) {
+      console.error('PDF generation failed:', error);
+      toast.error('Failed to generate PDF report');
+    } finally {
+      setIsGenerating(false);
+    }
   };
   
   return (
@@ -200,9 +126,17 @@ const PDFExportModal: React.FC<PDFExportModalProps> = ({
           
           <button
             onClick={downloadPDF}
-            className="flex items-center justify-center w-full bg-gray-800 text-white py-3 px-4 rounded-lg hover:bg-gray-700 transition-colors font-medium border border-gray-700"
+            disabled={isGenerating}
+            className="flex items-center justify-center w-full bg-gray-800 text-white py-3 px-4 rounded-lg hover:bg-gray-700 transition-colors font-medium border border-gray-700 disabled:opacity-60 disabled:cursor-not-allowed"
           >
-            Download Report
+            {isGenerating ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Generating PDF...
+              </>
+            ) : (
+              'Download PDF Report'
+            )}
           </button>
         </div>
       </div>
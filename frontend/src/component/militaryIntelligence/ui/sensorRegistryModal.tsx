@@ -0,0 +1,415 @@
+// components/military-intelligence/ui/sensorRegistryModal.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Plus, Trash2, Search, Save } from 'lucide-react';
+import { APIError } from '../../../api/fieldReport';
+import { createSensor, deleteSensor, updateSensor } from '../../../api/intelligenceService';
+import { CollectionSensor, SensorStatus } from '../../../type/sigintTypes';
+import { findCoordinatesInText } from '../utils/coordinateParser';
+import { SENSOR_STATUSES, sensorStatusColor } from '../utils/sensorRegistry';
+
+interface SensorRegistryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sensors: CollectionSensor[];
+  onSensorsChange: (sensors: CollectionSensor[]) => void;
+}
+
+interface SensorForm {
+  id: string;
+  name: string;
+  position: string;
+  antennaHeight: string;
+  maxRangeKm: string;
+  frequencyBands: string;
+  status: SensorStatus;
+  notes: string;
+}
+
+const EMPTY_FORM: SensorForm = {
+  id: '',
+  name: '',
+  position: '',
+  antennaHeight: '10',
+  maxRangeKm: '',
+  frequencyBands: '',
+  status: 'operational',
+  notes: ''
+};
+
+const formFromSensor = (sensor: CollectionSensor): SensorForm => ({
+  id: sensor.id,
+  name: sensor.name,
+  position: `${sensor.latitude.toFixed(5)}, ${sensor.longitude.toFixed(5)}`,
+  antennaHeight: String(sensor.antennaHeight),
+  maxRangeKm: String(sensor.maxRangeKm),
+  frequencyBands: sensor.frequencyBands.map(band => `${band.minMHz}-${band.maxMHz}`).join(', '),
+  status: sensor.status,
+  notes: sensor.notes || ''
+});
+
+// Bands are written as "20-3000, 8000-18000"
+const parseBands = (text: string): CollectionSensor['frequencyBands'] =>
+  text.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+    const match = part.match(/^(\d+(?:\.\d+)?)\s*[-–]\s*(\d+(?:\.\d+)?)$/);
+    if (!match) {
+      throw new Error(`"${part}" is not a frequency band; write bands as 20-3000`);
+    }
+    return { minMHz: Number(match[1]), maxMHz: Number(match[2]) };
+  });
+
+const sensorFromForm = (form: SensorForm): Omit<CollectionSensor, 'id'> => {
+  if (!form.name.trim()) {
+    throw new Error('Give the sensor a name');
+  }
+
+  // The position may be written in any notation the report parser reads, MGRS included
+  const [coordinates] = findCoordinatesInText(form.position);
+  if (!coordinates) {
+    throw new Error('Give the position as MGRS, UTM or latitude and longitude');
+  }
+
+  const antennaHeight = Number(form.antennaHeight || 0);
+  const maxRangeKm = Number(form.maxRangeKm);
+  if (!Number.isFinite(antennaHeight) || antennaHeight < 0) {
+    throw new Error('Antenna height must be a number of meters');
+  }
+  if (!form.maxRangeKm.trim() || !Number.isFinite(maxRangeKm) || maxRangeKm <= 0) {
+    throw new Error('Intercept range must be a number of kilometers');
+  }
+
+  return {
+    name: form.name.trim(),
+    latitude: coordinates.latitude,
+    longitude: coordinates.longitude,
+    antennaHeight,
+    maxRangeKm,
+    frequencyBands: parseBands(form.frequencyBands),
+    status: form.status,
+    notes: form.notes.trim()
+  };
+};
+
+// The backend lists every problem with an entry; show them rather than the summary
+const describeError = (error: unknown): string => {
+  if (error instanceof APIError) {
+    const details = (error.data as { details?: unknown } | undefined)?.details;
+    if (Array.isArray(details)) return details.join('; ');
+    if (error.status === 401) return 'Sign in to change the sensor registry';
+  }
+  return error instanceof Error ? error.message : 'Something went wrong';
+};
+
+const SensorRegistryModal: React.FC<SensorRegistryModalProps> = ({
+  isOpen,
+  onClose,
+  sensors,
+  onSensorsChange
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<SensorForm>(EMPTY_FORM);
+  const [search, setSearch] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Start with an empty form every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedId(null);
+      setForm(EMPTY_FORM);
+      setSearch('');
+      setError(null);
+      setMessage(null);
+    }
+  }, [isOpen]);
+
+  // Prevent scrolling while modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+      return () => {
+        document.body.style.overflow = '';
+      };
+    }
+  }, [isOpen]);
+
+  // Handle ESC key to close
+  useEffect(() => {
+    const handleEscapeKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscapeKey);
+    return () => {
+      document.removeEventListener('keydown', handleEscapeKey);
+    };
+  }, [onClose]);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return sensors;
+    return sensors.filter(sensor =>
+      [sensor.name, sensor.id].some(name => name.toLowerCase().includes(term)));
+  }, [sensors, search]);
+
+  if (!isOpen) return null;
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const updateForm = (changes: Partial<SensorForm>) => {
+    setForm(current => ({ ...current, ...changes }));
+    setError(null);
+    setMessage(null);
+  };
+
+  const selectSensor = (sensor: CollectionSensor | null) => {
+    setSelectedId(sensor?.id ?? null);
+    setForm(sensor ? formFromSensor(sensor) : EMPTY_FORM);
+    setError(null);
+    setMessage(null);
+  };
+
+  const sortByName = (list: CollectionSensor[]) => [...list].sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleSave = async () => {
+    let entry: Omit<CollectionSensor, 'id'>;
+    try {
+      entry = sensorFromForm(form);
+    } catch (formError) {
+      setError(describeError(formError));
+      return;
+    }
+
+    setBusy(true);
+    try {
+      if (selectedId) {
+        const saved = await updateSensor({ ...entry, id: selectedId });
+        onSensorsChange(sortByName(sensors.map(sensor => sensor.id === saved.id ? saved : sensor)));
+        setMessage(`${saved.name} updated`);
+      } else {
+        const saved = await createSensor({ ...entry, id: form.id.trim() || undefined });
+        onSensorsChange(sortByName([...sensors, saved]));
+        setSelectedId(saved.id);
+        setForm(formFromSensor(saved));
+        setMessage(`${saved.name} registered`);
+      }
+    } catch (saveError) {
+      setError(describeError(saveError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const sensor = sensors.find(candidate => candidate.id === selectedId);
+    if (!sensor || !window.confirm(`Remove ${sensor.name} from the registry?`)) return;
+
+    setBusy(true);
+    try {
+      await deleteSensor(sensor.id);
+      onSensorsChange(sensors.filter(candidate => candidate.id !== sensor.id));
+      selectSensor(null);
+      setMessage(`${sensor.name} removed`);
+    } catch (deleteError) {
+      setError(describeError(deleteError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200';
+  const labelClass = 'block text-xs text-gray-400 mb-1';
+
+  return (
+    <>
+      {/* Fixed overlay */}
+      <div
+        className="fixed inset-0 bg-black/75 backdrop-blur-sm z-[999]"
+        onClick={handleBackdropClick}
+        aria-hidden="true"
+      />
+
+      {/* Modal content */}
+      <div className="fixed inset-0 flex items-center justify-center z-[1000] p-4" role="dialog" aria-modal="true">
+        <div
+          className="bg-gray-900 rounded-xl max-w-3xl w-full p-6 relative shadow-xl border border-gray-800 max-h-[90vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <button
+            onClick={onClose}
+            className="absolute right-4 top-4 p-1 rounded-full hover:bg-gray-800 transition-colors"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5 text-gray-400" />
+          </button>
+
+          <h3 className="text-xl font-medium mb-1 text-gray-100">Collection Sensors</h3>
+          <p className="text-gray-400 mb-4 text-sm">
+            Register each sensor under the receiver ID its intercepts report, so emitter fixes
+            can name the sensors behind them. Offline sensors are left out of the coverage layer.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-[14rem_1fr] gap-4">
+            <div>
+              <div className="relative mb-2">
+                <Search className="h-4 w-4 text-gray-500 absolute left-2 top-2" />
+                <input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search names and IDs"
+                  className={`${inputClass} pl-7`}
+                  aria-label="Search sensors"
+                />
+              </div>
+              <div className="border border-gray-800 rounded-lg max-h-80 overflow-y-auto">
+                {filtered.map(sensor => (
+                  <button
+                    key={sensor.id}
+                    onClick={() => selectSensor(sensor)}
+                    className={`w-full text-left px-2 py-1.5 border-b border-gray-800 last:border-0 ${
+                      sensor.id === selectedId ? 'bg-gray-800' : 'hover:bg-gray-800/50'
+                    }`}
+                  >
+                    <div className="text-sm text-gray-200 truncate flex items-center gap-1.5">
+                      <span
+                        className="inline-block w-2 h-2 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: sensorStatusColor(sensor.status) }}
+                      />
+                      {sensor.name}
+                    </div>
+                    <div className="text-[10px] text-gray-500 truncate font-mono">
+                      {sensor.id} · {sensor.maxRangeKm} km
+                    </div>
+                  </button>
+                ))}
+                {filtered.length === 0 && (
+                  <div className="text-xs text-gray-500 p-2">
+                    {sensors.length === 0 ? 'No sensors registered.' : 'No sensors match.'}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() => selectSensor(null)}
+                className="mt-2 w-full flex items-center justify-center px-3 py-1.5 rounded-lg bg-gray-800 text-gray-200 border border-gray-700 hover:bg-gray-700 text-sm"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                New sensor
+              </button>
+            </div>
+
+            <div className="border border-gray-800 rounded-lg p-3">
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className={labelClass} htmlFor="sensor-name">Name</label>
+                  <input
+                    id="sensor-name"
+                    value={form.name}
+                    onChange={(e) => updateForm({ name: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass} htmlFor="sensor-id">Receiver ID</label>
+                  <input
+                    id="sensor-id"
+                    value={form.id}
+                    onChange={(e) => updateForm({ id: e.target.value })}
+                    disabled={!!selectedId}
+                    placeholder="Derived from the name"
+                    spellCheck={false}
+                    className={`${inputClass} font-mono text-xs disabled:opacity-60`}
+                  />
+                </div>
+              </div>
+
+              <label className={`${labelClass} mt-2`} htmlFor="sensor-position">Position (MGRS, UTM or lat, lng)</label>
+              <input
+                id="sensor-position"
+                value={form.position}
+                onChange={(e) => updateForm({ position: e.target.value })}
+                spellCheck={false}
+                className={`${inputClass} font-mono text-xs`}
+              />
+
+              <div className="grid grid-cols-3 gap-2 mt-2">
+                <div>
+                  <label className={labelClass} htmlFor="sensor-range">Intercept range (km)</label>
+                  <input id="sensor-range" type="number" min={0} value={form.maxRangeKm}
+                    onChange={(e) => updateForm({ maxRangeKm: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass} htmlFor="sensor-antenna">Antenna height (m)</label>
+                  <input id="sensor-antenna" type="number" min={0} value={form.antennaHeight}
+                    onChange={(e) => updateForm({ antennaHeight: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass} htmlFor="sensor-status">Status</label>
+                  <select
+                    id="sensor-status"
+                    value={form.status}
+                    onChange={(e) => updateForm({ status: e.target.value as SensorStatus })}
+                    className={inputClass}
+                  >
+                    {SENSOR_STATUSES.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <label className={`${labelClass} mt-2`} htmlFor="sensor-bands">Band coverage (MHz), e.g. 20-3000, 8000-18000</label>
+              <input
+                id="sensor-bands"
+                value={form.frequencyBands}
+                onChange={(e) => updateForm({ frequencyBands: e.target.value })}
+                spellCheck={false}
+                className={`${inputClass} font-mono text-xs`}
+              />
+
+              <label className={`${labelClass} mt-2`} htmlFor="sensor-notes">Notes</label>
+              <textarea
+                id="sensor-notes"
+                value={form.notes}
+                onChange={(e) => updateForm({ notes: e.target.value })}
+                rows={2}
+                className={inputClass}
+              />
+
+              <div className="flex justify-between items-center mt-3 gap-2">
+                <span className={`text-xs ${error ? 'text-red-400' : 'text-green-400'}`}>{error || message}</span>
+                <div className="flex gap-2 flex-shrink-0">
+                  {selectedId && (
+                    <button
+                      onClick={handleDelete}
+                      disabled={busy}
+                      className="flex items-center px-3 py-1.5 rounded-lg bg-gray-800 text-red-300 border border-gray-700 hover:bg-gray-700 text-sm disabled:opacity-50"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Remove
+                    </button>
+                  )}
+                  <button
+                    onClick={handleSave}
+                    disabled={busy}
+                    className="flex items-center px-3 py-1.5 rounded-lg bg-white text-gray-900 hover:bg-gray-200 text-sm font-medium disabled:opacity-50"
+                  >
+                    <Save className="h-4 w-4 mr-1" />
+                    {selectedId ? 'Save changes' : 'Register sensor'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default SensorRegistryModal;
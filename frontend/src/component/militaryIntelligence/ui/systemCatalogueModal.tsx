@@ -0,0 +1,544 @@
+// components/military-intelligence/ui/systemCatalogueModal.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Plus, Trash2, Search, Upload, Download, Save } from 'lucide-react';
+import { APIError } from '../../../api/fieldReport';
+import {
+  createCatalogueSystem,
+  deleteCatalogueSystem,
+  importSystemCatalogue,
+  updateCatalogueSystem
+} from '../../../api/intelligenceService';
+import {
+  CatalogueSystem,
+  CatalogueSystemCategory,
+  CatalogueSystemMobility,
+  CatalogueValueRange
+} from '../../../type/sigintTypes';
+import {
+  CATALOGUE_CATEGORIES,
+  CATALOGUE_MOBILITIES,
+  downloadSystemCatalogue,
+  parseCatalogueImport
+} from '../utils/systemCatalogue';
+
+interface SystemCatalogueModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  catalogue: CatalogueSystem[];
+  onCatalogueChange: (catalogue: CatalogueSystem[]) => void;
+}
+
+interface SystemForm {
+  name: string;
+  aliases: string;
+  category: CatalogueSystemCategory;
+  role: string;
+  frequencyBands: string;
+  priMin: string;
+  priMax: string;
+  pulseWidthMin: string;
+  pulseWidthMax: string;
+  detectionRangeKm: string;
+  engagementRangeKm: string;
+  mobility: CatalogueSystemMobility;
+  notes: string;
+}
+
+const EMPTY_FORM: SystemForm = {
+  name: '',
+  aliases: '',
+  category: 'radar',
+  role: '',
+  frequencyBands: '',
+  priMin: '',
+  priMax: '',
+  pulseWidthMin: '',
+  pulseWidthMax: '',
+  detectionRangeKm: '',
+  engagementRangeKm: '',
+  mobility: 'mobile',
+  notes: ''
+};
+
+const formFromSystem = (system: CatalogueSystem): SystemForm => ({
+  name: system.name,
+  aliases: system.aliases.join(', '),
+  category: system.category,
+  role: system.role,
+  frequencyBands: system.frequencyBands
+    .map(band => band.minMHz === band.maxMHz ? `${band.minMHz}` : `${band.minMHz}-${band.maxMHz}`)
+    .join(', '),
+  priMin: system.priRangeUs ? String(system.priRangeUs.min) : '',
+  priMax: system.priRangeUs ? String(system.priRangeUs.max) : '',
+  pulseWidthMin: system.pulseWidthRangeUs ? String(system.pulseWidthRangeUs.min) : '',
+  pulseWidthMax: system.pulseWidthRangeUs ? String(system.pulseWidthRangeUs.max) : '',
+  detectionRangeKm: system.detectionRangeKm !== null ? String(system.detectionRangeKm) : '',
+  engagementRangeKm: system.engagementRangeKm !== null ? String(system.engagementRangeKm) : '',
+  mobility: system.mobility,
+  notes: system.notes || ''
+});
+
+const parseNumber = (value: string): number | null => {
+  if (!value.trim()) return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : NaN;
+};
+
+// A range is optional, but needs both ends once either is given
+const parseRange = (min: string, max: string, label: string): CatalogueValueRange | null => {
+  const low = parseNumber(min);
+  const high = parseNumber(max);
+  if (low === null && high === null) return null;
+  if (low === null || high === null || isNaN(low) || isNaN(high)) {
+    throw new Error(`Give both ends of the ${label} as numbers`);
+  }
+  return { min: low, max: high };
+};
+
+// Bands are written as "150-170, 830-882"; a single number is a spot frequency
+const parseBands = (text: string): CatalogueSystem['frequencyBands'] =>
+  text.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+    const match = part.match(/^(\d+(?:\.\d+)?)\s*(?:[-–]\s*(\d+(?:\.\d+)?))?$/);
+    if (!match) {
+      throw new Error(`"${part}" is not a frequency band; write bands as 150-170`);
+    }
+    return { minMHz: Number(match[1]), maxMHz: Number(match[2] ?? match[1]) };
+  });
+
+const systemFromForm = (form: SystemForm): Omit<CatalogueSystem, 'id'> => {
+  if (!form.name.trim()) {
+    throw new Error('Give the system a name');
+  }
+
+  const detectionRangeKm = parseNumber(form.detectionRangeKm);
+  const engagementRangeKm = parseNumber(form.engagementRangeKm);
+  if ((detectionRangeKm !== null && isNaN(detectionRangeKm)) || (engagementRangeKm !== null && isNaN(engagementRangeKm))) {
+    throw new Error('Ranges must be numbers of kilometers');
+  }
+
+  return {
+    name: form.name.trim(),
+    aliases: form.aliases.split(',').map(alias => alias.trim()).filter(Boolean),
+    category: form.category,
+    role: form.role.trim(),
+    frequencyBands: parseBands(form.frequencyBands),
+    priRangeUs: parseRange(form.priMin, form.priMax, 'PRI range'),
+    pulseWidthRangeUs: parseRange(form.pulseWidthMin, form.pulseWidthMax, 'pulse width range'),
+    detectionRangeKm,
+    engagementRangeKm,
+    mobility: form.mobility,
+    notes: form.notes.trim()
+  };
+};
+
+// The backend lists every problem with an entry; show them rather than the summary
+const describeError = (error: unknown): string => {
+  if (error instanceof APIError) {
+    const details = (error.data as { details?: unknown } | undefined)?.details;
+    if (Array.isArray(details)) return details.join('; ');
+    if (error.status === 401) return 'Sign in to change the catalogue';
+  }
+  return error instanceof Error ? error.message : 'Something went wrong';
+};
+
+const SystemCatalogueModal: React.FC<SystemCatalogueModalProps> = ({
+  isOpen,
+  onClose,
+  catalogue,
+  onCatalogueChange
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<SystemForm>(EMPTY_FORM);
+  const [search, setSearch] = useState('');
+  const [replaceOnImport, setReplaceOnImport] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Start with an empty form every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedId(null);
+      setForm(EMPTY_FORM);
+      setSearch('');
+      setError(null);
+      setMessage(null);
+    }
+  }, [isOpen]);
+
+  // Prevent scrolling while modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+      return () => {
+        document.body.style.overflow = '';
+      };
+    }
+  }, [isOpen]);
+
+  // Handle ESC key to close
+  useEffect(() => {
+    const handleEscapeKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscapeKey);
+    return () => {
+      document.removeEventListener('keydown', handleEscapeKey);
+    };
+  }, [onClose]);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return catalogue;
+    return catalogue.filter(system =>
+      [system.name, system.role, ...system.aliases].some(name => name.toLowerCase().includes(term)));
+  }, [catalogue, search]);
+
+  if (!isOpen) return null;
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const updateForm = (changes: Partial<SystemForm>) => {
+    setForm(current => ({ ...current, ...changes }));
+    setError(null);
+    setMessage(null);
+  };
+
+  const selectSystem = (system: CatalogueSystem | null) => {
+    setSelectedId(system?.id ?? null);
+    setForm(system ? formFromSystem(system) : EMPTY_FORM);
+    setError(null);
+    setMessage(null);
+  };
+
+  const sortByName = (systems: CatalogueSystem[]) => [...systems].sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleSave = async () => {
+    let entry: Omit<CatalogueSystem, 'id'>;
+    try {
+      entry = systemFromForm(form);
+    } catch (formError) {
+      setError(describeError(formError));
+      return;
+    }
+
+    setBusy(true);
+    try {
+      if (selectedId) {
+        const saved = await updateCatalogueSystem({ ...entry, id: selectedId });
+        onCatalogueChange(sortByName(catalogue.map(system => system.id === saved.id ? saved : system)));
+        setMessage(`${saved.name} updated`);
+      } else {
+        const saved = await createCatalogueSystem(entry);
+        onCatalogueChange(sortByName([...catalogue, saved]));
+        setSelectedId(saved.id);
+        setMessage(`${saved.name} added`);
+      }
+    } catch (saveError) {
+      setError(describeError(saveError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const system = catalogue.find(candidate => candidate.id === selectedId);
+    if (!system || !window.confirm(`Remove ${system.name} from the catalogue?`)) return;
+
+    setBusy(true);
+    try {
+      await deleteCatalogueSystem(system.id);
+      onCatalogueChange(catalogue.filter(candidate => candidate.id !== system.id));
+      selectSystem(null);
+      setMessage(`${system.name} removed`);
+    } catch (deleteError) {
+      setError(describeError(deleteError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const systems = parseCatalogueImport(await file.text());
+      const result = await importSystemCatalogue(systems, replaceOnImport);
+      onCatalogueChange(result.systems);
+      selectSystem(null);
+      setMessage(`Imported ${file.name}: ${result.added} added, ${result.updated} updated`);
+    } catch (importError) {
+      setError(describeError(importError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200';
+  const labelClass = 'block text-xs text-gray-400 mb-1';
+
+  return (
+    <>
+      {/* Fixed overlay */}
+      <div
+        className="fixed inset-0 bg-black/75 backdrop-blur-sm z-[999]"
+        onClick={handleBackdropClick}
+        aria-hidden="true"
+      />
+
+      {/* Modal content */}
+      <div className="fixed inset-0 flex items-center justify-center z-[1000] p-4" role="dialog" aria-modal="true">
+        <div
+          className="bg-gray-900 rounded-xl max-w-4xl w-full p-6 relative shadow-xl border border-gray-800 max-h-[90vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <button
+            onClick={onClose}
+            className="absolute right-4 top-4 p-1 rounded-full hover:bg-gray-800 transition-colors"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5 text-gray-400" />
+          </button>
+
+          <h3 className="text-xl font-medium mb-1 text-gray-100">System Catalogue</h3>
+          <p className="text-gray-400 mb-4 text-sm">
+            Emitter classification, air defence coverage and map popups use these entries.
+            Changes apply to everyone on this deployment.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-4">
+            <div>
+              <div className="relative mb-2">
+                <Search className="h-4 w-4 text-gray-500 absolute left-2 top-2" />
+                <input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search names and aliases"
+                  className={`${inputClass} pl-7`}
+                  aria-label="Search catalogue"
+                />
+              </div>
+              <div className="border border-gray-800 rounded-lg max-h-80 overflow-y-auto">
+                {filtered.map(system => (
+                  <button
+                    key={system.id}
+                    onClick={() => selectSystem(system)}
+                    className={`w-full text-left px-2 py-1.5 border-b border-gray-800 last:border-0 ${
+                      system.id === selectedId ? 'bg-gray-800' : 'hover:bg-gray-800/50'
+                    }`}
+                  >
+                    <div className="text-sm text-gray-200 truncate">{system.name}</div>
+                    <div className="text-[10px] text-gray-500 truncate">
+                      {system.role || system.category} · {system.engagementRangeKm ?? system.detectionRangeKm ?? '–'} km
+                    </div>
+                  </button>
+                ))}
+                {filtered.length === 0 && (
+                  <div className="text-xs text-gray-500 p-2">
+                    {catalogue.length === 0 ? 'The catalogue could not be loaded.' : 'No systems match.'}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() => selectSystem(null)}
+                className="mt-2 w-full flex items-center justify-center px-3 py-1.5 rounded-lg bg-gray-800 text-gray-200 border border-gray-700 hover:bg-gray-700 text-sm"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                New system
+              </button>
+            </div>
+
+            <div className="border border-gray-800 rounded-lg p-3">
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className={labelClass} htmlFor="catalogue-name">Name</label>
+                  <input
+                    id="catalogue-name"
+                    value={form.name}
+                    onChange={(e) => updateForm({ name: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass} htmlFor="catalogue-aliases">Aliases, comma separated</label>
+                  <input
+                    id="catalogue-aliases"
+                    value={form.aliases}
+                    onChange={(e) => updateForm({ aliases: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass} htmlFor="catalogue-category">Category</label>
+                  <select
+                    id="catalogue-category"
+                    value={form.category}
+                    onChange={(e) => updateForm({ category: e.target.value as CatalogueSystemCategory })}
+                    className={inputClass}
+                  >
+                    {CATALOGUE_CATEGORIES.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass} htmlFor="catalogue-role">Emitter role, e.g. fire-control-radar</label>
+                  <input
+                    id="catalogue-role"
+                    value={form.role}
+                    onChange={(e) => updateForm({ role: e.target.value })}
+                    spellCheck={false}
+                    className={`${inputClass} font-mono text-xs`}
+                  />
+                </div>
+              </div>
+
+              <label className={`${labelClass} mt-2`} htmlFor="catalogue-bands">Frequency bands (MHz), e.g. 8000-12000, 2900-3300</label>
+              <input
+                id="catalogue-bands"
+                value={form.frequencyBands}
+                onChange={(e) => updateForm({ frequencyBands: e.target.value })}
+                spellCheck={false}
+                className={`${inputClass} font-mono text-xs`}
+              />
+
+              <div className="grid grid-cols-4 gap-2 mt-2">
+                <div>
+                  <label className={labelClass} htmlFor="catalogue-pri-min">PRI min (µs)</label>
+                  <input id="catalogue-pri-min" type="number" min={0} value={form.priMin}
+                    onChange={(e) => updateForm({ priMin: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass} htmlFor="catalogue-pri-max">PRI max (µs)</label>
+                  <input id="catalogue-pri-max" type="number" min={0} value={form.priMax}
+                    onChange={(e) => updateForm({ priMax: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass} htmlFor="catalogue-pw-min">PW min (µs)</label>
+                  <input id="catalogue-pw-min" type="number" min={0} value={form.pulseWidthMin}
+                    onChange={(e) => updateForm({ pulseWidthMin: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass} htmlFor="catalogue-pw-max">PW max (µs)</label>
+                  <input id="catalogue-pw-max" type="number" min={0} value={form.pulseWidthMax}
+                    onChange={(e) => updateForm({ pulseWidthMax: e.target.value })} className={inputClass} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-2 mt-2">
+                <div>
+                  <label className={labelClass} htmlFor="catalogue-detection">Detection range (km)</label>
+                  <input id="catalogue-detection" type="number" min={0} value={form.detectionRangeKm}
+                    onChange={(e) => updateForm({ detectionRangeKm: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass} htmlFor="catalogue-engagement">Engagement range (km)</label>
+                  <input id="catalogue-engagement" type="number" min={0} value={form.engagementRangeKm}
+                    onChange={(e) => updateForm({ engagementRangeKm: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass} htmlFor="catalogue-mobility">Mobility</label>
+                  <select
+                    id="catalogue-mobility"
+                    value={form.mobility}
+                    onChange={(e) => updateForm({ mobility: e.target.value as CatalogueSystemMobility })}
+                    className={inputClass}
+                  >
+                    {CATALOGUE_MOBILITIES.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <label className={`${labelClass} mt-2`} htmlFor="catalogue-notes">Notes</label>
+              <textarea
+                id="catalogue-notes"
+                value={form.notes}
+                onChange={(e) => updateForm({ notes: e.target.value })}
+                rows={2}
+                className={inputClass}
+              />
+
+              <div className="flex justify-between items-center mt-3 gap-2">
+                <span className={`text-xs ${error ? 'text-red-400' : 'text-green-400'}`}>{error || message}</span>
+                <div className="flex gap-2 flex-shrink-0">
+                  {selectedId && (
+                    <button
+                      onClick={handleDelete}
+                      disabled={busy}
+                      className="flex items-center px-3 py-1.5 rounded-lg bg-gray-800 text-red-300 border border-gray-700 hover:bg-gray-700 text-sm disabled:opacity-50"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Remove
+                    </button>
+                  )}
+                  <button
+                    onClick={handleSave}
+                    disabled={busy}
+                    className="flex items-center px-3 py-1.5 rounded-lg bg-white text-gray-900 hover:bg-gray-200 text-sm font-medium disabled:opacity-50"
+                  >
+                    <Save className="h-4 w-4 mr-1" />
+                    {selectedId ? 'Save changes' : 'Add system'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap justify-between items-center gap-2 mt-4">
+            <div className="flex items-center gap-2">
+              <input
+                ref={fileInput}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImport}
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInput.current?.click()}
+                disabled={busy}
+                className="flex items-center px-3 py-1.5 rounded-lg bg-gray-800 text-gray-200 border border-gray-700 hover:bg-gray-700 text-sm disabled:opacity-50"
+              >
+                <Upload className="h-4 w-4 mr-1" />
+                Import JSON
+              </button>
+              <label className="flex items-center text-xs text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={replaceOnImport}
+                  onChange={(e) => setReplaceOnImport(e.target.checked)}
+                  className="h-3.5 w-3.5 mr-1 rounded border-gray-600"
+                />
+                Replace the whole catalogue
+              </label>
+            </div>
+            <button
+              onClick={() => downloadSystemCatalogue(catalogue)}
+              disabled={catalogue.length === 0}
+              className="flex items-center px-3 py-1.5 rounded-lg bg-gray-800 text-gray-200 border border-gray-700 hover:bg-gray-700 text-sm disabled:opacity-50"
+            >
+              <Download className="h-4 w-4 mr-1" />
+              Export JSON
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default SystemCatalogueModal;
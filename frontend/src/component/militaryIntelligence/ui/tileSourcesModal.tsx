@@ -0,0 +1,311 @@
+// components/military-intelligence/ui/tileSourcesModal.tsx
+import React, { useEffect, useState } from 'react';
+import { X, Plus, Trash2, HardDrive, Globe, Server } from 'lucide-react';
+import {
+  TileSource,
+  TileSourceType,
+  createCustomTileSource,
+  isValidTileSource
+} from '../utils/tileSources';
+
+interface TileSourcesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  builtInSources: TileSource[];
+  serverSources: TileSource[];
+  customSources: TileSource[];
+  onSave: (customSources: TileSource[]) => void;
+}
+
+interface SourceForm {
+  name: string;
+  type: TileSourceType;
+  url: string;
+  layers: string;
+  format: string;
+  attribution: string;
+  maxZoom: string;
+}
+
+const EMPTY_FORM: SourceForm = {
+  name: '',
+  type: 'xyz',
+  url: '',
+  layers: '',
+  format: 'image/png',
+  attribution: '',
+  maxZoom: '18'
+};
+
+const ORIGIN_ICONS = {
+  builtin: Globe,
+  server: HardDrive,
+  custom: Server
+};
+
+const TileSourcesModal: React.FC<TileSourcesModalProps> = ({
+  isOpen,
+  onClose,
+  builtInSources,
+  serverSources,
+  customSources,
+  onSave
+}) => {
+  const [sources, setSources] = useState<TileSource[]>(customSources);
+  const [form, setForm] = useState<SourceForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved sources every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setSources(customSources);
+      setForm(EMPTY_FORM);
+      setError(null);
+    }
+  }, [isOpen, customSources]);
+
+  // Prevent scrolling while modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+      return () => {
+        document.body.style.overflow = '';
+      };
+    }
+  }, [isOpen]);
+
+  // Handle ESC key to close
+  useEffect(() => {
+    const handleEscapeKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscapeKey);
+    return () => {
+      document.removeEventListener('keydown', handleEscapeKey);
+    };
+  }, [onClose]);
+
+  if (!isOpen) return null;
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const updateForm = (changes: Partial<SourceForm>) => {
+    setForm(current => ({ ...current, ...changes }));
+    setError(null);
+  };
+
+  const handleAdd = () => {
+    const source = createCustomTileSource({
+      name: form.name.trim(),
+      type: form.type,
+      url: form.url.trim(),
+      attribution: form.attribution.trim(),
+      maxZoom: parseInt(form.maxZoom, 10),
+      ...(form.type === 'wms' && { layers: form.layers.trim(), format: form.format.trim() || 'image/png' })
+    });
+
+    if (!isValidTileSource(source)) {
+      setError(form.type === 'xyz'
+        ? 'Give a name, a URL containing {z}, {x} and {y}, and a max zoom between 1 and 24'
+        : 'Give a name, the WMS endpoint URL, at least one layer and a max zoom between 1 and 24');
+      return;
+    }
+
+    setSources(current => [...current, source]);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = () => {
+    onSave(sources);
+    onClose();
+  };
+
+  const renderSource = (source: TileSource, removable: boolean) => {
+    const Icon = ORIGIN_ICONS[source.origin];
+
+    return (
+      <div key={source.id} className="flex items-center justify-between py-1.5 border-b border-gray-800 last:border-0">
+        <div className="flex items-center min-w-0">
+          <div className="w-3 h-3 rounded-sm mr-2 flex-shrink-0" style={{ backgroundColor: source.color }} />
+          <Icon className="h-3.5 w-3.5 mr-1.5 text-gray-500 flex-shrink-0" />
+          <div className="min-w-0">
+            <div className="text-sm text-gray-200 truncate">{source.name}</div>
+            <div className="text-[10px] text-gray-500 font-mono truncate" title={source.url}>
+              {source.type.toUpperCase()} · z{source.maxZoom} · {source.url}
+            </div>
+          </div>
+        </div>
+        {removable && (
+          <button
+            onClick={() => setSources(current => current.filter(s => s.id !== source.id))}
+            className="p-1 rounded text-gray-500 hover:text-red-400 hover:bg-gray-800"
+            aria-label={`Remove ${source.name}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200';
+
+  return (
+    <>
+      {/* Fixed overlay */}
+      <div
+        className="fixed inset-0 bg-black/75 backdrop-blur-sm z-[999]"
+        onClick={handleBackdropClick}
+        aria-hidden="true"
+      />
+
+      {/* Modal content */}
+      <div className="fixed inset-0 flex items-center justify-center z-[1000] p-4" role="dialog" aria-modal="true">
+        <div
+          className="bg-gray-900 rounded-xl max-w-xl w-full p-6 relative shadow-xl border border-gray-800 max-h-[90vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <button
+            onClick={onClose}
+            className="absolute right-4 top-4 p-1 rounded-full hover:bg-gray-800 transition-colors"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5 text-gray-400" />
+          </button>
+
+          <h3 className="text-xl font-medium mb-1 text-gray-100">Base Map Sources</h3>
+          <p className="text-gray-400 mb-4 text-sm">
+            Tilesets in the backend tiles directory (MBTiles or XYZ folders) appear automatically.
+            Add XYZ or WMS servers on your network below.
+          </p>
+
+          <div className="mb-4">
+            {builtInSources.map(source => renderSource(source, false))}
+            {serverSources.map(source => renderSource(source, false))}
+            {sources.map(source => renderSource(source, true))}
+            {serverSources.length === 0 && (
+              <div className="text-xs text-gray-500 pt-2">No tilesets found on the backend.</div>
+            )}
+          </div>
+
+          <div className="border border-gray-800 rounded-lg p-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs text-gray-400 mb-1" htmlFor="tile-source-name">Name</label>
+                <input
+                  id="tile-source-name"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1" htmlFor="tile-source-type">Type</label>
+                  <select
+                    id="tile-source-type"
+                    value={form.type}
+                    onChange={(e) => updateForm({ type: e.target.value as TileSourceType })}
+                    className={inputClass}
+                  >
+                    <option value="xyz">XYZ</option>
+                    <option value="wms">WMS</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1" htmlFor="tile-source-max-zoom">Max zoom</label>
+                  <input
+                    id="tile-source-max-zoom"
+                    type="number"
+                    min={1}
+                    max={24}
+                    value={form.maxZoom}
+                    onChange={(e) => updateForm({ maxZoom: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <label className="block text-xs text-gray-400 mt-2 mb-1" htmlFor="tile-source-url">
+              {form.type === 'xyz' ? 'URL template, e.g. http://tiles.lan/osm/{z}/{x}/{y}.png' : 'WMS endpoint, e.g. http://gis.lan/geoserver/wms'}
+            </label>
+            <input
+              id="tile-source-url"
+              value={form.url}
+              onChange={(e) => updateForm({ url: e.target.value })}
+              spellCheck={false}
+              className={`${inputClass} font-mono text-xs`}
+            />
+
+            {form.type === 'wms' && (
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1" htmlFor="tile-source-layers">Layers</label>
+                  <input
+                    id="tile-source-layers"
+                    value={form.layers}
+                    onChange={(e) => updateForm({ layers: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1" htmlFor="tile-source-format">Image format</label>
+                  <input
+                    id="tile-source-format"
+                    value={form.format}
+                    onChange={(e) => updateForm({ format: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            )}
+
+            <label className="block text-xs text-gray-400 mt-2 mb-1" htmlFor="tile-source-attribution">Attribution</label>
+            <input
+              id="tile-source-attribution"
+              value={form.attribution}
+              onChange={(e) => updateForm({ attribution: e.target.value })}
+              className={inputClass}
+            />
+
+            <div className="flex justify-between items-center mt-3">
+              <span className="text-xs text-red-400">{error}</span>
+              <button
+                onClick={handleAdd}
+                className="flex items-center px-3 py-1.5 rounded-lg bg-gray-800 text-gray-200 border border-gray-700 hover:bg-gray-700 text-sm"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add source
+              </button>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 mt-4">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg bg-gray-800 text-gray-200 border border-gray-700 hover:bg-gray-700 text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-4 py-2 rounded-lg bg-white text-gray-900 hover:bg-gray-200 text-sm font-medium"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default TileSourcesModal;
@@ -18,6 +18,8 @@ import {
   AdaptedAnalysisResponse, 
   AdaptedIntelligence
 } from '../../../type/intelligence';
+import { zoneBoundaryPoints } from './controlZones';
+import { toEntityCorrelation } from './correlationReview';
 
 export const adaptApiResponseToComponentModel = (apiResponse: ApiAnalysisResponse): AdaptedAnalysisResponse => {
   const { 
@@ -138,8 +140,8 @@ export const adaptApiResponseToComponentModel = (apiResponse: ApiAnalysisRespons
     controlZones: (intelligence.controlZones || []).map(zone => ({
       name: zone.name || 'Unknown zone',
       controlledBy: zone.controllingForce || 'Unknown',
-      description: '',  // Not available in original data
-      boundaryPoints: [], // Not available in original data
+      description: zone.boundaries || '',
+      boundaryPoints: zoneBoundaryPoints(zone),
       confidence: (zone.confidence || 'medium') as QualityScore
     })),
     
@@ -212,7 +214,8 @@ export const adaptSigintResponseToComponentModel = (sigintResponse: SigintAnalys
     const adaptedEmitters: RadarEmitter[] = (sigintResponse.emitters || []).map(emitter => {
       return {
         ...emitter,
-        id: emitter.id || `emitter-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+        // Keep the backend track ID so emitter details can be requested for it
+        id: emitter.id || emitter.emitterId || `emitter-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
         firstDetected: emitter.firstDetected || sigintResponse.timestamp,
         lastDetected: emitter.lastDetected || sigintResponse.timestamp,
         classification: emitter.classification || {
@@ -256,8 +259,13 @@ export const adaptSigintResponseToComponentModel = (sigintResponse: SigintAnalys
       };
     }
     
+    // The backend links each fused entity to its correlation by ID
+    const correlationsById = new Map((fusionResponse.correlations || []).map(correlation => [correlation.id, correlation]));
+    
     // Process fused entities to ensure they have the expected structure
     const adaptedEntities = (fusionResponse.fusedEntities || []).map(entity => {
+      const linkedCorrelation = entity.correlation?.id ? correlationsById.get(entity.correlation.id) : undefined;
+      
       return {
         ...entity,
         id: entity.id || `fusion-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
@@ -266,20 +274,22 @@ export const adaptSigintResponseToComponentModel = (sigintResponse: SigintAnalys
         sigintSources: entity.sigintSources || [],
         combinedConfidence: entity.combinedConfidence || 'medium',
         lastUpdated: entity.lastUpdated || fusionResponse.timestamp,
-        correlations: (entity.correlations || []).map(correlation => ({
-          ...correlation,
-          humintEntityId: correlation.humintEntityId || '',
-          sigintEmitterId: correlation.sigintEmitterId || '',
-          strength: correlation.strength || {
-            value: 0.5,
-            factors: {
-              spatial: 0.5,
-              temporal: 0.5,
-              semantic: 0.5
-            }
-          },
-          correlationType: correlation.correlationType || 'possible'
-        }))
+        correlations: linkedCorrelation && !entity.correlations?.length
+          ? [toEntityCorrelation(linkedCorrelation)]
+          : (entity.correlations || []).map(correlation => ({
+              ...correlation,
+              humintEntityId: correlation.humintEntityId || '',
+              sigintEmitterId: correlation.sigintEmitterId || '',
+              strength: correlation.strength || {
+                value: 0.5,
+                factors: {
+                  spatial: 0.5,
+                  temporal: 0.5,
+                  semantic: 0.5
+                }
+              },
+              correlationType: correlation.correlationType || 'possible'
+            }))
       };
     });
     
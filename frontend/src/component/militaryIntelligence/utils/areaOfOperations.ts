@@ -0,0 +1,174 @@
+// components/military-intelligence/utils/areaOfOperations.ts
+
+/**
+ * User-defined area of operations (AO). The AO bounds coordinate validation
+ * for free-text reports, sets the initial map extent and is sent as the fusion
+ * focus area. The app has no workspaces, so a single AO is kept in
+ * localStorage per browser.
+ */
+
+export type LatLngTuple = [number, number];
+
+export interface AreaOfOperations {
+  name: string;
+  polygon: LatLngTuple[]; // [latitude, longitude] vertices, implicitly closed
+  updatedAt?: string;
+}
+
+export interface AreaOfOperationsBounds {
+  northEast: LatLngTuple;
+  southWest: LatLngTuple;
+}
+
+const STORAGE_KEY = 'areaOfOperations';
+
+// Historical theater used before the AO became configurable
+export const DEFAULT_AREA_OF_OPERATIONS: AreaOfOperations = {
+  name: 'Ukraine',
+  polygon: [
+    [53, 22],
+    [53, 41],
+    [44, 41],
+    [44, 22]
+  ]
+};
+
+const isValidVertex = (vertex: unknown): vertex is LatLngTuple =>
+  Array.isArray(vertex) &&
+  vertex.length === 2 &&
+  typeof vertex[0] === 'number' && vertex[0] >= -90 && vertex[0] <= 90 &&
+  typeof vertex[1] === 'number' && vertex[1] >= -180 && vertex[1] <= 180;
+
+/**
+ * Check that an AO has a name and at least three valid vertices
+ */
+export const isValidAreaOfOperations = (ao: unknown): ao is AreaOfOperations => {
+  if (!ao || typeof ao !== 'object') return false;
+
+  const { name, polygon } = ao as AreaOfOperations;
+  return typeof name === 'string' &&
+         Array.isArray(polygon) &&
+         polygon.length >= 3 &&
+         polygon.every(isValidVertex);
+};
+
+/**
+ * Load the stored AO, falling back to the default theater
+ */
+export const loadAreaOfOperations = (): AreaOfOperations => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (isValidAreaOfOperations(parsed)) {
+        return parsed;
+      }
+      console.warn('Ignoring invalid area of operations in storage');
+    }
+  } catch (error) {
+    console.warn('Unable to read area of operations from storage:', error);
+  }
+
+  return DEFAULT_AREA_OF_OPERATIONS;
+};
+
+/**
+ * Persist the AO
+ */
+export const saveAreaOfOperations = (ao: AreaOfOperations): AreaOfOperations => {
+  if (!isValidAreaOfOperations(ao)) {
+    throw new Error('An area of operations needs a name and at least three valid vertices');
+  }
+
+  const stored = { ...ao, updatedAt: new Date().toISOString() };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  return stored;
+};
+
+/**
+ * Remove the stored AO so the default theater applies again
+ */
+export const clearAreaOfOperations = (): void => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+/**
+ * Bounding box of the AO polygon, in the shape used by fusion `focusArea`
+ */
+export const getAreaOfOperationsBounds = (ao: AreaOfOperations): AreaOfOperationsBounds => {
+  const latitudes = ao.polygon.map(([lat]) => lat);
+  const longitudes = ao.polygon.map(([, lng]) => lng);
+
+  return {
+    northEast: [Math.max(...latitudes), Math.max(...longitudes)],
+    southWest: [Math.min(...latitudes), Math.min(...longitudes)]
+  };
+};
+
+/**
+ * The AO as a fusion `focusArea`: its polygon, which the backend filters on, with the
+ * bounding box for a quick first test and for consumers that only read the box
+ */
+export const getAreaOfOperationsFocusArea = (
+  ao: AreaOfOperations
+): AreaOfOperationsBounds & { polygon: LatLngTuple[] } => ({
+  ...getAreaOfOperationsBounds(ao),
+  polygon: ao.polygon
+});
+
+/**
+ * Centre of the AO bounding box
+ */
+export const getAreaOfOperationsCenter = (ao: AreaOfOperations): { lat: number; lng: number } => {
+  const { northEast, southWest } = getAreaOfOperationsBounds(ao);
+  return {
+    lat: (northEast[0] + southWest[0]) / 2,
+    lng: (northEast[1] + southWest[1]) / 2
+  };
+};
+
+/**
+ * Point-in-polygon test (ray casting) against the AO
+ */
+export const isPointInAreaOfOperations = (latitude: number, longitude: number, ao: AreaOfOperations): boolean => {
+  const { polygon } = ao;
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+
+    // Points on an edge count as inside
+    const cross = (lngJ - lngI) * (latitude - latI) - (latJ - latI) * (longitude - lngI);
+    if (Math.abs(cross) < 1e-12 &&
+        longitude >= Math.min(lngI, lngJ) && longitude <= Math.max(lngI, lngJ) &&
+        latitude >= Math.min(latI, latJ) && latitude <= Math.max(latI, latJ)) {
+      return true;
+    }
+
+    if ((latI > latitude) !== (latJ > latitude) &&
+        longitude < (lngJ - lngI) * (latitude - latI) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+};
+
+/**
+ * Some upstream extractions drop the leading digit of the latitude (e.g. 9.98
+ * instead of 49.98). Restore it only when the raw point lies outside the AO and
+ * the corrected one lies inside, so genuine low-latitude positions are kept.
+ */
+export const correctTruncatedLatitude = (
+  latitude: number,
+  longitude: number,
+  ao: AreaOfOperations = loadAreaOfOperations()
+): number => {
+  if (latitude < 0 || latitude >= 10 || isPointInAreaOfOperations(latitude, longitude, ao)) {
+    return latitude;
+  }
+
+  const corrected = 40 + latitude;
+  return isPointInAreaOfOperations(corrected, longitude, ao) ? corrected : latitude;
+};
@@ -0,0 +1,325 @@
+// components/military-intelligence/utils/controlZones.ts
+import { useEffect, useMemo, useState } from 'react';
+import { ControlZone, QualityScore } from '../../../type/intelligence';
+import { findCoordinatesInText } from './coordinateParser';
+import { affiliationFromForce } from './militarySymbols';
+
+/**
+ * Control zones reported in HUMINT, the approximate front line between zones held
+ * by different forces, and snapshots of that line kept across analyses so its
+ * movement can be followed.
+ */
+
+export type LatLngTuple = [number, number];
+
+export interface MapControlZone {
+  id: string;
+  name: string;
+  controlledBy: string;
+  description?: string;
+  polygon: LatLngTuple[];
+  confidence: QualityScore;
+}
+
+// A zone as the adapted HUMINT analysis reports it
+export interface ReportedControlZone {
+  name: string;
+  controlledBy: string;
+  description?: string;
+  boundaryPoints: LatLngTuple[];
+  confidence: QualityScore;
+}
+
+export interface FrontLineSegment {
+  between: [string, string]; // controlling forces on either side
+  points: LatLngTuple[];
+}
+
+export interface FrontLineSnapshot {
+  id: string;
+  analysisId: string;
+  recordedAt: string;
+  segments: FrontLineSegment[];
+}
+
+// Zones closer than this are treated as adjacent
+const ADJACENCY_METERS = 10000;
+
+// Boundary points up to this much further apart than the closest approach count as facing each other
+const FACING_TOLERANCE_METERS = 1000;
+
+// Points sampled along each zone edge when looking for the boundary between zones
+const SAMPLES_PER_EDGE = 8;
+
+// Front line points closer than this are merged
+const MIN_POINT_SPACING_METERS = 100;
+
+const METERS_PER_DEGREE = 111320;
+
+const MAX_SNAPSHOTS = 20;
+
+const SNAPSHOT_STORAGE_KEY = 'frontLineSnapshots';
+
+// Affiliation colours for recognisable forces; other forces take palette colours
+const CONTROL_COLORS: Record<string, string> = {
+  hostile: '#ef4444',
+  friend: '#3b82f6',
+  neutral: '#22c55e'
+};
+
+const FORCE_PALETTE = ['#f97316', '#a855f7', '#14b8a6', '#ec4899', '#84cc16', '#eab308'];
+
+const CONTESTED_PATTERN = /contested|disputed|gr[ae]y zone|no.?man/i;
+
+const isLatLng = (point: unknown): point is LatLngTuple =>
+  Array.isArray(point) && point.length >= 2 &&
+  typeof point[0] === 'number' && point[0] >= -90 && point[0] <= 90 &&
+  typeof point[1] === 'number' && point[1] >= -180 && point[1] <= 180;
+
+/**
+ * Boundary vertices of a reported zone: the coordinates given with it, or failing
+ * that the coordinates written into its boundary description
+ */
+export const zoneBoundaryPoints = (zone: Pick<ControlZone, 'boundaries' | 'boundaryPoints'>): LatLngTuple[] => {
+  const given = (zone.boundaryPoints || []).filter(isLatLng).map(([lat, lng]) => [lat, lng] as LatLngTuple);
+  if (given.length >= 3) return given;
+
+  return findCoordinatesInText(zone.boundaries || '').map(coords => [coords.latitude, coords.longitude]);
+};
+
+/**
+ * Zones that can be drawn, i.e. with at least three boundary vertices
+ */
+export const buildMapControlZones = (zones: ReportedControlZone[]): MapControlZone[] =>
+  zones
+    .filter(zone => zone.boundaryPoints.length >= 3)
+    .map((zone, index) => ({
+      id: `zone-${index}`,
+      name: zone.name,
+      controlledBy: zone.controlledBy,
+      description: zone.description,
+      polygon: zone.boundaryPoints,
+      confidence: zone.confidence
+    }));
+
+const normalizeForce = (force: string) => force.trim().toLowerCase();
+
+const isContested = (zone: MapControlZone) =>
+  CONTESTED_PATTERN.test(zone.controlledBy) || !zone.controlledBy || normalizeForce(zone.controlledBy) === 'unknown';
+
+/**
+ * Colour for each controlling force: red and blue for hostile and friendly
+ * forces, grey for contested or unknown control, palette colours otherwise
+ */
+export const getControlZoneColors = (zones: MapControlZone[]): Record<string, string> => {
+  const colors: Record<string, string> = {};
+  let paletteIndex = 0;
+
+  zones.forEach(zone => {
+    const force = normalizeForce(zone.controlledBy);
+    if (colors[force]) return;
+
+    if (isContested(zone)) {
+      colors[force] = '#9ca3af';
+    } else {
+      colors[force] = CONTROL_COLORS[affiliationFromForce(zone.controlledBy)] ||
+        FORCE_PALETTE[paletteIndex++ % FORCE_PALETTE.length];
+    }
+  });
+
+  return colors;
+};
+
+export const controlZoneColor = (zone: MapControlZone, colors: Record<string, string>): string =>
+  colors[normalizeForce(zone.controlledBy)] || '#9ca3af';
+
+// Flat projection around a reference latitude; adequate over the few tens of km between zones
+const project = ([lat, lng]: LatLngTuple, refLat: number) => ({
+  x: lng * Math.cos(refLat * Math.PI / 180) * METERS_PER_DEGREE,
+  y: lat * METERS_PER_DEGREE
+});
+
+const unproject = (x: number, y: number, refLat: number): LatLngTuple => [
+  y / METERS_PER_DEGREE,
+  x / (Math.cos(refLat * Math.PI / 180) * METERS_PER_DEGREE)
+];
+
+const densify = (polygon: LatLngTuple[]): LatLngTuple[] =>
+  polygon.flatMap((point, index) => {
+    const next = polygon[(index + 1) % polygon.length];
+    return Array.from({ length: SAMPLES_PER_EDGE }, (_, step) => {
+      const t = step / SAMPLES_PER_EDGE;
+      return [point[0] + (next[0] - point[0]) * t, point[1] + (next[1] - point[1]) * t] as LatLngTuple;
+    });
+  });
+
+// Closest point to p on a ring of projected vertices
+const nearestOnRing = (p: { x: number; y: number }, ring: Array<{ x: number; y: number }>) => {
+  let best = { x: ring[0].x, y: ring[0].y, distance: Infinity };
+
+  ring.forEach((a, index) => {
+    const b = ring[(index + 1) % ring.length];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared)) : 0;
+    const x = a.x + t * dx;
+    const y = a.y + t * dy;
+    const distance = Math.hypot(p.x - x, p.y - y);
+    if (distance < best.distance) best = { x, y, distance };
+  });
+
+  return best;
+};
+
+// Order scattered points along the line they form, from one far end to the other
+const orderAlongLine = (points: Array<{ x: number; y: number }>) => {
+  let from = points[0];
+  let to = points[0];
+  let longest = -1;
+
+  points.forEach(a => points.forEach(b => {
+    const distance = Math.hypot(a.x - b.x, a.y - b.y);
+    if (distance > longest) {
+      longest = distance;
+      from = a;
+      to = b;
+    }
+  }));
+
+  const axis = { x: to.x - from.x, y: to.y - from.y };
+  const ordered = [...points].sort((a, b) =>
+    ((a.x - from.x) * axis.x + (a.y - from.y) * axis.y) - ((b.x - from.x) * axis.x + (b.y - from.y) * axis.y));
+
+  return ordered.filter((point, index) =>
+    index === 0 || Math.hypot(point.x - ordered[index - 1].x, point.y - ordered[index - 1].y) >= MIN_POINT_SPACING_METERS);
+};
+
+/**
+ * Approximate front line: for each pair of adjacent zones held by different
+ * forces, the midpoints between their facing boundaries. Contested and unknown
+ * zones are left out since they lie on, rather than behind, the line.
+ */
+export const deriveFrontLine = (zones: MapControlZone[]): FrontLineSegment[] => {
+  const held = zones.filter(zone => !isContested(zone));
+  const segments: FrontLineSegment[] = [];
+
+  held.forEach((zoneA, indexA) => held.slice(indexA + 1).forEach(zoneB => {
+    if (normalizeForce(zoneA.controlledBy) === normalizeForce(zoneB.controlledBy)) return;
+
+    const refLat = (zoneA.polygon[0][0] + zoneB.polygon[0][0]) / 2;
+    const ringA = zoneA.polygon.map(point => project(point, refLat));
+    const ringB = zoneB.polygon.map(point => project(point, refLat));
+
+    const pairs = [
+      ...densify(zoneA.polygon).map(sample => ({ sample, ring: ringB })),
+      ...densify(zoneB.polygon).map(sample => ({ sample, ring: ringA }))
+    ].map(({ sample, ring }) => {
+      const p = project(sample, refLat);
+      const nearest = nearestOnRing(p, ring);
+      return { x: (p.x + nearest.x) / 2, y: (p.y + nearest.y) / 2, distance: nearest.distance };
+    });
+
+    // Only the facing boundaries count, not the flanks that run away from the other zone
+    const gap = Math.min(...pairs.map(pair => pair.distance));
+    if (gap > ADJACENCY_METERS) return;
+    const midpoints = pairs.filter(pair => pair.distance <= gap + FACING_TOLERANCE_METERS);
+
+    const ordered = midpoints.length >= 2 ? orderAlongLine(midpoints) : [];
+    if (ordered.length >= 2) {
+      segments.push({
+        between: [zoneA.controlledBy, zoneB.controlledBy],
+        points: ordered.map(point => unproject(point.x, point.y, refLat))
+      });
+    }
+  }));
+
+  return segments;
+};
+
+/**
+ * Mean distance from the points of one front line to the nearest part of another
+ * @returns Distance in meters, or null if either line is empty
+ */
+export const frontLineShift = (current: FrontLineSegment[], previous: FrontLineSegment[]): number | null => {
+  const points = current.flatMap(segment => segment.points);
+  const lines = previous.filter(segment => segment.points.length >= 2);
+  if (points.length === 0 || lines.length === 0) return null;
+
+  const refLat = points[0][0];
+  const distances = points.map(point => {
+    const p = project(point, refLat);
+    return Math.min(...lines.map(segment => {
+      const projected = segment.points.map(vertex => project(vertex, refLat));
+      // An open line: measure against its segments only, not a closing edge
+      return Math.min(...projected.slice(1).map((b, index) => nearestOnRing(p, [projected[index], b]).distance));
+    }));
+  });
+
+  return distances.reduce((total, distance) => total + distance, 0) / distances.length;
+};
+
+/**
+ * Stored front lines, oldest first
+ */
+export const loadFrontLineSnapshots = (): FrontLineSnapshot[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SNAPSHOT_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Store the front line derived for an analysis, replacing an earlier snapshot of
+ * the same analysis; only the most recent snapshots are kept
+ * @returns All snapshots including the new one
+ */
+export const recordFrontLineSnapshot = (analysisId: string, segments: FrontLineSegment[]): FrontLineSnapshot[] => {
+  const snapshot: FrontLineSnapshot = {
+    id: `frontline-${Date.now()}`,
+    analysisId,
+    recordedAt: new Date().toISOString(),
+    segments
+  };
+
+  const snapshots = [...loadFrontLineSnapshots().filter(existing => existing.analysisId !== analysisId), snapshot]
+    .slice(-MAX_SNAPSHOTS);
+  localStorage.setItem(SNAPSHOT_STORAGE_KEY, JSON.stringify(snapshots));
+  return snapshots;
+};
+
+/**
+ * Drawable zones of an analysis with the front line between them. The line is
+ * recorded as a snapshot, and one from another analysis can be picked to compare it with.
+ */
+export const useControlZones = (reportedZones: ReportedControlZone[] | undefined, analysisId: string | undefined) => {
+  const [snapshots, setSnapshots] = useState<FrontLineSnapshot[]>(() => loadFrontLineSnapshots());
+  const [compareSnapshotId, setCompareSnapshotId] = useState<string>('');
+
+  const zones = useMemo(() => buildMapControlZones(reportedZones || []), [reportedZones]);
+  const colors = useMemo(() => getControlZoneColors(zones), [zones]);
+  const frontLine = useMemo(() => deriveFrontLine(zones), [zones]);
+
+  // Earlier front lines, from other analyses, newest first
+  const earlierFrontLines = useMemo(
+    () => snapshots.filter(snapshot => snapshot.analysisId !== analysisId).reverse(),
+    [snapshots, analysisId]
+  );
+  const compareSnapshot = earlierFrontLines.find(snapshot => snapshot.id === compareSnapshotId);
+  const frontLineMovement = compareSnapshot ? frontLineShift(frontLine, compareSnapshot.segments) : null;
+
+  // Keep a snapshot of each analysis' front line so its movement can be followed
+  useEffect(() => {
+    if (!analysisId || frontLine.length === 0) return;
+
+    try {
+      setSnapshots(recordFrontLineSnapshot(analysisId, frontLine));
+    } catch (error) {
+      console.warn('Unable to store front line snapshot:', error);
+    }
+  }, [analysisId, frontLine]);
+
+  return { zones, colors, frontLine, earlierFrontLines, compareSnapshot, setCompareSnapshotId, frontLineMovement };
+};
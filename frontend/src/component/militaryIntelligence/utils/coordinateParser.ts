@@ -0,0 +1,351 @@
+// components/military-intelligence/utils/coordinateParser.ts
+
+/**
+ * Parsers for the coordinate notations used in field reports:
+ * MGRS grid references, UTM, degrees-minutes-seconds and signed decimal degrees.
+ * Every parsed coordinate carries an uncertainty radius derived from the
+ * precision the reporter actually gave.
+ */
+
+export type CoordinateFormat = 'mgrs' | 'utm' | 'dms' | 'decimal';
+
+export interface ParsedCoordinates {
+  latitude: number;
+  longitude: number;
+  format: CoordinateFormat;
+  precision: number;   // size of the smallest unit given, in meters
+  uncertainty: number; // radius in meters that contains the true position
+  raw: string;         // text as it appeared in the report
+  index: number;       // offset of the match in the source text
+}
+
+// WGS84 ellipsoid
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+const UTM_K0 = 0.9996;
+
+const METERS_PER_DEGREE = 111320;
+
+const MGRS_BANDS = 'CDEFGHJKLMNPQRSTUVWX';
+const MGRS_COLUMN_SETS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+const MGRS_ROW_LETTERS = 'ABCDEFGHJKLMNPQRSTUV';
+
+// Lowest northing (rounded down to 100 km) for each latitude band
+const MGRS_BAND_MIN_NORTHING: Record<string, number> = {
+  C: 1100000, D: 2000000, E: 2800000, F: 3700000, G: 4600000,
+  H: 5500000, J: 6400000, K: 7300000, L: 8200000, M: 9100000,
+  N: 0, P: 800000, Q: 1700000, R: 2600000, S: 3500000,
+  T: 4400000, U: 5300000, V: 6200000, W: 7000000, X: 7900000
+};
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+/**
+ * Convert a UTM position to latitude/longitude (WGS84)
+ * @param zone - UTM zone number (1-60)
+ * @param easting - Easting in meters
+ * @param northing - Northing in meters
+ * @param northernHemisphere - True for the northern hemisphere
+ * @returns Coordinates in decimal degrees
+ */
+export const utmToLatLng = (
+  zone: number,
+  easting: number,
+  northing: number,
+  northernHemisphere: boolean
+): { latitude: number; longitude: number } => {
+  const ep2 = WGS84_E2 / (1 - WGS84_E2);
+  const x = easting - 500000;
+  const y = northernHemisphere ? northing : northing - 10000000;
+
+  const m = y / UTM_K0;
+  const mu = m / (WGS84_A * (1 - WGS84_E2 / 4 - 3 * WGS84_E2 ** 2 / 64 - 5 * WGS84_E2 ** 3 / 256));
+  const e1 = (1 - Math.sqrt(1 - WGS84_E2)) / (1 + Math.sqrt(1 - WGS84_E2));
+
+  const phi1 = mu +
+    (3 * e1 / 2 - 27 * e1 ** 3 / 32) * Math.sin(2 * mu) +
+    (21 * e1 ** 2 / 16 - 55 * e1 ** 4 / 32) * Math.sin(4 * mu) +
+    (151 * e1 ** 3 / 96) * Math.sin(6 * mu) +
+    (1097 * e1 ** 4 / 512) * Math.sin(8 * mu);
+
+  const sinPhi1 = Math.sin(phi1);
+  const cosPhi1 = Math.cos(phi1);
+  const tanPhi1 = Math.tan(phi1);
+
+  const n1 = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinPhi1 ** 2);
+  const t1 = tanPhi1 ** 2;
+  const c1 = ep2 * cosPhi1 ** 2;
+  const r1 = WGS84_A * (1 - WGS84_E2) / Math.pow(1 - WGS84_E2 * sinPhi1 ** 2, 1.5);
+  const d = x / (n1 * UTM_K0);
+
+  const latitude = phi1 - (n1 * tanPhi1 / r1) * (
+    d ** 2 / 2 -
+    (5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * ep2) * d ** 4 / 24 +
+    (61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * ep2 - 3 * c1 ** 2) * d ** 6 / 720
+  );
+
+  const centralMeridian = (zone - 1) * 6 - 180 + 3;
+  const longitude = toRadians(centralMeridian) + (
+    d -
+    (1 + 2 * t1 + c1) * d ** 3 / 6 +
+    (5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * ep2 + 24 * t1 ** 2) * d ** 5 / 120
+  ) / cosPhi1;
+
+  return {
+    latitude: toDegrees(latitude),
+    longitude: toDegrees(longitude)
+  };
+};
+
+/**
+ * Convert an MGRS grid reference to latitude/longitude.
+ * The returned point is the centre of the referenced grid square.
+ * @param reference - Grid reference such as "37U DQ 12345 67890" or "37UDQ1267"
+ * @returns Coordinates with precision/uncertainty, or null if the reference is invalid
+ */
+export const mgrsToLatLng = (
+  reference: string
+): { latitude: number; longitude: number; precision: number } | null => {
+  const compact = reference.replace(/\s+/g, '').toUpperCase();
+  const match = compact.match(/^(\d{1,2})([C-HJ-NP-X])([A-HJ-NP-Z])([A-HJ-NP-V])(\d*)$/);
+  if (!match) return null;
+
+  const zone = parseInt(match[1], 10);
+  const band = match[2];
+  const columnLetter = match[3];
+  const rowLetter = match[4];
+  const digits = match[5];
+
+  if (zone < 1 || zone > 60 || digits.length % 2 !== 0 || digits.length > 10) return null;
+
+  const columnIndex = MGRS_COLUMN_SETS[(zone - 1) % 3].indexOf(columnLetter);
+  let rowIndex = MGRS_ROW_LETTERS.indexOf(rowLetter);
+  if (columnIndex < 0 || rowIndex < 0) return null;
+
+  // Even zones use a row lettering offset by five squares
+  if (zone % 2 === 0) {
+    rowIndex = (rowIndex - 5 + MGRS_ROW_LETTERS.length) % MGRS_ROW_LETTERS.length;
+  }
+
+  const half = digits.length / 2;
+  const precision = Math.pow(10, 5 - half);
+  const eastingOffset = half > 0 ? parseInt(digits.substring(0, half), 10) * precision : 0;
+  const northingOffset = half > 0 ? parseInt(digits.substring(half), 10) * precision : 0;
+
+  const easting = (columnIndex + 1) * 100000 + eastingOffset + precision / 2;
+  let northing = rowIndex * 100000 + northingOffset + precision / 2;
+
+  // Row letters repeat every 2,000 km; use the latitude band to pick the right cycle
+  const minNorthing = MGRS_BAND_MIN_NORTHING[band];
+  while (northing < minNorthing) {
+    northing += 2000000;
+  }
+
+  const northernHemisphere = MGRS_BANDS.indexOf(band) >= MGRS_BANDS.indexOf('N');
+  const { latitude, longitude } = utmToLatLng(zone, easting, northing, northernHemisphere);
+
+  return { latitude, longitude, precision };
+};
+
+/**
+ * Precision in meters of a decimal degree value, based on the number of decimals given
+ * @param value - Coordinate as written in the report
+ */
+const decimalPrecision = (value: string): number => {
+  const decimals = value.includes('.') ? value.split('.')[1].length : 0;
+  return METERS_PER_DEGREE * Math.pow(10, -decimals);
+};
+
+const isValidLatLng = (latitude: number, longitude: number) =>
+  !isNaN(latitude) && !isNaN(longitude) &&
+  latitude >= -90 && latitude <= 90 &&
+  longitude >= -180 && longitude <= 180;
+
+// Reporters give a grid square or a rounded value; the true point lies anywhere inside it
+const squareUncertainty = (precision: number) => Math.max(1, precision * Math.SQRT1_2);
+const roundedUncertainty = (precision: number) => Math.max(1, precision / 2);
+
+const MGRS_PATTERN = /\b(\d{1,2})\s?([C-HJ-NP-X])\s?([A-HJ-NP-Z][A-HJ-NP-V])\s?(\d{1,5}\s\d{1,5}|\d{2,10})(?!\d|\.\d)/g;
+const UTM_PATTERN = /\b(\d{1,2})\s?([C-HJ-NP-X])\s+(\d{6})(?:\.\d+)?\s*m?E?\s*,?\s*(\d{7})(?:\.\d+)?\s*m?N?\b/g;
+const DMS_COMPONENT = String.raw`([NSEW])?\s*(\d{1,3}(?:\.\d+)?)\s*°\s*(?:(\d{1,2}(?:\.\d+)?)\s*['′]\s*)?(?:(\d{1,2}(?:\.\d+)?)\s*(?:["″]|''))?\s*([NSEW])?`;
+const DMS_PATTERN = new RegExp(`${DMS_COMPONENT}\\s*[,;/]?\\s*${DMS_COMPONENT}`, 'g');
+const DECIMAL_PATTERN = /(?<![\d.])(-?\d{1,2}\.\d+)\s*°?\s*([NS])?\s*,\s*(-?\d{1,3}\.\d+)\s*°?\s*([EW])?/g;
+
+interface DmsComponent {
+  value: number;
+  hemisphere?: string;
+  precision: number;
+}
+
+const parseDmsComponent = (
+  prefix: string | undefined,
+  degrees: string,
+  minutes: string | undefined,
+  seconds: string | undefined,
+  suffix: string | undefined
+): DmsComponent => {
+  let value = parseFloat(degrees);
+  let precision = decimalPrecision(degrees);
+
+  if (minutes !== undefined) {
+    value += parseFloat(minutes) / 60;
+    precision = decimalPrecision(minutes) / 60;
+  }
+  if (seconds !== undefined) {
+    value += parseFloat(seconds) / 3600;
+    precision = decimalPrecision(seconds) / 3600;
+  }
+
+  return { value, hemisphere: (prefix || suffix)?.toUpperCase(), precision };
+};
+
+/**
+ * Find every coordinate in a block of text, in any supported notation.
+ * Overlapping matches are resolved in favour of the more specific notation
+ * (MGRS, then UTM, then DMS, then decimal degrees).
+ * @param text - Report text
+ * @returns Parsed coordinates ordered by their position in the text
+ */
+export const findCoordinatesInText = (text: string): ParsedCoordinates[] => {
+  if (!text) return [];
+
+  const results: ParsedCoordinates[] = [];
+  const claimed: Array<[number, number]> = [];
+
+  const isClaimed = (start: number, end: number) =>
+    claimed.some(([s, e]) => start < e && end > s);
+
+  const add = (match: RegExpExecArray, coords: Omit<ParsedCoordinates, 'raw' | 'index'>) => {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (isClaimed(start, end) || !isValidLatLng(coords.latitude, coords.longitude)) return;
+    claimed.push([start, end]);
+    results.push({ ...coords, raw: match[0].trim(), index: start });
+  };
+
+  let match: RegExpExecArray | null;
+
+  // MGRS grid references
+  MGRS_PATTERN.lastIndex = 0;
+  while ((match = MGRS_PATTERN.exec(text)) !== null) {
+    let digits = match[4].split(/\s/);
+    // Separated easting/northing groups must have equal length; otherwise the
+    // second group is unrelated text and only the first one belongs to the reference
+    if (digits.length === 2 && digits[0].length !== digits[1].length) {
+      digits = [digits[0]];
+    }
+
+    const parsed = mgrsToLatLng(`${match[1]}${match[2]}${match[3]}${digits.join('')}`);
+    if (!parsed) continue;
+
+    add(match, {
+      latitude: parsed.latitude,
+      longitude: parsed.longitude,
+      format: 'mgrs',
+      precision: parsed.precision,
+      uncertainty: squareUncertainty(parsed.precision)
+    });
+  }
+
+  // UTM zone/band easting northing
+  UTM_PATTERN.lastIndex = 0;
+  while ((match = UTM_PATTERN.exec(text)) !== null) {
+    const zone = parseInt(match[1], 10);
+    if (zone < 1 || zone > 60) continue;
+
+    const northernHemisphere = MGRS_BANDS.indexOf(match[2]) >= MGRS_BANDS.indexOf('N');
+    const { latitude, longitude } = utmToLatLng(zone, parseFloat(match[3]), parseFloat(match[4]), northernHemisphere);
+
+    add(match, {
+      latitude,
+      longitude,
+      format: 'utm',
+      precision: 1,
+      uncertainty: roundedUncertainty(1)
+    });
+  }
+
+  // Degrees, minutes, seconds
+  DMS_PATTERN.lastIndex = 0;
+  while ((match = DMS_PATTERN.exec(text)) !== null) {
+    // With a leading hemisphere ("N49°... E036°...") the letter before the second
+    // component is captured as the first component's suffix
+    const leadingStyle = !!match[1];
+    const first = parseDmsComponent(match[1], match[2], match[3], match[4], leadingStyle ? undefined : match[5]);
+    const second = parseDmsComponent(match[6] || (leadingStyle ? match[5] : undefined), match[7], match[8], match[9], match[10]);
+
+    // Longitude written first (E/W before N/S) is accepted as well
+    const firstIsLongitude = first.hemisphere === 'E' || first.hemisphere === 'W' ||
+      second.hemisphere === 'N' || second.hemisphere === 'S';
+    const lat = firstIsLongitude ? second : first;
+    const lng = firstIsLongitude ? first : second;
+
+    const precision = Math.max(lat.precision, lng.precision);
+
+    add(match, {
+      latitude: lat.hemisphere === 'S' ? -lat.value : lat.value,
+      longitude: lng.hemisphere === 'W' ? -lng.value : lng.value,
+      format: 'dms',
+      precision,
+      uncertainty: roundedUncertainty(precision)
+    });
+  }
+
+  // Signed decimal degrees, optionally with hemisphere letters
+  DECIMAL_PATTERN.lastIndex = 0;
+  while ((match = DECIMAL_PATTERN.exec(text)) !== null) {
+    let latitude = parseFloat(match[1]);
+    let longitude = parseFloat(match[3]);
+    if (match[2] === 'S') latitude = -Math.abs(latitude);
+    if (match[4] === 'W') longitude = -Math.abs(longitude);
+
+    const precision = Math.max(decimalPrecision(match[1]), decimalPrecision(match[3]));
+
+    add(match, {
+      latitude,
+      longitude,
+      format: 'decimal',
+      precision,
+      uncertainty: roundedUncertainty(precision)
+    });
+  }
+
+  return results.sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Format an uncertainty radius for display
+ * @param meters - Uncertainty radius in meters
+ * @returns Human readable distance such as "±70 m" or "±7.1 km"
+ */
+export const formatUncertainty = (meters: number): string => `±${formatDistance(meters)}`;
+
+/**
+ * Format a distance in meters, e.g. "850 m", "4.2 km" or "37 km"
+ */
+export const formatDistance = (meters: number): string => {
+  if (meters >= 1000) {
+    return `${(meters / 1000).toFixed(meters >= 10000 ? 0 : 1)} km`;
+  }
+  return `${Math.round(meters)} m`;
+};
+
+/**
+ * Format a latitude with its hemisphere, e.g. "49.9808°N" or "33.8688°S"
+ */
+export const formatLatitude = (latitude: number, digits = 4): string =>
+  `${Math.abs(latitude).toFixed(digits)}°${latitude < 0 ? 'S' : 'N'}`;
+
+/**
+ * Format a longitude with its hemisphere, e.g. "36.2527°E" or "70.6693°W"
+ */
+export const formatLongitude = (longitude: number, digits = 4): string =>
+  `${Math.abs(longitude).toFixed(digits)}°${longitude < 0 ? 'W' : 'E'}`;
+
+/**
+ * Format a coordinate pair with hemisphere letters instead of signs
+ */
+export const formatLatLng = (latitude: number, longitude: number, digits = 4): string =>
+  `${formatLatitude(latitude, digits)}, ${formatLongitude(longitude, digits)}`;
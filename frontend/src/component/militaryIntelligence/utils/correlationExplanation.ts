@@ -0,0 +1,69 @@
+// components/military-intelligence/utils/correlationExplanation.ts
+import { generateCorrelationExplanation } from '../../../api/intelligenceService';
+import { CorrelationExplanation, FusionCorrelationResult } from '../../../type/sigintTypes';
+import { isFused, toEntityCorrelation } from './correlationReview';
+import { escapeHtml } from './formatters';
+
+/**
+ * Why two reports were fused. The backend writes the narrative with the LLM, or from a
+ * template over the spatial, temporal and semantic correlator outputs when the LLM is
+ * unavailable; it is shown in the correlation popup and carried into exports.
+ */
+
+// Bound on explanations fetched for one export, since each may cost an LLM call
+export const MAX_EXPORTED_EXPLANATIONS = 20;
+
+const FACTOR_LABELS: Record<CorrelationExplanation['factors'][number]['factor'], string> = {
+  spatial: 'Spatial',
+  temporal: 'Temporal',
+  semantic: 'Semantic'
+};
+
+export const factorLabel = (factor: CorrelationExplanation['factors'][number]['factor']): string =>
+  FACTOR_LABELS[factor] || factor;
+
+/**
+ * Explanation of one correlation. Returns null if the backend cannot explain it,
+ * for instance after a restart before fusion has run again.
+ */
+export const loadCorrelationExplanation = async (correlationId: string): Promise<CorrelationExplanation | null> => {
+  try {
+    return await generateCorrelationExplanation(correlationId);
+  } catch (error) {
+    console.warn('Unable to explain correlation:', error);
+    return null;
+  }
+};
+
+/**
+ * Explanations of the correlations a fusion run fused, strongest first, for exports
+ */
+export const loadFusedCorrelationExplanations = async (
+  correlations: FusionCorrelationResult[]
+): Promise<CorrelationExplanation[]> => {
+  const fused = correlations
+    .filter(raw => isFused(toEntityCorrelation(raw)))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_EXPORTED_EXPLANATIONS);
+
+  const explanations = await Promise.all(fused.map(raw => loadCorrelationExplanation(raw.id)));
+  return explanations.filter((explanation): explanation is CorrelationExplanation => explanation !== null);
+};
+
+/**
+ * Popup section with the narrative and the sentence behind each factor
+ */
+export const correlationExplanationHtml = (explanation: CorrelationExplanation): string => `
+  <div class="text-xs text-gray-300 leading-snug">${escapeHtml(explanation.narrative)}</div>
+  <div class="mt-2 space-y-1">
+    ${explanation.factors.map(factor => `
+      <div class="text-xs text-gray-400">
+        <span class="text-gray-300">${factorLabel(factor.factor)} ${Math.round(factor.score * 100)}%:</span>
+        ${escapeHtml(factor.text)}
+      </div>
+    `).join('')}
+  </div>
+  <div class="mt-1 text-[10px] text-gray-500">
+    ${explanation.source === 'llm' ? 'Written by the analysis model' : 'Generated from the correlation scores'}
+  </div>
+`;
@@ -0,0 +1,87 @@
+// components/military-intelligence/utils/correlationReview.ts
+import { EntityCorrelation, FusionCorrelationResult } from '../../../type/sigintTypes';
+
+/**
+ * Analyst review of fusion correlations. A fusion run scores each HUMINT-SIGINT pair
+ * on spatial, temporal and semantic factors; analysts confirm, reject or re-weight
+ * the pairs, and the backend applies their decisions on every later run.
+ */
+
+export type ReviewStatus = 'pending' | 'confirmed' | 'rejected';
+
+export const REVIEW_STATUSES: Array<{ value: ReviewStatus; label: string; color: string }> = [
+  { value: 'pending', label: 'Pending review', color: '#9ca3af' },
+  { value: 'confirmed', label: 'Confirmed', color: '#16a34a' },
+  { value: 'rejected', label: 'Rejected', color: '#dc2626' }
+];
+
+// Scores at which the fusion service calls a pair probable or, without review, fuses it
+const PROBABLE_SCORE = 0.8;
+export const CORRELATION_THRESHOLD = 0.65;
+
+export const reviewStatusOf = (correlation: Pick<EntityCorrelation, 'review'>): ReviewStatus => {
+  if (correlation.review?.verified === true) return 'confirmed';
+  if (correlation.review?.verified === false) return 'rejected';
+  return 'pending';
+};
+
+/**
+ * Whether the backend fuses the pair: an analyst's decision wins over the threshold
+ */
+export const isFused = (correlation: EntityCorrelation): boolean => {
+  const status = reviewStatusOf(correlation);
+  if (status !== 'pending') return status === 'confirmed';
+  return correlation.strength.value >= CORRELATION_THRESHOLD;
+};
+
+const humintLabel = (raw: FusionCorrelationResult) =>
+  raw.humintEntity?.description || raw.humintEntity?.location?.name || raw.humintEntity?.type || raw.humintEntityId;
+
+const sigintLabel = (raw: FusionCorrelationResult) => {
+  const id = raw.sigintEntity?.emitterId || raw.sigintEmitterId;
+  return raw.sigintEntity?.subtype ? `${raw.sigintEntity.subtype} ${id}` : id;
+};
+
+/**
+ * Map a correlation from a fusion run to the component model
+ */
+export const toEntityCorrelation = (raw: FusionCorrelationResult): EntityCorrelation => {
+  const score = raw.score ?? 0;
+
+  return {
+    id: raw.id,
+    humintEntityId: raw.humintEntityId || '',
+    sigintEmitterId: raw.sigintEmitterId || '',
+    humintLabel: humintLabel(raw),
+    sigintLabel: sigintLabel(raw),
+    strength: {
+      value: score,
+      factors: {
+        spatial: raw.spatialCorrelation?.score ?? 0,
+        temporal: raw.temporalCorrelation?.score ?? 0,
+        semantic: raw.semanticCorrelation?.score ?? 0
+      }
+    },
+    automaticScore: raw.automaticScore ?? score,
+    correlationType: raw.review?.verified ? 'confirmed' : score >= PROBABLE_SCORE ? 'probable' : 'possible',
+    reasons: {
+      spatial: raw.spatialCorrelation?.reason || '',
+      temporal: raw.temporalCorrelation?.reason || '',
+      semantic: raw.semanticCorrelation?.reason || ''
+    },
+    review: raw.review || null,
+    notes: raw.review?.notes || undefined
+  };
+};
+
+/**
+ * Queue order: pending pairs first, closest to the threshold first, since those are the
+ * decisions the score leaves most open
+ */
+export const sortForReview = (correlations: EntityCorrelation[]): EntityCorrelation[] =>
+  [...correlations].sort((a, b) => {
+    const pendingA = reviewStatusOf(a) === 'pending' ? 0 : 1;
+    const pendingB = reviewStatusOf(b) === 'pending' ? 0 : 1;
+    if (pendingA !== pendingB) return pendingA - pendingB;
+    return Math.abs(a.strength.value - CORRELATION_THRESHOLD) - Math.abs(b.strength.value - CORRELATION_THRESHOLD);
+  });
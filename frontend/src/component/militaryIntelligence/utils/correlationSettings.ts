@@ -0,0 +1,128 @@
+// components/military-intelligence/utils/correlationSettings.ts
+
+/**
+ * Analyst-configurable rules for client-side proximity correlation between
+ * HUMINT entities and SIGINT emitters. Each HUMINT entity type has its own
+ * search radius and a decay curve mapping distance to correlation strength.
+ * The app has no workspaces, so one set of rules is kept per browser.
+ */
+
+export type CorrelationDecay = 'linear' | 'exponential' | 'gaussian' | 'step';
+
+export type CorrelationEntityType = 'force' | 'observation' | 'threat' | 'location' | 'movement';
+
+export interface CorrelationRule {
+  radiusKm: number;
+  decay: CorrelationDecay;
+}
+
+export type CorrelationSettings = Record<CorrelationEntityType, CorrelationRule>;
+
+export const CORRELATION_ENTITY_TYPES: Array<{ id: CorrelationEntityType; label: string }> = [
+  { id: 'force', label: 'Enemy forces' },
+  { id: 'observation', label: 'Observations' },
+  { id: 'threat', label: 'Threats' },
+  { id: 'location', label: 'Locations' },
+  { id: 'movement', label: 'Movements' }
+];
+
+export const CORRELATION_DECAYS: Array<{ id: CorrelationDecay; label: string }> = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'exponential', label: 'Exponential' },
+  { id: 'gaussian', label: 'Gaussian' },
+  { id: 'step', label: 'Step (full strength inside radius)' }
+];
+
+// Mobile units warrant a wider search than fixed locations
+export const DEFAULT_CORRELATION_SETTINGS: CorrelationSettings = {
+  force: { radiusKm: 15, decay: 'gaussian' },
+  observation: { radiusKm: 10, decay: 'linear' },
+  threat: { radiusKm: 20, decay: 'gaussian' },
+  location: { radiusKm: 5, decay: 'linear' },
+  movement: { radiusKm: 25, decay: 'exponential' }
+};
+
+// Weakest strength reported for a pair inside the radius
+const MIN_CORRELATION_STRENGTH = 0.1;
+
+const STORAGE_KEY = 'correlationSettings';
+
+const isValidRule = (rule: unknown): rule is CorrelationRule => {
+  if (!rule || typeof rule !== 'object') return false;
+
+  const { radiusKm, decay } = rule as CorrelationRule;
+  return typeof radiusKm === 'number' && radiusKm > 0 &&
+         CORRELATION_DECAYS.some(option => option.id === decay);
+};
+
+/**
+ * Load the stored correlation settings; missing or invalid rules use defaults
+ */
+export const loadCorrelationSettings = (): CorrelationSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+
+    return CORRELATION_ENTITY_TYPES.reduce((settings, { id }) => ({
+      ...settings,
+      [id]: isValidRule(stored[id]) ? stored[id] : DEFAULT_CORRELATION_SETTINGS[id]
+    }), {} as CorrelationSettings);
+  } catch (error) {
+    console.warn('Unable to read correlation settings from storage:', error);
+    return DEFAULT_CORRELATION_SETTINGS;
+  }
+};
+
+/**
+ * Persist the correlation settings
+ */
+export const saveCorrelationSettings = (settings: CorrelationSettings): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Remove stored settings so the defaults apply again
+ */
+export const clearCorrelationSettings = (): void => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+/**
+ * Correlation rule for an entity type, falling back to the observation rule
+ */
+export const getCorrelationRule = (
+  settings: CorrelationSettings,
+  entityType: string | undefined
+): CorrelationRule =>
+  settings[entityType as CorrelationEntityType] || settings.observation;
+
+/**
+ * Map a distance to a correlation strength using a rule's radius and decay curve
+ * @param distanceMeters - Geodesic distance between the two entities
+ * @returns Strength between MIN_CORRELATION_STRENGTH and 1, or 0 outside the radius
+ */
+export const correlationStrength = (distanceMeters: number, rule: CorrelationRule): number => {
+  const radius = rule.radiusKm * 1000;
+  if (distanceMeters > radius) return 0;
+
+  const ratio = distanceMeters / radius;
+  let strength: number;
+
+  switch (rule.decay) {
+    case 'step':
+      strength = 1;
+      break;
+    case 'exponential':
+      // e^-3 ≈ 0.05 at the radius edge
+      strength = Math.exp(-3 * ratio);
+      break;
+    case 'gaussian':
+      // Flat near the entity, falling off towards the edge (sigma = radius / 2)
+      strength = Math.exp(-2 * ratio * ratio);
+      break;
+    case 'linear':
+    default:
+      strength = 1 - ratio;
+  }
+
+  return Math.max(MIN_CORRELATION_STRENGTH, strength);
+};
@@ -0,0 +1,192 @@
+// components/military-intelligence/utils/directionFinding.ts
+import { LineOfBearing } from '../../../type/sigintTypes';
+import { EARTH_RADIUS_METERS, UncertaintyEllipse, convexHull, destinationPoint, haversineDistance } from './geodesy';
+
+/**
+ * Triangulation of direction-finding bearings. The fix is the weighted least-squares
+ * point closest to every selected line of bearing, so analysts can leave out a
+ * suspect bearing and see the fix and its error ellipse move.
+ */
+
+export interface DirectionFindingFix {
+  latitude: number;
+  longitude: number;
+  ellipse: UncertaintyEllipse; // 95% error ellipse
+  intersections: Array<[number, number]>; // pairwise crossings in front of both receivers
+  intersectionPolygon: Array<[number, number]>; // hull of the crossings, empty under three
+  bearingCount: number;
+}
+
+// Assumed one-sigma error of a single bearing
+const BEARING_ERROR_DEGREES = 3;
+
+// Scale from one-sigma to a 95% ellipse (chi-square, two degrees of freedom)
+const ELLIPSE_95_SCALE = Math.sqrt(5.991);
+
+// Floor on receiver-to-fix range when weighting, so a bearing taken on top of the
+// emitter does not swamp the rest
+const MIN_WEIGHTING_RANGE = 100;
+
+// Length of a line of bearing drawn with no fix to end it at
+const DEFAULT_BEARING_LENGTH = 30000;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+interface PlaneLine {
+  x: number; // east of the plane origin, meters
+  y: number; // north of the plane origin, meters
+  dx: number;
+  dy: number;
+}
+
+/**
+ * Local tangent plane around the receivers, accurate enough for DF baselines
+ */
+const createPlane = (bearings: LineOfBearing[]) => {
+  const lat0 = bearings.reduce((sum, b) => sum + b.receiverLocation.lat, 0) / bearings.length;
+  const lng0 = bearings.reduce((sum, b) => sum + b.receiverLocation.lng, 0) / bearings.length;
+  const metersPerDegree = toRadians(1) * EARTH_RADIUS_METERS;
+  const cosLat = Math.cos(toRadians(lat0));
+
+  return {
+    toPlane: (lat: number, lng: number) => ({ x: (lng - lng0) * cosLat * metersPerDegree, y: (lat - lat0) * metersPerDegree }),
+    toLatLng: (x: number, y: number): [number, number] => [lat0 + y / metersPerDegree, lng0 + x / (cosLat * metersPerDegree)]
+  };
+};
+
+/**
+ * Least-squares point for the lines with the given weights, and the inverse normal matrix
+ */
+const solveLines = (lines: PlaneLine[], weights: number[]) => {
+  let a11 = 0, a12 = 0, a22 = 0, b1 = 0, b2 = 0;
+
+  lines.forEach((line, i) => {
+    // Normal to the line; the distance of a point from it is n·(point - receiver)
+    const nx = line.dy;
+    const ny = -line.dx;
+    const w = weights[i];
+    const offset = nx * line.x + ny * line.y;
+    a11 += w * nx * nx;
+    a12 += w * nx * ny;
+    a22 += w * ny * ny;
+    b1 += w * nx * offset;
+    b2 += w * ny * offset;
+  });
+
+  const det = a11 * a22 - a12 * a12;
+  if (Math.abs(det) < 1e-12 * Math.max(a11 * a22, 1e-30)) return null;
+
+  return {
+    x: (a22 * b1 - a12 * b2) / det,
+    y: (a11 * b2 - a12 * b1) / det,
+    covariance: { xx: a22 / det, xy: -a12 / det, yy: a11 / det }
+  };
+};
+
+const errorEllipse = (covariance: { xx: number; xy: number; yy: number }): UncertaintyEllipse => {
+  const mean = (covariance.xx + covariance.yy) / 2;
+  const spread = Math.sqrt(((covariance.xx - covariance.yy) / 2) ** 2 + covariance.xy ** 2);
+  const major = mean + spread;
+  const minor = Math.max(mean - spread, 0);
+
+  // Eigenvector of the major axis, as east and north components
+  const [east, north] = Math.abs(covariance.xy) > 1e-12
+    ? [covariance.xy, major - covariance.xx]
+    : (covariance.xx >= covariance.yy ? [1, 0] : [0, 1]);
+
+  return {
+    semiMajorAxis: ELLIPSE_95_SCALE * Math.sqrt(major),
+    semiMinorAxis: ELLIPSE_95_SCALE * Math.sqrt(minor),
+    orientation: (toDegrees(Math.atan2(east, north)) + 360) % 180
+  };
+};
+
+/**
+ * Fix from a set of lines of bearing, or null when fewer than two usable bearings
+ * are given or they are all parallel
+ */
+export const triangulateBearings = (bearings: LineOfBearing[]): DirectionFindingFix | null => {
+  const usable = bearings.filter(b =>
+    Number.isFinite(b.bearing) &&
+    Number.isFinite(b.receiverLocation?.lat) &&
+    Number.isFinite(b.receiverLocation?.lng));
+  if (usable.length < 2) return null;
+
+  const plane = createPlane(usable);
+  const lines: PlaneLine[] = usable.map(b => ({
+    ...plane.toPlane(b.receiverLocation.lat, b.receiverLocation.lng),
+    dx: Math.sin(toRadians(b.bearing)),
+    dy: Math.cos(toRadians(b.bearing))
+  }));
+
+  // A first unweighted fix gives the ranges that set how far each bearing error reaches
+  const first = solveLines(lines, lines.map(() => 1));
+  if (!first) return null;
+
+  const sigma = toRadians(BEARING_ERROR_DEGREES);
+  const weights = lines.map(line => {
+    const range = Math.max(Math.hypot(first.x - line.x, first.y - line.y), MIN_WEIGHTING_RANGE);
+    return 1 / (range * sigma) ** 2;
+  });
+  const fix = solveLines(lines, weights);
+  if (!fix) return null;
+
+  // Widen the ellipse when the bearings disagree by more than their assumed error
+  let scale = 1;
+  if (lines.length > 2) {
+    const chiSquare = lines.reduce((sum, line, i) => {
+      const miss = line.dy * (fix.x - line.x) - line.dx * (fix.y - line.y);
+      return sum + weights[i] * miss * miss;
+    }, 0);
+    scale = Math.max(1, chiSquare / (lines.length - 2));
+  }
+
+  const intersections: Array<[number, number]> = [];
+  for (let i = 0; i < lines.length; i++) {
+    for (let j = i + 1; j < lines.length; j++) {
+      const l1 = lines[i];
+      const l2 = lines[j];
+      const det = l2.dx * l1.dy - l1.dx * l2.dy;
+      if (Math.abs(det) < 1e-6) continue;
+
+      const ex = l2.x - l1.x;
+      const ey = l2.y - l1.y;
+      const t = (l2.dx * ey - l2.dy * ex) / det;
+      const s = (l1.dx * ey - l1.dy * ex) / det;
+      if (t > 0 && s > 0) {
+        intersections.push(plane.toLatLng(l1.x + t * l1.dx, l1.y + t * l1.dy));
+      }
+    }
+  }
+
+  const [latitude, longitude] = plane.toLatLng(fix.x, fix.y);
+
+  return {
+    latitude,
+    longitude,
+    ellipse: errorEllipse({
+      xx: fix.covariance.xx * scale,
+      xy: fix.covariance.xy * scale,
+      yy: fix.covariance.yy * scale
+    }),
+    intersections,
+    intersectionPolygon: intersections.length >= 3 ? convexHull(intersections) : [],
+    bearingCount: lines.length
+  };
+};
+
+/**
+ * End of a line of bearing for drawing: past the fix when there is one, so the
+ * crossing is visible, otherwise a fixed length
+ */
+export const bearingLineEnd = (
+  bearing: LineOfBearing,
+  fix: { latitude: number; longitude: number } | null
+): [number, number] => {
+  const length = fix
+    ? Math.max(1.5 * haversineDistance(bearing.receiverLocation.lat, bearing.receiverLocation.lng, fix.latitude, fix.longitude), 2000)
+    : DEFAULT_BEARING_LENGTH;
+  const end = destinationPoint(bearing.receiverLocation.lat, bearing.receiverLocation.lng, bearing.bearing, length);
+  return [end.latitude, end.longitude];
+};
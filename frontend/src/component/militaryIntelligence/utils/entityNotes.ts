@@ -0,0 +1,82 @@
+// components/military-intelligence/utils/entityNotes.ts
+import { escapeHtml } from './formatters';
+
+/**
+ * Analyst notes attached to map entities (emitters, HUMINT entries, OSINT events),
+ * kept in the browser per analysis so they reopen with it.
+ */
+
+export interface EntityNote {
+  id: string;
+  text: string;
+  createdAt: string;
+}
+
+export type EntityNotes = Record<string, EntityNote[]>;
+
+const STORAGE_KEY_PREFIX = 'entityNotes';
+
+const storageKey = (analysisId: string) => `${STORAGE_KEY_PREFIX}:${analysisId}`;
+
+/**
+ * Note ID for a place extracted from the HUMINT report. Extraction order changes when
+ * the report is re-read, so the ID comes from the entry itself rather than its index.
+ */
+export const humintNoteId = (
+  kind: string,
+  entry: { name?: string; coordinates: { latitude: number; longitude: number } }
+): string =>
+  `${kind}:${entry.name || ''}@${entry.coordinates.latitude.toFixed(5)},${entry.coordinates.longitude.toFixed(5)}`;
+
+/**
+ * Read the notes stored for an analysis, keyed by entity ID
+ */
+export const loadEntityNotes = (analysisId: string): EntityNotes => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(analysisId)) || '{}');
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+  } catch (error) {
+    console.warn('Unable to read entity notes from storage:', error);
+    return {};
+  }
+};
+
+/**
+ * Persist the notes of an analysis
+ */
+export const saveEntityNotes = (analysisId: string, notes: EntityNotes): void => {
+  localStorage.setItem(storageKey(analysisId), JSON.stringify(notes));
+};
+
+/**
+ * Attach a note to an entity
+ * @returns All notes including the new one
+ */
+export const addEntityNote = (notes: EntityNotes, entityId: string, text: string): EntityNotes => {
+  const note: EntityNote = {
+    id: `note-${Date.now()}`,
+    text,
+    createdAt: new Date().toISOString()
+  };
+
+  return { ...notes, [entityId]: [...(notes[entityId] || []), note] };
+};
+
+/**
+ * Notes section for a marker popup; empty when the entity has no notes
+ */
+export const entityNotesHtml = (notes: EntityNote[] | undefined): string => {
+  if (!notes || notes.length === 0) return '';
+
+  return `
+    <div class="mt-2 pt-1 border-t border-gray-600">
+      <div class="text-xs text-gray-400">Notes</div>
+      ${notes.map(note => `
+        <div class="text-xs mt-1 text-gray-300">
+          <span class="text-gray-500">${new Date(note.createdAt).toLocaleString()}</span>
+          <pre class="font-mono text-[10px] whitespace-pre-wrap">${escapeHtml(note.text)}</pre>
+        </div>
+      `).join('')}
+    </div>
+  `;
+};
@@ -0,0 +1,83 @@
+// components/military-intelligence/utils/focusArea.ts
+import { FusionAnalysisResponse, FusionFocusArea } from '../../../type/sigintTypes';
+import { formatLatLng } from './coordinateParser';
+
+/**
+ * Focus areas drawn on the map to restrict a fusion run to one region, and the
+ * figures used to compare a scoped run with the full one.
+ */
+
+export type FocusAreaShape = 'rectangle' | 'polygon';
+
+// The parts of a fusion response the comparison reads
+interface FusionRunResult {
+  summary?: FusionAnalysisResponse['summary'];
+  fusedEntities?: Array<{ humintSources?: string[]; sigintSources?: string[]; correlations?: unknown[] }>;
+}
+
+export interface FusionRunStats {
+  fusedEntities: number;
+  humintEntities: number;
+  sigintEntities: number;
+  correlations: number;
+  confidence: string;
+}
+
+/**
+ * Check whether enough points have been placed to define an area of this shape
+ */
+export const isFocusAreaComplete = (shape: FocusAreaShape, points: Array<[number, number]>): boolean =>
+  shape === 'rectangle' ? points.length === 2 : points.length >= 3;
+
+/**
+ * Outline of the area as drawn: the four corners of a rectangle given two
+ * opposite ones, or the polygon vertices as placed
+ */
+export const focusAreaOutline = (shape: FocusAreaShape, points: Array<[number, number]>): Array<[number, number]> => {
+  if (shape === 'polygon' || points.length !== 2) return points;
+
+  const [[lat1, lng1], [lat2, lng2]] = points;
+  return [[lat1, lng1], [lat1, lng2], [lat2, lng2], [lat2, lng1]];
+};
+
+/**
+ * Build the fusion `focusArea` for a drawn shape; polygons also send their
+ * vertices so the server can filter inside the bounding box
+ * @returns The focus area, or null while the shape is incomplete
+ */
+export const createFocusArea = (shape: FocusAreaShape, points: Array<[number, number]>): FusionFocusArea | null => {
+  if (!isFocusAreaComplete(shape, points)) return null;
+
+  const latitudes = points.map(([lat]) => lat);
+  const longitudes = points.map(([, lng]) => lng);
+  const bounds: FusionFocusArea = {
+    northEast: [Math.max(...latitudes), Math.max(...longitudes)],
+    southWest: [Math.min(...latitudes), Math.min(...longitudes)]
+  };
+
+  return shape === 'polygon' ? { ...bounds, polygon: points } : bounds;
+};
+
+/**
+ * One-line description of a focus area, e.g. "48.1000°N, 37.2000°E to 48.5000°N, 37.9000°E"
+ */
+export const describeFocusArea = (area: FusionFocusArea): string => {
+  const box = `${formatLatLng(area.southWest[0], area.southWest[1], 4)} to ${formatLatLng(area.northEast[0], area.northEast[1], 4)}`;
+  return area.polygon ? `${area.polygon.length}-point polygon within ${box}` : box;
+};
+
+/**
+ * Figures compared between fusion runs; the server summary is preferred when present
+ */
+export const getFusionRunStats = (fusion: FusionRunResult | null | undefined): FusionRunStats | null => {
+  if (!fusion) return null;
+
+  const entities = fusion.fusedEntities || [];
+  return {
+    fusedEntities: entities.length,
+    humintEntities: fusion.summary?.humintEntityCount ?? entities.filter(entity => (entity.humintSources?.length || 0) > 0).length,
+    sigintEntities: fusion.summary?.sigintEntityCount ?? entities.filter(entity => (entity.sigintSources?.length || 0) > 0).length,
+    correlations: fusion.summary?.correlationsFound ?? entities.reduce((total, entity) => total + (entity.correlations?.length || 0), 0),
+    confidence: fusion.summary?.confidenceLevel || 'n/a'
+  };
+};
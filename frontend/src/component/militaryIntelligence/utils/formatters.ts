@@ -18,6 +18,12 @@ export const formatResetTime = (resetTimeString?: string): string => {
   return 'Tomorrow at ' + resetDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 };
 
+/**
+ * Escape text for interpolation into HTML strings such as map popups
+ */
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
 export const formatDomain = (inputUrl: string): string => {
   try {
     return new URL(inputUrl).hostname;
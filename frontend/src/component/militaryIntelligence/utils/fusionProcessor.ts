@@ -9,18 +9,33 @@ import {
   NavalVessel,
   AircraftUnit
 } from '../../../type/sigintTypes';
+import { GazetteerIndex, PlaceResolution, findPlaceInText, resolvePlaceName } from './gazetteer';
+import { AreaOfOperations } from './areaOfOperations';
+import { haversineDistance } from './geodesy';
+import {
+  CorrelationSettings,
+  correlationStrength,
+  getCorrelationRule,
+  loadCorrelationSettings
+} from './correlationSettings';
 
 /**
  * Process HUMINT and SIGINT data to enhance the fusion visualization
  * @param humintData The HUMINT analysis data
  * @param sigintData The SIGINT analysis data
  * @param fusionData The fusion analysis data
+ * @param gazetteer Optional gazetteer used to place named HUMINT locations
+ * @param areaOfOperations Optional AO used to prefer in-theater gazetteer matches
+ * @param correlationSettings Optional per-entity-type radius and decay for proximity correlation
  * @returns Enhanced fusion data for visualization
  */
 export const processFusionData = (
   humintData: AdaptedAnalysisResponse | null | undefined,
   sigintData: SigintAnalysisResponse | null | undefined,
-  fusionData: FusionAnalysisResponse | null | undefined
+  fusionData: FusionAnalysisResponse | null | undefined,
+  gazetteer?: GazetteerIndex | null,
+  areaOfOperations?: AreaOfOperations,
+  correlationSettings?: CorrelationSettings
 ) => {
   // If we don't have both HUMINT and SIGINT data, return null
   if (!humintData || !sigintData) {
@@ -42,7 +57,7 @@ export const processFusionData = (
   };
   
   // Process HUMINT entities
-  const humintEntities = processHumintEntities(humintData);
+  const humintEntities = processHumintEntities(humintData, gazetteer, areaOfOperations);
   
   // Process SIGINT entities
   const sigintEntities = processSigintEntities(sigintData);
@@ -86,7 +101,7 @@ export const processFusionData = (
     results.entities = [...humintEntities, ...sigintEntities];
     
     // Generate simple correlations based on proximity
-    results.correlations = generateSimpleCorrelations(humintEntities, sigintEntities);
+    results.correlations = generateSimpleCorrelations(humintEntities, sigintEntities, correlationSettings);
     
     // Use HUMINT predictions if available
     if (humintData.predictions) {
@@ -108,25 +123,61 @@ export const processFusionData = (
   return results;
 };
 
+export interface ResolvedPlaceLocation {
+  name: string;
+  coordinates: Coordinates;
+  accuracy: 'approximate' | 'unknown';
+  resolution: PlaceResolution;
+}
+
+/**
+ * Build an entity location from a gazetteer resolution
+ * @param name The place name as reported
+ * @param resolution The gazetteer resolution for that name
+ * @returns Location with coordinates, or null when the name could not be placed
+ */
+function locationFromResolution(name: string, resolution: PlaceResolution | null): ResolvedPlaceLocation | null {
+  if (!resolution || !resolution.best) return null;
+  
+  return {
+    name,
+    coordinates: {
+      latitude: resolution.best.entry.latitude,
+      longitude: resolution.best.entry.longitude
+    },
+    accuracy: resolution.status === 'ambiguous' ? 'unknown' : 'approximate',
+    resolution
+  };
+}
+
 /**
  * Process HUMINT entities from analysis data
  * @param humintData The HUMINT analysis data
+ * @param gazetteer Optional gazetteer used to place named locations and forces
+ * @param areaOfOperations Optional AO used to prefer in-theater gazetteer matches
  * @returns Processed HUMINT entities
  */
-function processHumintEntities(humintData: AdaptedAnalysisResponse): any[] {
+export function processHumintEntities(
+  humintData: AdaptedAnalysisResponse,
+  gazetteer?: GazetteerIndex | null,
+  areaOfOperations?: AreaOfOperations
+): any[] {
   const entities: any[] = [];
   
   // Process enemy forces
   if (humintData.intelligence.enemyForces) {
     humintData.intelligence.enemyForces.forEach((force, index) => {
+      // Forces are free text, so look for a known place mentioned in it
+      const resolution = gazetteer ? findPlaceInText(force, gazetteer, { areaOfOperations }) : null;
+      
       entities.push({
         id: `humint-force-${index}`,
         type: 'force',
         sourceType: 'humint',
         name: force,
         description: force,
-        location: null, // This would need coordinate extraction from the text
-        confidence: 'medium',
+        location: locationFromResolution(resolution?.query || force, resolution),
+        confidence: resolution?.best ? resolution.confidenceLevel : 'medium',
         timestamp: humintData.timestamp
       });
     });
@@ -157,7 +208,8 @@ function processHumintEntities(humintData: AdaptedAnalysisResponse): any[] {
       let locationObj = null;
       if (threat.location) {
         if (typeof threat.location === 'string') {
-          locationObj = { name: threat.location };
+          const resolution = gazetteer ? resolvePlaceName(threat.location, gazetteer, { areaOfOperations }) : null;
+          locationObj = locationFromResolution(threat.location, resolution) || { name: threat.location };
         } else {
           locationObj = threat.location;
         }
@@ -182,15 +234,16 @@ function processHumintEntities(humintData: AdaptedAnalysisResponse): any[] {
   // Process locations
   if (humintData.intelligence.locations) {
     humintData.intelligence.locations.forEach((loc, index) => {
+      const resolution = gazetteer ? resolvePlaceName(loc, gazetteer, { areaOfOperations }) : null;
+      
       entities.push({
         id: `humint-location-${index}`,
         type: 'location',
         sourceType: 'humint',
         name: loc,
         description: loc,
-        // Note: we'd need to extract coordinates from the location text
-        location: null,
-        confidence: 'medium',
+        location: locationFromResolution(loc, resolution),
+        confidence: resolution?.best ? resolution.confidenceLevel : 'medium',
         timestamp: humintData.timestamp
       });
     });
@@ -522,15 +575,22 @@ function calculateThreatLevel(fusionData: FusionAnalysisResponse): string {
  * Generate simple correlations based on proximity between HUMINT and SIGINT entities
  * @param humintEntities The processed HUMINT entities
  * @param sigintEntities The processed SIGINT entities
- * @returns Simple correlations based on proximity
+ * @param settings Radius and decay curve per HUMINT entity type
+ * @returns Simple correlations based on proximity, with the geodesic distance in meters
  */
-function generateSimpleCorrelations(humintEntities: any[], sigintEntities: any[]): any[] {
+export function generateSimpleCorrelations(
+  humintEntities: any[],
+  sigintEntities: any[],
+  settings: CorrelationSettings = loadCorrelationSettings()
+): any[] {
   const correlations: any[] = [];
   
   // For each HUMINT entity with a location
   humintEntities.forEach((humint) => {
     if (!humint.location || !humint.location.coordinates) return;
     
+    const rule = getCorrelationRule(settings, humint.type);
+    
     // For each SIGINT entity with a location
     sigintEntities.forEach((sigint) => {
       if (!sigint.location || !sigint.location.coordinates) return;
@@ -553,25 +613,24 @@ function generateSimpleCorrelations(humintEntities: any[], sigintEntities: any[]
       // Skip if we couldn't get valid coordinates
       if (humintLat === null || humintLng === null || sigintLat === null || sigintLng === null) return;
       
-      // Calculate distance between points
-      const distance = calculateDistance(
+      // Geodesic distance between points in meters
+      const distance = haversineDistance(
         humintLat,
         humintLng,
         sigintLat,
         sigintLng
       );
       
-      // If within 10 km (0.1 degrees is approximately 10 km)
-      if (distance < 0.1) {
-        // Calculate correlation strength based on distance
-        const strength = Math.max(0.1, 1 - (distance / 0.1));
-        
+      // Strength falls off with distance according to the entity type's rule
+      const strength = correlationStrength(distance, rule);
+      if (strength > 0) {
         correlations.push({
           id: `${humint.id}-${sigint.id}`,
           humintEntityId: humint.id,
           sigintEmitterId: sigint.id,
           type: 'proximity',
           strength,
+          distance,
           factors: {
             spatial: strength,
             temporal: 0.5, // Default temporal correlation
@@ -663,9 +722,9 @@ function generateThreatAreas(
     const avgLat = sumLat / entityCoordinates.length;
     const avgLng = sumLng / entityCoordinates.length;
     
-    // Calculate the average distance from centroid
+    // Calculate the average distance from centroid in meters
     const distances = entityCoordinates.map(coord => 
-      calculateDistance(avgLat, avgLng, coord.lat, coord.lng)
+      haversineDistance(avgLat, avgLng, coord.lat, coord.lng)
     );
     const avgDistance = distances.reduce((sum, dist) => sum + dist, 0) / distances.length;
     
@@ -674,7 +733,7 @@ function generateThreatAreas(
       id: 'primary-threat-area',
       type: 'threat-area',
       center: [avgLat, avgLng],
-      radius: Math.max(avgDistance * 111000, 5000), // Convert to meters, minimum 5km
+      radius: Math.max(avgDistance, 5000), // Minimum 5km
       name: 'Primary Area of Interest',
       description: 'Significant activity detected in this area',
       threatLevel: calculateThreatLevel(fusionData),
@@ -688,21 +747,6 @@ function generateThreatAreas(
 
 // Helper functions
 
-/**
- * Calculate distance between two coordinates in degrees
- * @param lat1 Latitude of first point
- * @param lon1 Longitude of first point
- * @param lat2 Latitude of second point
- * @param lon2 Longitude of second point
- * @returns Distance in degrees
- */
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  // Simple Euclidean distance in degrees (approximate for small distances)
-  const latDiff = lat2 - lat1;
-  const lonDiff = lon2 - lon1;
-  return Math.sqrt(latDiff * latDiff + lonDiff * lonDiff);
-}
-
 /**
  * Find a HUMINT entity by ID
  * @param humintData The HUMINT analysis data
@@ -0,0 +1,444 @@
+// components/military-intelligence/utils/gazetteer.ts
+import { normalizePlaceName, placeNameSkeleton } from './transliteration';
+import { AreaOfOperations, isPointInAreaOfOperations } from './areaOfOperations';
+import { haversineDistance } from './geodesy';
+
+/**
+ * Offline gazetteer for resolving bare place names from reports to coordinates.
+ * Data is loaded from a local GeoNames-style TSV or GeoJSON file served with the
+ * app (VITE_GAZETTEER_URL, default /gazetteer/places.tsv); nothing leaves the machine.
+ */
+
+export interface GazetteerEntry {
+  id: string;
+  name: string;
+  alternateNames: string[];
+  latitude: number;
+  longitude: number;
+  featureClass?: string;
+  featureCode?: string;
+  countryCode?: string;
+  admin1?: string;
+  population?: number;
+}
+
+export interface GazetteerIndex {
+  entries: GazetteerEntry[];
+  byNormalizedName: Map<string, number[]>;
+  bySkeleton: Map<string, number[]>;
+  byTrigram: Map<string, number[]>;
+  names: Array<{ entryIndex: number; name: string; skeleton: string }>;
+}
+
+export interface PlaceCandidate {
+  entry: GazetteerEntry;
+  matchedName: string;
+  score: number; // 0-1 name similarity, adjusted for AO membership
+}
+
+export type PlaceResolutionStatus = 'confirmed' | 'resolved' | 'ambiguous' | 'unresolved';
+
+export interface PlaceResolution {
+  query: string;
+  status: PlaceResolutionStatus;
+  best: PlaceCandidate | null;
+  candidates: PlaceCandidate[];
+  confidence: number; // 0-1
+  confidenceLevel: 'high' | 'medium' | 'low';
+}
+
+export interface ResolveOptions {
+  areaOfOperations?: AreaOfOperations;
+  limit?: number;
+  minScore?: number;
+}
+
+const DEFAULT_GAZETTEER_URL = '/gazetteer/places.tsv';
+const CONFIRMATIONS_STORAGE_KEY = 'gazetteerConfirmations';
+
+// GeoNames dump column order (https://download.geonames.org/export/dump/readme.txt)
+const GEONAMES_COLUMNS = [
+  'geonameid', 'name', 'asciiname', 'alternatenames', 'latitude', 'longitude',
+  'feature class', 'feature code', 'country code', 'cc2', 'admin1 code',
+  'admin2 code', 'admin3 code', 'admin4 code', 'population'
+];
+
+// Candidates closer than this are treated as the same place when judging ambiguity
+const SAME_PLACE_KM = 5;
+const AMBIGUITY_MARGIN = 0.05;
+const OUTSIDE_AO_PENALTY = 0.15;
+
+// Words that introduce a place name in reports but are not part of it
+const QUERY_PREFIX_PATTERN = /^(?:(?:the\s+)?(?:village|town|city|settlement|outskirts|vicinity|area|region|district|oblast)\s+of\s+|(?:near|around|at|in|from|to|towards?|outside|vic\.?)\s+|(?:north|south|east|west|north-?east|north-?west|south-?east|south-?west)(?:ern)?\s+(?:of\s+)?)+/i;
+
+/**
+ * Parse a GeoNames dump or a TSV with a header row using GeoNames column names
+ */
+export const parseGeoNamesTsv = (text: string): GazetteerEntry[] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() && !line.startsWith('#'));
+  if (lines.length === 0) return [];
+
+  // Use the header row if present, otherwise assume the GeoNames column order
+  const firstRow = lines[0].split('\t').map(cell => cell.trim().toLowerCase());
+  const hasHeader = firstRow.includes('name') && firstRow.includes('latitude');
+  const columns = hasHeader ? firstRow : GEONAMES_COLUMNS;
+  const column = (name: string) => columns.indexOf(name);
+
+  const entries: GazetteerEntry[] = [];
+
+  (hasHeader ? lines.slice(1) : lines).forEach((line, index) => {
+    const cells = line.split('\t');
+    const cell = (name: string) => {
+      const i = column(name);
+      return i >= 0 ? cells[i]?.trim() || '' : '';
+    };
+
+    const latitude = parseFloat(cell('latitude'));
+    const longitude = parseFloat(cell('longitude'));
+    const name = cell('name');
+    if (!name || isNaN(latitude) || isNaN(longitude)) return;
+
+    const alternateNames = [cell('asciiname'), ...cell('alternatenames').split(',')]
+      .map(alt => alt.trim())
+      .filter(alt => alt && alt !== name);
+    const population = parseInt(cell('population'), 10);
+
+    entries.push({
+      id: cell('geonameid') || `tsv-${index}`,
+      name,
+      alternateNames: Array.from(new Set(alternateNames)),
+      latitude,
+      longitude,
+      featureClass: cell('feature class') || undefined,
+      featureCode: cell('feature code') || undefined,
+      countryCode: cell('country code') || undefined,
+      admin1: cell('admin1 code') || undefined,
+      population: isNaN(population) ? undefined : population
+    });
+  });
+
+  return entries;
+};
+
+/**
+ * Parse a GeoJSON FeatureCollection of Point features with a `name` property
+ * and optional `alternateNames` (array or comma separated), `population`, etc.
+ */
+export const parseGeoJson = (text: string): GazetteerEntry[] => {
+  const data = JSON.parse(text);
+  const features: unknown[] = Array.isArray(data?.features) ? data.features : [];
+  const entries: GazetteerEntry[] = [];
+
+  features.forEach((feature, index) => {
+    const { geometry, properties = {}, id } = feature as {
+      geometry?: { type?: string; coordinates?: number[] };
+      properties?: Record<string, unknown>;
+      id?: string | number;
+    };
+    if (geometry?.type !== 'Point' || !Array.isArray(geometry.coordinates)) return;
+
+    const [longitude, latitude] = geometry.coordinates;
+    const name = typeof properties.name === 'string' ? properties.name : '';
+    if (!name || typeof latitude !== 'number' || typeof longitude !== 'number') return;
+
+    const rawAlternates = properties.alternateNames ?? properties.alternatenames ?? [];
+    const alternateNames = (Array.isArray(rawAlternates) ? rawAlternates : String(rawAlternates).split(','))
+      .map(alt => String(alt).trim())
+      .filter(alt => alt && alt !== name);
+
+    entries.push({
+      id: String(id ?? properties.id ?? `geojson-${index}`),
+      name,
+      alternateNames,
+      latitude,
+      longitude,
+      featureClass: typeof properties.featureClass === 'string' ? properties.featureClass : undefined,
+      featureCode: typeof properties.featureCode === 'string' ? properties.featureCode : undefined,
+      countryCode: typeof properties.countryCode === 'string' ? properties.countryCode : undefined,
+      admin1: typeof properties.admin1 === 'string' ? properties.admin1 : undefined,
+      population: typeof properties.population === 'number' ? properties.population : undefined
+    });
+  });
+
+  return entries;
+};
+
+const trigrams = (value: string): string[] => {
+  const padded = `  ${value} `;
+  const result: string[] = [];
+  for (let i = 0; i < padded.length - 2; i++) {
+    result.push(padded.substring(i, i + 3));
+  }
+  return result;
+};
+
+const addToIndex = (map: Map<string, number[]>, key: string, value: number) => {
+  const existing = map.get(key);
+  if (!existing) {
+    map.set(key, [value]);
+  } else if (existing[existing.length - 1] !== value) {
+    existing.push(value);
+  }
+};
+
+/**
+ * Build lookup tables for exact, skeleton and trigram matching
+ */
+export const buildGazetteerIndex = (entries: GazetteerEntry[]): GazetteerIndex => {
+  const index: GazetteerIndex = {
+    entries,
+    byNormalizedName: new Map(),
+    bySkeleton: new Map(),
+    byTrigram: new Map(),
+    names: []
+  };
+
+  entries.forEach((entry, entryIndex) => {
+    const seen = new Set<string>();
+
+    for (const name of [entry.name, ...entry.alternateNames]) {
+      const normalized = normalizePlaceName(name);
+      if (!normalized || seen.has(normalized)) continue;
+      seen.add(normalized);
+
+      const skeleton = placeNameSkeleton(name);
+      const nameIndex = index.names.length;
+      index.names.push({ entryIndex, name, skeleton });
+
+      addToIndex(index.byNormalizedName, normalized, entryIndex);
+      addToIndex(index.bySkeleton, skeleton, entryIndex);
+      for (const gram of new Set(trigrams(skeleton))) {
+        addToIndex(index.byTrigram, gram, nameIndex);
+      }
+    }
+  });
+
+  return index;
+};
+
+/**
+ * Levenshtein similarity in the range 0-1
+ */
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+};
+
+const distanceKm = (a: GazetteerEntry, b: GazetteerEntry): number =>
+  haversineDistance(a.latitude, a.longitude, b.latitude, b.longitude) / 1000;
+
+const toConfidenceLevel = (confidence: number): PlaceResolution['confidenceLevel'] =>
+  confidence >= 0.85 ? 'high' : confidence >= 0.6 ? 'medium' : 'low';
+
+/**
+ * Strip leading words such as "village of" or "north of" from a place reference
+ */
+export const cleanPlaceQuery = (query: string): string =>
+  query.trim().replace(QUERY_PREFIX_PATTERN, '').replace(/[.,;:]+$/, '').trim();
+
+/**
+ * Read analyst-confirmed resolutions, keyed by normalized query
+ */
+const loadConfirmations = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(CONFIRMATIONS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Record the analyst's choice of gazetteer entry for a place name
+ */
+export const confirmPlaceResolution = (query: string, entryId: string): void => {
+  const confirmations = loadConfirmations();
+  confirmations[normalizePlaceName(cleanPlaceQuery(query))] = entryId;
+  localStorage.setItem(CONFIRMATIONS_STORAGE_KEY, JSON.stringify(confirmations));
+};
+
+/**
+ * Forget a confirmed resolution so the name is matched automatically again
+ */
+export const clearPlaceConfirmation = (query: string): void => {
+  const confirmations = loadConfirmations();
+  delete confirmations[normalizePlaceName(cleanPlaceQuery(query))];
+  localStorage.setItem(CONFIRMATIONS_STORAGE_KEY, JSON.stringify(confirmations));
+};
+
+/**
+ * Resolve a place name to gazetteer candidates.
+ * Exact matches (after transliteration and diacritic folding) score 1, matches on
+ * the transcription skeleton 0.95, and anything else is scored by edit distance.
+ * Candidates outside the area of operations are penalised. The result is ambiguous
+ * when distinct places score within a small margin of the best match.
+ */
+export const resolvePlaceName = (
+  query: string,
+  index: GazetteerIndex,
+  { areaOfOperations, limit = 5, minScore = 0.75 }: ResolveOptions = {}
+): PlaceResolution => {
+  const cleaned = cleanPlaceQuery(query);
+  const normalized = normalizePlaceName(cleaned);
+  const skeleton = placeNameSkeleton(cleaned);
+  const unresolved: PlaceResolution = {
+    query, status: 'unresolved', best: null, candidates: [], confidence: 0, confidenceLevel: 'low'
+  };
+
+  if (!normalized || index.entries.length === 0) return unresolved;
+
+  const scores = new Map<number, { score: number; matchedName: string }>();
+  const consider = (entryIndex: number, score: number, matchedName: string) => {
+    const existing = scores.get(entryIndex);
+    if (!existing || existing.score < score) {
+      scores.set(entryIndex, { score, matchedName });
+    }
+  };
+
+  for (const entryIndex of index.byNormalizedName.get(normalized) || []) {
+    consider(entryIndex, 1, index.entries[entryIndex].name);
+  }
+  for (const entryIndex of index.bySkeleton.get(skeleton) || []) {
+    consider(entryIndex, 0.95, index.entries[entryIndex].name);
+  }
+
+  // Fuzzy pass over names sharing enough trigrams with the query
+  if (scores.size === 0) {
+    const queryGrams = new Set(trigrams(skeleton));
+    const shared = new Map<number, number>();
+    for (const gram of queryGrams) {
+      for (const nameIndex of index.byTrigram.get(gram) || []) {
+        shared.set(nameIndex, (shared.get(nameIndex) || 0) + 1);
+      }
+    }
+
+    for (const [nameIndex, count] of shared) {
+      if (count / queryGrams.size < 0.4) continue;
+
+      const { entryIndex, name, skeleton: nameSkeleton } = index.names[nameIndex];
+      const score = 0.95 * similarity(skeleton, nameSkeleton);
+      if (score >= minScore) {
+        consider(entryIndex, score, name);
+      }
+    }
+  }
+
+  const ranked: PlaceCandidate[] = Array.from(scores.entries())
+    .map(([entryIndex, { score, matchedName }]) => {
+      const entry = index.entries[entryIndex];
+      const outsideAo = areaOfOperations &&
+        !isPointInAreaOfOperations(entry.latitude, entry.longitude, areaOfOperations);
+      return { entry, matchedName, score: outsideAo ? score - OUTSIDE_AO_PENALTY : score };
+    })
+    .filter(candidate => candidate.score >= minScore - OUTSIDE_AO_PENALTY)
+    .sort((a, b) => b.score - a.score || (b.entry.population || 0) - (a.entry.population || 0));
+  const candidates = ranked.slice(0, limit);
+
+  if (candidates.length === 0) return unresolved;
+
+  // An analyst confirmation overrides automatic matching
+  const confirmedId = loadConfirmations()[normalized];
+  const confirmed = confirmedId && ranked.find(candidate => candidate.entry.id === confirmedId);
+  if (confirmed) {
+    return {
+      query,
+      status: 'confirmed',
+      best: confirmed,
+      candidates,
+      confidence: 1,
+      confidenceLevel: 'high'
+    };
+  }
+
+  const [best] = candidates;
+  const rivals = candidates.slice(1).filter(candidate =>
+    best.score - candidate.score <= AMBIGUITY_MARGIN &&
+    distanceKm(best.entry, candidate.entry) > SAME_PLACE_KM
+  );
+  const ambiguous = rivals.length > 0;
+  const confidence = Math.max(0, Math.min(1, ambiguous ? best.score / (rivals.length + 1) : best.score));
+
+  return {
+    query,
+    status: ambiguous ? 'ambiguous' : 'resolved',
+    best,
+    candidates,
+    confidence,
+    confidenceLevel: toConfidenceLevel(confidence)
+  };
+};
+
+/**
+ * Find the best gazetteer match for a place mentioned inside free text, e.g.
+ * "BTR column moving through Mala Danylivka". Only exact and skeleton matches
+ * on capitalised word runs are accepted to avoid matching ordinary words.
+ */
+export const findPlaceInText = (
+  text: string,
+  index: GazetteerIndex,
+  options: ResolveOptions = {}
+): PlaceResolution | null => {
+  if (!text || index.entries.length === 0) return null;
+
+  const words = text.split(/\s+/).map(word => word.replace(/^[("']+|[)"',.;:!?]+$/g, ''));
+  let best: PlaceResolution | null = null;
+
+  for (let start = 0; start < words.length; start++) {
+    if (!/^\p{Lu}/u.test(words[start])) continue;
+
+    // Prefer longer names ("Mala Danylivka" over "Mala")
+    for (let length = Math.min(4, words.length - start); length >= 1; length--) {
+      const phrase = words.slice(start, start + length).join(' ');
+      const resolution = resolvePlaceName(phrase, index, { ...options, minScore: 0.95 });
+
+      if (resolution.best && (!best || resolution.confidence > best.confidence)) {
+        best = resolution;
+      }
+      if (resolution.best) break;
+    }
+  }
+
+  return best;
+};
+
+let gazetteerPromise: Promise<GazetteerIndex> | null = null;
+
+/**
+ * Load and index the gazetteer file once per session. A missing file yields an
+ * empty gazetteer so place names simply stay unresolved.
+ */
+export const loadGazetteer = (
+  url: string = import.meta.env.VITE_GAZETTEER_URL || DEFAULT_GAZETTEER_URL
+): Promise<GazetteerIndex> => {
+  if (!gazetteerPromise) {
+    gazetteerPromise = fetch(url)
+      .then(async response => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const text = await response.text();
+        const isGeoJson = /\.(geo)?json$/i.test(url) || text.trimStart().startsWith('{');
+        return buildGazetteerIndex(isGeoJson ? parseGeoJson(text) : parseGeoNamesTsv(text));
+      })
+      .catch(error => {
+        console.warn(`Gazetteer unavailable at ${url}; place names will not be resolved:`, error);
+        return buildGazetteerIndex([]);
+      });
+  }
+
+  return gazetteerPromise;
+};
@@ -1,4 +1,9 @@
 // components/military-intelligence/utils/geoUtils.ts
+import { CoordinateFormat, ParsedCoordinates, findCoordinatesInText } from './coordinateParser';
+import { AreaOfOperations, isPointInAreaOfOperations, loadAreaOfOperations } from './areaOfOperations';
+import { GazetteerIndex } from './gazetteer';
+import { UncertaintyEllipse } from './geodesy';
+import { findRelativeLocationsInText } from './relativeLocation';
 
 /**
  * Utilities for extracting and handling geospatial information from field reports
@@ -16,241 +21,286 @@ export interface GeoLocation {
   type?: 'location' | 'observation' | 'movement';
   timestamp?: string;
   confidence?: 'high' | 'medium' | 'low';
+  uncertainty?: number; // meters, derived from the precision of the reported coordinate
+  uncertaintyEllipse?: UncertaintyEllipse; // for positions given relative to a place
+  coordinateFormat?: CoordinateFormat | 'relative';
+  gridReference?: string; // coordinate or relative phrase exactly as written in the report
+  relativeTo?: string; // anchor place of a relative position
+  heading?: number; // degrees true, for movements with a stated direction
 }
 
+/**
+ * A position found in report text, either an absolute coordinate or one
+ * projected from a relative phrase such as "10 km north of Kharkiv"
+ */
+interface ExtractedPosition {
+  latitude: number;
+  longitude: number;
+  uncertainty: number;
+  format: CoordinateFormat | 'relative';
+  raw: string;
+  index: number;
+  ellipse?: UncertaintyEllipse;
+  anchorName?: string;
+}
+
+const COMPASS_BEARINGS: Record<string, number> = {
+  'north': 0,
+  'north-east': 45, 'northeast': 45,
+  'east': 90,
+  'south-east': 135, 'southeast': 135,
+  'south': 180,
+  'south-west': 225, 'southwest': 225,
+  'west': 270,
+  'north-west': 315, 'northwest': 315
+};
+
+const MOVEMENT_PATTERN = /\b(moving|advancing|retreating|withdrawing|heading|proceeding|relocating|redeploying)\b/i;
+const MOVER_PATTERN = /\b(convoy|column|troops|forces|tanks|vehicles|battalion|company|platoon|unit|artillery|BTRs?|BMPs?|APCs?)\b/i;
+const OBSERVATION_PATTERN = /\b(observed|spotted|sighted|detected|activity|presence|position|equipment|deployment)\b/i;
+const DIRECTION_PATTERN = /\b(north-east|north-west|south-east|south-west|northeast|northwest|southeast|southwest|north|south|east|west)(?:wards?)?\b/i;
+
+/**
+ * Decimal pairs are easily confused with other numbers, so they must fall inside
+ * the area of operations; grid references and DMS are unambiguous and are always accepted.
+ */
+const isPlausibleCoordinate = (coords: ParsedCoordinates, ao: AreaOfOperations): boolean => {
+  if (coords.format !== 'decimal') return true;
+
+  return isPointInAreaOfOperations(coords.latitude, coords.longitude, ao);
+};
+
+/**
+ * Find all plausible coordinates in a text
+ * @param text - Report text
+ * @param ao - Area of operations used to validate decimal pairs (defaults to the stored AO)
+ * @returns Parsed coordinates in order of appearance
+ */
+export const extractAllCoordinatesFromText = (
+  text: string,
+  ao: AreaOfOperations = loadAreaOfOperations()
+): ParsedCoordinates[] => {
+  return findCoordinatesInText(text).filter(coords => isPlausibleCoordinate(coords, ao));
+};
+
 /**
  * Extracts coordinates from a text string
  * Handles various formats like:
- * - 49.98081, 36.25272
- * - grid coordinates 49.98081, 36.25272
- * - at coordinates (49.98081, 36.25272)
- * - etc.
+ * - MGRS grid references: 37U DQ 12345 67890, 37UDQ1267
+ * - UTM: 37U 412345 5523456
+ * - DMS: 49°58'50.9"N 36°15'9.8"E, N49°58.848' E036°15.163'
+ * - Signed decimal degrees: 49.98081, 36.25272 or -33.9, 151.2 (must fall inside the AO)
+ * @returns The first coordinate found, including its precision-derived uncertainty
  */
-export const extractCoordinatesFromText = (text: string): Coordinates | null => {
+export const extractCoordinatesFromText = (
+  text: string,
+  ao: AreaOfOperations = loadAreaOfOperations()
+): ParsedCoordinates | null => {
   if (!text) return null;
-  
-  console.log(`[DEBUG] Extracting coordinates from text: "${text.substring(0, 100)}..."`);
-  
-  // Standard decimal format: 49.98081, 36.25272
-  const standardPattern = /(\d+\.\d+),\s*(\d+\.\d+)/;
-  
-  // Look for full coordinates with comma separator
-  const match = text.match(standardPattern);
-  if (match && match.length >= 3) {
-    const coords = {
-      latitude: parseFloat(match[1]),
-      longitude: parseFloat(match[2])
-    };
-    
-    // Validate coordinates are in Ukraine region (rough bounds check)
-    if (coords.latitude >= 44 && coords.latitude <= 53 && 
-        coords.longitude >= 22 && coords.longitude <= 41) {
-      console.log(`[DEBUG] Extracted valid Ukraine coordinates: ${coords.latitude}, ${coords.longitude}`);
-      return coords;
-    } else {
-      console.log(`[DEBUG] Extracted coordinates outside Ukraine bounds: ${coords.latitude}, ${coords.longitude} - checking if digits were truncated`);
-      
-      // Check if latitude might be missing a leading digit (should be 4x.xxxx for Ukraine)
-      if (coords.latitude < 10 && coords.longitude > 30 && coords.longitude < 41) {
-        // This is likely a truncated coordinate - fix by adding leading "4"
-        coords.latitude = 40 + coords.latitude;
-        console.log(`[DEBUG] Fixed truncated latitude: ${coords.latitude}, ${coords.longitude}`);
-        return coords;
-      }
-    }
-  }
-  
-  // If we got here, no valid coordinates found
-  return null;
+
+  const [first] = extractAllCoordinatesFromText(text, ao);
+  return first || null;
+};
+
+/**
+ * Find absolute coordinates and resolvable relative positions in a text.
+ * Coordinates that only serve as the anchor of a relative phrase are not
+ * reported separately.
+ */
+const extractPositionsFromText = (
+  text: string,
+  ao: AreaOfOperations,
+  gazetteer?: GazetteerIndex | null
+): ExtractedPosition[] => {
+  const relative: ExtractedPosition[] = findRelativeLocationsInText(text, { gazetteer, areaOfOperations: ao })
+    .map(location => ({
+      latitude: location.latitude,
+      longitude: location.longitude,
+      uncertainty: location.uncertainty,
+      format: 'relative' as const,
+      raw: location.raw,
+      index: location.index,
+      ellipse: location.ellipse,
+      anchorName: location.anchorName
+    }));
+
+  const absolute = extractAllCoordinatesFromText(text, ao).filter(coords =>
+    !relative.some(position => coords.index >= position.index && coords.index < position.index + position.raw.length)
+  );
+
+  return [...relative, ...absolute].sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Convert an extracted position to the fields stored on a GeoLocation
+ */
+const toGeoFields = (position: ExtractedPosition): Pick<GeoLocation,
+  'coordinates' | 'uncertainty' | 'uncertaintyEllipse' | 'coordinateFormat' | 'gridReference' | 'relativeTo'> => ({
+  coordinates: {
+    latitude: position.latitude,
+    longitude: position.longitude
+  },
+  uncertainty: position.uncertainty,
+  uncertaintyEllipse: position.ellipse,
+  coordinateFormat: position.format,
+  gridReference: position.raw,
+  relativeTo: position.anchorName
+});
+
+/**
+ * Split report text into sentences without breaking decimal numbers
+ */
+const splitSentences = (text: string): string[] => {
+  return text
+    .split(/\n+|(?<=[.!?;])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+};
+
+/**
+ * Derive a location name from the words just before a coordinate or relative phrase
+ */
+const nameBeforePosition = (sentence: string, position: ExtractedPosition): string | null => {
+  const start = sentence.indexOf(position.raw);
+  const before = (start >= 0 ? sentence.substring(0, start) : sentence)
+    .replace(/\b(grid|coordinates?|mgrs|utm|ref(?:erence)?|vic(?:inity)?|at|near|located|position|in|village|town|settlement|of|the)\b/gi, ' ')
+    .replace(/[(),:;]/g, ' ')
+    .trim();
+
+  if (before.length <= 3) return null;
+
+  const words = before.split(/\s+/);
+  const name = words.length > 2 ? words.slice(-3).join(' ') : before;
+  return name.length < 50 ? name : null;
+};
+
+/**
+ * Get the compass heading stated in a sentence, if any. Directions that are
+ * part of a relative position ("5 km north of X") are not headings.
+ */
+const extractHeading = (sentence: string, positions: ExtractedPosition[]): number | undefined => {
+  const remainder = positions
+    .filter(position => position.format === 'relative')
+    .reduce((text, position) => text.replace(position.raw, ' '), sentence);
+  const match = remainder.match(DIRECTION_PATTERN);
+  return match ? COMPASS_BEARINGS[match[1].toLowerCase()] : undefined;
 };
 
 /**
  * Extracts named locations from text with potential coordinates
  */
-export const extractLocationsFromText = (text: string): GeoLocation[] => {
+export const extractLocationsFromText = (
+  text: string,
+  ao: AreaOfOperations = loadAreaOfOperations(),
+  gazetteer?: GazetteerIndex | null
+): GeoLocation[] => {
   if (!text) return [];
-  
+
   const locations: GeoLocation[] = [];
-  const locationPatterns = [
-    // Location with coordinates: village of Mala Danylivka (10km north of Kharkiv) (49.123, 36.456)
-    /(\w+\s+(?:of|near|at)\s+[\w\s]+)\s*(?:\(.*?\))?\s*\(?\s*(\d+\.\d+),\s*(\d+\.\d+)\)?/gi,
-    
-    // Named location with coordinates: Mala Danylivka (49.123, 36.456)
-    /([\w\s-]+)\s*\(?\s*(\d+\.\d+),\s*(\d+\.\d+)\)?/gi,
-    
-    // Location mentioned with grid coordinates
-    /([\w\s-]+)\s*grid\s+coordinates\s+(\d+\.\d+),\s*(\d+\.\d+)/gi
-  ];
-  
-  for (const pattern of locationPatterns) {
-    let match;
-    while ((match = pattern.exec(text)) !== null) {
+
+  for (const sentence of splitSentences(text)) {
+    for (const position of extractPositionsFromText(sentence, ao, gazetteer)) {
       locations.push({
-        name: match[1].trim(),
-        coordinates: {
-          latitude: parseFloat(match[2]),
-          longitude: parseFloat(match[3])
-        },
-        type: 'location'
+        name: nameBeforePosition(sentence, position) ||
+          (position.format === 'relative' ? position.raw : 'Unknown Location'),
+        description: sentence,
+        type: 'location',
+        ...toGeoFields(position)
       });
     }
   }
-  
-  // If no locations with embedded coordinates were found,
-  // try to extract any coordinates and create generic locations
-  if (locations.length === 0) {
-    const lines = text.split('\n');
-    for (const line of lines) {
-      const coords = extractCoordinatesFromText(line);
-      if (coords) {
-        // Try to extract a location name from the line
-        let name = 'Unknown Location';
-        
-        // Look for place names before coordinates
-        const placeName = line.split(/\d+\.\d+/)[0].trim();
-        if (placeName && placeName.length > 3 && placeName.length < 50) {
-          // Extract the last 2-3 words as likely location name
-          const words = placeName.split(/\s+/);
-          if (words.length > 2) {
-            name = words.slice(-3).join(' ');
-          } else {
-            name = placeName;
-          }
-        }
-        
-        locations.push({
-          name,
-          description: line,
-          coordinates: coords,
-          type: 'location'
-        });
-      }
-    }
-  }
-  
+
   return locations;
 };
 
 /**
  * Extracts troop/equipment movements with coordinates
  */
-export const extractMovementsFromText = (text: string): GeoLocation[] => {
+export const extractMovementsFromText = (
+  text: string,
+  ao: AreaOfOperations = loadAreaOfOperations(),
+  gazetteer?: GazetteerIndex | null
+): GeoLocation[] => {
   if (!text) return [];
-  
+
   const movements: GeoLocation[] = [];
-  const movementPatterns = [
-    // Movement pattern: "moving/advancing/retreating toward/from [location] (coords)"
-    /(moving|advancing|retreating|withdrawing)(?:\s+\w+)?\s+(?:to|from|toward|towards|north|south|east|west|northeast|northwest|southeast|southwest)(?:\s+\w+)?\s+([\w\s]+)(?:.*?coordinates\s+)?(\d+\.\d+),\s*(\d+\.\d+)/gi,
-    
-    // Convoy/troops moving: "convoy of X observed at (coords) moving direction"
-    /(convoy|troops|forces|tanks|vehicles)(?:.*?)(?:coordinates\s+)?(\d+\.\d+),\s*(\d+\.\d+)(?:.*?)(moving|advancing|heading|proceeding)/gi
-  ];
-  
-  for (const pattern of movementPatterns) {
-    let match;
-    while ((match = pattern.exec(text)) !== null) {
-      // Adapt based on which pattern matched
-      let name, description, lat, lng;
-      
-      if (match[0].includes('coordinates')) {
-        name = match[1] || 'Movement';
-        description = match[0];
-        // Extract coordinates from the full match
-        const coords = extractCoordinatesFromText(match[0]);
-        if (coords) {
-          lat = coords.latitude;
-          lng = coords.longitude;
-        }
-      } else if (match.length >= 5) {
-        name = `${match[1]} near ${match[2]}`;
-        description = match[0];
-        lat = parseFloat(match[3]);
-        lng = parseFloat(match[4]);
-      } else if (match.length >= 4) {
-        name = `${match[1]} Movement`;
-        description = match[0];
-        lat = parseFloat(match[2]);
-        lng = parseFloat(match[3]);
-      }
-      
-      if (lat && lng) {
-        movements.push({
-          name,
-          description,
-          coordinates: { latitude: lat, longitude: lng },
-          type: 'movement'
-        });
-      }
+
+  for (const sentence of splitSentences(text)) {
+    const verb = sentence.match(MOVEMENT_PATTERN);
+    if (!verb) continue;
+
+    const mover = sentence.match(MOVER_PATTERN);
+    const name = mover
+      ? `${mover[1].charAt(0).toUpperCase() + mover[1].slice(1)} ${verb[1].toLowerCase()}`
+      : `${verb[1].charAt(0).toUpperCase() + verb[1].slice(1)} movement`;
+    const positions = extractPositionsFromText(sentence, ao, gazetteer);
+    const heading = extractHeading(sentence, positions);
+
+    for (const position of positions) {
+      movements.push({
+        name,
+        description: sentence,
+        type: 'movement',
+        heading,
+        ...toGeoFields(position)
+      });
     }
   }
-  
+
   return movements;
 };
 
 /**
  * Extracts observations (sightings, enemy activity) with coordinates
  */
-export const extractObservationsFromText = (text: string): GeoLocation[] => {
+export const extractObservationsFromText = (
+  text: string,
+  ao: AreaOfOperations = loadAreaOfOperations(),
+  gazetteer?: GazetteerIndex | null
+): GeoLocation[] => {
   if (!text) return [];
-  
+
   const observations: GeoLocation[] = [];
-  const observationPatterns = [
-    // Observation pattern: "observed X at/near (coords)"
-    /(observed|spotted|sighted|detected)(?:\s+[\w\s]+)(?:.*?)(?:coordinates\s+)?(\d+\.\d+),\s*(\d+\.\d+)/gi,
-    
-    // Activity pattern: "activity at/near (coords)"
-    /(activity|presence|position|equipment|deployment)(?:.*?)(?:coordinates\s+)?(\d+\.\d+),\s*(\d+\.\d+)/gi
-  ];
-  
-  for (const pattern of observationPatterns) {
-    let match;
-    while ((match = pattern.exec(text)) !== null) {
-      let lat, lng;
-      
-      // Extract coordinates from the full match if it contains "coordinates"
-      if (match[0].includes('coordinates')) {
-        const coords = extractCoordinatesFromText(match[0]);
-        if (coords) {
-          lat = coords.latitude;
-          lng = coords.longitude;
-        }
-      } else if (match.length >= 4) {
-        lat = parseFloat(match[2]);
-        lng = parseFloat(match[3]);
-      }
-      
-      if (lat && lng) {
-        observations.push({
-          name: `${match[1].charAt(0).toUpperCase() + match[1].slice(1)}`,
-          description: match[0],
-          coordinates: { latitude: lat, longitude: lng },
-          type: 'observation'
-        });
-      }
+
+  for (const sentence of splitSentences(text)) {
+    // Movements are reported separately
+    if (MOVEMENT_PATTERN.test(sentence)) continue;
+
+    const match = sentence.match(OBSERVATION_PATTERN);
+    if (!match) continue;
+
+    for (const position of extractPositionsFromText(sentence, ao, gazetteer)) {
+      observations.push({
+        name: `${match[1].charAt(0).toUpperCase() + match[1].slice(1)}`,
+        description: sentence,
+        type: 'observation',
+        ...toGeoFields(position)
+      });
     }
   }
-  
+
   return observations;
 };
 
 /**
  * Process a complete field report and extract all geospatial information
+ * @param reportText - Raw report text
+ * @param ao - Area of operations used to validate decimal coordinates
+ * @param gazetteer - Optional gazetteer for resolving the anchors of relative positions
  * @returns An object containing locations, movements, and observations
  */
-export const processReportForGeospatialData = (reportText: string) => {
-  const locations = extractLocationsFromText(reportText);
-  const movements = extractMovementsFromText(reportText);
-  const observations = extractObservationsFromText(reportText);
-  
-  console.log('[DEBUG] Final processed geo data:', {
-    locations: locations.map(l => `${l.name}: ${l.coordinates?.latitude},${l.coordinates?.longitude}`),
-    movements: movements.map(m => `${m.name}: ${m.coordinates?.latitude},${m.coordinates?.longitude}`),
-    observations: observations.map(o => `${o.name}: ${o.coordinates?.latitude},${o.coordinates?.longitude}`)
-  });
-  
+export const processReportForGeospatialData = (
+  reportText: string,
+  ao: AreaOfOperations = loadAreaOfOperations(),
+  gazetteer?: GazetteerIndex | null
+) => {
+  const locations = extractLocationsFromText(reportText, ao, gazetteer);
+  const movements = extractMovementsFromText(reportText, ao, gazetteer);
+  const observations = extractObservationsFromText(reportText, ao, gazetteer);
+
   return {
     locations,
     movements,
     observations
   };
-};
\ No newline at end of file
+};
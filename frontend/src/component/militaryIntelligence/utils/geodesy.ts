@@ -0,0 +1,128 @@
+// components/military-intelligence/utils/geodesy.ts
+
+/**
+ * Great-circle helpers on a spherical earth. Accurate to well under 0.5% at the
+ * tactical distances found in reports, which is far below the report uncertainty.
+ */
+
+export const EARTH_RADIUS_METERS = 6371008.8;
+
+export interface UncertaintyEllipse {
+  semiMajorAxis: number; // meters
+  semiMinorAxis: number; // meters
+  orientation: number; // degrees true of the major axis
+}
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+/**
+ * Normalize a bearing to the range [0, 360)
+ */
+export const normalizeBearing = (bearing: number): number => ((bearing % 360) + 360) % 360;
+
+/**
+ * Haversine distance between two points
+ * @returns Distance in meters
+ */
+export const haversineDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
+
+/**
+ * Initial great-circle bearing from the first point to the second
+ * @returns Bearing in degrees true
+ */
+export const initialBearing = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const deltaLambda = toRadians(lng2 - lng1);
+  const y = Math.sin(deltaLambda) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(deltaLambda);
+
+  return normalizeBearing(toDegrees(Math.atan2(y, x)));
+};
+
+/**
+ * Point reached by travelling a distance along a great circle from a start point
+ * @param bearing - Initial bearing in degrees true
+ * @param distance - Distance in meters
+ */
+export const destinationPoint = (
+  latitude: number,
+  longitude: number,
+  bearing: number,
+  distance: number
+): { latitude: number; longitude: number } => {
+  const angularDistance = distance / EARTH_RADIUS_METERS;
+  const theta = toRadians(bearing);
+  const phi1 = toRadians(latitude);
+  const lambda1 = toRadians(longitude);
+
+  const phi2 = Math.asin(Math.sin(phi1) * Math.cos(angularDistance) + Math.cos(phi1) * Math.sin(angularDistance) * Math.cos(theta));
+  const lambda2 = lambda1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angularDistance) * Math.cos(phi1),
+    Math.cos(angularDistance) - Math.sin(phi1) * Math.sin(phi2)
+  );
+
+  return {
+    latitude: toDegrees(phi2),
+    longitude: ((toDegrees(lambda2) + 540) % 360) - 180
+  };
+};
+
+/**
+ * Outline of an uncertainty ellipse as a closed ring of [lat, lng] points
+ * @param segments - Number of points on the outline
+ */
+export const ellipsePolygon = (
+  latitude: number,
+  longitude: number,
+  ellipse: UncertaintyEllipse,
+  segments = 48
+): Array<[number, number]> => {
+  const points: Array<[number, number]> = [];
+
+  for (let i = 0; i < segments; i++) {
+    const t = (2 * Math.PI * i) / segments;
+    const along = ellipse.semiMajorAxis * Math.cos(t);
+    const across = ellipse.semiMinorAxis * Math.sin(t);
+    const radius = Math.hypot(along, across);
+    const bearing = ellipse.orientation + toDegrees(Math.atan2(across, along));
+    const point = destinationPoint(latitude, longitude, bearing, radius);
+    points.push([point.latitude, point.longitude]);
+  }
+
+  return points;
+};
+
+const cross = (o: [number, number], a: [number, number], b: [number, number]): number =>
+  (a[1] - o[1]) * (b[0] - o[0]) - (a[0] - o[0]) * (b[1] - o[1]);
+
+/**
+ * Convex hull of [lat, lng] points (monotone chain). Hulls are taken in plain
+ * degrees; over the few tens of kilometres of a tactical area that is close enough.
+ */
+export const convexHull = (points: Array<[number, number]>): Array<[number, number]> => {
+  const sorted = [...points].sort((a, b) => a[1] - b[1] || a[0] - b[0]);
+  if (sorted.length < 3) return sorted;
+
+  const lower: Array<[number, number]> = [];
+  sorted.forEach(point => {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+    lower.push(point);
+  });
+
+  const upper: Array<[number, number]> = [];
+  [...sorted].reverse().forEach(point => {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) upper.pop();
+    upper.push(point);
+  });
+
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+};
@@ -0,0 +1,42 @@
+// components/military-intelligence/utils/leaflet.ts
+import L from 'leaflet';
+import 'leaflet-polylinedecorator';
+import 'leaflet.markercluster';
+import 'leaflet/dist/leaflet.css';
+import 'leaflet.markercluster/dist/MarkerCluster.css';
+import markerIcon from 'leaflet/dist/images/marker-icon.png';
+import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
+import markerShadow from 'leaflet/dist/images/marker-shadow.png';
+
+/**
+ * Bundled Leaflet with the plugins the intelligence maps rely on. Import `L` from
+ * here rather than from 'leaflet' so the plugins and stylesheet are always registered
+ * and the maps work without network access.
+ */
+
+// Leaflet resolves its default marker images relative to the stylesheet URL,
+// which breaks once bundled; point it at the hashed assets instead
+L.Icon.Default.mergeOptions({
+  iconUrl: markerIcon,
+  iconRetinaUrl: markerIcon2x,
+  shadowUrl: markerShadow
+});
+
+export type {
+  DivIcon,
+  LatLngBoundsExpression,
+  LatLngExpression,
+  Layer,
+  LayerGroup,
+  LeafletMouseEvent,
+  Map as LeafletMap,
+  Marker,
+  MarkerCluster,
+  MarkerClusterGroup,
+  Polyline,
+  Popup,
+  TileLayer,
+  TileLayerOptions
+} from 'leaflet';
+
+export default L;
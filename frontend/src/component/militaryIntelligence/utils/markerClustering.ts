@@ -0,0 +1,129 @@
+// components/military-intelligence/utils/markerClustering.ts
+import L, { DivIcon, Marker, MarkerCluster, MarkerClusterGroup } from './leaflet';
+import { SymbolAffiliation } from './militarySymbols';
+
+/**
+ * Zoom-dependent clustering for point markers. A day of collection can put several
+ * hundred emitters on the map; clustering keeps the DOM small, and each cluster shows
+ * how many of its markers are hostile, friend, neutral or unknown.
+ */
+
+export interface ClusterMarkerInfo {
+  kind: string; // what the marker is, e.g. "emitter" or "observation"
+  affiliation: SymbolAffiliation;
+}
+
+// Past this zoom every marker is drawn individually
+export const CLUSTERING_MAX_ZOOM = 14;
+
+// APP-6 frame fill colours, so a cluster reads like the symbols it contains
+const AFFILIATION_COLORS: Record<SymbolAffiliation, string> = {
+  hostile: '#FF8080',
+  friend: '#80E0FF',
+  neutral: '#AAFFAA',
+  unknown: '#FFFF80'
+};
+
+const AFFILIATION_ORDER: SymbolAffiliation[] = ['hostile', 'unknown', 'neutral', 'friend'];
+
+const markerInfo = new WeakMap<Marker, ClusterMarkerInfo>();
+
+/**
+ * Record what a marker shows so the cluster containing it can summarize it. Without an
+ * explicit affiliation the one drawn by its military symbol icon is used.
+ */
+export const describeClusterMarker = (marker: Marker, kind: string, affiliation?: SymbolAffiliation): Marker => {
+  const className = marker.options.icon?.options.className || '';
+  const fromIcon = className.match(/military-symbol-(friend|hostile|neutral|unknown)/)?.[1] as SymbolAffiliation | undefined;
+
+  markerInfo.set(marker, { kind, affiliation: affiliation || fromIcon || 'unknown' });
+  return marker;
+};
+
+/**
+ * Count the markers in a cluster by affiliation and by kind
+ */
+export const summarizeCluster = (cluster: MarkerCluster): {
+  total: number;
+  byAffiliation: Record<SymbolAffiliation, number>;
+  byKind: Record<string, number>;
+} => {
+  const byAffiliation: Record<SymbolAffiliation, number> = { hostile: 0, friend: 0, neutral: 0, unknown: 0 };
+  const byKind: Record<string, number> = {};
+  const markers = cluster.getAllChildMarkers();
+
+  markers.forEach(marker => {
+    const info = markerInfo.get(marker) || { kind: 'marker', affiliation: 'unknown' as const };
+    byAffiliation[info.affiliation]++;
+    byKind[info.kind] = (byKind[info.kind] || 0) + 1;
+  });
+
+  return { total: markers.length, byAffiliation, byKind };
+};
+
+/**
+ * Cluster icon: the marker count inside a ring split by affiliation
+ */
+const createClusterIcon = (cluster: MarkerCluster): DivIcon => {
+  const { total, byAffiliation } = summarizeCluster(cluster);
+
+  let angle = 0;
+  const stops = AFFILIATION_ORDER
+    .filter(affiliation => byAffiliation[affiliation] > 0)
+    .map(affiliation => {
+      const from = angle;
+      angle += (byAffiliation[affiliation] / total) * 360;
+      return `${AFFILIATION_COLORS[affiliation]} ${from}deg ${angle}deg`;
+    });
+
+  const size = total < 10 ? 32 : total < 100 ? 38 : 44;
+
+  return L.divIcon({
+    html: `<div style="width:${size}px;height:${size}px;border-radius:50%;padding:4px;background:conic-gradient(${stops.join(', ')});box-shadow:0 1px 4px rgba(0,0,0,0.6)">
+             <div style="width:100%;height:100%;border-radius:50%;background:rgba(17,24,39,0.9);color:#f3f4f6;display:flex;align-items:center;justify-content:center;font:600 11px/1 monospace">${total}</div>
+           </div>`,
+    className: 'military-cluster',
+    iconSize: [size, size]
+  });
+};
+
+/**
+ * Tooltip listing what a cluster contains
+ */
+const clusterTooltip = (cluster: MarkerCluster): string => {
+  const { byAffiliation, byKind } = summarizeCluster(cluster);
+
+  const kinds = Object.entries(byKind)
+    .sort((a, b) => b[1] - a[1])
+    .map(([kind, count]) => `${count} ${kind}`)
+    .join(' · ');
+
+  const affiliations = AFFILIATION_ORDER
+    .filter(affiliation => byAffiliation[affiliation] > 0)
+    .map(affiliation => `<span style="color:${AFFILIATION_COLORS[affiliation]}">${byAffiliation[affiliation]} ${affiliation}</span>`)
+    .join(' · ');
+
+  return `<div class="text-xs">${kinds}</div><div class="text-xs">${affiliations}</div>`;
+};
+
+/**
+ * Create a cluster group for one map layer; cluster radius shrinks as the analyst zooms in
+ */
+export const createMarkerClusterGroup = (): MarkerClusterGroup => {
+  const group = L.markerClusterGroup({
+    chunkedLoading: true,
+    removeOutsideVisibleBounds: true,
+    showCoverageOnHover: false,
+    spiderfyOnMaxZoom: true,
+    disableClusteringAtZoom: CLUSTERING_MAX_ZOOM + 1,
+    maxClusterRadius: (zoom: number) => (zoom >= 12 ? 30 : zoom >= 9 ? 50 : 80),
+    iconCreateFunction: createClusterIcon
+  });
+
+  group.on('clustermouseover', (event) => {
+    const cluster = event.layer as MarkerCluster;
+    cluster.bindTooltip(clusterTooltip(cluster), { direction: 'top' }).openTooltip();
+  });
+
+  return group;
+};
@@ -0,0 +1,121 @@
+// components/military-intelligence/utils/measurement.ts
+import { formatDistance, formatLatLng } from './coordinateParser';
+import { EARTH_RADIUS_METERS, haversineDistance, initialBearing } from './geodesy';
+
+/**
+ * Ruler and area measurements drawn by the analyst on the map. Distances and
+ * bearings follow the great circle; areas are computed on the sphere.
+ */
+
+export type MeasurementMode = 'distance' | 'area';
+
+export type BearingUnit = 'degrees' | 'mils';
+
+export interface MeasurementPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface MeasurementSegment {
+  distance: number; // meters
+  bearing: number; // degrees true, initial bearing from the segment start
+  cumulative: number; // meters from the first point
+}
+
+// NATO mils: 6400 to the circle
+export const MILS_PER_CIRCLE = 6400;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Distance and bearing of each leg of a path
+ */
+export const measurePath = (points: MeasurementPoint[]): MeasurementSegment[] => {
+  let cumulative = 0;
+
+  return points.slice(1).map((point, index) => {
+    const from = points[index];
+    const distance = haversineDistance(from.lat, from.lng, point.lat, point.lng);
+    cumulative += distance;
+
+    return {
+      distance,
+      bearing: initialBearing(from.lat, from.lng, point.lat, point.lng),
+      cumulative
+    };
+  });
+};
+
+/**
+ * Length of the closed ring around a polygon, including the closing leg
+ */
+export const polygonPerimeter = (points: MeasurementPoint[]): number => {
+  if (points.length < 2) return 0;
+
+  const closed = [...points, points[0]];
+  return measurePath(closed)[closed.length - 2].cumulative;
+};
+
+/**
+ * Area enclosed by a polygon on the sphere
+ * @returns Area in square meters, 0 for fewer than three points
+ */
+export const polygonArea = (points: MeasurementPoint[]): number => {
+  if (points.length < 3) return 0;
+
+  const sum = points.reduce((total, point, index) => {
+    const next = points[(index + 1) % points.length];
+    return total + toRadians(next.lng - point.lng) *
+      (2 + Math.sin(toRadians(point.lat)) + Math.sin(toRadians(next.lat)));
+  }, 0);
+
+  return Math.abs(sum * EARTH_RADIUS_METERS * EARTH_RADIUS_METERS / 2);
+};
+
+/**
+ * Format a bearing, e.g. "047.5°" or "0844 mils"
+ */
+export const formatBearing = (degrees: number, unit: BearingUnit = 'degrees'): string => {
+  if (unit === 'mils') {
+    const mils = Math.round(degrees / 360 * MILS_PER_CIRCLE) % MILS_PER_CIRCLE;
+    return `${String(mils).padStart(4, '0')} mils`;
+  }
+  return `${degrees.toFixed(1).padStart(5, '0')}°`;
+};
+
+/**
+ * Format an area, e.g. "850 m²", "12.4 ha" or "37.2 km²"
+ */
+export const formatArea = (squareMeters: number): string => {
+  if (squareMeters >= 1000000) return `${(squareMeters / 1000000).toFixed(1)} km²`;
+  if (squareMeters >= 10000) return `${(squareMeters / 10000).toFixed(1)} ha`;
+  return `${Math.round(squareMeters)} m²`;
+};
+
+/**
+ * Plain-text summary of a measurement for the clipboard or an entity note
+ */
+export const formatMeasurement = (
+  mode: MeasurementMode,
+  points: MeasurementPoint[],
+  unit: BearingUnit = 'degrees'
+): string => {
+  if (points.length === 0) return '';
+
+  const lines = [`From ${formatLatLng(points[0].lat, points[0].lng, 5)}`];
+  const legs = mode === 'area' && points.length >= 3 ? [...points, points[0]] : points;
+
+  measurePath(legs).forEach((segment, index) => {
+    const to = legs[index + 1];
+    lines.push(
+      `${index + 1}. ${formatDistance(segment.distance)} on ${formatBearing(segment.bearing, unit)} ` +
+      `to ${formatLatLng(to.lat, to.lng, 5)} (total ${formatDistance(segment.cumulative)})`
+    );
+  });
+
+  if (mode === 'area' && points.length >= 3) {
+    lines.push(`Area ${formatArea(polygonArea(points))}, perimeter ${formatDistance(polygonPerimeter(points))}`);
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,330 @@
+// components/military-intelligence/utils/militarySymbols.ts
+import ms from 'milsymbol';
+import type { Symbol as MilitarySymbol } from 'milsymbol';
+import L, { DivIcon } from './leaflet';
+import { QualityScore, TacticalObservation } from '../../../type/intelligence';
+
+/**
+ * APP-6 / MIL-STD-2525 symbols for map markers. A symbol is described by its
+ * attributes (affiliation, dimension, function, echelon, status, confidence) and
+ * rendered with milsymbol from a letter-based SIDC, so every layer draws the same
+ * entity the same way.
+ */
+
+export type SymbolAffiliation = 'friend' | 'hostile' | 'neutral' | 'unknown';
+
+export type SymbolDimension = 'ground' | 'air' | 'sea';
+
+export type SymbolStatus = 'present' | 'anticipated' | 'damaged' | 'destroyed';
+
+export type SymbolEchelon =
+  | 'team' | 'squad' | 'section' | 'platoon' | 'company' | 'battalion'
+  | 'regiment' | 'brigade' | 'division' | 'corps' | 'army';
+
+export interface SymbolSpec {
+  affiliation: SymbolAffiliation;
+  dimension: SymbolDimension;
+  functionId?: string; // six-character function ID, e.g. UCI--- for infantry
+  echelon?: SymbolEchelon;
+  headquarters?: boolean;
+  status?: SymbolStatus;
+  confidence?: QualityScore;
+  designation?: string; // field T, unique designation
+  additionalInformation?: string; // field H
+  quantity?: number; // field C
+  direction?: number; // degrees true, drawn as a direction of movement arrow
+  altitude?: string; // field X, e.g. "FL250" or "3000 ft"
+}
+
+export const SYMBOL_STANDARD = 'APP6';
+
+const DEFAULT_SYMBOL_SIZE = 24;
+
+const AFFILIATION_CODES: Record<SymbolAffiliation, string> = {
+  friend: 'F',
+  hostile: 'H',
+  neutral: 'N',
+  unknown: 'U'
+};
+
+// Affiliation shown when the identification itself is in doubt
+const LOW_CONFIDENCE_AFFILIATION_CODES: Record<SymbolAffiliation, string> = {
+  friend: 'A', // assumed friend
+  hostile: 'S', // suspect
+  neutral: 'N',
+  unknown: 'P' // pending
+};
+
+const DIMENSION_CODES: Record<SymbolDimension, string> = {
+  ground: 'G',
+  air: 'A',
+  sea: 'S'
+};
+
+const STATUS_CODES: Record<SymbolStatus, string> = {
+  present: 'P',
+  anticipated: 'A',
+  damaged: 'D',
+  destroyed: 'X'
+};
+
+const ECHELON_CODES: Record<SymbolEchelon, string> = {
+  team: 'A',
+  squad: 'B',
+  section: 'C',
+  platoon: 'D',
+  company: 'E',
+  battalion: 'F',
+  regiment: 'G',
+  brigade: 'H',
+  division: 'I',
+  corps: 'J',
+  army: 'K'
+};
+
+// Generic function IDs used when nothing more specific is known
+export const SYMBOL_FUNCTIONS = {
+  unit: 'U-----',
+  infantry: 'UCI---',
+  mechanizedInfantry: 'UCIZ--',
+  armour: 'UCA---',
+  artillery: 'UCF---',
+  airDefence: 'UCD---',
+  reconnaissance: 'UCR---',
+  engineer: 'UCE---',
+  combatServiceSupport: 'US----',
+  groundVehicle: 'EV----',
+  sensor: 'ES----',
+  radar: 'ESR---',
+  fixedWing: 'MF----',
+  rotaryWing: 'MH----',
+  uav: 'MFQ---',
+  surfaceCombatant: 'C-----',
+  none: '------'
+};
+
+// Checked in order, so more specific phrases come first
+const ECHELON_KEYWORDS: Array<[RegExp, SymbolEchelon]> = [
+  [/\b(army group|armies|army)\b/i, 'army'],
+  [/\bcorps\b/i, 'corps'],
+  [/\b(division|div)\b/i, 'division'],
+  [/\b(brigade|bde)\b/i, 'brigade'],
+  [/\b(regiment|rgt|regt)\b/i, 'regiment'],
+  [/\b(battalion|bn|squadron|sqn)\b/i, 'battalion'],
+  [/\b(company|coy|battery|bty|troop)\b/i, 'company'],
+  [/\b(platoon|plt|detachment|det)\b/i, 'platoon'],
+  [/\b(section|sect)\b/i, 'section'],
+  [/\bsquad\b/i, 'squad'],
+  [/\b(team|crew)\b/i, 'team']
+];
+
+const PARTY_PATTERN = /\b(enemy|hostile|opfor|adversary|insurgents?|friendly|own forces|allied|blue force|civilians?|refugees?)\b/gi;
+
+const FUNCTION_KEYWORDS: Array<[RegExp, string, SymbolDimension]> = [
+  [/\b(uav|uas|drones?)\b/i, SYMBOL_FUNCTIONS.uav, 'air'],
+  [/\b(helicopters?|helos?|rotary)\b/i, SYMBOL_FUNCTIONS.rotaryWing, 'air'],
+  [/\b(aircraft|jets?|fighter jets?|bombers?|fixed[- ]wing)\b/i, SYMBOL_FUNCTIONS.fixedWing, 'air'],
+  [/\b(warships?|vessels?|frigates?|corvettes?|destroyers?|patrol boats?)\b/i, SYMBOL_FUNCTIONS.surfaceCombatant, 'sea'],
+  [/\b(air defen[cs]e|sam|anti-aircraft|aaa|manpads)\b/i, SYMBOL_FUNCTIONS.airDefence, 'ground'],
+  [/\b(radars?)\b/i, SYMBOL_FUNCTIONS.radar, 'ground'],
+  [/\b(mechani[sz]ed|ifvs?|apcs?|bmps?|btrs?)\b/i, SYMBOL_FUNCTIONS.mechanizedInfantry, 'ground'],
+  [/\b(tanks?|armou?r(ed)?)\b/i, SYMBOL_FUNCTIONS.armour, 'ground'],
+  [/\b(artillery|howitzers?|mortars?|mlrs|rocket launchers?|guns)\b/i, SYMBOL_FUNCTIONS.artillery, 'ground'],
+  [/\b(recon(naissance)?|scouts?|patrols?)\b/i, SYMBOL_FUNCTIONS.reconnaissance, 'ground'],
+  [/\b(engineers?|sappers?|bridging)\b/i, SYMBOL_FUNCTIONS.engineer, 'ground'],
+  [/\b(logistics|supply|supplies|fuel)\b/i, SYMBOL_FUNCTIONS.combatServiceSupport, 'ground'],
+  [/\b(infantry|troops|soldiers|dismounts?|fighters)\b/i, SYMBOL_FUNCTIONS.infantry, 'ground'],
+  [/\b(vehicles?|trucks?|convoys?|columns?)\b/i, SYMBOL_FUNCTIONS.groundVehicle, 'ground']
+];
+
+/**
+ * Affiliation for a force as reported in HUMINT ('enemy', 'friendly', 'civilian', ...).
+ * Whole words only, so that 'unknown', 'town' or 'down' never read as friendly.
+ */
+export const affiliationFromForce = (force: string | undefined): SymbolAffiliation => {
+  const value = (force || '').toLowerCase();
+  if (/\b(unknown|unidentified)\b/.test(value)) return 'unknown';
+  if (/\b(enem(y|ies)|hostile|opfor|adversary|insurgents?)\b/.test(value)) return 'hostile';
+  if (/\b(friend(ly|s)?|own|allied|allies|blue|blufor)\b/.test(value)) return 'friend';
+  if (/\b(civilians?|neutral|ngos?|refugees?)\b/.test(value)) return 'neutral';
+  return 'unknown';
+};
+
+/**
+ * Echelon from a free-text size or echelon, e.g. "BN", "company", "2 platoons"
+ */
+export const echelonFromText = (text: string | undefined): SymbolEchelon | undefined => {
+  if (!text) return undefined;
+  return ECHELON_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1];
+};
+
+/**
+ * Status from a reported condition such as 'damaged' or 'destroyed'
+ */
+export const statusFromCondition = (condition: string | undefined): SymbolStatus => {
+  const value = (condition || '').toLowerCase();
+  if (value.includes('destroy')) return 'destroyed';
+  if (value.includes('damage')) return 'damaged';
+  return 'present';
+};
+
+/**
+ * Work out a symbol from a sentence of a report: who (affiliation), what (unit type or
+ * equipment), how big (echelon) and in what state
+ * @param defaults - Attributes to use when the text does not say, e.g. a known affiliation
+ * @returns The symbol, and whether the text named any force or equipment at all
+ */
+export const symbolFromText = (
+  text: string | undefined,
+  defaults: Partial<SymbolSpec> = {}
+): { spec: SymbolSpec; recognized: boolean } => {
+  const value = text || '';
+
+  // Enemy wording wins when a sentence mentions several parties
+  const parties = (value.match(PARTY_PATTERN) || []).map(affiliationFromForce);
+  const mentioned = (['hostile', 'friend', 'neutral'] as SymbolAffiliation[])
+    .find(affiliation => parties.includes(affiliation));
+
+  const functionMatch = FUNCTION_KEYWORDS.find(([pattern]) => pattern.test(value));
+  const echelon = echelonFromText(value);
+  const headquarters = /\b(hq|headquarters|command post|cp)\b/i.test(value);
+
+  const spec: SymbolSpec = {
+    affiliation: mentioned || 'unknown',
+    dimension: functionMatch?.[2] || 'ground',
+    functionId: functionMatch?.[1] || SYMBOL_FUNCTIONS.unit,
+    ...(echelon && { echelon }),
+    ...(headquarters && { headquarters }),
+    status: statusFromCondition(value.match(/\b(destroyed|damaged)\b/i)?.[0]),
+    ...defaults
+  };
+
+  return {
+    spec,
+    recognized: Boolean(mentioned || functionMatch || echelon || headquarters)
+  };
+};
+
+/**
+ * Symbol for a force the HUMINT analysis reported with structured attributes. Force,
+ * size and status come from those fields; only the unit type is read from the
+ * reported equipment, or from the sentence when no equipment was given.
+ */
+export const symbolFromReportedForce = (
+  entities: NonNullable<TacticalObservation['entities']>,
+  text?: string
+): SymbolSpec => {
+  const { spec } = symbolFromText(entities.equipment || text);
+  const echelon = echelonFromText(entities.size) || spec.echelon;
+
+  return {
+    affiliation: affiliationFromForce(entities.force),
+    dimension: spec.dimension,
+    ...(spec.functionId && { functionId: spec.functionId }),
+    ...(echelon && { echelon }),
+    ...(spec.headquarters && { headquarters: spec.headquarters }),
+    status: statusFromCondition(entities.status)
+  };
+};
+
+/**
+ * Symbol for an intercepted emitter. Emitters stay unknown until another source
+ * identifies them; airborne and shipborne emitters take their platform's frame.
+ */
+export const symbolForEmitter = (
+  emitterType: string | undefined,
+  platformType?: string,
+  defaults: Partial<SymbolSpec> = {}
+): SymbolSpec => {
+  const platform = (platformType || '').toLowerCase();
+  const isRadar = !emitterType || /radar|unknown/i.test(emitterType);
+
+  const platformFrame: Pick<SymbolSpec, 'dimension' | 'functionId'> =
+    /air|aircraft|helicopter|uav/.test(platform)
+      ? { dimension: 'air', functionId: /helicopter/.test(platform) ? SYMBOL_FUNCTIONS.rotaryWing : SYMBOL_FUNCTIONS.fixedWing }
+      : /naval|ship|vessel/.test(platform)
+        ? { dimension: 'sea', functionId: SYMBOL_FUNCTIONS.surfaceCombatant }
+        : { dimension: 'ground', functionId: isRadar ? SYMBOL_FUNCTIONS.radar : SYMBOL_FUNCTIONS.sensor };
+
+  return {
+    affiliation: 'unknown',
+    ...platformFrame,
+    ...defaults
+  };
+};
+
+/**
+ * Letter-based SIDC (2525C / APP-6B layout) for a symbol
+ */
+export const buildSidc = (spec: SymbolSpec): string => {
+  const lowConfidence = spec.confidence === 'low' || spec.confidence === 'fallback';
+  const affiliation = lowConfidence
+    ? LOW_CONFIDENCE_AFFILIATION_CODES[spec.affiliation]
+    : AFFILIATION_CODES[spec.affiliation];
+
+  // Unconfirmed sightings are drawn with the dashed "anticipated" frame
+  const status = lowConfidence && (!spec.status || spec.status === 'present')
+    ? STATUS_CODES.anticipated
+    : STATUS_CODES[spec.status || 'present'];
+
+  const functionId = (spec.functionId || SYMBOL_FUNCTIONS.unit).padEnd(6, '-').slice(0, 6);
+
+  // Echelon and headquarters only apply to units, not equipment
+  const isUnit = spec.dimension === 'ground' && functionId.startsWith('U');
+  const modifier = isUnit && spec.headquarters ? 'A' : '-';
+  const echelon = isUnit && spec.echelon ? ECHELON_CODES[spec.echelon] : '-';
+
+  return `S${affiliation}${DIMENSION_CODES[spec.dimension]}${status}${functionId}${modifier}${echelon}---`;
+};
+
+/**
+ * Render a symbol with milsymbol; unknown function IDs fall back to the bare frame
+ */
+export const createMilitarySymbol = (spec: SymbolSpec, size: number = DEFAULT_SYMBOL_SIZE): MilitarySymbol => {
+  const options = {
+    size,
+    standard: SYMBOL_STANDARD,
+    ...(spec.designation && { uniqueDesignation: spec.designation }),
+    ...(spec.additionalInformation && { additionalInformation: spec.additionalInformation }),
+    ...(spec.quantity !== undefined && { quantity: String(spec.quantity) }),
+    ...(spec.direction !== undefined && { direction: spec.direction }),
+    ...(spec.altitude && { altitudeDepth: spec.altitude }),
+    infoColor: '#e5e7eb',
+    outlineColor: 'rgba(17, 24, 39, 0.8)',
+    outlineWidth: 2
+  };
+
+  const symbol = new ms.Symbol(buildSidc(spec), options);
+  return symbol.isValid()
+    ? symbol
+    : new ms.Symbol(buildSidc({ ...spec, functionId: SYMBOL_FUNCTIONS.none }), options);
+};
+
+/**
+ * Leaflet marker icon for a symbol, anchored on the symbol's position point
+ */
+export const createSymbolIcon = (spec: SymbolSpec, size: number = DEFAULT_SYMBOL_SIZE): DivIcon => {
+  const symbol = createMilitarySymbol(spec, size);
+  const { width, height } = symbol.getSize();
+  const anchor = symbol.getAnchor();
+
+  return L.divIcon({
+    html: symbol.asSVG(),
+    className: `military-symbol military-symbol-${spec.affiliation}`,
+    iconSize: [width, height],
+    iconAnchor: [anchor.x, anchor.y],
+    popupAnchor: [0, -anchor.y]
+  });
+};
+
+/**
+ * Entries for the map legend: one per affiliation, plus the low-confidence variant
+ */
+export const SYMBOL_LEGEND: Array<{ label: string; spec: SymbolSpec }> = [
+  { label: 'Hostile', spec: { affiliation: 'hostile', dimension: 'ground', functionId: SYMBOL_FUNCTIONS.unit } },
+  { label: 'Suspect (low confidence)', spec: { affiliation: 'hostile', dimension: 'ground', functionId: SYMBOL_FUNCTIONS.unit, confidence: 'low' } },
+  { label: 'Friend', spec: { affiliation: 'friend', dimension: 'ground', functionId: SYMBOL_FUNCTIONS.unit } },
+  { label: 'Neutral', spec: { affiliation: 'neutral', dimension: 'ground', functionId: SYMBOL_FUNCTIONS.unit } },
+  { label: 'Unknown', spec: { affiliation: 'unknown', dimension: 'ground', functionId: SYMBOL_FUNCTIONS.unit } },
+  { label: 'Emitter (radar)', spec: { affiliation: 'unknown', dimension: 'ground', functionId: SYMBOL_FUNCTIONS.radar } }
+];
@@ -0,0 +1,78 @@
+// components/military-intelligence/utils/predictionCone.ts
+import { getPredictedEmitterLocations } from '../../../api/intelligenceService';
+import { APIError } from '../../../api/fieldReport';
+import { EmitterPredictionOptions, EmitterPredictionResponse } from '../../../type/sigintTypes';
+import { convexHull, destinationPoint } from './geodesy';
+
+/**
+ * Uncertainty cones for predicted emitter positions. Each predicted position carries
+ * a radius that grows with time; the cone is the hull of the last fix and those
+ * circles, so it widens from the emitter along its expected path.
+ */
+
+export interface ConePosition {
+  latitude: number;
+  longitude: number;
+  radius: number; // meters
+}
+
+export const DEFAULT_PREDICTION_OPTIONS: EmitterPredictionOptions = {
+  timeframe: 60,
+  intervals: 6,
+  confidenceLevel: 0.9
+};
+
+/**
+ * Predict an emitter's positions on the backend
+ * @returns The prediction, or a message saying why there is none
+ */
+export const loadEmitterPrediction = async (
+  emitterId: string,
+  options: EmitterPredictionOptions = DEFAULT_PREDICTION_OPTIONS
+): Promise<EmitterPredictionResponse | { error: string }> => {
+  try {
+    return await getPredictedEmitterLocations(emitterId, options);
+  } catch (error) {
+    console.warn('Unable to predict emitter locations:', error);
+    if (error instanceof APIError && error.status === 401) {
+      return { error: 'Sign in to predict emitter locations' };
+    }
+    return { error: error instanceof Error ? error.message : 'Unable to predict emitter locations' };
+  }
+};
+
+const CIRCLE_SEGMENTS = 24;
+
+/**
+ * Outline of the cone from the first position through the rest, as [lat, lng] points
+ */
+export const uncertaintyCone = (positions: ConePosition[]): Array<[number, number]> =>
+  convexHull(positions.flatMap(position => {
+    if (!(position.radius > 0)) return [[position.latitude, position.longitude] as [number, number]];
+
+    return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+      const point = destinationPoint(position.latitude, position.longitude, (360 * i) / CIRCLE_SEGMENTS, position.radius);
+      return [point.latitude, point.longitude] as [number, number];
+    });
+  }));
+
+/**
+ * Cones out to each predicted position in turn, widest first so that nearer-term
+ * cones draw on top and the shading deepens towards the emitter
+ */
+export const uncertaintyConeBands = (
+  origin: ConePosition,
+  predictions: ConePosition[]
+): Array<{ outline: Array<[number, number]>; step: number }> =>
+  predictions
+    .map((_, index) => ({
+      outline: uncertaintyCone([origin, ...predictions.slice(0, index + 1)]),
+      step: index + 1
+    }))
+    .reverse();
+
+/**
+ * Label for a prediction step, such as "+30 min" or "+2 h"
+ */
+export const formatMinutesAhead = (minutes: number): string =>
+  minutes < 60 ? `+${Math.round(minutes)} min` : `+${Math.round((minutes / 60) * 10) / 10} h`;
@@ -0,0 +1,83 @@
+// components/military-intelligence/utils/radarCoverage.ts
+import { getRadarCoverage } from '../../../api/intelligenceService';
+import { CatalogueSystem, RadarCoverage, RadarCoverageElement } from '../../../type/sigintTypes';
+import { correctTruncatedLatitude } from './areaOfOperations';
+import { formatDistance } from './coordinateParser';
+import { getSystemRange } from './radarUtils';
+
+/**
+ * Coverage of air defence radars in the electronic order of battle, computed on the
+ * backend from local elevation data: radar horizon, antenna and target height, and
+ * masking by terrain between the radar and the target.
+ */
+
+export interface CoverageSourceElement {
+  id: string;
+  systemName?: string;
+  type?: string;
+  location?: { latitude: number; longitude: number };
+}
+
+export const COVERAGE_TARGET_ALTITUDES: Array<{ value: number; label: string }> = [
+  { value: 30, label: '30 m (nap of the earth)' },
+  { value: 100, label: '100 m' },
+  { value: 300, label: '300 m' },
+  { value: 1000, label: '1,000 m' },
+  { value: 5000, label: '5,000 m' }
+];
+
+export const DEFAULT_COVERAGE_TARGET_ALTITUDE = 100;
+
+// Radars the backend computes in one request
+export const MAX_COVERAGE_ELEMENTS = 20;
+
+/**
+ * Radars to request coverage for: located air defence elements with the range of their
+ * system, taken from the catalogue where it lists the system
+ */
+export const coverageElementsFromEob = (
+  elements: CoverageSourceElement[] = [],
+  catalogue: CatalogueSystem[] = []
+): RadarCoverageElement[] =>
+  elements
+    .filter((element): element is CoverageSourceElement & { location: { latitude: number; longitude: number } } =>
+      !!element.location &&
+      typeof element.location.latitude === 'number' &&
+      typeof element.location.longitude === 'number')
+    .map(element => ({
+      id: element.id,
+      latitude: correctTruncatedLatitude(element.location.latitude, element.location.longitude),
+      longitude: element.location.longitude,
+      range: getSystemRange(element.systemName || '', element.type || '', catalogue)
+    }));
+
+/**
+ * Fetch coverage for a set of radars against a target at the given height above ground.
+ * Only the first MAX_COVERAGE_ELEMENTS radars are requested.
+ * @returns Coverage per radar, or null if the backend could not compute it
+ */
+export const loadRadarCoverage = async (
+  elements: RadarCoverageElement[],
+  targetAltitude: number
+): Promise<RadarCoverage[] | null> => {
+  if (elements.length === 0) return [];
+
+  try {
+    const response = await getRadarCoverage(elements.slice(0, MAX_COVERAGE_ELEMENTS), targetAltitude);
+    return response.coverage || [];
+  } catch (error) {
+    console.warn('Unable to compute radar coverage:', error);
+    return null;
+  }
+};
+
+/**
+ * Tooltip lines describing how a coverage polygon was derived
+ */
+export const describeRadarCoverage = (coverage: RadarCoverage): string[] => [
+  `Target at ${coverage.targetAltitude.toLocaleString()} m above ground`,
+  `Range ${formatDistance(coverage.maxRange)}, radar horizon ${formatDistance(coverage.horizonRange)}`,
+  coverage.terrainAware
+    ? `Terrain masks ${Math.round(coverage.maskedFraction * 100)}% of bearings`
+    : 'No elevation data: smooth-earth horizon only'
+];
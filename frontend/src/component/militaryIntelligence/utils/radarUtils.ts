@@ -1,12 +1,16 @@
 // Utility functions for processing radar emitter data
 // These should be placed in a separate utility file like radarUtils.ts
+import { correctTruncatedLatitude } from './areaOfOperations';
+import { catalogueSystemRange, findCatalogueSystem } from './systemCatalogue';
+import { CatalogueSystem } from '../../../type/sigintTypes';
 
 /**
  * Processes SIGINT data to extract radar emitter information
  * @param sigintData The raw SIGINT analysis data
+ * @param catalogue System catalogue for air defence ranges
  * @returns Processed radar information for mapping
  */
-export const processRadarEmitters = (sigintData: any) => {
+export const processRadarEmitters = (sigintData: any, catalogue: CatalogueSystem[] = []) => {
     if (!sigintData || !sigintData.emitters || !Array.isArray(sigintData.emitters)) {
       return {
         emitters: [],
@@ -27,14 +31,9 @@ export const processRadarEmitters = (sigintData: any) => {
       let accuracy = 500; // Default accuracy in meters
       
       if (latestLocation && latestLocation.location) {
-        // Fix for truncated coordinates (Ukraine is around 47-50°N)
-        let lat = latestLocation.location.latitude;
+        // Repair truncated latitudes against the area of operations
         const lng = latestLocation.location.longitude;
-        
-        // If a lat value is less than 10 but should be in Ukraine, add 40
-        if (lat < 10 && lng > 30 && lng < 41) {
-          lat = 40 + lat;
-        }
+        const lat = correctTruncatedLatitude(latestLocation.location.latitude, lng);
         
         coordinates = { lat, lng };
         accuracy = latestLocation.accuracy || accuracy;
@@ -48,13 +47,9 @@ export const processRadarEmitters = (sigintData: any) => {
           path: movement.path.map((point: any) => {
             if (!point.location) return null;
             
-            // Fix for truncated coordinates
-            let lat = point.location.latitude;
+            // Repair truncated latitudes
             const lng = point.location.longitude;
-            
-            if (lat < 10 && lng > 30 && lng < 41) {
-              lat = 40 + lat;
-            }
+            const lat = correctTruncatedLatitude(point.location.latitude, lng);
             
             return { lat, lng, timestamp: point.timestamp };
           }).filter(Boolean),
@@ -82,13 +77,9 @@ export const processRadarEmitters = (sigintData: any) => {
       const predictedLocations = (emitter.predictedLocations || []).map((prediction: any) => {
         if (!prediction.location) return null;
         
-        // Fix for truncated coordinates
-        let lat = prediction.location.latitude;
+        // Repair truncated latitudes
         const lng = prediction.location.longitude;
-        
-        if (lat < 10 && lng > 30 && lng < 41) {
-          lat = 40 + lat;
-        }
+        const lat = correctTruncatedLatitude(prediction.location.latitude, lng);
         
         return {
           coordinates: { lat, lng },
@@ -104,13 +95,9 @@ export const processRadarEmitters = (sigintData: any) => {
         .map((location: any) => {
           if (!location.location) return null;
           
-          // Fix for truncated coordinates
-          let lat = location.location.latitude;
+          // Repair truncated latitudes
           const lng = location.location.longitude;
-          
-          if (lat < 10 && lng > 30 && lng < 41) {
-            lat = 40 + lat;
-          }
+          const lat = correctTruncatedLatitude(location.location.latitude, lng);
           
           return { lat, lng, timestamp: location.timestamp };
         }).filter(Boolean);
@@ -144,7 +131,7 @@ export const processRadarEmitters = (sigintData: any) => {
     });
     
     // Generate coverage areas based on emitter distribution
-    const coverageAreas = generateCoverageAreas(sigintData);
+    const coverageAreas = generateCoverageAreas(sigintData, catalogue);
     
     // Generate transmission paths (for comms or data links)
     const transmissionPaths = generateTransmissionPaths(sigintData);
@@ -159,9 +146,10 @@ export const processRadarEmitters = (sigintData: any) => {
   /**
    * Generate coverage areas based on emitter density
    * @param sigintData The SIGINT analysis data
+   * @param catalogue System catalogue for air defence ranges
    * @returns Array of coverage areas
    */
-  function generateCoverageAreas(sigintData: any) {
+  function generateCoverageAreas(sigintData: any, catalogue: CatalogueSystem[]) {
     if (!sigintData || !sigintData.emitters || !Array.isArray(sigintData.emitters)) {
       return [];
     }
@@ -192,7 +180,7 @@ export const processRadarEmitters = (sigintData: any) => {
         if (!element.location) return;
         
         // Create circular coverage area based on system type and range
-        const radius = getSystemRange(element.systemName, element.type);
+        const radius = getSystemRange(element.systemName, element.type, catalogue);
         
         coverageAreas.push({
           id: `air-defense-${index}`,
@@ -213,23 +201,28 @@ export const processRadarEmitters = (sigintData: any) => {
    * Get estimated range for a given air defense system
    * @param systemName The name of the air defense system
    * @param systemType The type of the system
+   * @param catalogue System catalogue to look the name up in
    * @returns Estimated range in meters
    */
-  function getSystemRange(systemName: string, systemType: string): number {
+  export function getSystemRange(systemName: string, systemType: string, catalogue: CatalogueSystem[] = []): number {
+    // Systems in the catalogue use its figures
+    const system = findCatalogueSystem(catalogue, systemName);
+    const catalogueRange = system ? catalogueSystemRange(system) : null;
+    if (catalogueRange) return catalogueRange;
+    
     // Default range for unknown systems
     let range = 20000; // 20km
     
-    // Check system type
+    // Otherwise go by the reported type
     const type = systemType?.toLowerCase() || '';
-    const name = systemName?.toLowerCase() || '';
     
-    if (type.includes('long') || name.includes('s-300') || name.includes('s-400')) {
+    if (type.includes('long')) {
       range = 200000; // 200km for long-range systems
-    } else if (type.includes('medium') || name.includes('buk') || name.includes('kub')) {
+    } else if (type.includes('medium')) {
       range = 50000; // 50km for medium-range systems
-    } else if (type.includes('short') || name.includes('tor') || name.includes('osa')) {
+    } else if (type.includes('short')) {
       range = 15000; // 15km for short-range systems
-    } else if (type.includes('manpad') || name.includes('igla') || name.includes('stinger')) {
+    } else if (type.includes('manpad')) {
       range = 5000; // 5km for MANPADS
     }
     
@@ -272,9 +265,10 @@ export const processRadarEmitters = (sigintData: any) => {
   /**
    * Processes EOB data to extract military units and deployments
    * @param sigintData The raw SIGINT analysis data
+   * @param catalogue System catalogue for air defence ranges
    * @returns Processed EOB data for mapping
    */
-  export const processElectronicOrderOfBattle = (sigintData: any) => {
+  export const processElectronicOrderOfBattle = (sigintData: any, catalogue: CatalogueSystem[] = []) => {
     if (!sigintData || !sigintData.electronicOrderOfBattle) {
       return {
         airDefense: [],
@@ -291,20 +285,16 @@ export const processRadarEmitters = (sigintData: any) => {
     const airDefense = (eob.airDefenseElements || []).map((element: any) => {
       if (!element.location) return null;
       
-      // Fix for truncated coordinates if needed
-      let lat = element.location.latitude;
+      // Repair truncated latitudes
       const lng = element.location.longitude;
-      
-      if (lat < 10 && lng > 30 && lng < 41) {
-        lat = 40 + lat;
-      }
+      const lat = correctTruncatedLatitude(element.location.latitude, lng);
       
       return {
         id: element.id || `air-defense-${Math.random().toString(36).substring(2, 11)}`,
         name: element.systemName || 'Unknown Air Defense',
         type: element.type || 'sam',
         coordinates: { lat, lng },
-        range: getSystemRange(element.systemName, element.type),
+        range: getSystemRange(element.systemName, element.type, catalogue),
         quantity: element.quantity || 1,
         confidence: element.confidence || 'medium',
         lastUpdated: element.lastUpdated || new Date().toISOString()
@@ -315,13 +305,9 @@ export const processRadarEmitters = (sigintData: any) => {
     const groundForces = (eob.groundForceElements || []).map((element: any) => {
       if (!element.location) return null;
       
-      // Fix for truncated coordinates if needed
-      let lat = element.location.latitude;
+      // Repair truncated latitudes
       const lng = element.location.longitude;
-      
-      if (lat < 10 && lng > 30 && lng < 41) {
-        lat = 40 + lat;
-      }
+      const lat = correctTruncatedLatitude(element.location.latitude, lng);
       
       return {
         id: element.id || `ground-${Math.random().toString(36).substring(2, 11)}`,
@@ -339,13 +325,9 @@ export const processRadarEmitters = (sigintData: any) => {
     const navalForces = (eob.navalElements || []).map((element: any) => {
       if (!element.location) return null;
       
-      // Fix for truncated coordinates if needed
-      let lat = element.location.latitude;
+      // Repair truncated latitudes
       const lng = element.location.longitude;
-      
-      if (lat < 10 && lng > 30 && lng < 41) {
-        lat = 40 + lat;
-      }
+      const lat = correctTruncatedLatitude(element.location.latitude, lng);
       
       return {
         id: element.id || `naval-${Math.random().toString(36).substring(2, 11)}`,
@@ -364,13 +346,9 @@ export const processRadarEmitters = (sigintData: any) => {
     const airForces = (eob.airElements || []).map((element: any) => {
       if (!element.location) return null;
       
-      // Fix for truncated coordinates if needed
-      let lat = element.location.latitude;
+      // Repair truncated latitudes
       const lng = element.location.longitude;
-      
-      if (lat < 10 && lng > 30 && lng < 41) {
-        lat = 40 + lat;
-      }
+      const lat = correctTruncatedLatitude(element.location.latitude, lng);
       
       return {
         id: element.id || `air-${Math.random().toString(36).substring(2, 11)}`,
@@ -391,13 +369,9 @@ export const processRadarEmitters = (sigintData: any) => {
     const unknown = (eob.unknownElements || []).map((element: any) => {
       if (!element.location) return null;
       
-      // Fix for truncated coordinates if needed
-      let lat = element.location.latitude;
+      // Repair truncated latitudes
       const lng = element.location.longitude;
-      
-      if (lat < 10 && lng > 30 && lng < 41) {
-        lat = 40 + lat;
-      }
+      const lat = correctTruncatedLatitude(element.location.latitude, lng);
       
       return {
         id: element.id || `unknown-${Math.random().toString(36).substring(2, 11)}`,
@@ -0,0 +1,244 @@
+// components/military-intelligence/utils/relativeLocation.ts
+import { findCoordinatesInText } from './coordinateParser';
+import { GazetteerIndex, PlaceResolution, resolvePlaceName } from './gazetteer';
+import { AreaOfOperations } from './areaOfOperations';
+import { UncertaintyEllipse, destinationPoint, normalizeBearing } from './geodesy';
+
+/**
+ * Resolver for positions given relative to a known place, such as
+ * "10 km north of Kharkiv", "2.5km NNE of Mala Danylivka",
+ * "800 m on bearing 120° from 37U DQ 1234 5678" or "3 km from Izium, bearing 045".
+ * The projected point carries an uncertainty ellipse combining the precision of
+ * the distance, the width of the stated direction and the anchor's own uncertainty.
+ */
+
+export interface RelativeLocation {
+  raw: string;
+  index: number;
+  distance: number; // meters
+  bearing: number; // degrees true
+  bearingTolerance: number; // ± degrees implied by how the direction was stated
+  anchorName: string;
+  anchor: {
+    latitude: number;
+    longitude: number;
+    uncertainty: number; // meters
+    resolution?: PlaceResolution;
+  };
+  latitude: number;
+  longitude: number;
+  uncertainty: number; // meters, semi-major axis of the ellipse
+  ellipse: UncertaintyEllipse;
+}
+
+export interface RelativeLocationOptions {
+  gazetteer?: GazetteerIndex | null;
+  areaOfOperations?: AreaOfOperations;
+}
+
+const UNIT_METERS: Array<[RegExp, number]> = [
+  [/^(?:nm|nmi|nautical miles?)$/i, 1852],
+  [/^(?:mi|miles?)$/i, 1609.344],
+  [/^(?:km|kms|k|klicks?|kilomet(?:er|re)s?)$/i, 1000],
+  [/^(?:m|met(?:er|re)s?)$/i, 1]
+];
+
+const COMPASS_POINTS: Record<string, number> = {
+  'north': 0, 'n': 0,
+  'north-northeast': 22.5, 'north-north-east': 22.5, 'nne': 22.5,
+  'northeast': 45, 'north-east': 45, 'ne': 45,
+  'east-northeast': 67.5, 'east-north-east': 67.5, 'ene': 67.5,
+  'east': 90, 'e': 90,
+  'east-southeast': 112.5, 'east-south-east': 112.5, 'ese': 112.5,
+  'southeast': 135, 'south-east': 135, 'se': 135,
+  'south-southeast': 157.5, 'south-south-east': 157.5, 'sse': 157.5,
+  'south': 180, 's': 180,
+  'south-southwest': 202.5, 'south-south-west': 202.5, 'ssw': 202.5,
+  'southwest': 225, 'south-west': 225, 'sw': 225,
+  'west-southwest': 247.5, 'west-south-west': 247.5, 'wsw': 247.5,
+  'west': 270, 'w': 270,
+  'west-northwest': 292.5, 'west-north-west': 292.5, 'wnw': 292.5,
+  'northwest': 315, 'north-west': 315, 'nw': 315,
+  'north-northwest': 337.5, 'north-north-west': 337.5, 'nnw': 337.5
+};
+
+// Half the sector width implied by an 8-point or 16-point compass direction
+const EIGHT_POINT_TOLERANCE = 22.5;
+const SIXTEEN_POINT_TOLERANCE = 11.25;
+const NUMERIC_BEARING_TOLERANCE = 5;
+
+// Distances in reports are estimates; never assume better than ±10%
+const MIN_RELATIVE_DISTANCE_ERROR = 0.1;
+
+// Gazetteer points mark a settlement centre rather than where the observer measured from
+const SETTLEMENT_RADIUS_METERS = 1500;
+const AMBIGUOUS_ANCHOR_RADIUS_METERS = 3000;
+
+const DISTANCE = String.raw`(\d+(?:[.,]\d+)?)\s*-?\s*(nautical miles?|nmi|nm|miles?|mi|kilomet(?:er|re)s?|klicks?|kms|km|k|met(?:er|re)s?|m)\b`;
+const COMPASS = Object.keys(COMPASS_POINTS).sort((a, b) => b.length - a.length).join('|');
+const BEARING = String.raw`(?:(?:on|along)\s+)?(?:a\s+)?(?:bearing|azimuth)\s+(?:of\s+)?(\d{1,3}(?:\.\d+)?)\s*(?:°|deg(?:rees)?)?`;
+const CAPITALISED_RUN = String.raw`\p{Lu}[\p{L}'’-]*(?:\s+\p{Lu}[\p{L}'’-]*){0,2}`;
+
+// "10 km north of X", "5km to the south-west of X"
+const COMPASS_PREFIX = new RegExp(`${DISTANCE}\\s+(?:to\\s+the\\s+)?(${COMPASS})(?:wards?)?\\s+(?:of|from)\\s+`, 'giu');
+// "800 m on bearing 120 from X"
+const BEARING_PREFIX = new RegExp(`${DISTANCE}\\s+${BEARING}\\s+(?:true\\s+)?(?:of|from)\\s+`, 'giu');
+// "3 km from X, bearing 045"
+const BEARING_SUFFIX = new RegExp(`${DISTANCE}\\s+from\\s+(${CAPITALISED_RUN})\\s*,?\\s+${BEARING}`, 'gu');
+const ANCHOR_NAME = new RegExp(`^${CAPITALISED_RUN}`, 'u');
+
+const toMeters = (value: string, unit: string): { distance: number; rounding: number } => {
+  const normalized = value.replace(',', '.');
+  const decimals = normalized.includes('.') ? normalized.split('.')[1].length : 0;
+  const unitMeters = UNIT_METERS.find(([pattern]) => pattern.test(unit))?.[1] ?? 1;
+
+  return {
+    distance: parseFloat(normalized) * unitMeters,
+    rounding: 0.5 * Math.pow(10, -decimals) * unitMeters
+  };
+};
+
+/**
+ * Resolve the anchor at the start of `text`: a coordinate in any supported
+ * format, otherwise a capitalised place name looked up in the gazetteer
+ */
+const resolveAnchor = (
+  text: string,
+  { gazetteer, areaOfOperations }: RelativeLocationOptions
+): { name: string; length: number; anchor: RelativeLocation['anchor'] } | null => {
+  const [coords] = findCoordinatesInText(text);
+  if (coords && text.substring(0, coords.index).trim() === '') {
+    return {
+      name: coords.raw,
+      length: coords.index + coords.raw.length,
+      anchor: { latitude: coords.latitude, longitude: coords.longitude, uncertainty: coords.uncertainty }
+    };
+  }
+
+  const nameMatch = text.match(ANCHOR_NAME);
+  if (!nameMatch || !gazetteer) return null;
+
+  // Try the longest capitalised run first, dropping trailing words that are not part of the name
+  const words = nameMatch[0].split(/\s+/);
+  for (let count = words.length; count >= 1; count--) {
+    const name = words.slice(0, count).join(' ');
+    const resolution = resolvePlaceName(name, gazetteer, { areaOfOperations });
+    if (resolution.best) {
+      return {
+        name,
+        length: name.length,
+        anchor: {
+          latitude: resolution.best.entry.latitude,
+          longitude: resolution.best.entry.longitude,
+          uncertainty: resolution.status === 'ambiguous' ? AMBIGUOUS_ANCHOR_RADIUS_METERS : SETTLEMENT_RADIUS_METERS,
+          resolution
+        }
+      };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Combine distance, direction and anchor errors into an ellipse around the projected point
+ */
+const relativeUncertainty = (
+  distance: number,
+  rounding: number,
+  bearing: number,
+  bearingTolerance: number,
+  anchorUncertainty: number
+): UncertaintyEllipse => {
+  const alongTrack = Math.hypot(Math.max(distance * MIN_RELATIVE_DISTANCE_ERROR, rounding), anchorUncertainty);
+  const crossTrack = Math.hypot(distance * Math.tan(bearingTolerance * Math.PI / 180), anchorUncertainty);
+
+  return alongTrack >= crossTrack
+    ? { semiMajorAxis: alongTrack, semiMinorAxis: crossTrack, orientation: normalizeBearing(bearing) % 180 }
+    : { semiMajorAxis: crossTrack, semiMinorAxis: alongTrack, orientation: normalizeBearing(bearing + 90) % 180 };
+};
+
+const buildRelativeLocation = (
+  raw: string,
+  index: number,
+  value: string,
+  unit: string,
+  bearing: number,
+  bearingTolerance: number,
+  anchorName: string,
+  anchor: RelativeLocation['anchor']
+): RelativeLocation => {
+  const { distance, rounding } = toMeters(value, unit);
+  const projected = destinationPoint(anchor.latitude, anchor.longitude, bearing, distance);
+  const ellipse = relativeUncertainty(distance, rounding, bearing, bearingTolerance, anchor.uncertainty);
+
+  return {
+    raw,
+    index,
+    distance,
+    bearing,
+    bearingTolerance,
+    anchorName,
+    anchor,
+    latitude: projected.latitude,
+    longitude: projected.longitude,
+    uncertainty: ellipse.semiMajorAxis,
+    ellipse
+  };
+};
+
+/**
+ * Find and resolve all relative position phrases in a text.
+ * Phrases whose anchor cannot be located are skipped.
+ * @returns Resolved relative locations in order of appearance
+ */
+export const findRelativeLocationsInText = (
+  text: string,
+  options: RelativeLocationOptions = {}
+): RelativeLocation[] => {
+  if (!text) return [];
+
+  const results: RelativeLocation[] = [];
+
+  for (const match of text.matchAll(COMPASS_PREFIX)) {
+    const start = match.index ?? 0;
+    const prefixEnd = start + match[0].length;
+    const resolved = resolveAnchor(text.substring(prefixEnd), options);
+    if (!resolved) continue;
+
+    const direction = match[3].toLowerCase();
+    const bearing = COMPASS_POINTS[direction];
+    const tolerance = bearing % 45 === 0 ? EIGHT_POINT_TOLERANCE : SIXTEEN_POINT_TOLERANCE;
+
+    results.push(buildRelativeLocation(
+      text.substring(start, prefixEnd + resolved.length),
+      start, match[1], match[2], bearing, tolerance, resolved.name, resolved.anchor
+    ));
+  }
+
+  for (const match of text.matchAll(BEARING_PREFIX)) {
+    const start = match.index ?? 0;
+    const prefixEnd = start + match[0].length;
+    const bearing = parseFloat(match[3]);
+    const resolved = bearing < 360 ? resolveAnchor(text.substring(prefixEnd), options) : null;
+    if (!resolved) continue;
+
+    results.push(buildRelativeLocation(
+      text.substring(start, prefixEnd + resolved.length),
+      start, match[1], match[2], bearing, NUMERIC_BEARING_TOLERANCE, resolved.name, resolved.anchor
+    ));
+  }
+
+  for (const match of text.matchAll(BEARING_SUFFIX)) {
+    const start = match.index ?? 0;
+    const bearing = parseFloat(match[4]);
+    const resolved = bearing < 360 ? resolveAnchor(match[3], options) : null;
+    if (!resolved) continue;
+
+    results.push(buildRelativeLocation(
+      match[0], start, match[1], match[2], bearing, NUMERIC_BEARING_TOLERANCE, resolved.name, resolved.anchor
+    ));
+  }
+
+  return results.sort((a, b) => a.index - b.index);
+};
@@ -0,0 +1,115 @@
+// components/military-intelligence/utils/sensorRegistry.ts
+import { getSensorCoverage, getSensors } from '../../../api/intelligenceService';
+import { CollectionSensor, RadarCoverage, SensorStatus } from '../../../type/sigintTypes';
+import { formatDistance } from './coordinateParser';
+import { escapeHtml } from './formatters';
+
+/**
+ * Our own collection sensors, kept in a registry on the backend. Their ids are the
+ * receiverIds in SIGINT data, so each emitter fix can name the sensors behind it,
+ * and their intercept coverage shows collection managers where the blind areas are.
+ */
+
+export const SENSOR_STATUSES: Array<{ value: SensorStatus; label: string; color: string }> = [
+  { value: 'operational', label: 'Operational', color: '#2dd4bf' },
+  { value: 'degraded', label: 'Degraded', color: '#fbbf24' },
+  { value: 'offline', label: 'Offline', color: '#6b7280' }
+];
+
+export const SENSOR_EMITTER_ALTITUDES: Array<{ value: number; label: string }> = [
+  { value: 2, label: '2 m (man-portable)' },
+  { value: 10, label: '10 m (vehicle or mast)' },
+  { value: 30, label: '30 m (tower)' },
+  { value: 300, label: '300 m (low-flying aircraft)' },
+  { value: 3000, label: '3,000 m (aircraft)' }
+];
+
+export const DEFAULT_SENSOR_EMITTER_ALTITUDE = 10;
+
+// Sensors the backend computes coverage for in one request, first by name
+export const MAX_COVERAGE_SENSORS = 20;
+
+export const sensorStatusColor = (status: SensorStatus): string =>
+  SENSOR_STATUSES.find(option => option.value === status)?.color || '#6b7280';
+
+/**
+ * The registry from the backend. Returns an empty list if the backend is unreachable.
+ */
+export const loadSensors = async (): Promise<CollectionSensor[]> => {
+  try {
+    return await getSensors();
+  } catch (error) {
+    console.warn('Unable to load sensors:', error);
+    return [];
+  }
+};
+
+/**
+ * Fetch intercept coverage of the registered sensors against an emitter at the given height
+ * @returns Coverage per sensor, or null if the backend could not compute it
+ */
+export const loadSensorCoverage = async (emitterAltitude: number): Promise<RadarCoverage[] | null> => {
+  try {
+    const response = await getSensorCoverage(emitterAltitude);
+    return response.coverage || [];
+  } catch (error) {
+    console.warn('Unable to compute sensor coverage:', error);
+    return null;
+  }
+};
+
+/**
+ * Receivers behind a fix, named from the registry; receivers that are not registered
+ * keep their receiverId
+ */
+export const contributingSensors = (
+  sensors: CollectionSensor[],
+  receiverIds: string[]
+): Array<{ id: string; name: string; sensor: CollectionSensor | null }> =>
+  receiverIds.map(id => {
+    const sensor = sensors.find(candidate => candidate.id === id) || null;
+    return { id, name: sensor?.name || id, sensor };
+  });
+
+/**
+ * Tooltip lines describing a sensor and, if computed, its coverage
+ */
+export const describeSensor = (sensor: CollectionSensor, coverage?: RadarCoverage): string[] => {
+  const lines = [
+    `${SENSOR_STATUSES.find(option => option.value === sensor.status)?.label || sensor.status} · receiver ${sensor.id}`,
+    `Intercept range ${sensor.maxRangeKm} km, antenna ${sensor.antennaHeight} m`
+  ];
+
+  if (sensor.frequencyBands.length > 0) {
+    lines.push(`Bands: ${sensor.frequencyBands.map(band => `${band.minMHz}–${band.maxMHz} MHz`).join(', ')}`);
+  }
+  if (coverage) {
+    lines.push(coverage.terrainAware
+      ? `Covers to ${formatDistance(coverage.maxRange)}; terrain masks ${Math.round(coverage.maskedFraction * 100)}% of bearings`
+      : `Covers to ${formatDistance(coverage.maxRange)} (radio horizon, no elevation data)`);
+  }
+  if (sensor.notes) {
+    lines.push(sensor.notes);
+  }
+
+  return lines;
+};
+
+/**
+ * Popup section naming the sensors behind an emitter fix; empty when none are known
+ */
+export const contributingSensorsHtml = (sensors: CollectionSensor[], receiverIds: string[]): string => {
+  if (receiverIds.length === 0) return '';
+
+  return `
+    <div class="mt-2 pt-1 border-t border-gray-600">
+      <div class="text-xs text-gray-400">Fix from ${receiverIds.length} sensor${receiverIds.length === 1 ? '' : 's'}</div>
+      ${contributingSensors(sensors, receiverIds).map(({ name, sensor }) => `
+        <div class="text-xs mt-0.5 flex items-center gap-1 text-gray-300">
+          <span class="inline-block w-2 h-2 rounded-full" style="background:${sensor ? sensorStatusColor(sensor.status) : '#4b5563'}"></span>
+          ${escapeHtml(name)}${sensor ? '' : ' <span class="text-gray-500">(not registered)</span>'}
+        </div>
+      `).join('')}
+    </div>
+  `;
+};
@@ -0,0 +1,180 @@
+// components/military-intelligence/utils/systemCatalogue.ts
+import { getSystemCatalogue } from '../../../api/intelligenceService';
+import {
+  CatalogueSystem,
+  CatalogueSystemCategory,
+  CatalogueSystemMobility,
+  CatalogueValueRange
+} from '../../../type/sigintTypes';
+import { escapeHtml } from './formatters';
+
+/**
+ * Reference catalogue of weapon and sensor systems. The backend classifies emitters
+ * against it; the map reads ranges, mobility and aliases from it for coverage and
+ * popups. The EW cell maintains it from the map, or by exchanging JSON exports.
+ */
+
+export const CATALOGUE_CATEGORIES: Array<{ value: CatalogueSystemCategory; label: string }> = [
+  { value: 'radar', label: 'Radar' },
+  { value: 'sam', label: 'Surface-to-air missile' },
+  { value: 'manpads', label: 'MANPADS' },
+  { value: 'communications', label: 'Communications' },
+  { value: 'jammer', label: 'Jammer' },
+  { value: 'other', label: 'Other' }
+];
+
+export const CATALOGUE_MOBILITIES: Array<{ value: CatalogueSystemMobility; label: string }> = [
+  { value: 'static', label: 'Static' },
+  { value: 'relocatable', label: 'Relocatable' },
+  { value: 'mobile', label: 'Mobile' },
+  { value: 'man-portable', label: 'Man-portable' }
+];
+
+/**
+ * The catalogue from the backend. Returns an empty list if the backend is unreachable.
+ */
+export const loadSystemCatalogue = async (): Promise<CatalogueSystem[]> => {
+  try {
+    return await getSystemCatalogue();
+  } catch (error) {
+    console.warn('Unable to load system catalogue:', error);
+    return [];
+  }
+};
+
+const normalizeName = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Every run of consecutive words in the text, joined without separators so that
+// "SA-11" and "SA11" read alike
+const wordRuns = (text: string): Set<string> => {
+  const words = text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  const runs = new Set<string>();
+  words.forEach((_, start) => {
+    let run = '';
+    for (let end = start; end < words.length; end++) {
+      run += words[end];
+      runs.add(run);
+    }
+  });
+  return runs;
+};
+
+/**
+ * Catalogue entry named in free text such as "SA-11 battery" or "Buk-M2",
+ * preferring the longest name or alias found. Names must match whole words, so
+ * "Tor" is found in "Tor-M1 launcher" but not in "motorized".
+ */
+export const findCatalogueSystem = (
+  catalogue: CatalogueSystem[],
+  text: string | undefined
+): CatalogueSystem | null => {
+  const runs = wordRuns(text || '');
+  if (runs.size === 0) return null;
+
+  let best: CatalogueSystem | null = null;
+  let bestLength = 0;
+  catalogue.forEach(system => {
+    [system.name, ...system.aliases].forEach(name => {
+      const candidate = normalizeName(name);
+      if (candidate.length > bestLength && runs.has(candidate)) {
+        best = system;
+        bestLength = candidate.length;
+      }
+    });
+  });
+  return best;
+};
+
+/**
+ * Range to draw for a system in meters: its engagement range, or detection range for sensors
+ */
+export const catalogueSystemRange = (system: CatalogueSystem): number | null => {
+  const rangeKm = system.engagementRangeKm ?? system.detectionRangeKm;
+  return rangeKm ? rangeKm * 1000 : null;
+};
+
+const formatValueRange = (range: CatalogueValueRange, unit: string): string =>
+  range.min === range.max
+    ? `${range.min.toLocaleString()} ${unit}`
+    : `${range.min.toLocaleString()}–${range.max.toLocaleString()} ${unit}`;
+
+/**
+ * Popup lines summarising a catalogue entry
+ */
+export const describeCatalogueSystem = (system: CatalogueSystem): string[] => {
+  const lines: string[] = [];
+
+  const ranges = [
+    system.engagementRangeKm ? `engagement ${system.engagementRangeKm} km` : null,
+    system.detectionRangeKm ? `detection ${system.detectionRangeKm} km` : null
+  ].filter(Boolean);
+  if (ranges.length > 0) {
+    lines.push(`Range: ${ranges.join(', ')}`);
+  }
+
+  const mobility = CATALOGUE_MOBILITIES.find(option => option.value === system.mobility);
+  lines.push(`Mobility: ${mobility?.label || system.mobility}`);
+
+  if (system.frequencyBands.length > 0) {
+    lines.push(`Bands: ${system.frequencyBands
+      .map(band => formatValueRange({ min: band.minMHz, max: band.maxMHz }, 'MHz'))
+      .join(', ')}`);
+  }
+  if (system.aliases.length > 0) {
+    lines.push(`Also known as ${system.aliases.join(', ')}`);
+  }
+
+  return lines;
+};
+
+/**
+ * Catalogue section for a marker popup; empty when the system is not in the catalogue
+ */
+export const catalogueSystemHtml = (system: CatalogueSystem | null): string => {
+  if (!system) return '';
+
+  return `
+    <div class="mt-2 pt-1 border-t border-gray-600">
+      <div class="text-xs text-gray-400">${escapeHtml(system.name)}</div>
+      ${describeCatalogueSystem(system).map(line => `
+        <div class="text-xs mt-0.5 text-gray-300">${escapeHtml(line)}</div>
+      `).join('')}
+    </div>
+  `;
+};
+
+/**
+ * Save the catalogue as a JSON file that can be imported elsewhere
+ */
+export const downloadSystemCatalogue = (catalogue: CatalogueSystem[]): void => {
+  const blob = new Blob([JSON.stringify({ systems: catalogue }, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `system-catalogue-${new Date().toISOString().slice(0, 10)}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Entries in an exported catalogue file, or a bare list of entries. Fields are
+ * validated by the backend on import.
+ * @throws Error if the file is not a catalogue export
+ */
+export const parseCatalogueImport = (text: string): Partial<CatalogueSystem>[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const systems = Array.isArray(parsed) ? parsed : (parsed as { systems?: unknown })?.systems;
+  if (!Array.isArray(systems) || systems.length === 0) {
+    throw new Error('The file holds no catalogue entries');
+  }
+  return systems as Partial<CatalogueSystem>[];
+};
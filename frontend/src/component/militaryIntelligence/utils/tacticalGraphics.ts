@@ -0,0 +1,106 @@
+// components/military-intelligence/utils/tacticalGraphics.ts
+import { TacticalGraphic, TacticalGraphicGeometry, TacticalGraphicKind } from '../../../type/intelligence';
+
+/**
+ * Control measures drawn by the analyst over the intelligence picture: named and
+ * target areas of interest, phase lines, boundaries, objectives and points. They are
+ * stored with the analysis on the backend so they reopen with it and travel with its
+ * exports; a copy is kept in localStorage for when the backend cannot be reached.
+ */
+
+export interface TacticalGraphicKindOption {
+  id: TacticalGraphicKind;
+  label: string;
+  abbreviation: string;
+  geometry: TacticalGraphicGeometry;
+  color: string;
+  dashed: boolean;
+}
+
+export const TACTICAL_GRAPHIC_KINDS: TacticalGraphicKindOption[] = [
+  { id: 'nai', label: 'Named area of interest', abbreviation: 'NAI', geometry: 'polygon', color: '#f59e0b', dashed: false },
+  { id: 'tai', label: 'Target area of interest', abbreviation: 'TAI', geometry: 'polygon', color: '#ef4444', dashed: false },
+  { id: 'objective', label: 'Objective', abbreviation: 'OBJ', geometry: 'polygon', color: '#3b82f6', dashed: false },
+  { id: 'phaseLine', label: 'Phase line', abbreviation: 'PL', geometry: 'line', color: '#e5e7eb', dashed: false },
+  { id: 'boundary', label: 'Boundary', abbreviation: 'BDY', geometry: 'line', color: '#e5e7eb', dashed: true },
+  { id: 'point', label: 'Point', abbreviation: 'PT', geometry: 'point', color: '#e5e7eb', dashed: false }
+];
+
+export const TACTICAL_GRAPHIC_COLORS = ['#e5e7eb', '#3b82f6', '#ef4444', '#f59e0b', '#22c55e', '#a855f7'];
+
+const STORAGE_KEY_PREFIX = 'tacticalGraphics';
+
+const storageKey = (analysisId: string) => `${STORAGE_KEY_PREFIX}:${analysisId}`;
+
+/**
+ * Drawing options for a kind of graphic
+ */
+export const getTacticalGraphicKind = (kind: TacticalGraphicKind): TacticalGraphicKindOption =>
+  TACTICAL_GRAPHIC_KINDS.find(option => option.id === kind) || TACTICAL_GRAPHIC_KINDS[TACTICAL_GRAPHIC_KINDS.length - 1];
+
+/**
+ * Number of points needed before a graphic of this geometry can be finished
+ */
+export const minimumGraphicPoints = (geometry: TacticalGraphicGeometry): number =>
+  geometry === 'polygon' ? 3 : geometry === 'line' ? 2 : 1;
+
+/**
+ * Create a graphic with the default style of its kind, numbered after existing ones
+ * of the same kind (e.g. "NAI 3")
+ */
+export const createTacticalGraphic = (
+  kind: TacticalGraphicKind,
+  coordinates: Array<[number, number]>,
+  existing: TacticalGraphic[] = []
+): TacticalGraphic => {
+  const option = getTacticalGraphicKind(kind);
+  const count = existing.filter(graphic => graphic.kind === kind).length;
+
+  return {
+    id: `graphic-${Date.now()}`,
+    kind,
+    geometry: option.geometry,
+    name: `${option.abbreviation} ${count + 1}`,
+    coordinates,
+    color: option.color,
+    dashed: option.dashed,
+    createdAt: new Date().toISOString()
+  };
+};
+
+/**
+ * Check that a stored or received graphic has a known kind and enough valid points
+ */
+export const isValidTacticalGraphic = (graphic: unknown): graphic is TacticalGraphic => {
+  if (!graphic || typeof graphic !== 'object') return false;
+
+  const { id, kind, geometry, name, coordinates } = graphic as TacticalGraphic;
+  return typeof id === 'string' && typeof name === 'string' &&
+         TACTICAL_GRAPHIC_KINDS.some(option => option.id === kind && option.geometry === geometry) &&
+         Array.isArray(coordinates) && coordinates.length >= minimumGraphicPoints(geometry) &&
+         coordinates.every(point => Array.isArray(point) && point.every(value => typeof value === 'number' && !isNaN(value)));
+};
+
+/**
+ * Load the local copy of the graphics drawn for an analysis; invalid entries are dropped
+ */
+export const loadLocalTacticalGraphics = (analysisId: string): TacticalGraphic[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(analysisId)) || '[]');
+    return Array.isArray(stored) ? stored.filter(isValidTacticalGraphic) : [];
+  } catch (error) {
+    console.warn('Unable to read tactical graphics from storage:', error);
+    return [];
+  }
+};
+
+/**
+ * Keep a local copy of the graphics drawn for an analysis
+ */
+export const saveLocalTacticalGraphics = (analysisId: string, graphics: TacticalGraphic[]): void => {
+  try {
+    localStorage.setItem(storageKey(analysisId), JSON.stringify(graphics));
+  } catch (error) {
+    console.warn('Unable to keep a local copy of the tactical graphics:', error);
+  }
+};
@@ -0,0 +1,283 @@
+// components/military-intelligence/utils/threatHeatmap.ts
+import { QualityScore, ThreatAssessment } from '../../../type/intelligence';
+
+/**
+ * Threat density surface built from HUMINT threat assessments, SIGINT emitters and
+ * OSINT events. Each report spreads its weight over a kernel radius and fades with
+ * age, so the surface shows where danger is concentrated at the time of interest.
+ */
+
+export type HeatSourceKind = 'threat' | 'emitter' | 'event';
+
+export interface HeatSource {
+  kind: HeatSourceKind;
+  latitude: number;
+  longitude: number;
+  weight: number;
+  timestamp?: string;
+}
+
+export interface HeatmapSettings {
+  radiusKm: number;
+  decayHours: number; // half-life of a report's weight
+}
+
+export interface HeatmapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface HeatmapGrid {
+  width: number;
+  height: number;
+  values: Float32Array; // row-major from the north-west corner, 0..1
+}
+
+export const DEFAULT_HEATMAP_SETTINGS: HeatmapSettings = {
+  radiusKm: 8,
+  decayHours: 24
+};
+
+export const HEATMAP_RADIUS_RANGE = { min: 1, max: 50 };
+
+// One hour to one week
+export const HEATMAP_DECAY_RANGE = { min: 1, max: 168 };
+
+// Screen pixels covered by each grid cell; the overlay is smoothed when stretched
+export const HEATMAP_CELL_PIXELS = 4;
+
+const SEVERITY_WEIGHTS: Record<NonNullable<ThreatAssessment['severity']>, number> = {
+  high: 3,
+  medium: 2,
+  low: 1
+};
+
+const IMMEDIACY_WEIGHTS: Record<NonNullable<ThreatAssessment['immediacy']>, number> = {
+  immediate: 1.5,
+  'near-term': 1.2,
+  potential: 1
+};
+
+// Emitters that direct fire outweigh those that only search; the first match applies
+const EMITTER_WEIGHTS: Array<{ pattern: RegExp; weight: number }> = [
+  { pattern: /fire.?control|counter.?battery|target|engagement|guidance/i, weight: 3 },
+  { pattern: /tracking|acquisition/i, weight: 2.5 },
+  { pattern: /jam|electronic.?attack/i, weight: 2 },
+  { pattern: /surveillance|early.?warning|search/i, weight: 1.5 }
+];
+
+// Communications and unclassified emitters
+const DEFAULT_EMITTER_WEIGHT = 1;
+
+const CONFIDENCE_WEIGHTS: Record<QualityScore, number> = {
+  high: 1,
+  medium: 0.75,
+  low: 0.5,
+  fallback: 0.25
+};
+
+// Colour stops from faint yellow to red; alpha rises with density
+const HEAT_RAMP: Array<{ at: number; rgb: [number, number, number] }> = [
+  { at: 0, rgb: [250, 204, 21] },
+  { at: 0.5, rgb: [249, 115, 22] },
+  { at: 1, rgb: [220, 38, 38] }
+];
+
+const MAX_ALPHA = 0.7;
+
+// Densities below this share of the peak are left transparent
+const MIN_VISIBLE_DENSITY = 0.02;
+
+const METERS_PER_DEGREE = 111320;
+
+// Limit of the Web Mercator projection used by the map
+const MAX_MERCATOR_LATITUDE = 85.05;
+
+// Kept per browser, like the area of operations
+const STORAGE_KEY = 'heatmapSettings';
+
+const inRange = (value: unknown, range: { min: number; max: number }): value is number =>
+  typeof value === 'number' && value >= range.min && value <= range.max;
+
+/**
+ * Load heatmap settings; missing or invalid values use defaults
+ */
+export const loadHeatmapSettings = (): HeatmapSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+
+    return {
+      radiusKm: inRange(stored.radiusKm, HEATMAP_RADIUS_RANGE) ? stored.radiusKm : DEFAULT_HEATMAP_SETTINGS.radiusKm,
+      decayHours: inRange(stored.decayHours, HEATMAP_DECAY_RANGE) ? stored.decayHours : DEFAULT_HEATMAP_SETTINGS.decayHours
+    };
+  } catch (error) {
+    console.warn('Unable to read heatmap settings from storage:', error);
+    return DEFAULT_HEATMAP_SETTINGS;
+  }
+};
+
+/**
+ * Persist heatmap settings
+ */
+export const saveHeatmapSettings = (settings: HeatmapSettings): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Weight of a HUMINT threat: severity scaled by immediacy, medium and potential when not given
+ */
+export const threatWeight = (threat: Pick<ThreatAssessment, 'severity' | 'immediacy'>): number =>
+  SEVERITY_WEIGHTS[threat.severity || 'medium'] * IMMEDIACY_WEIGHTS[threat.immediacy || 'potential'];
+
+/**
+ * Weight of a SIGINT emitter from its classification, e.g. 'fire-control-radar'
+ */
+export const emitterWeight = (classification: string | undefined): number =>
+  EMITTER_WEIGHTS.find(({ pattern }) => pattern.test(classification || ''))?.weight ?? DEFAULT_EMITTER_WEIGHT;
+
+/**
+ * Weight of an OSINT event from its confidence
+ */
+export const eventWeight = (confidence: QualityScore | undefined): number =>
+  CONFIDENCE_WEIGHTS[confidence || 'medium'] ?? CONFIDENCE_WEIGHTS.medium;
+
+/**
+ * Share of a report's weight left at the reference time: halved every `decayHours`.
+ * Undated reports, and reports later than the reference time, keep full weight.
+ */
+export const timeDecay = (timestamp: string | undefined, referenceTime: number, decayHours: number): number => {
+  const time = timestamp ? new Date(timestamp).getTime() : NaN;
+  if (isNaN(time) || isNaN(referenceTime) || time >= referenceTime) return 1;
+
+  const ageHours = (referenceTime - time) / 3600000;
+  return Math.pow(0.5, ageHours / decayHours);
+};
+
+/**
+ * Time the surface is computed for when no replay time is set: the latest dated report
+ */
+export const latestSourceTime = (sources: HeatSource[]): number =>
+  sources.reduce((latest, source) => {
+    const time = source.timestamp ? new Date(source.timestamp).getTime() : NaN;
+    return isNaN(time) || time <= latest ? latest : time;
+  }, NaN);
+
+// Quartic (biweight) kernel: smooth, and exactly zero at the radius
+const kernel = (distanceSquared: number, radiusSquared: number): number => {
+  if (distanceSquared >= radiusSquared) return 0;
+  const u = 1 - distanceSquared / radiusSquared;
+  return u * u;
+};
+
+// Web Mercator northing, so grid rows line up with the map they are laid over
+const mercatorY = (latitude: number): number => {
+  const clamped = Math.max(-MAX_MERCATOR_LATITUDE, Math.min(MAX_MERCATOR_LATITUDE, latitude));
+  return Math.log(Math.tan(Math.PI / 4 + clamped * Math.PI / 360));
+};
+
+const latitudeFromMercatorY = (y: number): number => (2 * Math.atan(Math.exp(y)) - Math.PI / 2) * 180 / Math.PI;
+
+// Squared ground distance in meters on a flat projection around the report; adequate over a kernel radius
+const distanceSquared = (point: { latitude: number; longitude: number; cosLat: number }, latitude: number, longitude: number) => {
+  const dy = (latitude - point.latitude) * METERS_PER_DEGREE;
+  const dx = (longitude - point.longitude) * point.cosLat * METERS_PER_DEGREE;
+  return dx * dx + dy * dy;
+};
+
+/**
+ * Kernel density of weighted, time-decayed reports over a grid covering the bounds,
+ * with rows spaced as on the map. Values are scaled by the highest density at any
+ * report, so colours stay the same as the map is panned or zoomed.
+ */
+export const computeHeatmapGrid = (
+  sources: HeatSource[],
+  bounds: HeatmapBounds,
+  width: number,
+  height: number,
+  settings: HeatmapSettings,
+  referenceTime: number
+): HeatmapGrid => {
+  const values = new Float32Array(width * height);
+  const radius = settings.radiusKm * 1000;
+  const radiusSquared = radius * radius;
+  const radiusDegrees = radius / METERS_PER_DEGREE;
+
+  const points = sources
+    .map(source => ({
+      latitude: source.latitude,
+      longitude: source.longitude,
+      cosLat: Math.max(Math.cos(source.latitude * Math.PI / 180), 0.01),
+      weight: source.weight * timeDecay(source.timestamp, referenceTime, settings.decayHours)
+    }))
+    .filter(point => point.weight > 0);
+
+  const peak = points.reduce((highest, point) => Math.max(highest, points.reduce((density, other) =>
+    density + other.weight * kernel(distanceSquared(other, point.latitude, point.longitude), radiusSquared), 0)), 0);
+  if (peak === 0 || width === 0 || height === 0) return { width, height, values };
+
+  const northY = mercatorY(bounds.north);
+  const southY = mercatorY(bounds.south);
+  const rowAt = (latitude: number) => (mercatorY(latitude) - northY) / (southY - northY) * height - 0.5;
+  const columnAt = (longitude: number) => (longitude - bounds.west) / (bounds.east - bounds.west) * width - 0.5;
+
+  const rowLatitudes = Array.from({ length: height }, (_, row) =>
+    latitudeFromMercatorY(northY + (southY - northY) * (row + 0.5) / height));
+  const columnLongitudes = Array.from({ length: width }, (_, column) =>
+    bounds.west + (bounds.east - bounds.west) * (column + 0.5) / width);
+
+  // Each report only touches the cells within its radius
+  points.forEach(point => {
+    const firstRow = Math.max(0, Math.floor(rowAt(point.latitude + radiusDegrees)));
+    const lastRow = Math.min(height - 1, Math.ceil(rowAt(point.latitude - radiusDegrees)));
+    const firstColumn = Math.max(0, Math.floor(columnAt(point.longitude - radiusDegrees / point.cosLat)));
+    const lastColumn = Math.min(width - 1, Math.ceil(columnAt(point.longitude + radiusDegrees / point.cosLat)));
+
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        const density = kernel(distanceSquared(point, rowLatitudes[row], columnLongitudes[column]), radiusSquared);
+        values[row * width + column] += point.weight * density;
+      }
+    }
+  });
+
+  for (let index = 0; index < values.length; index++) {
+    values[index] = Math.min(1, values[index] / peak);
+  }
+
+  return { width, height, values };
+};
+
+const rampColor = (value: number): [number, number, number] => {
+  const upper = HEAT_RAMP.findIndex(stop => stop.at >= value);
+  if (upper <= 0) return HEAT_RAMP[Math.max(upper, 0)].rgb;
+
+  const from = HEAT_RAMP[upper - 1];
+  const to = HEAT_RAMP[upper];
+  const t = (value - from.at) / (to.at - from.at);
+  return from.rgb.map((channel, index) => Math.round(channel + (to.rgb[index] - channel) * t)) as [number, number, number];
+};
+
+/**
+ * Paint a density grid onto a canvas, one pixel per cell, for stretching over the map
+ */
+export const renderHeatmapCanvas = (grid: HeatmapGrid): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = grid.width;
+  canvas.height = grid.height;
+
+  const context = canvas.getContext('2d');
+  if (!context || grid.width === 0 || grid.height === 0) return canvas;
+
+  const image = context.createImageData(grid.width, grid.height);
+  grid.values.forEach((value, index) => {
+    if (value < MIN_VISIBLE_DENSITY) return;
+
+    const [r, g, b] = rampColor(value);
+    image.data.set([r, g, b, Math.round(255 * MAX_ALPHA * Math.sqrt(value))], index * 4);
+  });
+  context.putImageData(image, 0, 0);
+
+  return canvas;
+};
@@ -0,0 +1,179 @@
+// components/military-intelligence/utils/tileSources.ts
+import L, { TileLayer, TileLayerOptions } from './leaflet';
+import { MapTileset } from '../../../type/intelligence';
+import { getMapTilesets, getMapTileUrlTemplate } from '../../../api/intelligenceService';
+
+/**
+ * Base-map tile sources. Built-in sources use public online tile servers; for air-gapped
+ * deployments, tilesets served by the backend (MBTiles or XYZ directories) are picked up
+ * automatically, and analysts can register their own XYZ or WMS servers on the LAN.
+ */
+
+export type TileSourceType = 'xyz' | 'wms';
+
+export type TileSourceOrigin = 'builtin' | 'server' | 'custom';
+
+export interface TileSource {
+  id: string;
+  name: string;
+  type: TileSourceType;
+  url: string;
+  attribution: string;
+  minZoom?: number;
+  maxZoom: number;
+  color: string; // swatch shown in the base map selector
+  layers?: string; // WMS layer names, comma separated
+  format?: string; // WMS image format, e.g. image/png
+  origin: TileSourceOrigin;
+}
+
+export const BUILT_IN_TILE_SOURCES: TileSource[] = [
+  {
+    id: 'dark',
+    name: 'Dark Tactical',
+    type: 'xyz',
+    url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
+    maxZoom: 19,
+    color: '#1a1a1a',
+    origin: 'builtin'
+  },
+  {
+    id: 'satellite',
+    name: 'Satellite',
+    type: 'xyz',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri &mdash; Source: Esri, Maxar, Earthstar Geographics, and the GIS User Community',
+    maxZoom: 19,
+    color: '#143d6b',
+    origin: 'builtin'
+  },
+  {
+    id: 'terrain',
+    name: 'Terrain',
+    type: 'xyz',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Topo_Map/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri &mdash; Esri, DeLorme, NAVTEQ, TomTom, Intermap, USGS and others',
+    maxZoom: 19,
+    color: '#4e7146',
+    origin: 'builtin'
+  }
+];
+
+export const DEFAULT_TILE_SOURCE_ID = 'dark';
+
+const SERVER_SOURCE_COLOR = '#3f3f46';
+const CUSTOM_SOURCE_COLOR = '#1e3a5f';
+
+// Kept per browser, like the area of operations
+const SOURCES_STORAGE_KEY = 'tileSources';
+const ACTIVE_STORAGE_KEY = 'activeTileSource';
+
+/**
+ * Check that a stored or user-entered source has everything Leaflet needs
+ */
+export const isValidTileSource = (source: Partial<TileSource> | null | undefined): source is TileSource => {
+  if (!source || !source.id || !source.name || !source.url) return false;
+  if (source.type !== 'xyz' && source.type !== 'wms') return false;
+  if (typeof source.maxZoom !== 'number' || source.maxZoom < 1 || source.maxZoom > 24) return false;
+
+  // XYZ templates must address tiles; WMS endpoints must name at least one layer
+  return source.type === 'xyz'
+    ? /\{z\}/.test(source.url) && /\{x\}/.test(source.url) && /\{y\}/.test(source.url)
+    : Boolean(source.layers && source.layers.trim());
+};
+
+/**
+ * Load the analyst-registered tile sources
+ */
+export const loadCustomTileSources = (): TileSource[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SOURCES_STORAGE_KEY) || '[]');
+    return Array.isArray(stored)
+      ? stored.filter(isValidTileSource).map(source => ({ ...source, origin: 'custom' as const }))
+      : [];
+  } catch (error) {
+    console.warn('Unable to read tile sources from storage:', error);
+    return [];
+  }
+};
+
+/**
+ * Persist the analyst-registered tile sources
+ */
+export const saveCustomTileSources = (sources: TileSource[]): void => {
+  localStorage.setItem(SOURCES_STORAGE_KEY, JSON.stringify(sources));
+};
+
+/**
+ * Id of the base map the analyst last selected, if any
+ */
+export const loadActiveTileSourceId = (): string | null =>
+  localStorage.getItem(ACTIVE_STORAGE_KEY);
+
+export const saveActiveTileSourceId = (sourceId: string): void => {
+  localStorage.setItem(ACTIVE_STORAGE_KEY, sourceId);
+};
+
+/**
+ * Build a custom source with a fresh id from what the analyst entered
+ */
+export const createCustomTileSource = (
+  fields: Omit<TileSource, 'id' | 'origin' | 'color'> & { color?: string }
+): TileSource => ({
+  ...fields,
+  id: `custom-${Date.now().toString(36)}`,
+  color: fields.color || CUSTOM_SOURCE_COLOR,
+  origin: 'custom'
+});
+
+/**
+ * Turn a backend tileset into a tile source pointing at the backend tile route
+ */
+export const tileSourceFromTileset = (tileset: MapTileset): TileSource => ({
+  id: `server-${tileset.id}`,
+  name: tileset.name,
+  type: 'xyz',
+  url: getMapTileUrlTemplate(tileset),
+  attribution: tileset.attribution,
+  minZoom: tileset.minZoom,
+  maxZoom: tileset.maxZoom,
+  color: SERVER_SOURCE_COLOR,
+  origin: 'server'
+});
+
+/**
+ * Tile sources served by the backend. Returns an empty list if the backend is unreachable.
+ */
+export const loadServerTileSources = async (): Promise<TileSource[]> => {
+  try {
+    const tilesets = await getMapTilesets();
+    return tilesets.map(tileSourceFromTileset);
+  } catch (error) {
+    console.warn('Unable to load backend tilesets:', error);
+    return [];
+  }
+};
+
+/**
+ * Create a Leaflet layer for a tile source
+ */
+export const createTileLayer = (source: TileSource, options: TileLayerOptions = {}): TileLayer => {
+  const layerOptions: TileLayerOptions = {
+    attribution: source.attribution,
+    maxZoom: source.maxZoom,
+    ...(source.minZoom !== undefined && { minZoom: source.minZoom }),
+    ...options
+  };
+
+  if (source.type === 'wms') {
+    return L.tileLayer.wms(source.url, {
+      ...layerOptions,
+      layers: source.layers || '',
+      format: source.format || 'image/png',
+      transparent: false
+    });
+  }
+
+  return L.tileLayer(source.url, layerOptions);
+};
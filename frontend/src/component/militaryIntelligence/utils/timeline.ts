@@ -0,0 +1,260 @@
+// components/military-intelligence/utils/timeline.ts
+import { useMemo } from 'react';
+import { MapTimelineControl } from '../../../type/sigintTypes';
+import { destinationPoint, haversineDistance, initialBearing } from './geodesy';
+
+/**
+ * Helpers for replaying how a situation evolved: the playback window, whether an
+ * item is visible at the replay time, and where a moving emitter was at that time.
+ */
+
+export interface TrackPoint {
+  timestamp: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // meters
+}
+
+// Something that moves along a track, placed at its latest fix
+export interface TrackedEntity {
+  coordinates: { latitude: number; longitude: number };
+  accuracy: number;
+  timestamp: string;
+  heading?: number;
+  track: TrackPoint[];
+}
+
+export interface TrackPosition {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  heading?: number; // degrees true, while between two fixes
+}
+
+export const TIMELINE_WINDOW_HOURS = [24, 48, 72];
+
+// Simulated seconds per real second
+export const PLAYBACK_SPEEDS = [
+  { value: 60, label: '1 min/s' },
+  { value: 600, label: '10 min/s' },
+  { value: 1800, label: '30 min/s' },
+  { value: 3600, label: '1 h/s' }
+];
+
+export const DEFAULT_PLAYBACK_SPEED = 600;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// Date-time group, e.g. "061430Z", "061430ZMAR24" or "061430Z MAR 2024". Zones E, N, S
+// and W are left out so DMS coordinates such as "301530N" are not read as times.
+const DTG_PATTERN = new RegExp(
+  String.raw`\b([0-3]\d)([01]\d|2[0-3])([0-5]\d)\s?([A-DF-IK-MO-RTUVXYZ])(?:\s?(${MONTHS.join('|')})(?:\s?(\d{4}|\d{2}))?)?\b`
+);
+
+// Time of day, e.g. "14:30", "1430 hrs", "1430Z"
+const TIME_OF_DAY_PATTERN = /\b([01]\d|2[0-3]):?([0-5]\d)\s*(?:hrs|hours|h|Z)\b|\b([01]\d|2[0-3]):([0-5]\d)\b/i;
+
+const toTime = (timestamp: string | undefined | null): number => {
+  if (!timestamp) return NaN;
+  return new Date(timestamp).getTime();
+};
+
+/**
+ * UTC offset in hours of a military time zone letter (Z = UTC, A–M east, N–Y west)
+ */
+const zoneOffsetHours = (zone: string): number => {
+  if (zone === 'Z') return 0;
+  if (zone <= 'I') return zone.charCodeAt(0) - 'A'.charCodeAt(0) + 1;
+  if (zone <= 'M') return zone.charCodeAt(0) - 'A'.charCodeAt(0); // J is not used
+  return -(zone.charCodeAt(0) - 'N'.charCodeAt(0) + 1);
+};
+
+/**
+ * Find when an observation was made from the text describing it. Recognizes
+ * date-time groups and times of day (taken as UTC); a time of day is placed on the
+ * latest day that does not put it after the report.
+ * @param reportTimestamp - When the report was filed; used for missing date parts
+ * @returns ISO timestamp, or the report timestamp if the text states no time
+ */
+export const timestampFromText = (text: string | undefined, reportTimestamp: string | undefined): string | undefined => {
+  const reference = toTime(reportTimestamp);
+  if (!text || isNaN(reference)) return reportTimestamp;
+
+  const referenceDate = new Date(reference);
+  const dtg = text.match(DTG_PATTERN);
+
+  if (dtg) {
+    const [, day, hour, minute, zone, month, year] = dtg;
+    const monthIndex = month ? MONTHS.indexOf(month) : referenceDate.getUTCMonth();
+    const fullYear = year
+      ? (year.length === 2 ? 2000 + parseInt(year, 10) : parseInt(year, 10))
+      : referenceDate.getUTCFullYear();
+
+    let time = Date.UTC(fullYear, monthIndex, parseInt(day, 10), parseInt(hour, 10), parseInt(minute, 10)) -
+      zoneOffsetHours(zone) * HOUR_MS;
+
+    // A day-only DTG well after the report refers to the previous month
+    if (!month && time > reference + 24 * HOUR_MS) {
+      time = Date.UTC(fullYear, monthIndex - 1, parseInt(day, 10), parseInt(hour, 10), parseInt(minute, 10)) -
+        zoneOffsetHours(zone) * HOUR_MS;
+    }
+
+    if (!isNaN(time)) return new Date(time).toISOString();
+  }
+
+  const timeOfDay = text.match(TIME_OF_DAY_PATTERN);
+  if (timeOfDay) {
+    const hour = parseInt(timeOfDay[1] ?? timeOfDay[3], 10);
+    const minute = parseInt(timeOfDay[2] ?? timeOfDay[4], 10);
+    let time = Date.UTC(
+      referenceDate.getUTCFullYear(), referenceDate.getUTCMonth(), referenceDate.getUTCDate(), hour, minute
+    );
+    if (time > reference) time -= 24 * HOUR_MS;
+
+    return new Date(time).toISOString();
+  }
+
+  return reportTimestamp;
+};
+
+/**
+ * Whether an item stamped at `timestamp` has happened by the replay time.
+ * Items without a usable timestamp are always shown.
+ */
+export const isVisibleAt = (timestamp: string | undefined | null, currentTime: string | undefined): boolean => {
+  const time = toTime(timestamp);
+  const current = toTime(currentTime);
+  return isNaN(time) || isNaN(current) || time <= current;
+};
+
+/**
+ * Position along a track of timestamped fixes at a given time, interpolated along
+ * the great circle between the surrounding fixes.
+ * @returns The position, or null if the first fix is later than `time`
+ */
+export const positionAlongTrack = (track: TrackPoint[], time: string | undefined): TrackPosition | null => {
+  const fixes = track
+    .filter(point => !isNaN(toTime(point.timestamp)))
+    .sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+
+  if (fixes.length === 0) return null;
+
+  const current = toTime(time);
+  const last = fixes[fixes.length - 1];
+  if (isNaN(current) || current >= toTime(last.timestamp)) {
+    return { latitude: last.latitude, longitude: last.longitude, accuracy: last.accuracy };
+  }
+  if (current < toTime(fixes[0].timestamp)) return null;
+
+  const nextIndex = fixes.findIndex(point => toTime(point.timestamp) > current);
+  const from = fixes[nextIndex - 1];
+  const to = fixes[nextIndex];
+  const fraction = (current - toTime(from.timestamp)) / (toTime(to.timestamp) - toTime(from.timestamp));
+
+  const heading = initialBearing(from.latitude, from.longitude, to.latitude, to.longitude);
+  const distance = haversineDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+  const position = destinationPoint(from.latitude, from.longitude, heading, distance * fraction);
+
+  // Between fixes the position is only as good as the worse of the two
+  const accuracy = from.accuracy !== undefined || to.accuracy !== undefined
+    ? Math.max(from.accuracy ?? 0, to.accuracy ?? 0)
+    : undefined;
+
+  return { ...position, accuracy, heading };
+};
+
+/**
+ * Fixes of a track up to the replay time, for drawing the path travelled so far
+ */
+export const trackUpTo = (track: TrackPoint[], time: string | undefined): TrackPoint[] =>
+  track
+    .filter(point => isVisibleAt(point.timestamp, time))
+    .sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+
+/**
+ * Build a stopped timeline covering `windowHours` up to the latest timestamp in the data,
+ * or up to now if nothing is dated
+ */
+export const createTimelineControl = (
+  timestamps: Array<string | undefined | null>,
+  windowHours: number = TIMELINE_WINDOW_HOURS[0],
+  playbackSpeed: number = DEFAULT_PLAYBACK_SPEED
+): MapTimelineControl => {
+  const times = timestamps.map(toTime).filter(time => !isNaN(time));
+  const end = times.length > 0 ? Math.max(...times) : Date.now();
+  const endTime = new Date(end).toISOString();
+
+  return {
+    startTime: new Date(end - windowHours * HOUR_MS).toISOString(),
+    endTime,
+    currentTime: endTime,
+    isPlaying: false,
+    playbackSpeed
+  };
+};
+
+/**
+ * Length of the playback window in whole hours
+ */
+export const getTimelineWindowHours = (timeline: MapTimelineControl): number =>
+  Math.round((toTime(timeline.endTime) - toTime(timeline.startTime)) / HOUR_MS);
+
+/**
+ * Change the playback window, keeping the replay time inside it
+ */
+export const setTimelineWindow = (timeline: MapTimelineControl, windowHours: number): MapTimelineControl => {
+  const start = toTime(timeline.endTime) - windowHours * HOUR_MS;
+  return {
+    ...timeline,
+    startTime: new Date(start).toISOString(),
+    currentTime: new Date(Math.max(start, toTime(timeline.currentTime))).toISOString()
+  };
+};
+
+/**
+ * Move the replay time to a point in the window, clamped to its ends
+ */
+export const seekTimeline = (timeline: MapTimelineControl, time: number): MapTimelineControl => {
+  const clamped = Math.min(Math.max(time, toTime(timeline.startTime)), toTime(timeline.endTime));
+  return { ...timeline, currentTime: new Date(clamped).toISOString() };
+};
+
+/**
+ * Advance a playing timeline by a span of real time; playback stops at the end of the window
+ */
+export const advanceTimeline = (timeline: MapTimelineControl, elapsedMs: number): MapTimelineControl => {
+  if (!timeline.isPlaying) return timeline;
+
+  const next = seekTimeline(timeline, toTime(timeline.currentTime) + elapsedMs * timeline.playbackSpeed);
+  return next.currentTime === timeline.endTime
+    ? { ...next, isPlaying: false }
+    : next;
+};
+
+/**
+ * Whether the replay time is at the end of the window, i.e. showing the latest picture
+ */
+export const isTimelineLive = (timeline: MapTimelineControl | undefined): boolean =>
+  !timeline || toTime(timeline.currentTime) >= toTime(timeline.endTime);
+
+/**
+ * Tracked entities moved to where they were at the replay time, stamped with the
+ * last fix before it; those first detected later are left out
+ */
+export const useTracksAtTime = <T extends TrackedEntity>(entities: T[], currentTime: string | undefined): T[] =>
+  useMemo(() => entities.flatMap(entity => {
+    const position = positionAlongTrack(entity.track, currentTime);
+    if (!position) return [];
+
+    const lastFix = trackUpTo(entity.track, currentTime).pop();
+
+    return [{
+      ...entity,
+      coordinates: { latitude: position.latitude, longitude: position.longitude },
+      accuracy: position.accuracy ?? entity.accuracy,
+      timestamp: lastFix?.timestamp ?? entity.timestamp,
+      heading: position.heading
+    }];
+  }), [entities, currentTime]);
@@ -0,0 +1,91 @@
+// components/military-intelligence/utils/transliteration.ts
+
+/**
+ * Helpers for comparing place names written in Cyrillic, English romanization
+ * or Czech transcription, e.g. "Мала Данилівка", "Mala Danylivka" and "Malá Danylivka".
+ */
+
+// Ukrainian national (KMU 2010) romanization, with Russian-only letters added
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'h', 'ґ': 'g', 'д': 'd', 'е': 'e', 'є': 'ie',
+  'ж': 'zh', 'з': 'z', 'и': 'y', 'і': 'i', 'ї': 'i', 'й': 'i', 'к': 'k', 'л': 'l',
+  'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't', 'у': 'u',
+  'ф': 'f', 'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ь': '', 'ю': 'iu',
+  'я': 'ia', 'ъ': '', 'ы': 'y', 'э': 'e', 'ё': 'e', '\'': '', '’': '', 'ʼ': ''
+};
+
+// Word-initial forms of iotated vowels (Є, Ї, Й, Ю, Я at the start of a word)
+const CYRILLIC_INITIAL: Record<string, string> = {
+  'є': 'ye', 'ї': 'yi', 'й': 'y', 'ю': 'yu', 'я': 'ya'
+};
+
+// Letter groups that differ between English, Czech, German and Polish transcriptions
+const SKELETON_RULES: Array<[RegExp, string]> = [
+  [/shch|sch|szcz|šč/g, 's'],
+  [/zh|rz|sz/g, 'z'],
+  [/kh|ch/g, 'h'],
+  [/ts|tz|cz/g, 'c'],
+  [/sh/g, 's'],
+  [/g/g, 'h'],
+  [/[yj]([aeiu])/g, '$1'],
+  [/i([aeu])/g, '$1'],
+  [/[yj]/g, 'i'],
+  [/w/g, 'v'],
+  [/(.)\1+/g, '$1']
+];
+
+/**
+ * Transliterate Cyrillic characters to Latin; other characters pass through
+ */
+export const transliterateCyrillic = (text: string): string => {
+  let result = '';
+  let atWordStart = true;
+
+  for (const char of text) {
+    const lower = char.toLowerCase();
+    const mapped = (atWordStart && CYRILLIC_INITIAL[lower]) || CYRILLIC_TO_LATIN[lower];
+
+    if (mapped !== undefined) {
+      result += char !== lower && mapped
+        ? mapped.charAt(0).toUpperCase() + mapped.slice(1)
+        : mapped;
+    } else {
+      result += char;
+    }
+
+    atWordStart = !/\p{L}/u.test(char);
+  }
+
+  return result;
+};
+
+/**
+ * Remove diacritics (Czech á, č, ř, ů, ž, Polish ł, etc.)
+ */
+export const foldDiacritics = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/ł/g, 'l')
+    .replace(/Ł/g, 'L');
+
+/**
+ * Normalize a place name for exact comparison: transliterated, folded,
+ * lowercase, with punctuation and repeated whitespace removed
+ */
+export const normalizePlaceName = (name: string): string =>
+  foldDiacritics(transliterateCyrillic(name))
+    .toLowerCase()
+    .replace(/['’ʼ`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Reduce a normalized name to a transcription-independent skeleton, so that
+ * "Kharkiv", "Charkiv" and "Harkiv" or "Zaporizhzhia" and "Zaporozhye" land close together
+ */
+export const placeNameSkeleton = (name: string): string =>
+  SKELETON_RULES.reduce(
+    (value, [pattern, replacement]) => value.replace(pattern, replacement),
+    normalizePlaceName(name)
+  );
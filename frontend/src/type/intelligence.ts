@@ -56,6 +56,7 @@ export interface ControlZone {
   name: string;
   controllingForce: string;
   boundaries?: string;
+  boundaryPoints?: Array<[number, number]>;
   confidence?: QualityScore;
 }
 
@@ -287,7 +288,7 @@ export interface AdaptedIntelligence {
       name: string;
       controlledBy: string;
       description: string;
-      boundaryPoints: any[];
+      boundaryPoints: Array<[number, number]>;
       confidence: QualityScore;
     }>;
     
@@ -331,4 +332,60 @@ export interface AdaptedIntelligence {
       medium: Prediction[];
       long: Prediction[];
     };
-  }
\ No newline at end of file
+  }
+
+export type MilitaryReportFormat = 'INTSUM' | 'INTREP' | 'NATO' | 'SITREP';
+
+export interface MilitaryFormatOptions {
+  classification?: string;
+  originator?: string;
+  recipient?: string;
+  serialNumber?: string;
+  periodStart?: string;
+  periodEnd?: string;
+  exercise?: string;
+  tacticalGraphics?: TacticalGraphic[];
+}
+
+export interface MilitaryFormatReport {
+  format: MilitaryReportFormat;
+  analysisId: string;
+  reportId?: string;
+  title: string;
+  classification: string;
+  dtg: string;
+  sections: Array<{
+    heading: string;
+    lines: string[];
+  }>;
+  content: string;
+  timestamp: string;
+}
+
+export type TacticalGraphicKind = 'nai' | 'tai' | 'phaseLine' | 'boundary' | 'objective' | 'point';
+
+export type TacticalGraphicGeometry = 'point' | 'line' | 'polygon';
+
+export interface TacticalGraphic {
+  id: string;
+  kind: TacticalGraphicKind;
+  geometry: TacticalGraphicGeometry;
+  name: string;
+  coordinates: Array<[number, number]>; // [lat, lng]
+  color: string;
+  dashed: boolean;
+  remarks?: string;
+  createdAt: string;
+}
+
+export interface MapTileset {
+  id: string;
+  type: 'mbtiles' | 'xyz';
+  name: string;
+  description: string;
+  attribution: string;
+  format: 'png' | 'jpg' | 'webp';
+  minZoom: number;
+  maxZoom: number;
+  bounds: [number, number, number, number] | null; // west, south, east, north
+}
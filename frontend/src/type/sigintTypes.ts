@@ -18,12 +18,24 @@ export interface EmitterClassification {
   capabilities?: string[];
 }
 
+// Direction-finding bearing from one receiver that a fix was triangulated from
+export interface LineOfBearing {
+  signalId: string;
+  receiverId?: string;
+  receiverLocation: { lat: number; lng: number };
+  bearing: number; // degrees true from the receiver
+  signalStrength?: number; // dBm
+  timestamp?: string;
+}
+
 export interface EmitterLocation {
   timestamp: string;
   coordinates: Coordinates;
   altitude?: number;
   accuracy: number; // meters of potential error
   confidence: QualityScore;
+  bearings?: LineOfBearing[];
+  receiverIds?: string[]; // receivers whose intercepts contributed to the fix
 }
 
 export interface EmitterMovement {
@@ -38,6 +50,7 @@ export interface EmitterMovement {
 
 export interface RadarEmitter {
   id: string;
+  emitterId?: string; // track ID as the backend returns it
   firstDetected: string;
   lastDetected: string;
   classification: EmitterClassification;
@@ -63,6 +76,176 @@ export interface SigintAnalysisResponse {
   };
 }
 
+// Air defence radar whose terrain-limited coverage is requested
+export interface RadarCoverageElement {
+  id: string;
+  latitude: number;
+  longitude: number;
+  range: number; // meters
+  antennaHeight?: number; // meters above ground
+}
+
+export interface RadarCoverage {
+  id: string;
+  polygon: Array<[number, number]>;
+  maxRange: number; // meters
+  horizonRange: number; // smooth-earth radar horizon, meters
+  antennaHeight: number;
+  siteElevation: number | null; // null where no elevation data covers the site
+  targetAltitude: number; // meters above ground
+  terrainAware: boolean;
+  maskedFraction: number; // share of bearings cut short by terrain
+}
+
+export interface RadarCoverageResponse {
+  success: boolean;
+  timestamp: string;
+  targetAltitude: number;
+  coverage: RadarCoverage[];
+}
+
+// Reference entry for a weapon or sensor system, kept current by the EW cell
+export type CatalogueSystemCategory = 'radar' | 'sam' | 'manpads' | 'communications' | 'jammer' | 'other';
+export type CatalogueSystemMobility = 'static' | 'relocatable' | 'mobile' | 'man-portable';
+
+export interface CatalogueValueRange {
+  min: number;
+  max: number;
+}
+
+export interface CatalogueSystem {
+  id: string;
+  name: string;
+  aliases: string[];
+  category: CatalogueSystemCategory;
+  role: string; // emitter classification, e.g. fire-control-radar
+  frequencyBands: Array<{ minMHz: number; maxMHz: number }>;
+  priRangeUs: CatalogueValueRange | null; // pulse repetition interval, microseconds
+  pulseWidthRangeUs: CatalogueValueRange | null; // microseconds
+  detectionRangeKm: number | null;
+  engagementRangeKm: number | null;
+  mobility: CatalogueSystemMobility;
+  notes?: string;
+  updatedAt?: string;
+}
+
+export interface SystemCatalogueImportResult {
+  success: boolean;
+  added: number;
+  updated: number;
+  systems: CatalogueSystem[];
+}
+
+// One of our own collection assets; its id is the receiverId its intercepts report
+export type SensorStatus = 'operational' | 'degraded' | 'offline';
+
+export interface CollectionSensor {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  antennaHeight: number; // meters above ground
+  maxRangeKm: number; // intercept range against a typical emitter
+  frequencyBands: Array<{ minMHz: number; maxMHz: number }>;
+  status: SensorStatus;
+  notes?: string;
+  updatedAt?: string;
+}
+
+export interface SensorCoverageResponse {
+  success: boolean;
+  timestamp: string;
+  emitterAltitude: number;
+  coverage: RadarCoverage[]; // one per sensor that is not offline, by sensor id
+}
+
+// One detection of an emitter, or the average of the detections in a time bucket
+export interface EmitterDetectionPoint {
+  timestamp: string;
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null; // meters
+  confidence?: string; // raw detections only
+  frequency: number | null; // MHz
+  power: number | null; // received signal strength, dBm
+  signalCount: number;
+  receivers: string[];
+  detections: number;
+}
+
+export type EmitterTimeSeriesResolution = 'raw' | '1m' | '5m' | '15m' | '1h' | '6h' | '1d';
+
+export interface EmitterStatisticRange {
+  min: number;
+  max: number;
+  mean: number;
+}
+
+export interface EmitterCharacteristicsResponse {
+  emitterId: string;
+  classification: string;
+  platformAssessment: {
+    type: string;
+    model: string;
+    confidence: string;
+    mobility: string;
+  };
+  characteristics: Record<string, unknown>;
+  firstDetection: string;
+  lastDetection: string;
+  statistics: {
+    detectionCount: number;
+    signalCount: number;
+    frequency: EmitterStatisticRange | null;
+    power: EmitterStatisticRange | null;
+    accuracy: EmitterStatisticRange | null;
+    receivers: string[];
+  };
+  detections: EmitterDetectionPoint[]; // most recent first
+}
+
+export interface EmitterTimeSeriesResponse {
+  emitterId: string;
+  resolution: EmitterTimeSeriesResolution;
+  startTime: string | null;
+  endTime: string | null;
+  points: EmitterDetectionPoint[]; // oldest first
+}
+
+// Where an emitter is expected to be, projected from its velocity vector
+export interface EmitterPredictionOptions {
+  timeframe: number; // minutes ahead
+  intervals: number; // predicted positions over the timeframe
+  confidenceLevel: number; // probability the emitter lies within each radius, 0.5-0.99
+}
+
+export interface PredictedEmitterPosition {
+  timestamp: string;
+  minutesAhead: number;
+  latitude: number;
+  longitude: number;
+  radius: number; // meters, at the requested confidence
+}
+
+export interface EmitterPredictionResponse {
+  emitterId: string;
+  generatedAt: string;
+  origin: {
+    timestamp: string;
+    latitude: number;
+    longitude: number;
+    accuracy: number; // meters
+  };
+  velocity: {
+    speed: number; // m/s
+    direction: number; // degrees true
+    reliability: 'high' | 'medium' | 'low';
+    mobilityType: string;
+  };
+  confidenceLevel: number;
+  predictions: PredictedEmitterPosition[];
+}
+
 // Fusion types - connecting HUMINT and SIGINT
 export interface CorrelationStrength {
   value: number; // 0.0 to 1.0
@@ -73,11 +256,78 @@ export interface CorrelationStrength {
   };
 }
 
+// Analyst decision on a correlation; later fusion runs respect it
+export interface CorrelationReview {
+  verified: boolean | null; // true confirmed, false rejected, null pending
+  manualConfidence: number | null; // replaces the computed score when set
+  notes: string;
+  reviewedBy: string | null;
+  reviewedAt: string;
+}
+
+export interface CorrelationFactorResult {
+  score: number; // 0.0 to 1.0
+  reason: string;
+}
+
+// Correlation of a HUMINT entity with a SIGINT emitter as returned by a fusion run
+export interface FusionCorrelationResult {
+  id: string; // stable across runs on the same data
+  humintEntityId: string;
+  sigintEmitterId: string;
+  humintEntity?: {
+    type?: string;
+    description?: string;
+    location?: { name?: string };
+  };
+  sigintEntity?: {
+    emitterId?: string;
+    type?: string;
+    subtype?: string;
+  };
+  spatialCorrelation: CorrelationFactorResult;
+  temporalCorrelation: CorrelationFactorResult;
+  semanticCorrelation: CorrelationFactorResult;
+  score: number; // after any manual re-weighting
+  automaticScore: number;
+  confidence: QualityScore;
+  review: CorrelationReview | null;
+}
+
+// Plain-language rationale for fusing, or not fusing, a correlated pair
+export interface CorrelationExplanation {
+  id: string;
+  humintEntityId: string;
+  sigintEmitterId: string;
+  score: number;
+  fused: boolean;
+  narrative: string;
+  factors: Array<{
+    factor: 'spatial' | 'temporal' | 'semantic';
+    score: number;
+    text: string;
+  }>;
+  labels: { humint: string; sigint: string };
+  source: 'llm' | 'template'; // template when the LLM was unavailable or not asked
+  review: CorrelationReview | null;
+  generatedAt: string;
+}
+
 export interface EntityCorrelation {
+  id?: string;
   humintEntityId: string;
   sigintEmitterId: string;
+  humintLabel?: string;
+  sigintLabel?: string;
   strength: CorrelationStrength;
+  automaticScore?: number;
   correlationType: 'confirmed' | 'probable' | 'possible';
+  reasons?: {
+    spatial: string;
+    temporal: string;
+    semantic: string;
+  };
+  review?: CorrelationReview | null;
   notes?: string;
 }
 
@@ -90,6 +340,22 @@ export interface FusedEntity {
   location?: Location;
   lastUpdated: string;
   correlations: EntityCorrelation[];
+  correlation?: { id?: string; score: number; factors: string[] } | null; // as sent by the backend
+}
+
+// Region a fusion run is restricted to: a box, optionally narrowed to a polygon inside it
+export interface FusionFocusArea {
+  northEast: [number, number];
+  southWest: [number, number];
+  polygon?: Array<[number, number]>;
+}
+
+export interface FusionSummary {
+  humintEntityCount: number;
+  sigintEntityCount: number;
+  correlationsFound: number;
+  predictionsGenerated: number;
+  confidenceLevel: QualityScore;
 }
 
 export interface FusionAnalysisResponse {
@@ -98,13 +364,19 @@ export interface FusionAnalysisResponse {
   humintAnalysisId: string;
   sigintAnalysisId: string;
   fusedEntities: FusedEntity[];
+  correlations?: FusionCorrelationResult[];
+  summary?: FusionSummary;
+  scope?: {
+    focusArea: FusionFocusArea | null;
+    maxEntities: number | null;
+  };
 }
 
 // Map visualization types
 export interface LayerControl {
   id: string;
   label: string;
-  type: 'humint' | 'sigint' | 'fusion' | 'prediction';
+  type: 'humint' | 'sigint' | 'fusion' | 'prediction' | 'zones' | 'heatmap' | 'coverage' | 'sensors' | 'graphics';
   isVisible: boolean;
   icon?: string;
 }